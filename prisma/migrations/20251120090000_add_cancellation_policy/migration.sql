@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "refundAmount" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "CancellationSlab" (
+    "id" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "minHoursBeforeDeparture" DOUBLE PRECISION NOT NULL,
+    "refundPercentage" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CancellationSlab_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CancellationSlab_adminId_idx" ON "CancellationSlab"("adminId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CancellationSlab_adminId_minHoursBeforeDeparture_key" ON "CancellationSlab"("adminId", "minHoursBeforeDeparture");
+
+-- AddForeignKey
+ALTER TABLE "CancellationSlab" ADD CONSTRAINT "CancellationSlab_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "SeatHold" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "seatId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "paymentId" TEXT,
+    "fromStopIndex" INTEGER NOT NULL,
+    "toStopIndex" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "releasedAt" TIMESTAMP(3),
+    "releaseReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SeatHold_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SeatHold_tripId_releasedAt_expiresAt_idx" ON "SeatHold"("tripId", "releasedAt", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "SeatHold_paymentId_idx" ON "SeatHold"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "SeatHold_expiresAt_idx" ON "SeatHold"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "SeatHold" ADD CONSTRAINT "SeatHold_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SeatHold" ADD CONSTRAINT "SeatHold_seatId_fkey" FOREIGN KEY ("seatId") REFERENCES "Seat"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SeatHold" ADD CONSTRAINT "SeatHold_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SeatHold" ADD CONSTRAINT "SeatHold_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
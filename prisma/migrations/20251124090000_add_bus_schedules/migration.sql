@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "TripDirection" AS ENUM ('FORWARD', 'RETURN');
+
+-- CreateTable
+CREATE TABLE "BusSchedule" (
+    "id" TEXT NOT NULL,
+    "busId" TEXT NOT NULL,
+    "direction" "TripDirection" NOT NULL DEFAULT 'FORWARD',
+    "departureTime" TEXT NOT NULL,
+    "label" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BusSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- DropIndex
+DROP INDEX "Trip_busId_tripDate_key";
+
+-- AlterTable
+ALTER TABLE "Trip" ADD COLUMN "scheduleId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BusSchedule_busId_direction_departureTime_key" ON "BusSchedule"("busId", "direction", "departureTime");
+
+-- CreateIndex
+CREATE INDEX "BusSchedule_busId_isActive_idx" ON "BusSchedule"("busId", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Trip_scheduleId_tripDate_key" ON "Trip"("scheduleId", "tripDate");
+
+-- CreateIndex
+-- Buses without schedules keep a single trip per day (not expressible in Prisma)
+CREATE UNIQUE INDEX "Trip_busId_tripDate_unscheduled_key" ON "Trip"("busId", "tripDate") WHERE "scheduleId" IS NULL;
+
+-- AddForeignKey
+ALTER TABLE "BusSchedule" ADD CONSTRAINT "BusSchedule_busId_fkey" FOREIGN KEY ("busId") REFERENCES "Bus"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Trip" ADD CONSTRAINT "Trip_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "BusSchedule"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "RouteVersion" (
+    "id" TEXT NOT NULL,
+    "busId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "effectiveFrom" DATE NOT NULL,
+    "supersededAt" TIMESTAMP(3),
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RouteVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- Existing routes become version 1, covering every date
+INSERT INTO "RouteVersion" ("id", "busId", "version", "effectiveFrom")
+SELECT gen_random_uuid()::text, "id", 1, DATE '1970-01-01' FROM "Bus";
+
+-- AlterTable
+ALTER TABLE "Stop" ADD COLUMN "routeVersionId" TEXT;
+
+UPDATE "Stop" s
+SET "routeVersionId" = rv."id"
+FROM "RouteVersion" rv
+WHERE rv."busId" = s."busId";
+
+ALTER TABLE "Stop" ALTER COLUMN "routeVersionId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Trip" ADD COLUMN "routeVersionId" TEXT;
+
+UPDATE "Trip" t
+SET "routeVersionId" = rv."id"
+FROM "RouteVersion" rv
+WHERE rv."busId" = t."busId";
+
+ALTER TABLE "Trip" ALTER COLUMN "routeVersionId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "Stop_busId_stopIndex_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Stop_routeVersionId_stopIndex_key" ON "Stop"("routeVersionId", "stopIndex");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RouteVersion_busId_version_key" ON "RouteVersion"("busId", "version");
+
+-- CreateIndex
+CREATE INDEX "RouteVersion_busId_effectiveFrom_idx" ON "RouteVersion"("busId", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "RouteVersion" ADD CONSTRAINT "RouteVersion_busId_fkey" FOREIGN KEY ("busId") REFERENCES "Bus"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Stop" ADD CONSTRAINT "Stop_routeVersionId_fkey" FOREIGN KEY ("routeVersionId") REFERENCES "RouteVersion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Trip" ADD CONSTRAINT "Trip_routeVersionId_fkey" FOREIGN KEY ("routeVersionId") REFERENCES "RouteVersion"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
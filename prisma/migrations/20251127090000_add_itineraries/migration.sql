@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "BookingGroup" ADD COLUMN "itineraryId" TEXT,
+ADD COLUMN "legNumber" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Itinerary" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "transferCity" TEXT NOT NULL,
+    "layoverMinutes" INTEGER NOT NULL,
+    "totalPrice" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Itinerary_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Itinerary_paymentId_key" ON "Itinerary"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "Itinerary_userId_idx" ON "Itinerary"("userId");
+
+-- CreateIndex
+CREATE INDEX "BookingGroup_itineraryId_idx" ON "BookingGroup"("itineraryId");
+
+-- AddForeignKey
+ALTER TABLE "BookingGroup" ADD CONSTRAINT "BookingGroup_itineraryId_fkey" FOREIGN KEY ("itineraryId") REFERENCES "Itinerary"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Itinerary" ADD CONSTRAINT "Itinerary_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Itinerary" ADD CONSTRAINT "Itinerary_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
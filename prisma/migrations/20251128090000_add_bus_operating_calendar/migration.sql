@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Bus" ADD COLUMN     "operatingDays" INTEGER[] DEFAULT ARRAY[0, 1, 2, 3, 4, 5, 6]::INTEGER[],
+ADD COLUMN     "operatingFrom" DATE,
+ADD COLUMN     "operatingUntil" DATE;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "PricingAdjustmentType" AS ENUM ('PERCENTAGE', 'FIXED_AMOUNT');
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "baseFare" DOUBLE PRECISION,
+ADD COLUMN     "fare" DOUBLE PRECISION,
+ADD COLUMN     "pricingRuleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "PricingRule" (
+    "id" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "busId" TEXT,
+    "name" TEXT NOT NULL,
+    "daysOfWeek" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "startDate" DATE,
+    "endDate" DATE,
+    "minOccupancyPercent" DOUBLE PRECISION,
+    "minLeadHours" DOUBLE PRECISION,
+    "maxLeadHours" DOUBLE PRECISION,
+    "adjustmentType" "PricingAdjustmentType" NOT NULL,
+    "adjustmentValue" DOUBLE PRECISION NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PricingRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PricingRule_adminId_isActive_idx" ON "PricingRule"("adminId", "isActive");
+
+-- CreateIndex
+CREATE INDEX "PricingRule_busId_idx" ON "PricingRule"("busId");
+
+-- AddForeignKey
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_pricingRuleId_fkey" FOREIGN KEY ("pricingRuleId") REFERENCES "PricingRule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PricingRule" ADD CONSTRAINT "PricingRule_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PricingRule" ADD CONSTRAINT "PricingRule_busId_fkey" FOREIGN KEY ("busId") REFERENCES "Bus"("id") ON DELETE CASCADE ON UPDATE CASCADE;
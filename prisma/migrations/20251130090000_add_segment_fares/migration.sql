@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "SegmentFare" (
+    "id" TEXT NOT NULL,
+    "routeVersionId" TEXT NOT NULL,
+    "fromStopId" TEXT NOT NULL,
+    "toStopId" TEXT NOT NULL,
+    "seatType" "SeatType" NOT NULL,
+    "seatLevel" "SeatLevel" NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SegmentFare_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SegmentFare_routeVersionId_idx" ON "SegmentFare"("routeVersionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SegmentFare_fromStopId_toStopId_seatType_seatLevel_key" ON "SegmentFare"("fromStopId", "toStopId", "seatType", "seatLevel");
+
+-- AddForeignKey
+ALTER TABLE "SegmentFare" ADD CONSTRAINT "SegmentFare_routeVersionId_fkey" FOREIGN KEY ("routeVersionId") REFERENCES "RouteVersion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SegmentFare" ADD CONSTRAINT "SegmentFare_fromStopId_fkey" FOREIGN KEY ("fromStopId") REFERENCES "Stop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SegmentFare" ADD CONSTRAINT "SegmentFare_toStopId_fkey" FOREIGN KEY ("toStopId") REFERENCES "Stop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
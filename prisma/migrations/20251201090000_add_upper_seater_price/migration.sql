@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Stop" ADD COLUMN     "upperSeaterPrice" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Upper seaters were priced from "priceFromOrigin" until now; keep their fares
+UPDATE "Stop" SET "upperSeaterPrice" = "priceFromOrigin";
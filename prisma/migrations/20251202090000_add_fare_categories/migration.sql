@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "PassengerCategory" AS ENUM ('ADULT', 'CHILD', 'SENIOR', 'STUDENT', 'INFANT');
+
+-- AlterTable
+ALTER TABLE "Passenger" ADD COLUMN     "category" "PassengerCategory" NOT NULL DEFAULT 'ADULT',
+ADD COLUMN     "idProofNumber" TEXT;
+
+-- CreateTable
+CREATE TABLE "LapInfant" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "age" INTEGER NOT NULL,
+    "gender" "Gender" NOT NULL,
+    "fare" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LapInfant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FareCategory" (
+    "id" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "category" "PassengerCategory" NOT NULL,
+    "minAge" INTEGER,
+    "maxAge" INTEGER,
+    "requiresIdProof" BOOLEAN NOT NULL DEFAULT false,
+    "adjustmentType" "PricingAdjustmentType" NOT NULL,
+    "adjustmentValue" DOUBLE PRECISION NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FareCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LapInfant_bookingId_idx" ON "LapInfant"("bookingId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FareCategory_adminId_category_key" ON "FareCategory"("adminId", "category");
+
+-- AddForeignKey
+ALTER TABLE "LapInfant" ADD CONSTRAINT "LapInfant_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FareCategory" ADD CONSTRAINT "FareCategory_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,76 @@
+-- CreateEnum
+CREATE TYPE "GroupBookingStatus" AS ENUM ('REQUESTED', 'QUOTED', 'DEPOSIT_PAID', 'CONFIRMED', 'REJECTED', 'EXPIRED', 'CANCELLED');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'GROUP_BOOKING_UPDATE';
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "groupBookingRequestId" TEXT;
+
+-- AlterTable
+ALTER TABLE "SeatHold" ADD COLUMN     "groupBookingRequestId" TEXT;
+
+-- CreateTable
+CREATE TABLE "GroupBookingRequest" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "fromStopId" TEXT NOT NULL,
+    "toStopId" TEXT NOT NULL,
+    "seatCount" INTEGER NOT NULL,
+    "isCharter" BOOLEAN NOT NULL DEFAULT false,
+    "organizationName" TEXT NOT NULL,
+    "contactPhone" TEXT NOT NULL,
+    "notes" TEXT,
+    "status" "GroupBookingStatus" NOT NULL DEFAULT 'REQUESTED',
+    "quotedPrice" DOUBLE PRECISION,
+    "depositAmount" DOUBLE PRECISION,
+    "quoteExpiresAt" TIMESTAMP(3),
+    "balanceDueAt" TIMESTAMP(3),
+    "operatorNote" TEXT,
+    "amountPaid" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "bookingGroupId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GroupBookingRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GroupBookingRequest_bookingGroupId_key" ON "GroupBookingRequest"("bookingGroupId");
+
+-- CreateIndex
+CREATE INDEX "GroupBookingRequest_tripId_status_idx" ON "GroupBookingRequest"("tripId", "status");
+
+-- CreateIndex
+CREATE INDEX "GroupBookingRequest_userId_idx" ON "GroupBookingRequest"("userId");
+
+-- CreateIndex
+CREATE INDEX "GroupBookingRequest_status_quoteExpiresAt_idx" ON "GroupBookingRequest"("status", "quoteExpiresAt");
+
+-- CreateIndex
+CREATE INDEX "Payment_groupBookingRequestId_idx" ON "Payment"("groupBookingRequestId");
+
+-- CreateIndex
+CREATE INDEX "SeatHold_groupBookingRequestId_idx" ON "SeatHold"("groupBookingRequestId");
+
+-- AddForeignKey
+ALTER TABLE "SeatHold" ADD CONSTRAINT "SeatHold_groupBookingRequestId_fkey" FOREIGN KEY ("groupBookingRequestId") REFERENCES "GroupBookingRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GroupBookingRequest" ADD CONSTRAINT "GroupBookingRequest_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GroupBookingRequest" ADD CONSTRAINT "GroupBookingRequest_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GroupBookingRequest" ADD CONSTRAINT "GroupBookingRequest_fromStopId_fkey" FOREIGN KEY ("fromStopId") REFERENCES "Stop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GroupBookingRequest" ADD CONSTRAINT "GroupBookingRequest_toStopId_fkey" FOREIGN KEY ("toStopId") REFERENCES "Stop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GroupBookingRequest" ADD CONSTRAINT "GroupBookingRequest_bookingGroupId_fkey" FOREIGN KEY ("bookingGroupId") REFERENCES "BookingGroup"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_groupBookingRequestId_fkey" FOREIGN KEY ("groupBookingRequestId") REFERENCES "GroupBookingRequest"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Bus" ADD COLUMN     "enforceGenderAdjacency" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Seat" ADD COLUMN     "isLadiesOnly" BOOLEAN NOT NULL DEFAULT false;
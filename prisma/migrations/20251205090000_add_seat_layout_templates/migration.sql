@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "SeatLayoutTemplate" (
+    "id" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "gridRows" INTEGER NOT NULL,
+    "gridColumns" INTEGER NOT NULL,
+    "lowerDeckGrid" JSONB NOT NULL,
+    "upperDeckGrid" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SeatLayoutTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SeatLayoutTemplate_adminId_name_key" ON "SeatLayoutTemplate"("adminId", "name");
+
+-- AddForeignKey
+ALTER TABLE "SeatLayoutTemplate" ADD CONSTRAINT "SeatLayoutTemplate_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'SEAT_CHANGED';
+
+-- AlterTable
+ALTER TABLE "Seat" ADD COLUMN     "retiredAt" TIMESTAMP(3);
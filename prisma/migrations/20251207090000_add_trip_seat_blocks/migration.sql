@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "TripSeatBlock" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "seatId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdBy" TEXT,
+    "releaseAt" TIMESTAMP(3),
+    "releasedAt" TIMESTAMP(3),
+    "releaseReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TripSeatBlock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TripSeatBlock_tripId_releasedAt_idx" ON "TripSeatBlock"("tripId", "releasedAt");
+
+-- CreateIndex
+CREATE INDEX "TripSeatBlock_releaseAt_idx" ON "TripSeatBlock"("releaseAt");
+
+-- AddForeignKey
+ALTER TABLE "TripSeatBlock" ADD CONSTRAINT "TripSeatBlock_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TripSeatBlock" ADD CONSTRAINT "TripSeatBlock_seatId_fkey" FOREIGN KEY ("seatId") REFERENCES "Seat"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "lastReconciledAt" TIMESTAMP(3);
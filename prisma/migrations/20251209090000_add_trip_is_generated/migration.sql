@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Trip" ADD COLUMN     "isGenerated" BOOLEAN NOT NULL DEFAULT false;
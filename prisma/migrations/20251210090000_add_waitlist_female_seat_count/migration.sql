@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "WaitlistEntry" ADD COLUMN     "femaleSeatCount" INTEGER NOT NULL DEFAULT 0;
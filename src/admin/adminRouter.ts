@@ -13,7 +13,98 @@ import {
   mapOfferWithUsage,
   sanitizeApplicableBusesForAdmin,
 } from "../services/offerService.js";
-import { DiscountType, OfferCreatorRole } from "@prisma/client";
+import {
+  getCancellationPolicy,
+  replaceCancellationPolicy,
+  resetCancellationPolicy,
+} from "../services/booking/cancellationService.js";
+import {
+  markRefundProcessed,
+  retryRefund,
+  serializeRefund,
+} from "../services/payment/refundService.js";
+import { cancelTripWithBookings } from "../services/booking/tripCancellationService.js";
+import {
+  createRouteVersion,
+  findRouteVersionForDate,
+  getRouteVersionDiff,
+  latestRouteStopsWhere,
+  serializeRouteVersion,
+} from "../services/booking/routeVersionService.js";
+import { promoteBusWaitlists } from "../services/booking/waitlistService.js";
+import { getAdjacentSeatIds } from "../services/booking/seatRuleService.js";
+import {
+  applyLayoutTemplate,
+  assertUpperSeatersPriced,
+  countLayoutSeats,
+  createLayoutTemplate,
+  deleteLayoutTemplate,
+  findOwnedBusWithSeats,
+  getBusTypeForSeats,
+  getLayoutTemplate,
+  listLayoutTemplates,
+  parseSeatLayout,
+  planSeatLayoutChange,
+  saveSeatLayout,
+  SeatLayoutError,
+  serializeLayoutTemplate,
+  syncBusSeats,
+  validateSeatLayout,
+} from "../services/booking/seatLayoutService.js";
+import { cloneBus } from "../services/booking/busCloneService.js";
+import {
+  findTripForDate,
+  isValidScheduleTime,
+  serializeSchedule,
+} from "../services/booking/tripScheduleService.js";
+import {
+  createTripIfMissing,
+  TripGenerationError,
+  planTripHorizon,
+  refreshTripHorizon,
+  regenerateTripHorizon,
+  serializeOperatingCalendar,
+  serializeTripHorizon,
+  updateOperatingCalendar,
+} from "../services/booking/tripGenerationService.js";
+import {
+  clearFareMatrix,
+  getFareMatrix,
+  updateFareMatrix,
+} from "../services/booking/fareMatrixService.js";
+import {
+  deleteFareCategory,
+  listFareCategories,
+  serializeFareCategory,
+  upsertFareCategory,
+} from "../services/booking/fareCategoryService.js";
+import {
+  createPricingRule,
+  deletePricingRule,
+  listPricingRules,
+  serializePricingRule,
+  updatePricingRule,
+} from "../services/booking/pricingRuleService.js";
+import {
+  cancelGroupBooking,
+  getOperatorGroupBookings,
+  quoteGroupBooking,
+  rejectGroupBooking,
+  serializeGroupBooking,
+} from "../services/booking/groupBookingService.js";
+import {
+  blockTripSeats,
+  listTripSeatBlocks,
+  releaseSeatBlock,
+  serializeSeatBlock,
+} from "../services/booking/seatBlockService.js";
+import {
+  DiscountType,
+  OfferCreatorRole,
+  RefundStatus,
+  TripDirection,
+} from "@prisma/client";
+import { handleServiceError, ServiceError } from "../lib/serviceError.js";
 
 const JWT_SECRET = process.env.adminSecret || process.env.userSecret;
 const app = express();
@@ -589,143 +680,62 @@ adminRouter.post("/reset-password", async (req, res): Promise<any> => {
 
 // ==================== BUS SEAT LAYOUT ENDPOINT ====================
 
-interface SeatGridInput {
-  seatNumber: string; // "1", "2", "3", "" for empty
-}
-
-interface ProcessedSeat {
-  seatNumber: string;
-  row: number;
-  column: number;
-  rowSpan: number;
-  columnSpan: number;
-  type: "SEATER" | "SLEEPER";
-}
-
-/**
- * Process admin's grid input to detect sleeper seats
- * Rules:
- * - Same number twice horizontally = Horizontal sleeper (1 row × 2 cols)
- * - Same number twice vertically = Vertical sleeper (2 rows × 1 col)
- * - Single cell = Seater (1 row × 1 col)
- */
-function processGridToSeats(
-  grid: SeatGridInput[][],
-  level: "LOWER" | "UPPER"
-): ProcessedSeat[] {
-  const seats: ProcessedSeat[] = [];
-  const processed = new Set<string>(); // Track processed cells
-
-  for (let row = 0; row < grid.length; row++) {
-    const currentRow = grid[row];
-    if (!currentRow) continue;
-
-    for (let col = 0; col < currentRow.length; col++) {
-      const currentCell = currentRow[col];
-      if (!currentCell) continue;
-
-      const seatNum = currentCell.seatNumber?.trim();
-      const cellKey = `${level}-${row}-${col}`;
-
-      // Skip empty cells or already processed cells
-      if (!seatNum || processed.has(cellKey)) continue;
-
-      // Check if horizontal sleeper (scan ahead for all cells with same number)
-      let horizontalSpan = 1;
-      for (let c = col + 1; c < currentRow.length && c < col + 4; c++) {
-        const checkCell = currentRow[c];
-        if (checkCell && checkCell.seatNumber?.trim() === seatNum) {
-          horizontalSpan++;
-        } else {
-          break;
-        }
-      }
-
-      if (horizontalSpan > 1) {
-        // Horizontal sleeper (2-4 cells wide)
-        seats.push({
-          seatNumber: seatNum,
-          row,
-          column: col,
-          rowSpan: 1,
-          columnSpan: horizontalSpan,
-          type: "SLEEPER",
-        });
-        // Mark all spanned cells as processed
-        for (let c = col; c < col + horizontalSpan; c++) {
-          processed.add(`${level}-${row}-${c}`);
-        }
-        continue;
-      }
-
-      // Check if vertical sleeper (same number below)
-      const nextRow = row + 1 < grid.length ? grid[row + 1] : null;
-      const belowCellObj = nextRow && nextRow[col] ? nextRow[col] : null;
-      const belowCell = belowCellObj ? belowCellObj.seatNumber?.trim() : null;
-
-      if (belowCell === seatNum) {
-        // Vertical sleeper (2 cells tall)
-        seats.push({
-          seatNumber: seatNum,
-          row,
-          column: col,
-          rowSpan: 2,
-          columnSpan: 1,
-          type: "SLEEPER",
-        });
-        processed.add(`${level}-${row}-${col}`);
-        processed.add(`${level}-${row + 1}-${col}`);
-        continue;
-      }
-
-      // Single cell = Seater
-      seats.push({
-        seatNumber: seatNum,
-        row,
-        column: col,
-        rowSpan: 1,
-        columnSpan: 1,
-        type: "SEATER",
-      });
-      processed.add(`${level}-${row}-${col}`);
-    }
-  }
-
-  return seats;
-}
-
 /**
  * POST /admin/bus/create
- * Create a new bus with basic info
+ * Create a new bus with basic info, optionally with the seats of a layout
+ * template (its grid size and bus type are used when not given)
+ * Body: { busNumber, name, type?, layoutType?, gridRows?, gridColumns?,
+ *         templateId? }
  */
 adminRouter.post(
   "/bus/create",
   authenticateAdmin,
   async (req: AuthRequest, res): Promise<any> => {
     const adminId = req.adminId;
-    const { busNumber, name, type, layoutType, gridRows, gridColumns } =
-      req.body;
+    const {
+      busNumber,
+      name,
+      type,
+      layoutType,
+      gridRows,
+      gridColumns,
+      templateId,
+    } = req.body;
 
     if (!adminId) {
       return res.status(401).json({ errorMessage: "Admin not authenticated" });
     }
 
-    if (!busNumber || !name || !type) {
+    if (!busNumber || !name || (!type && !templateId)) {
       return res.status(400).json({ errorMessage: "Missing required fields" });
     }
 
     try {
-      const bus = await prisma.bus.create({
-        data: {
-          adminId,
-          busNumber,
-          name,
-          type,
-          layoutType: layoutType || "TWO_TWO",
-          gridRows: gridRows || 6,
-          gridColumns: gridColumns || 20,
-          totalSeats: 0, // Will be updated when seats are added
-        },
+      const template = templateId
+        ? await getLayoutTemplate(adminId, String(templateId))
+        : null;
+      const templateSeats = template ? parseSeatLayout(template).seats : [];
+
+      const bus = await prisma.$transaction(async (tx) => {
+        const created = await tx.bus.create({
+          data: {
+            adminId,
+            busNumber,
+            name,
+            type: type || getBusTypeForSeats(templateSeats),
+            layoutType: layoutType || "TWO_TWO",
+            gridRows: template?.gridRows ?? (gridRows || 6),
+            gridColumns: template?.gridColumns ?? (gridColumns || 20),
+            totalSeats: 0, // Will be updated when seats are added
+          },
+        });
+
+        if (templateSeats.length === 0) {
+          return created;
+        }
+
+        await syncBusSeats(tx, created.id, templateSeats);
+        return tx.bus.findUniqueOrThrow({ where: { id: created.id } });
       });
 
       return res.status(201).json({
@@ -733,6 +743,10 @@ adminRouter.post(
         bus,
       });
     } catch (e: any) {
+      if (e instanceof SeatLayoutError) {
+        return handleServiceError(e, res);
+      }
+
       console.error("Error creating bus:", e);
 
       if (e.code === "P2002") {
@@ -748,10 +762,18 @@ adminRouter.post(
 
 /**
  * POST /admin/bus/:busId/seats/layout
- * Submit seat layout grid for a bus
+ * Submit seat layout grid for a bus. Seats are matched to the current ones
+ * by deck and seat number and keep their IDs; removed seats that bookings
+ * point at are retired instead of deleted. Upcoming bookings on removed or
+ * retyped seats are listed, and with movePassengers moved to the suggested
+ * equivalent seat. An invalid grid is rejected with `errors`, one per bad
+ * cell; with dryRun the grid is only validated and the parsed seats and
+ * their counts are returned.
  * Body: {
  *   lowerDeckGrid: SeatGridInput[][], // 6×20 grid
  *   upperDeckGrid: SeatGridInput[][]  // 6×20 grid (optional)
+ *   movePassengers?: boolean,
+ *   dryRun?: boolean
  * }
  */
 adminRouter.post(
@@ -760,7 +782,7 @@ adminRouter.post(
   async (req: AuthRequest, res): Promise<any> => {
     const adminId = req.adminId;
     const { busId } = req.params;
-    const { lowerDeckGrid, upperDeckGrid } = req.body;
+    const { lowerDeckGrid, upperDeckGrid, movePassengers, dryRun } = req.body;
 
     if (!adminId) {
       return res.status(401).json({ errorMessage: "Admin not authenticated" });
@@ -792,103 +814,48 @@ adminRouter.post(
           .json({ errorMessage: "Not authorized to modify this bus" });
       }
 
-      // Validate grid dimensions
-      if (lowerDeckGrid.length !== bus.gridRows) {
-        return res.status(400).json({
-          errorMessage: `Lower deck grid must have ${bus.gridRows} rows`,
-        });
-      }
+      const layout = {
+        gridRows: bus.gridRows,
+        gridColumns: bus.gridColumns,
+        lowerDeckGrid,
+        upperDeckGrid,
+      };
 
-      if (lowerDeckGrid[0].length !== bus.gridColumns) {
-        return res.status(400).json({
-          errorMessage: `Lower deck grid must have ${bus.gridColumns} columns`,
+      if (dryRun === true) {
+        const errors = validateSeatLayout(layout);
+        const seats = errors.length === 0 ? parseSeatLayout(layout).seats : [];
+
+        return res.status(200).json({
+          message:
+            errors.length === 0
+              ? "Seat layout is valid"
+              : "Seat layout has problems",
+          valid: errors.length === 0,
+          errors,
+          seats,
+          counts: countLayoutSeats(seats),
         });
       }
 
-      // Process grids to extract seats
-      const lowerSeats = processGridToSeats(lowerDeckGrid, "LOWER");
-      const upperSeats = upperDeckGrid
-        ? processGridToSeats(upperDeckGrid, "UPPER")
-        : [];
-
-      const allSeats = [...lowerSeats, ...upperSeats];
+      const { lowerSeats, upperSeats, seats } = parseSeatLayout(layout);
 
-      // ✅ Check if there are any confirmed bookings for this bus before allowing layout changes
-      const existingBookings = await prisma.booking.count({
-        where: {
-          seat: {
-            busId: busId,
-          },
-          status: "CONFIRMED",
-        },
+      const result = await saveSeatLayout(busId, seats, {
+        movePassengers: movePassengers === true,
       });
 
-      if (existingBookings > 0) {
-        return res.status(400).json({
-          errorMessage: `Cannot modify seat layout. This bus has ${existingBookings} active booking(s). Please cancel all bookings first or create a new bus with the desired layout.`,
-          activeBookings: existingBookings,
-        });
-      }
-
-      // Use transaction to delete old seats and create new ones
-      // Increased timeout to 15 seconds for large layouts (15×4 = 60 seats)
-      const result = await prisma.$transaction(
-        async (tx) => {
-          // Delete existing seats for this bus (safe now - no bookings exist)
-          await tx.seat.deleteMany({
-            where: { busId },
-          });
-
-          // Create new seats using createMany for better performance
-          await tx.seat.createMany({
-            data: allSeats.map((seat) => ({
-              busId,
-              seatNumber: seat.seatNumber,
-              row: seat.row,
-              column: seat.column,
-              rowSpan: seat.rowSpan,
-              columnSpan: seat.columnSpan,
-              type: seat.type,
-              level: lowerSeats.includes(seat) ? "LOWER" : "UPPER",
-              isActive: true,
-            })),
-          });
-
-          // Get count of created seats
-          const seatCount = allSeats.length;
-
-          // Update bus totalSeats count
-          await tx.bus.update({
-            where: { id: busId },
-            data: { totalSeats: seatCount },
-          });
-
-          return seatCount;
-        },
-        {
-          maxWait: 10000, // Maximum time to wait for a transaction slot (10s)
-          timeout: 15000, // Maximum time for the transaction to complete (15s)
-        }
-      );
-
       return res.status(200).json({
         message: "Seat layout saved successfully",
-        totalSeats: result,
+        totalSeats: seats.length,
         lowerDeckSeats: lowerSeats.length,
         upperDeckSeats: upperSeats.length,
+        ...result,
       });
     } catch (e: any) {
-      console.error("Error saving seat layout:", e);
-
-      // Handle foreign key constraint error
-      if (e.code === "P2003") {
-        return res.status(400).json({
-          errorMessage:
-            "Cannot modify seat layout because some seats have active bookings. Please ensure all bookings are cancelled first.",
-          details: e.message,
-        });
+      if (e instanceof SeatLayoutError) {
+        return handleServiceError(e, res);
       }
 
+      console.error("Error saving seat layout:", e);
       return res.status(500).json({
         errorMessage: "Failed to save seat layout",
         details: e.message,
@@ -897,6 +864,50 @@ adminRouter.post(
   }
 );
 
+/**
+ * POST /admin/bus/:busId/seats/layout/preview
+ * What saving a layout grid would change, without saving it: the seat diff,
+ * seats that would be retired and the upcoming bookings affected, each with
+ * the equivalent seat its passenger would be moved to
+ * Body: { lowerDeckGrid, upperDeckGrid? }
+ */
+adminRouter.post(
+  "/bus/:busId/seats/layout/preview",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { busId } = req.params;
+    const { lowerDeckGrid, upperDeckGrid } = req.body;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    if (!lowerDeckGrid) {
+      return res
+        .status(400)
+        .json({ errorMessage: "Lower deck grid is required" });
+    }
+
+    try {
+      const bus = await findOwnedBusWithSeats(adminId, busId as string);
+      const { seats } = parseSeatLayout({
+        gridRows: bus.gridRows,
+        gridColumns: bus.gridColumns,
+        lowerDeckGrid,
+        upperDeckGrid,
+      });
+
+      return res.status(200).json({
+        message: "Seat layout preview",
+        ...(await planSeatLayoutChange(bus.id, seats)),
+      });
+    } catch (e) {
+      return handleServiceError(e, res, "Failed to preview seat layout");
+    }
+  }
+);
+
 /**
  * GET /admin/bus/:busId/seats
  * Get current seat layout for a bus
@@ -917,6 +928,7 @@ adminRouter.get(
         where: { id: busId },
         include: {
           seats: {
+            where: { retiredAt: null },
             orderBy: [{ level: "asc" }, { row: "asc" }, { column: "asc" }],
           },
         },
@@ -934,6 +946,7 @@ adminRouter.get(
 
       const lowerDeckSeats = bus.seats.filter((s: any) => s.level === "LOWER");
       const upperDeckSeats = bus.seats.filter((s: any) => s.level === "UPPER");
+      const adjacent = getAdjacentSeatIds(bus.seats);
 
       return res.status(200).json({
         message: "Seat layout fetched successfully",
@@ -946,6 +959,7 @@ adminRouter.get(
           gridRows: bus.gridRows,
           gridColumns: bus.gridColumns,
           totalSeats: bus.totalSeats,
+          enforceGenderAdjacency: bus.enforceGenderAdjacency,
         },
         seats: {
           lowerDeck: lowerDeckSeats.map((s: any) => ({
@@ -957,6 +971,8 @@ adminRouter.get(
             columnSpan: s.columnSpan,
             type: s.type,
             isActive: s.isActive,
+            isLadiesOnly: s.isLadiesOnly,
+            adjacentSeatIds: adjacent.get(s.id) ?? [],
           })),
           upperDeck: upperDeckSeats.map((s: any) => ({
             id: s.id,
@@ -967,6 +983,8 @@ adminRouter.get(
             columnSpan: s.columnSpan,
             type: s.type,
             isActive: s.isActive,
+            isLadiesOnly: s.isLadiesOnly,
+            adjacentSeatIds: adjacent.get(s.id) ?? [],
           })),
         },
       });
@@ -980,413 +998,392 @@ adminRouter.get(
 );
 
 /**
- * GET /admin/buses
- * Get all buses owned by this admin
- */
-adminRouter.get(
-  "/buses",
-  authenticateAdmin,
-  async (req: AuthRequest, res): Promise<any> => {
-    const adminId = req.adminId;
-
-    if (!adminId) {
-      return res.status(401).json({ errorMessage: "Admin not authenticated" });
-    }
-
-    try {
-      const buses = await prisma.bus.findMany({
-        where: { adminId },
-        include: {
-          _count: {
-            select: {
-              seats: true,
-              stops: true,
-              trips: true,
-            },
-          },
-        },
-        orderBy: { createdAt: "desc" },
-      });
-
-      return res.status(200).json({
-        message: "Buses fetched successfully",
-        count: buses.length,
-        buses: buses.map((bus) => ({
-          id: bus.id,
-          busNumber: bus.busNumber,
-          name: bus.name,
-          type: bus.type,
-          layoutType: bus.layoutType,
-          totalSeats: bus.totalSeats,
-          gridRows: bus.gridRows,
-          gridColumns: bus.gridColumns,
-          seatCount: bus._count.seats,
-          stopCount: bus._count.stops,
-          tripCount: bus._count.trips,
-          createdAt: bus.createdAt,
-        })),
-      });
-    } catch (e) {
-      console.error("Error fetching buses:", e);
-      return res.status(500).json({ errorMessage: "Failed to fetch buses" });
-    }
-  }
-);
-
-// ==================== STOPS MANAGEMENT ====================
-
-/**
- * POST /admin/bus/:busId/stops
- * Add stops to a bus route
+ * PATCH /admin/bus/:busId/seats/:seatId
+ * Enable or disable a single seat, or mark it ladies-only. Enabling offers it
+ * to waitlisted users.
+ * Body: { isActive?: boolean, isLadiesOnly?: boolean }
  */
-adminRouter.post(
-  "/bus/:busId/stops",
+adminRouter.patch(
+  "/bus/:busId/seats/:seatId",
   authenticateAdmin,
   async (req: AuthRequest, res): Promise<any> => {
+    const { busId, seatId } = req.params;
     const adminId = req.adminId;
-    const { busId } = req.params;
-    const { stops } = req.body; // Array of stop objects
+    const { isActive, isLadiesOnly } = req.body;
 
-    if (!adminId) {
-      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    if (isActive === undefined && isLadiesOnly === undefined) {
+      return res
+        .status(400)
+        .json({ errorMessage: "Provide isActive or isLadiesOnly" });
     }
 
-    if (!busId) {
-      return res.status(400).json({ errorMessage: "Bus ID is required" });
+    if (isActive !== undefined && typeof isActive !== "boolean") {
+      return res
+        .status(400)
+        .json({ errorMessage: "isActive must be true or false" });
     }
 
-    if (!stops || !Array.isArray(stops) || stops.length < 2) {
+    if (isLadiesOnly !== undefined && typeof isLadiesOnly !== "boolean") {
       return res
         .status(400)
-        .json({ errorMessage: "At least 2 stops are required" });
+        .json({ errorMessage: "isLadiesOnly must be true or false" });
     }
 
     try {
-      // Verify bus exists and belongs to admin
-      const bus = await prisma.bus.findUnique({
-        where: { id: busId },
+      const seat = await prisma.seat.findUnique({
+        where: { id: seatId as string },
+        include: { bus: { select: { adminId: true } } },
       });
 
-      if (!bus) {
-        return res.status(404).json({ errorMessage: "Bus not found" });
+      if (!seat || seat.busId !== busId || seat.retiredAt) {
+        return res.status(404).json({ errorMessage: "Seat not found" });
       }
 
-      if (bus.adminId !== adminId) {
+      if (seat.bus.adminId !== adminId) {
         return res
           .status(403)
           .json({ errorMessage: "Not authorized to modify this bus" });
       }
 
-      // Use transaction to delete old stops and create new ones
-      // Increased timeout for routes with many stops and boarding points
-      const result = await prisma.$transaction(
-        async (tx) => {
-          // Delete existing stops for this bus
-          await tx.stop.deleteMany({
-            where: { busId },
+      // Existing bookings keep their seat when it becomes ladies-only
+      if (isActive === false) {
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+
+        const upcomingBookings = await prisma.booking.count({
+          where: {
+            seatId: seat.id,
+            status: "CONFIRMED",
+            trip: { tripDate: { gte: today } },
+          },
+        });
+
+        if (upcomingBookings > 0) {
+          return res.status(400).json({
+            errorMessage: `Cannot disable seat ${seat.seatNumber}. It has ${upcomingBookings} upcoming booking(s).`,
           });
+        }
+      }
 
-          // Create new stops with proper indexing
-          const createdStops = await Promise.all(
-            stops.map((stop: any, index: number) =>
-              tx.stop.create({
-                data: {
-                  busId,
-                  name: stop.name,
-                  city: stop.city,
-                  state: stop.state || null,
-                  stopIndex: index,
-                  arrivalTime: index === 0 ? null : stop.arrivalTime,
-                  departureTime:
-                    index === stops.length - 1 ? null : stop.departureTime,
-                  returnArrivalTime:
-                    index === stops.length - 1
-                      ? null
-                      : stop.returnArrivalTime || null,
-                  returnDepartureTime:
-                    index === 0 ? null : stop.returnDepartureTime || null,
-                  distanceFromOrigin:
-                    typeof stop.distanceFromOrigin === "number"
-                      ? stop.distanceFromOrigin
-                      : Number(stop.distanceFromOrigin) || 0,
-                  priceFromOrigin:
-                    typeof stop.priceFromOrigin === "number"
-                      ? stop.priceFromOrigin
-                      : Number(stop.priceFromOrigin) || 0,
-                  lowerSeaterPrice:
-                    typeof stop.lowerSeaterPrice === "number"
-                      ? stop.lowerSeaterPrice
-                      : Number(stop.lowerSeaterPrice) || 0,
-                  lowerSleeperPrice:
-                    typeof stop.lowerSleeperPrice === "number"
-                      ? stop.lowerSleeperPrice
-                      : Number(stop.lowerSleeperPrice) || 0,
-                  upperSleeperPrice:
-                    typeof stop.upperSleeperPrice === "number"
-                      ? stop.upperSleeperPrice
-                      : Number(stop.upperSleeperPrice) || 0,
-                  boardingPoints: {
-                    create: stop.boardingPoints.map(
-                      (point: any, pointIndex: number) => ({
-                        type: "BOARDING",
-                        name: point.name,
-                        time: point.time,
-                        landmark: point.landmark || null,
-                        address: point.address || null,
-                        pointOrder: pointIndex,
-                      })
-                    ),
-                  },
-                },
-                include: {
-                  boardingPoints: {
-                    orderBy: { pointOrder: "asc" },
-                  },
-                },
-              })
-            )
-          );
+      // An upper deck seater put back on sale needs its stop prices
+      if (isActive && !seat.isActive) {
+        await assertUpperSeatersPriced(prisma, seat.busId, { seats: [seat] });
+      }
 
-          return createdStops;
+      const updatedSeat = await prisma.seat.update({
+        where: { id: seat.id },
+        data: {
+          ...(isActive !== undefined ? { isActive } : {}),
+          ...(isLadiesOnly !== undefined ? { isLadiesOnly } : {}),
         },
-        {
-          maxWait: 10000, // Wait up to 10 seconds for transaction slot
-          timeout: 20000, // Allow up to 20 seconds for transaction to complete
-        }
-      );
+      });
+
+      const waitlistOffers =
+        isActive && !seat.isActive ? await promoteBusWaitlists(seat.busId) : 0;
 
       return res.status(200).json({
-        message: "Stops added successfully",
-        count: result.length,
-        stops: result,
+        message:
+          isActive === undefined
+            ? "Seat updated"
+            : isActive
+            ? "Seat enabled"
+            : "Seat disabled",
+        seat: {
+          id: updatedSeat.id,
+          seatNumber: updatedSeat.seatNumber,
+          isActive: updatedSeat.isActive,
+          isLadiesOnly: updatedSeat.isLadiesOnly,
+        },
+        waitlistOffers,
       });
-    } catch (e: any) {
-      console.error("Error adding stops:", e);
-      return res
-        .status(500)
-        .json({ errorMessage: "Failed to add stops", details: e.message });
+    } catch (e) {
+      if (e instanceof ServiceError) {
+        return handleServiceError(e, res);
+      }
+
+      console.error("Error updating seat:", e);
+      return res.status(500).json({ errorMessage: "Failed to update seat" });
     }
   }
 );
 
+// ==================== LAYOUT TEMPLATES & CLONING ====================
+
 /**
- * GET /admin/bus/:busId/stops
- * Get all stops for a bus
+ * GET /admin/layout-templates
+ * Built-in seat layout templates and the operator's own
  */
 adminRouter.get(
-  "/bus/:busId/stops",
+  "/layout-templates",
   authenticateAdmin,
   async (req: AuthRequest, res): Promise<any> => {
-    const { busId } = req.params;
     const adminId = req.adminId;
 
-    if (!busId) {
-      return res.status(400).json({ errorMessage: "Bus ID is required" });
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
     }
 
     try {
-      const bus = await prisma.bus.findUnique({
-        where: { id: busId },
-        include: {
-          stops: {
-            orderBy: { stopIndex: "asc" },
-            include: {
-              boardingPoints: {
-                where: { type: "BOARDING" },
-                orderBy: { pointOrder: "asc" },
-              },
-            },
-          },
-        },
-      });
-
-      if (!bus) {
-        return res.status(404).json({ errorMessage: "Bus not found" });
-      }
-
-      if (bus.adminId !== adminId) {
-        return res
-          .status(403)
-          .json({ errorMessage: "Not authorized to view this bus" });
-      }
+      const templates = await listLayoutTemplates(adminId);
 
       return res.status(200).json({
-        message: "Stops fetched successfully",
-        count: bus.stops.length,
-        stops: bus.stops,
+        message: "Layout templates fetched successfully",
+        templates: templates.map((template) =>
+          serializeLayoutTemplate(template)
+        ),
       });
     } catch (e) {
-      console.error("Error fetching stops:", e);
-      return res.status(500).json({ errorMessage: "Failed to fetch stops" });
+      return handleServiceError(e, res, "Failed to fetch layout templates");
     }
   }
 );
 
-// ==================== HOLIDAYS MANAGEMENT ====================
-
 /**
- * POST /admin/bus/:busId/holidays
- * Add holiday dates when bus doesn't run
+ * GET /admin/layout-templates/:templateId
+ * A template with its deck grids
  */
-adminRouter.post(
-  "/bus/:busId/holidays",
+adminRouter.get(
+  "/layout-templates/:templateId",
   authenticateAdmin,
   async (req: AuthRequest, res): Promise<any> => {
     const adminId = req.adminId;
-    const { busId } = req.params;
-    const { dates, reason } = req.body; // dates: array of date strings
+    const { templateId } = req.params;
 
     if (!adminId) {
       return res.status(401).json({ errorMessage: "Admin not authenticated" });
     }
 
-    if (!dates || !Array.isArray(dates) || dates.length === 0) {
-      return res
-        .status(400)
-        .json({ errorMessage: "At least one date is required" });
-    }
-
     try {
-      // Verify bus exists and belongs to admin
-      const bus = await prisma.bus.findUnique({
-        where: { id: busId as string },
-      });
+      const template = await getLayoutTemplate(adminId, templateId as string);
 
-      if (!bus) {
-        return res.status(404).json({ errorMessage: "Bus not found" });
-      }
+      return res.status(200).json({
+        message: "Layout template fetched successfully",
+        template: serializeLayoutTemplate(template, true),
+      });
+    } catch (e) {
+      return handleServiceError(e, res, "Failed to fetch layout template");
+    }
+  }
+);
 
-      if (bus.adminId !== adminId) {
-        return res.status(403).json({ errorMessage: "Not authorized" });
-      }
+/**
+ * POST /admin/layout-templates
+ * Save a seat layout as a template, from grids or from one of the
+ * operator's buses
+ * Body: { name, description?, gridRows, gridColumns, lowerDeckGrid,
+ *         upperDeckGrid? } or { name, description?, fromBusId }
+ */
+adminRouter.post(
+  "/layout-templates",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
 
-      // Create holidays
-      const holidays = await Promise.all(
-        dates.map((date: string) =>
-          prisma.holiday
-            .create({
-              data: {
-                busId: busId as string,
-                date: new Date(date),
-                reason: reason || null,
-                createdBy: adminId as string,
-              },
-            })
-            .catch((e) => {
-              // Skip if already exists
-              if (e.code === "P2002") return null;
-              throw e;
-            })
-        )
-      );
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
 
-      const created = holidays.filter(Boolean);
+    try {
+      const template = await createLayoutTemplate(adminId, req.body ?? {});
 
       return res.status(201).json({
-        message: "Holidays added successfully",
-        count: created.length,
-        holidays: created,
+        message: "Layout template saved successfully",
+        template: serializeLayoutTemplate(template, true),
       });
-    } catch (e: any) {
-      console.error("Error adding holidays:", e);
-      return res.status(500).json({ errorMessage: "Failed to add holidays" });
+    } catch (e) {
+      return handleServiceError(e, res, "Failed to save layout template");
     }
   }
 );
 
 /**
- * GET /admin/bus/:busId/holidays
- * Get all holidays for a bus
+ * DELETE /admin/layout-templates/:templateId
+ * Delete one of the operator's templates. Buses built from it keep their seats.
  */
-adminRouter.get(
-  "/bus/:busId/holidays",
+adminRouter.delete(
+  "/layout-templates/:templateId",
   authenticateAdmin,
   async (req: AuthRequest, res): Promise<any> => {
     const adminId = req.adminId;
-    const { busId } = req.params;
+    const { templateId } = req.params;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
 
     try {
-      const bus = await prisma.bus.findUnique({
-        where: { id: busId as string },
-        include: {
-          holidays: {
-            orderBy: { date: "asc" },
-          },
-        },
-      });
+      await deleteLayoutTemplate(adminId, templateId as string);
 
-      if (!bus) {
-        return res.status(404).json({ errorMessage: "Bus not found" });
-      }
+      return res
+        .status(200)
+        .json({ message: "Layout template deleted successfully" });
+    } catch (e) {
+      return handleServiceError(e, res, "Failed to delete layout template");
+    }
+  }
+);
 
-      if (bus.adminId !== adminId) {
-        return res.status(403).json({ errorMessage: "Not authorized" });
-      }
+/**
+ * POST /admin/bus/:busId/seats/layout/template
+ * Put a template's layout on a bus, the same way as a submitted grid; the
+ * bus takes over the template's grid size and type. With dryRun only the
+ * preview is returned.
+ * Body: { templateId, dryRun?: boolean, movePassengers?: boolean }
+ */
+adminRouter.post(
+  "/bus/:busId/seats/layout/template",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { busId } = req.params;
+    const { templateId, dryRun, movePassengers } = req.body;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    if (typeof templateId !== "string") {
+      return res.status(400).json({ errorMessage: "templateId is required" });
+    }
+
+    try {
+      const result = await applyLayoutTemplate(
+        adminId,
+        busId as string,
+        templateId,
+        { dryRun: dryRun === true, movePassengers: movePassengers === true }
+      );
 
       return res.status(200).json({
-        message: "Holidays fetched successfully",
-        count: bus.holidays.length,
-        holidays: bus.holidays,
+        message: result.applied
+          ? "Seat layout saved successfully"
+          : "Seat layout preview",
+        ...result,
       });
     } catch (e) {
-      console.error("Error fetching holidays:", e);
-      return res.status(500).json({ errorMessage: "Failed to fetch holidays" });
+      return handleServiceError(e, res, "Failed to update seat layout");
     }
   }
 );
 
 /**
- * DELETE /admin/holiday/:holidayId
- * Delete a holiday
+ * POST /admin/bus/:busId/clone
+ * Copy this bus's seats, stops (with boarding points and fare matrix),
+ * amenities and bus-specific pricing rules onto another of the operator's
+ * buses. Every copied part replaces what the target had; stops are saved as
+ * a new route version. The response carries the diff against the target,
+ * and with dryRun nothing is changed.
+ * Body: { targetBusId, parts?: ("seats" | "stops" | "amenities" |
+ *         "pricing")[], effectiveFrom?: "YYYY-MM-DD", dryRun?: boolean,
+ *         movePassengers?: boolean }
  */
-adminRouter.delete(
-  "/holiday/:holidayId",
+adminRouter.post(
+  "/bus/:busId/clone",
   authenticateAdmin,
   async (req: AuthRequest, res): Promise<any> => {
     const adminId = req.adminId;
-    const { holidayId } = req.params;
+    const { busId } = req.params;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
 
     try {
-      const holiday = await prisma.holiday.findUnique({
-        where: { id: holidayId as string },
-        include: { bus: true },
+      const result = await cloneBus(adminId, busId as string, req.body ?? {});
+
+      return res.status(200).json({
+        message: result.applied ? "Bus copied successfully" : "Copy preview",
+        applied: result.applied,
+        diff: result.diff,
+        movedBookings: result.movedBookings,
+        ...(result.routeVersion
+          ? {
+              routeVersion: serializeRouteVersion(result.routeVersion),
+              pinnedTrips: result.pinnedTrips,
+            }
+          : {}),
       });
+    } catch (e) {
+      return handleServiceError(e, res, "Failed to copy bus");
+    }
+  }
+);
 
-      if (!holiday) {
-        return res.status(404).json({ errorMessage: "Holiday not found" });
-      }
+/**
+ * GET /admin/buses
+ * Get all buses owned by this admin
+ */
+adminRouter.get(
+  "/buses",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
 
-      if (holiday.bus.adminId !== adminId) {
-        return res.status(403).json({ errorMessage: "Not authorized" });
-      }
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
 
-      await prisma.holiday.delete({
-        where: { id: holidayId as string },
+    try {
+      const buses = await prisma.bus.findMany({
+        where: { adminId },
+        include: {
+          _count: {
+            select: {
+              seats: { where: { retiredAt: null } },
+              stops: { where: latestRouteStopsWhere },
+              trips: true,
+            },
+          },
+        },
+        orderBy: { createdAt: "desc" },
       });
 
       return res.status(200).json({
-        message: "Holiday deleted successfully",
+        message: "Buses fetched successfully",
+        count: buses.length,
+        buses: buses.map((bus) => ({
+          id: bus.id,
+          busNumber: bus.busNumber,
+          name: bus.name,
+          type: bus.type,
+          layoutType: bus.layoutType,
+          totalSeats: bus.totalSeats,
+          gridRows: bus.gridRows,
+          gridColumns: bus.gridColumns,
+          seatCount: bus._count.seats,
+          stopCount: bus._count.stops,
+          tripCount: bus._count.trips,
+          createdAt: bus.createdAt,
+        })),
       });
     } catch (e) {
-      console.error("Error deleting holiday:", e);
-      return res.status(500).json({ errorMessage: "Failed to delete holiday" });
+      console.error("Error fetching buses:", e);
+      return res.status(500).json({ errorMessage: "Failed to fetch buses" });
     }
   }
 );
 
-// ==================== TRIPS MANAGEMENT ====================
+// ==================== STOPS MANAGEMENT ====================
 
 /**
- * POST /admin/bus/:busId/trips
- * Create trips for a bus (can create multiple trips at once)
+ * POST /admin/bus/:busId/stops
+ * Save the stops of a bus route as a new route version
+ * Body: { stops, effectiveFrom?: "YYYY-MM-DD" } (defaults to today)
+ * Each stop carries its price from the origin per seat category
+ * (lowerSeaterPrice, lowerSleeperPrice, upperSleeperPrice, upperSeaterPrice);
+ * upperSeaterPrice is required on every stop after the origin when the bus
+ * has upper deck seaters.
+ * Trips from effectiveFrom onwards switch to the new version unless they
+ * already have bookings; the response lists those pinned trips and a diff
+ * against the previous version.
  */
 adminRouter.post(
-  "/bus/:busId/trips",
+  "/bus/:busId/stops",
   authenticateAdmin,
   async (req: AuthRequest, res): Promise<any> => {
     const adminId = req.adminId;
     const { busId } = req.params;
-    const { trips } = req.body; // Array of trip objects with dates
+    const { stops, effectiveFrom } = req.body; // Array of stop objects
 
     if (!adminId) {
       return res.status(401).json({ errorMessage: "Admin not authenticated" });
@@ -1396,19 +1393,16 @@ adminRouter.post(
       return res.status(400).json({ errorMessage: "Bus ID is required" });
     }
 
-    if (!trips || !Array.isArray(trips) || trips.length === 0) {
+    if (!stops || !Array.isArray(stops) || stops.length < 2) {
       return res
         .status(400)
-        .json({ errorMessage: "At least one trip is required" });
+        .json({ errorMessage: "At least 2 stops are required" });
     }
 
     try {
       // Verify bus exists and belongs to admin
       const bus = await prisma.bus.findUnique({
         where: { id: busId },
-        include: {
-          stops: true,
-        },
       });
 
       if (!bus) {
@@ -1421,65 +1415,82 @@ adminRouter.post(
           .json({ errorMessage: "Not authorized to modify this bus" });
       }
 
-      if (bus.stops.length < 2) {
-        return res.status(400).json({
-          errorMessage: "Bus must have at least 2 stops before creating trips",
-        });
-      }
-
-      // Create trips
-      const createdTrips = await Promise.all(
-        trips.map((trip: any) =>
-          prisma.trip.create({
-            data: {
-              busId,
-              tripDate: new Date(trip.tripDate),
-              status: trip.status || "SCHEDULED",
-            },
-          })
-        )
-      );
+      // Upper-deck seaters have their own price; without it they'd be sold
+      // at the deprecated priceFromOrigin
+      await assertUpperSeatersPriced(prisma, busId, { stops });
+
+      // Stops are never replaced in place: trips and bookings keep the
+      // route version they were sold with
+      const result = await createRouteVersion({
+        busId,
+        adminId,
+        stops,
+        effectiveFrom,
+      });
+      await refreshTripHorizon(busId);
 
-      return res.status(201).json({
-        message: "Trips created successfully",
-        count: createdTrips.length,
-        trips: createdTrips,
+      return res.status(200).json({
+        message: `Stops saved as route version ${result.routeVersion.version}`,
+        count: result.stops.length,
+        stops: result.stops,
+        routeVersion: serializeRouteVersion(result.routeVersion),
+        reassignedTrips: result.reassignedTrips,
+        pinnedTrips: result.pinnedTrips,
+        diff: result.diff,
       });
     } catch (e: any) {
-      console.error("Error creating trips:", e);
-
-      if (e.code === "P2002") {
-        return res.status(400).json({
-          errorMessage: "Trip already exists for this bus and date",
-        });
+      if (e instanceof ServiceError) {
+        return handleServiceError(e, res);
       }
 
+      console.error("Error adding stops:", e);
       return res
         .status(500)
-        .json({ errorMessage: "Failed to create trips", details: e.message });
+        .json({ errorMessage: "Failed to add stops", details: e.message });
     }
   }
 );
 
 /**
- * GET /admin/bus/:busId/trips
- * Get all trips for a bus
+ * GET /admin/bus/:busId/stops
+ * Get all stops for a bus
+ * Query: version? (defaults to the latest route version)
  */
 adminRouter.get(
-  "/bus/:busId/trips",
+  "/bus/:busId/stops",
   authenticateAdmin,
   async (req: AuthRequest, res): Promise<any> => {
     const { busId } = req.params;
     const adminId = req.adminId;
-    const { status, startDate, endDate } = req.query;
+    const version = req.query.version ? Number(req.query.version) : undefined;
 
     if (!busId) {
       return res.status(400).json({ errorMessage: "Bus ID is required" });
     }
 
+    if (version !== undefined && !Number.isInteger(version)) {
+      return res.status(400).json({ errorMessage: "Invalid route version" });
+    }
+
     try {
       const bus = await prisma.bus.findUnique({
         where: { id: busId },
+        include: {
+          routeVersions: {
+            where: version !== undefined ? { version } : { supersededAt: null },
+            include: {
+              stops: {
+                orderBy: { stopIndex: "asc" },
+                include: {
+                  boardingPoints: {
+                    where: { type: "BOARDING" },
+                    orderBy: { pointOrder: "asc" },
+                  },
+                },
+              },
+            },
+          },
+        },
       });
 
       if (!bus) {
@@ -1492,149 +1503,279 @@ adminRouter.get(
           .json({ errorMessage: "Not authorized to view this bus" });
       }
 
-      // Build where clause
-      const where: any = { busId };
-
-      if (status) {
-        where.status = status;
+      const routeVersion = bus.routeVersions[0];
+      if (!routeVersion && version !== undefined) {
+        return res
+          .status(404)
+          .json({ errorMessage: "Route version not found" });
       }
 
-      if (startDate || endDate) {
-        where.tripDate = {};
-        if (startDate) {
-          where.tripDate.gte = new Date(startDate as string);
-        }
-        if (endDate) {
-          where.tripDate.lte = new Date(endDate as string);
-        }
-      }
+      const stops = routeVersion?.stops ?? [];
 
-      const trips = await prisma.trip.findMany({
-        where,
+      return res.status(200).json({
+        message: "Stops fetched successfully",
+        count: stops.length,
+        stops,
+        routeVersion: routeVersion ? serializeRouteVersion(routeVersion) : null,
+      });
+    } catch (e) {
+      console.error("Error fetching stops:", e);
+      return res.status(500).json({ errorMessage: "Failed to fetch stops" });
+    }
+  }
+);
+
+/**
+ * GET /admin/bus/:busId/route-versions
+ * List the route versions of a bus with how many trips use each
+ */
+adminRouter.get(
+  "/bus/:busId/route-versions",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const { busId } = req.params;
+    const adminId = req.adminId;
+
+    try {
+      const bus = await prisma.bus.findUnique({
+        where: { id: busId as string },
         include: {
-          _count: {
-            select: {
-              bookings: true,
-              bookingGroups: true,
-            },
+          routeVersions: {
+            orderBy: { version: "desc" },
+            include: { _count: { select: { stops: true, trips: true } } },
           },
         },
-        orderBy: { tripDate: "asc" },
       });
 
+      if (!bus) {
+        return res.status(404).json({ errorMessage: "Bus not found" });
+      }
+
+      if (bus.adminId !== adminId) {
+        return res
+          .status(403)
+          .json({ errorMessage: "Not authorized to view this bus" });
+      }
+
       return res.status(200).json({
-        message: "Trips fetched successfully",
-        count: trips.length,
-        trips: trips.map((trip) => ({
-          id: trip.id,
-          tripDate: trip.tripDate,
-          status: trip.status,
-          bookingCount: trip._count.bookingGroups,
-          seatsBooked: trip._count.bookings,
-          createdAt: trip.createdAt,
+        message: "Route versions fetched successfully",
+        count: bus.routeVersions.length,
+        routeVersions: bus.routeVersions.map((routeVersion) => ({
+          ...serializeRouteVersion(routeVersion),
+          stopCount: routeVersion._count.stops,
+          tripCount: routeVersion._count.trips,
         })),
       });
     } catch (e) {
-      console.error("Error fetching trips:", e);
-      return res.status(500).json({ errorMessage: "Failed to fetch trips" });
+      console.error("Error fetching route versions:", e);
+      return res
+        .status(500)
+        .json({ errorMessage: "Failed to fetch route versions" });
     }
   }
 );
 
 /**
- * PATCH /admin/trip/:tripId/status
- * Update trip status (SCHEDULED, ONGOING, COMPLETED, CANCELLED)
+ * GET /admin/bus/:busId/route-versions/diff
+ * What changed between two route versions
+ * Query: from?, to? (defaults to the latest version against the one before)
  */
-adminRouter.patch(
-  "/trip/:tripId/status",
+adminRouter.get(
+  "/bus/:busId/route-versions/diff",
   authenticateAdmin,
   async (req: AuthRequest, res): Promise<any> => {
+    const { busId } = req.params;
     const adminId = req.adminId;
-    const { tripId } = req.params;
-    const { status } = req.body;
+    const from = req.query.from ? Number(req.query.from) : undefined;
+    const to = req.query.to ? Number(req.query.to) : undefined;
 
-    if (!adminId) {
-      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    if (
+      (from !== undefined && !Number.isInteger(from)) ||
+      (to !== undefined && !Number.isInteger(to))
+    ) {
+      return res.status(400).json({ errorMessage: "Invalid route version" });
     }
 
-    if (!tripId) {
-      return res.status(400).json({ errorMessage: "Trip ID is required" });
+    try {
+      const bus = await prisma.bus.findUnique({
+        where: { id: busId as string },
+      });
+
+      if (!bus) {
+        return res.status(404).json({ errorMessage: "Bus not found" });
+      }
+
+      if (bus.adminId !== adminId) {
+        return res
+          .status(403)
+          .json({ errorMessage: "Not authorized to view this bus" });
+      }
+
+      const diff = await getRouteVersionDiff(bus.id, { from, to });
+
+      return res.status(200).json({
+        message: "Route diff generated successfully",
+        diff,
+      });
+    } catch (e) {
+      return handleServiceError(e, res, "Failed to compare routes");
     }
+  }
+);
 
-    if (
-      !status ||
-      !["SCHEDULED", "ONGOING", "COMPLETED", "CANCELLED"].includes(status)
-    ) {
-      return res.status(400).json({ errorMessage: "Invalid status" });
+// ==================== FARE MATRIX ====================
+
+/**
+ * GET /admin/bus/:busId/fare-matrix?version=
+ * Explicit segment fares of the newest (or given) route version, with the
+ * fare every stop pair and seat type resolves to and where it comes from
+ */
+adminRouter.get(
+  "/bus/:busId/fare-matrix",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const { busId } = req.params;
+    const adminId = req.adminId;
+    const version = req.query.version ? Number(req.query.version) : undefined;
+
+    if (version !== undefined && !Number.isInteger(version)) {
+      return res.status(400).json({ errorMessage: "Invalid route version" });
     }
 
     try {
-      // Find trip and verify ownership
-      const trip = await prisma.trip.findUnique({
-        where: { id: tripId },
-        include: {
-          bus: true,
-        },
+      const bus = await prisma.bus.findUnique({
+        where: { id: busId as string },
       });
 
-      if (!trip) {
-        return res.status(404).json({ errorMessage: "Trip not found" });
+      if (!bus) {
+        return res.status(404).json({ errorMessage: "Bus not found" });
       }
 
-      if (trip.bus.adminId !== adminId) {
+      if (bus.adminId !== adminId) {
         return res
           .status(403)
-          .json({ errorMessage: "Not authorized to modify this trip" });
+          .json({ errorMessage: "Not authorized to view this bus" });
       }
 
-      // Update trip status
-      const updatedTrip = await prisma.trip.update({
-        where: { id: tripId },
-        data: { status },
+      const fareMatrix = await getFareMatrix(bus.id, version);
+
+      return res.status(200).json({
+        message: "Fare matrix fetched successfully",
+        fareMatrix,
+      });
+    } catch (e) {
+      return handleServiceError(e, res, "Failed to fetch fare matrix");
+    }
+  }
+);
+
+/**
+ * PUT /admin/bus/:busId/fare-matrix
+ * Set or remove explicit segment fares on the bus's current route. Pairs
+ * without an entry keep the cumulative-from-origin fare.
+ * Body: { entries: [{ fromStopId, toStopId, seatType: "SEATER" | "SLEEPER",
+ *         seatLevel: "LOWER" | "UPPER", price: 850 | null }] }
+ */
+adminRouter.put(
+  "/bus/:busId/fare-matrix",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const { busId } = req.params;
+    const adminId = req.adminId;
+
+    try {
+      const bus = await prisma.bus.findUnique({
+        where: { id: busId as string },
       });
 
+      if (!bus) {
+        return res.status(404).json({ errorMessage: "Bus not found" });
+      }
+
+      if (bus.adminId !== adminId) {
+        return res
+          .status(403)
+          .json({ errorMessage: "Not authorized to modify this bus" });
+      }
+
+      const fareMatrix = await updateFareMatrix(bus.id, req.body?.entries);
+
       return res.status(200).json({
-        message: "Trip status updated successfully",
-        trip: updatedTrip,
+        message: "Fare matrix updated successfully",
+        fareMatrix,
       });
-    } catch (e: any) {
-      console.error("Error updating trip status:", e);
-      return res
-        .status(500)
-        .json({ errorMessage: "Failed to update trip status" });
+    } catch (e) {
+      return handleServiceError(e, res, "Failed to update fare matrix");
     }
   }
 );
 
 /**
- * POST /admin/bus/:busId/cancel-trip
- * Cancel a trip for a specific bus on a specific date
- * This prevents users from seeing or booking this trip
+ * DELETE /admin/bus/:busId/fare-matrix
+ * Remove every explicit fare from the bus's current route
+ */
+adminRouter.delete(
+  "/bus/:busId/fare-matrix",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const { busId } = req.params;
+    const adminId = req.adminId;
+
+    try {
+      const bus = await prisma.bus.findUnique({
+        where: { id: busId as string },
+      });
+
+      if (!bus) {
+        return res.status(404).json({ errorMessage: "Bus not found" });
+      }
+
+      if (bus.adminId !== adminId) {
+        return res
+          .status(403)
+          .json({ errorMessage: "Not authorized to modify this bus" });
+      }
+
+      const removed = await clearFareMatrix(bus.id);
+
+      return res.status(200).json({
+        message: "Fare matrix cleared successfully",
+        removed,
+      });
+    } catch (e) {
+      return handleServiceError(e, res, "Failed to clear fare matrix");
+    }
+  }
+);
+
+// ==================== HOLIDAYS MANAGEMENT ====================
+
+/**
+ * POST /admin/bus/:busId/holidays
+ * Add holiday dates when bus doesn't run
  */
 adminRouter.post(
-  "/bus/:busId/cancel-trip",
+  "/bus/:busId/holidays",
   authenticateAdmin,
   async (req: AuthRequest, res): Promise<any> => {
     const adminId = req.adminId;
     const { busId } = req.params;
-    const { tripDate } = req.body;
+    const { dates, reason } = req.body; // dates: array of date strings
 
     if (!adminId) {
       return res.status(401).json({ errorMessage: "Admin not authenticated" });
     }
 
-    if (!busId) {
-      return res.status(400).json({ errorMessage: "Bus ID is required" });
-    }
-
-    if (!tripDate) {
-      return res.status(400).json({ errorMessage: "Trip date is required" });
+    if (!dates || !Array.isArray(dates) || dates.length === 0) {
+      return res
+        .status(400)
+        .json({ errorMessage: "At least one date is required" });
     }
 
     try {
       // Verify bus exists and belongs to admin
       const bus = await prisma.bus.findUnique({
-        where: { id: busId },
+        where: { id: busId as string },
       });
 
       if (!bus) {
@@ -1642,298 +1783,1962 @@ adminRouter.post(
       }
 
       if (bus.adminId !== adminId) {
-        return res
-          .status(403)
-          .json({ errorMessage: "Not authorized to modify this bus" });
+        return res.status(403).json({ errorMessage: "Not authorized" });
       }
 
-      // Parse the trip date
-      const searchDate = new Date(tripDate);
-      searchDate.setHours(0, 0, 0, 0);
-      const nextDay = new Date(searchDate.getTime() + 24 * 60 * 60 * 1000);
+      // Create holidays
+      const holidays = await Promise.all(
+        dates.map((date: string) =>
+          prisma.holiday
+            .create({
+              data: {
+                busId: busId as string,
+                date: new Date(date),
+                reason: reason || null,
+                createdBy: adminId as string,
+              },
+            })
+            .catch((e) => {
+              // Skip if already exists
+              if (e.code === "P2002") return null;
+              throw e;
+            })
+        )
+      );
 
-      // Find the trip for this bus and date
-      const trip = await prisma.trip.findFirst({
-        where: {
-          busId,
-          tripDate: {
-            gte: searchDate,
-            lt: nextDay,
-          },
-        },
-        include: {
-          bookingGroups: {
-            where: {
-              status: "CONFIRMED",
+      const created = holidays.filter(Boolean);
+
+      // Trips already generated for these days are removed if unbooked
+      await refreshTripHorizon(bus.id);
+
+      return res.status(201).json({
+        message: "Holidays added successfully",
+        count: created.length,
+        holidays: created,
+      });
+    } catch (e: any) {
+      console.error("Error adding holidays:", e);
+      return res.status(500).json({ errorMessage: "Failed to add holidays" });
+    }
+  }
+);
+
+/**
+ * GET /admin/bus/:busId/holidays
+ * Get all holidays for a bus
+ */
+adminRouter.get(
+  "/bus/:busId/holidays",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { busId } = req.params;
+
+    try {
+      const bus = await prisma.bus.findUnique({
+        where: { id: busId as string },
+        include: {
+          holidays: {
+            orderBy: { date: "asc" },
+          },
+        },
+      });
+
+      if (!bus) {
+        return res.status(404).json({ errorMessage: "Bus not found" });
+      }
+
+      if (bus.adminId !== adminId) {
+        return res.status(403).json({ errorMessage: "Not authorized" });
+      }
+
+      return res.status(200).json({
+        message: "Holidays fetched successfully",
+        count: bus.holidays.length,
+        holidays: bus.holidays,
+      });
+    } catch (e) {
+      console.error("Error fetching holidays:", e);
+      return res.status(500).json({ errorMessage: "Failed to fetch holidays" });
+    }
+  }
+);
+
+/**
+ * DELETE /admin/holiday/:holidayId
+ * Delete a holiday
+ */
+adminRouter.delete(
+  "/holiday/:holidayId",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { holidayId } = req.params;
+
+    try {
+      const holiday = await prisma.holiday.findUnique({
+        where: { id: holidayId as string },
+        include: { bus: true },
+      });
+
+      if (!holiday) {
+        return res.status(404).json({ errorMessage: "Holiday not found" });
+      }
+
+      if (holiday.bus.adminId !== adminId) {
+        return res.status(403).json({ errorMessage: "Not authorized" });
+      }
+
+      await prisma.holiday.delete({
+        where: { id: holidayId as string },
+      });
+      await refreshTripHorizon(holiday.busId);
+
+      return res.status(200).json({
+        message: "Holiday deleted successfully",
+      });
+    } catch (e) {
+      console.error("Error deleting holiday:", e);
+      return res.status(500).json({ errorMessage: "Failed to delete holiday" });
+    }
+  }
+);
+
+// ==================== BUS SCHEDULES ====================
+
+/**
+ * GET /admin/bus/:busId/schedules
+ * List the daily departures of a bus
+ */
+adminRouter.get(
+  "/bus/:busId/schedules",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { busId } = req.params;
+
+    try {
+      const bus = await prisma.bus.findUnique({
+        where: { id: busId as string },
+        include: {
+          schedules: {
+            orderBy: [{ direction: "asc" }, { departureTime: "asc" }],
+          },
+        },
+      });
+
+      if (!bus) {
+        return res.status(404).json({ errorMessage: "Bus not found" });
+      }
+
+      if (bus.adminId !== adminId) {
+        return res.status(403).json({ errorMessage: "Not authorized" });
+      }
+
+      return res.status(200).json({
+        message: "Schedules fetched successfully",
+        count: bus.schedules.length,
+        schedules: bus.schedules.map(serializeSchedule),
+      });
+    } catch (e) {
+      console.error("Error fetching schedules:", e);
+      return res
+        .status(500)
+        .json({ errorMessage: "Failed to fetch schedules" });
+    }
+  }
+);
+
+/**
+ * POST /admin/bus/:busId/schedules
+ * Add a daily departure. Once a bus has schedules, one trip is generated per
+ * active schedule for each day the bus operates.
+ * Body: { departureTime: "HH:MM", direction?: "FORWARD" | "RETURN", label? }
+ */
+adminRouter.post(
+  "/bus/:busId/schedules",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { busId } = req.params;
+    const {
+      departureTime,
+      direction = TripDirection.FORWARD,
+      label,
+    } = req.body;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    if (!isValidScheduleTime(departureTime)) {
+      return res
+        .status(400)
+        .json({ errorMessage: "departureTime must be in HH:MM format" });
+    }
+
+    if (!Object.values(TripDirection).includes(direction)) {
+      return res
+        .status(400)
+        .json({ errorMessage: "direction must be FORWARD or RETURN" });
+    }
+
+    try {
+      const bus = await prisma.bus.findUnique({
+        where: { id: busId as string },
+      });
+
+      if (!bus) {
+        return res.status(404).json({ errorMessage: "Bus not found" });
+      }
+
+      if (bus.adminId !== adminId) {
+        return res.status(403).json({ errorMessage: "Not authorized" });
+      }
+
+      const schedule = await prisma.busSchedule.create({
+        data: {
+          busId: bus.id,
+          departureTime,
+          direction,
+          label:
+            typeof label === "string" && label.trim() ? label.trim() : null,
+        },
+      });
+      await refreshTripHorizon(bus.id);
+
+      return res.status(201).json({
+        message: "Schedule added successfully",
+        schedule: serializeSchedule(schedule),
+      });
+    } catch (e: any) {
+      if (e.code === "P2002") {
+        return res.status(400).json({
+          errorMessage: "This bus already has a departure at that time",
+        });
+      }
+
+      console.error("Error adding schedule:", e);
+      return res.status(500).json({ errorMessage: "Failed to add schedule" });
+    }
+  }
+);
+
+/**
+ * PATCH /admin/schedule/:scheduleId
+ * Rename or (de)activate a schedule. Departure times can't be changed because
+ * existing trips and bookings depend on them; add a new schedule instead.
+ * Body: { label?, isActive? }
+ */
+adminRouter.patch(
+  "/schedule/:scheduleId",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { scheduleId } = req.params;
+    const { label, isActive } = req.body;
+
+    if (isActive !== undefined && typeof isActive !== "boolean") {
+      return res
+        .status(400)
+        .json({ errorMessage: "isActive must be a boolean" });
+    }
+
+    try {
+      const schedule = await prisma.busSchedule.findUnique({
+        where: { id: scheduleId as string },
+        include: { bus: { select: { adminId: true } } },
+      });
+
+      if (!schedule) {
+        return res.status(404).json({ errorMessage: "Schedule not found" });
+      }
+
+      if (schedule.bus.adminId !== adminId) {
+        return res.status(403).json({ errorMessage: "Not authorized" });
+      }
+
+      const updated = await prisma.busSchedule.update({
+        where: { id: schedule.id },
+        data: {
+          ...(label !== undefined
+            ? {
+                label:
+                  typeof label === "string" && label.trim()
+                    ? label.trim()
+                    : null,
+              }
+            : {}),
+          ...(isActive !== undefined ? { isActive } : {}),
+        },
+      });
+      await refreshTripHorizon(schedule.busId);
+
+      return res.status(200).json({
+        message: "Schedule updated successfully",
+        schedule: serializeSchedule(updated),
+      });
+    } catch (e) {
+      console.error("Error updating schedule:", e);
+      return res
+        .status(500)
+        .json({ errorMessage: "Failed to update schedule" });
+    }
+  }
+);
+
+/**
+ * DELETE /admin/schedule/:scheduleId
+ * Delete a schedule. Schedules that already have trips are deactivated
+ * instead so their trips and bookings are kept.
+ */
+adminRouter.delete(
+  "/schedule/:scheduleId",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { scheduleId } = req.params;
+
+    try {
+      const schedule = await prisma.busSchedule.findUnique({
+        where: { id: scheduleId as string },
+        include: {
+          bus: { select: { adminId: true } },
+          _count: { select: { trips: true } },
+        },
+      });
+
+      if (!schedule) {
+        return res.status(404).json({ errorMessage: "Schedule not found" });
+      }
+
+      if (schedule.bus.adminId !== adminId) {
+        return res.status(403).json({ errorMessage: "Not authorized" });
+      }
+
+      if (schedule._count.trips > 0) {
+        const updated = await prisma.busSchedule.update({
+          where: { id: schedule.id },
+          data: { isActive: false },
+        });
+        await refreshTripHorizon(schedule.busId);
+
+        return res.status(200).json({
+          message:
+            "Schedule has trips, so it was deactivated instead of deleted. No new trips will be created for it.",
+          schedule: serializeSchedule(updated),
+        });
+      }
+
+      await prisma.busSchedule.delete({ where: { id: schedule.id } });
+      await refreshTripHorizon(schedule.busId);
+
+      return res.status(200).json({
+        message: "Schedule deleted successfully",
+      });
+    } catch (e) {
+      console.error("Error deleting schedule:", e);
+      return res
+        .status(500)
+        .json({ errorMessage: "Failed to delete schedule" });
+    }
+  }
+);
+
+// ==================== TRIP HORIZON ====================
+
+/**
+ * PUT /admin/bus/:busId/operating-calendar
+ * Set the days of the week a bus runs and its season, then regenerate its
+ * trips. Fields left out keep their value; null removes a season bound.
+ * Body: { operatingDays?: number[] (0 = Sunday), operatingFrom?: "YYYY-MM-DD" | null, operatingUntil?: "YYYY-MM-DD" | null }
+ */
+adminRouter.put(
+  "/bus/:busId/operating-calendar",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { busId } = req.params;
+    const { operatingDays, operatingFrom, operatingUntil } = req.body;
+
+    try {
+      const bus = await prisma.bus.findUnique({
+        where: { id: busId as string },
+        select: { id: true, adminId: true },
+      });
+
+      if (!bus) {
+        return res.status(404).json({ errorMessage: "Bus not found" });
+      }
+
+      if (bus.adminId !== adminId) {
+        return res.status(403).json({ errorMessage: "Not authorized" });
+      }
+
+      const calendar = await updateOperatingCalendar(bus.id, {
+        operatingDays,
+        operatingFrom,
+        operatingUntil,
+      });
+      const regenerated = await regenerateTripHorizon(bus.id);
+
+      return res.status(200).json({
+        message: "Operating calendar updated successfully",
+        calendar: serializeOperatingCalendar(calendar),
+        regenerated,
+      });
+    } catch (e) {
+      return handleServiceError(e, res, "Failed to update operating calendar");
+    }
+  }
+);
+
+/**
+ * GET /admin/bus/:busId/trip-horizon
+ * Preview the trips the bus's operating calendar calls for from today: per
+ * day, whether it runs, the departures and whether their trips exist, and
+ * stale trips regeneration would remove (or keep because they have bookings).
+ * Query: days? (defaults to TRIP_HORIZON_DAYS)
+ */
+adminRouter.get(
+  "/bus/:busId/trip-horizon",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { busId } = req.params;
+    const days = req.query.days ? Number(req.query.days) : undefined;
+
+    try {
+      const plan = await planTripHorizon(busId as string, days);
+
+      if (plan.bus.adminId !== adminId) {
+        return res.status(403).json({ errorMessage: "Not authorized" });
+      }
+
+      return res.status(200).json({
+        message: "Trip horizon fetched successfully",
+        horizon: serializeTripHorizon(plan),
+      });
+    } catch (e) {
+      return handleServiceError(e, res, "Failed to preview trip horizon");
+    }
+  }
+);
+
+/**
+ * POST /admin/bus/:busId/trip-horizon/regenerate
+ * Create the missing trips of the horizon and remove stale ones nobody has
+ * booked. Trips are also regenerated periodically and whenever the bus's
+ * calendar, holidays, schedules or route change.
+ * Body: { days? } (defaults to TRIP_HORIZON_DAYS)
+ */
+adminRouter.post(
+  "/bus/:busId/trip-horizon/regenerate",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { busId } = req.params;
+    const { days } = req.body ?? {};
+
+    try {
+      const bus = await prisma.bus.findUnique({
+        where: { id: busId as string },
+        select: { id: true, adminId: true },
+      });
+
+      if (!bus) {
+        return res.status(404).json({ errorMessage: "Bus not found" });
+      }
+
+      if (bus.adminId !== adminId) {
+        return res.status(403).json({ errorMessage: "Not authorized" });
+      }
+
+      const regenerated = await regenerateTripHorizon(bus.id, days);
+      const plan = await planTripHorizon(bus.id, days);
+
+      return res.status(200).json({
+        message: `Trips regenerated: ${regenerated.created} created, ${regenerated.removed} removed`,
+        regenerated,
+        horizon: serializeTripHorizon(plan),
+      });
+    } catch (e) {
+      return handleServiceError(e, res, "Failed to regenerate trips");
+    }
+  }
+);
+
+// ==================== TRIPS MANAGEMENT ====================
+
+/**
+ * POST /admin/bus/:busId/trips
+ * Create trips for a bus (can create multiple trips at once). Either all of
+ * them are created or none. scheduleId is required when the bus has active
+ * schedules.
+ * Body: { trips: [{ tripDate, scheduleId?, status? }] }
+ */
+adminRouter.post(
+  "/bus/:busId/trips",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { busId } = req.params;
+    const { trips } = req.body; // Array of trip objects with dates
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    if (!busId) {
+      return res.status(400).json({ errorMessage: "Bus ID is required" });
+    }
+
+    if (!trips || !Array.isArray(trips) || trips.length === 0) {
+      return res
+        .status(400)
+        .json({ errorMessage: "At least one trip is required" });
+    }
+
+    try {
+      // Verify bus exists and belongs to admin
+      const bus = await prisma.bus.findUnique({
+        where: { id: busId },
+        include: {
+          stops: { where: latestRouteStopsWhere },
+          schedules: { select: { id: true, isActive: true } },
+        },
+      });
+
+      if (!bus) {
+        return res.status(404).json({ errorMessage: "Bus not found" });
+      }
+
+      if (bus.adminId !== adminId) {
+        return res
+          .status(403)
+          .json({ errorMessage: "Not authorized to modify this bus" });
+      }
+
+      if (bus.stops.length < 2) {
+        return res.status(400).json({
+          errorMessage: "Bus must have at least 2 stops before creating trips",
+        });
+      }
+
+      const scheduleIds = new Set(bus.schedules.map((sch) => sch.id));
+      if (
+        trips.some(
+          (trip: any) => trip.scheduleId && !scheduleIds.has(trip.scheduleId)
+        )
+      ) {
+        return res.status(400).json({
+          errorMessage: "Schedule does not belong to this bus",
+        });
+      }
+
+      // A bus with active schedules runs every trip for one of them
+      if (
+        bus.schedules.some((sch) => sch.isActive) &&
+        trips.some((trip: any) => !trip.scheduleId)
+      ) {
+        return res.status(400).json({
+          errorMessage: "scheduleId is required for buses with schedules",
+        });
+      }
+
+      // Each trip runs the route version in effect on its date
+      const routeVersions = await Promise.all(
+        trips.map((trip: any) =>
+          findRouteVersionForDate(prisma, busId, new Date(trip.tripDate))
+        )
+      );
+
+      if (routeVersions.some((version) => !version)) {
+        return res.status(400).json({
+          errorMessage: "Bus has no route defined for the trip date",
+        });
+      }
+
+      // All or nothing: one departure already taken creates none
+      const createdTrips = await prisma.$transaction(
+        async (tx) => {
+          const created = [];
+          for (const [index, trip] of trips.entries()) {
+            const createdTrip = await createTripIfMissing(
+              {
+                busId,
+                routeVersionId: routeVersions[index]!.id,
+                tripDate: new Date(trip.tripDate),
+                scheduleId: trip.scheduleId || null,
+                status: trip.status || "SCHEDULED",
+              },
+              tx
+            );
+
+            if (!createdTrip) {
+              throw new TripGenerationError(
+                "Trip already exists for this departure and date"
+              );
+            }
+            created.push(createdTrip);
+          }
+          return created;
+        },
+        {
+          maxWait: 10000,
+          timeout: 15000,
+        }
+      );
+
+      return res.status(201).json({
+        message: "Trips created successfully",
+        count: createdTrips.length,
+        trips: createdTrips,
+      });
+    } catch (e: any) {
+      if (e instanceof TripGenerationError) {
+        return handleServiceError(e, res);
+      }
+
+      console.error("Error creating trips:", e);
+
+      if (e.code === "P2002") {
+        return res.status(400).json({
+          errorMessage: "Trip already exists for this departure and date",
+        });
+      }
+
+      return res
+        .status(500)
+        .json({ errorMessage: "Failed to create trips", details: e.message });
+    }
+  }
+);
+
+/**
+ * GET /admin/bus/:busId/trips
+ * Get all trips for a bus
+ */
+adminRouter.get(
+  "/bus/:busId/trips",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const { busId } = req.params;
+    const adminId = req.adminId;
+    const { status, startDate, endDate } = req.query;
+
+    if (!busId) {
+      return res.status(400).json({ errorMessage: "Bus ID is required" });
+    }
+
+    try {
+      const bus = await prisma.bus.findUnique({
+        where: { id: busId },
+      });
+
+      if (!bus) {
+        return res.status(404).json({ errorMessage: "Bus not found" });
+      }
+
+      if (bus.adminId !== adminId) {
+        return res
+          .status(403)
+          .json({ errorMessage: "Not authorized to view this bus" });
+      }
+
+      // Build where clause
+      const where: any = { busId };
+
+      if (status) {
+        where.status = status;
+      }
+
+      if (startDate || endDate) {
+        where.tripDate = {};
+        if (startDate) {
+          where.tripDate.gte = new Date(startDate as string);
+        }
+        if (endDate) {
+          where.tripDate.lte = new Date(endDate as string);
+        }
+      }
+
+      const trips = await prisma.trip.findMany({
+        where,
+        include: {
+          schedule: true,
+          _count: {
+            select: {
+              bookings: true,
+              bookingGroups: true,
+            },
+          },
+        },
+        orderBy: [{ tripDate: "asc" }, { schedule: { departureTime: "asc" } }],
+      });
+
+      return res.status(200).json({
+        message: "Trips fetched successfully",
+        count: trips.length,
+        trips: trips.map((trip) => ({
+          id: trip.id,
+          tripDate: trip.tripDate,
+          schedule: trip.schedule ? serializeSchedule(trip.schedule) : null,
+          status: trip.status,
+          bookingCount: trip._count.bookingGroups,
+          seatsBooked: trip._count.bookings,
+          createdAt: trip.createdAt,
+        })),
+      });
+    } catch (e) {
+      console.error("Error fetching trips:", e);
+      return res.status(500).json({ errorMessage: "Failed to fetch trips" });
+    }
+  }
+);
+
+/**
+ * PATCH /admin/trip/:tripId/status
+ * Update trip status (SCHEDULED, ONGOING, COMPLETED, CANCELLED)
+ */
+adminRouter.patch(
+  "/trip/:tripId/status",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { tripId } = req.params;
+    const { status } = req.body;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    if (!tripId) {
+      return res.status(400).json({ errorMessage: "Trip ID is required" });
+    }
+
+    if (
+      !status ||
+      !["SCHEDULED", "ONGOING", "COMPLETED", "CANCELLED"].includes(status)
+    ) {
+      return res.status(400).json({ errorMessage: "Invalid status" });
+    }
+
+    try {
+      // Find trip and verify ownership
+      const trip = await prisma.trip.findUnique({
+        where: { id: tripId },
+        include: {
+          bus: true,
+        },
+      });
+
+      if (!trip) {
+        return res.status(404).json({ errorMessage: "Trip not found" });
+      }
+
+      if (trip.bus.adminId !== adminId) {
+        return res
+          .status(403)
+          .json({ errorMessage: "Not authorized to modify this trip" });
+      }
+
+      // Update trip status
+      const updatedTrip = await prisma.trip.update({
+        where: { id: tripId },
+        data: { status },
+      });
+
+      return res.status(200).json({
+        message: "Trip status updated successfully",
+        trip: updatedTrip,
+      });
+    } catch (e: any) {
+      console.error("Error updating trip status:", e);
+      return res
+        .status(500)
+        .json({ errorMessage: "Failed to update trip status" });
+    }
+  }
+);
+
+/**
+ * POST /admin/bus/:busId/cancel-trip
+ * Cancel a trip for a specific bus on a specific date
+ * This prevents users from seeing or booking this trip
+ * Body: { tripDate, tripId?, scheduleId?, cascade?: boolean }
+ * tripId or scheduleId picks the departure when several run on the date.
+ * With cascade, confirmed bookings are cancelled and fully refunded, and
+ * each passenger is notified. The response reports the outcome per booking.
+ */
+adminRouter.post(
+  "/bus/:busId/cancel-trip",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { busId } = req.params;
+    const { tripDate, tripId, scheduleId, cascade = false } = req.body;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    if (!busId) {
+      return res.status(400).json({ errorMessage: "Bus ID is required" });
+    }
+
+    if (!tripDate) {
+      return res.status(400).json({ errorMessage: "Trip date is required" });
+    }
+
+    if (typeof cascade !== "boolean") {
+      return res
+        .status(400)
+        .json({ errorMessage: "cascade must be a boolean" });
+    }
+
+    try {
+      // Verify bus exists and belongs to admin
+      const bus = await prisma.bus.findUnique({
+        where: { id: busId },
+      });
+
+      if (!bus) {
+        return res.status(404).json({ errorMessage: "Bus not found" });
+      }
+
+      if (bus.adminId !== adminId) {
+        return res
+          .status(403)
+          .json({ errorMessage: "Not authorized to modify this bus" });
+      }
+
+      // Parse the trip date
+      const searchDate = new Date(tripDate);
+      searchDate.setHours(0, 0, 0, 0);
+
+      // Find the trip for this bus, date and departure
+      const trip = await findTripForDate(busId, searchDate, {
+        tripId,
+        scheduleId,
+      });
+
+      if (!trip) {
+        return res.status(404).json({
+          errorMessage: "No trip found for this bus on the specified date",
+        });
+      }
+
+      // Check if trip already cancelled
+      if (trip.status === "CANCELLED") {
+        return res.status(400).json({
+          errorMessage: "Trip is already cancelled",
+        });
+      }
+
+      // Check for existing confirmed bookings
+      const confirmedBookingsCount = await prisma.bookingGroup.count({
+        where: { tripId: trip.id, status: "CONFIRMED" },
+      });
+
+      if (confirmedBookingsCount > 0 && !cascade) {
+        return res.status(400).json({
+          errorMessage: `Cannot cancel trip. There are ${confirmedBookingsCount} confirmed booking(s). Send cascade: true to cancel and refund them along with the trip.`,
+          confirmedBookings: confirmedBookingsCount,
+        });
+      }
+
+      if (confirmedBookingsCount > 0) {
+        const { trip: cancelledTrip, outcomes } = await cancelTripWithBookings(
+          trip.id
+        );
+
+        return res.status(200).json({
+          message: `Trip cancelled successfully. ${outcomes.length} booking(s) were cancelled and refunded.`,
+          trip: {
+            id: cancelledTrip.id,
+            tripDate: cancelledTrip.tripDate,
+            status: cancelledTrip.status,
+            busNumber: bus.busNumber,
+            busName: bus.name,
+          },
+          summary: {
+            cancelledBookings: outcomes.length,
+            refundsProcessed: outcomes.filter(
+              (o) => o.refund?.status === "PROCESSED"
+            ).length,
+            refundsPending: outcomes.filter(
+              (o) => o.refund?.status === "PENDING"
+            ).length,
+            refundsFailed: outcomes.filter((o) => o.refundError !== null)
+              .length,
+            totalRefundAmount:
+              Math.round(
+                outcomes.reduce((sum, o) => sum + o.refundAmount, 0) * 100
+              ) / 100,
+          },
+          bookings: outcomes,
+        });
+      }
+
+      // Update trip status to CANCELLED
+      const updatedTrip = await prisma.trip.update({
+        where: { id: trip.id },
+        data: { status: "CANCELLED" },
+      });
+
+      return res.status(200).json({
+        message:
+          "Trip cancelled successfully. Users will no longer see or be able to book this trip.",
+        trip: {
+          id: updatedTrip.id,
+          tripDate: updatedTrip.tripDate,
+          status: updatedTrip.status,
+          busNumber: bus.busNumber,
+          busName: bus.name,
+        },
+      });
+    } catch (e: any) {
+      if (e instanceof ServiceError) {
+        return handleServiceError(e, res);
+      }
+
+      console.error("Error cancelling trip:", e);
+      return res
+        .status(500)
+        .json({ errorMessage: "Failed to cancel trip", details: e.message });
+    }
+  }
+);
+
+/**
+ * POST /admin/bus/:busId/reactivate-trip
+ * Reactivate a cancelled trip for a specific date
+ * Body: { tripDate, tripId?, scheduleId? }
+ */
+adminRouter.post(
+  "/bus/:busId/reactivate-trip",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { busId } = req.params;
+    const { tripDate, tripId, scheduleId } = req.body;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    if (!busId) {
+      return res.status(400).json({ errorMessage: "Bus ID is required" });
+    }
+
+    if (!tripDate) {
+      return res.status(400).json({ errorMessage: "Trip date is required" });
+    }
+
+    try {
+      // Verify bus exists and belongs to admin
+      const bus = await prisma.bus.findUnique({
+        where: { id: busId },
+      });
+
+      if (!bus) {
+        return res.status(404).json({ errorMessage: "Bus not found" });
+      }
+
+      if (bus.adminId !== adminId) {
+        return res
+          .status(403)
+          .json({ errorMessage: "Not authorized to modify this bus" });
+      }
+
+      // Parse the trip date
+      const searchDate = new Date(tripDate);
+      searchDate.setHours(0, 0, 0, 0);
+
+      // Find the trip for this bus, date and departure
+      const trip = await findTripForDate(busId, searchDate, {
+        tripId,
+        scheduleId,
+      });
+
+      if (!trip) {
+        return res.status(404).json({
+          errorMessage: "No trip found for this bus on the specified date",
+        });
+      }
+
+      // Check if trip is actually cancelled
+      if (trip.status !== "CANCELLED") {
+        return res.status(400).json({
+          errorMessage: `Trip is currently ${trip.status}. Only cancelled trips can be reactivated.`,
+        });
+      }
+
+      // Update trip status to SCHEDULED
+      const updatedTrip = await prisma.trip.update({
+        where: { id: trip.id },
+        data: { status: "SCHEDULED" },
+      });
+
+      return res.status(200).json({
+        message:
+          "Trip reactivated successfully. Users can now see and book this trip again.",
+        trip: {
+          id: updatedTrip.id,
+          tripDate: updatedTrip.tripDate,
+          status: updatedTrip.status,
+          busNumber: bus.busNumber,
+          busName: bus.name,
+        },
+      });
+    } catch (e: any) {
+      if (e instanceof ServiceError) {
+        return handleServiceError(e, res);
+      }
+
+      console.error("Error reactivating trip:", e);
+      return res.status(500).json({
+        errorMessage: "Failed to reactivate trip",
+        details: e.message,
+      });
+    }
+  }
+);
+
+/**
+ * GET /admin/trip/:tripId/bookings
+ * View all bookings for a specific trip
+ */
+adminRouter.get(
+  "/trip/:tripId/bookings",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { tripId } = req.params;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    if (!tripId) {
+      return res.status(400).json({ errorMessage: "Trip ID is required" });
+    }
+
+    try {
+      const trip = await prisma.trip.findUnique({
+        where: { id: tripId },
+        include: {
+          bus: true,
+          bookingGroups: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  email: true,
+                },
+              },
+              fromStop: true,
+              toStop: true,
+              bookings: {
+                include: {
+                  seat: true,
+                },
+              },
+              payment: {
+                select: {
+                  status: true,
+                  refunds: { orderBy: { createdAt: "desc" } },
+                },
+              },
+            },
+            orderBy: { createdAt: "desc" },
+          },
+        },
+      });
+
+      if (!trip) {
+        return res.status(404).json({ errorMessage: "Trip not found" });
+      }
+
+      if (trip.bus.adminId !== adminId) {
+        return res
+          .status(403)
+          .json({ errorMessage: "Not authorized to view this trip" });
+      }
+
+      // Calculate revenue and statistics
+      const totalRevenue = trip.bookingGroups
+        .filter((bg) => bg.status === "CONFIRMED")
+        .reduce((sum, bg) => sum + bg.totalPrice, 0);
+
+      const totalBookings = trip.bookingGroups.length;
+      const confirmedBookings = trip.bookingGroups.filter(
+        (bg) => bg.status === "CONFIRMED"
+      ).length;
+      const cancelledBookings = trip.bookingGroups.filter(
+        (bg) => bg.status === "CANCELLED"
+      ).length;
+
+      return res.status(200).json({
+        message: "Trip bookings fetched successfully",
+        trip: {
+          id: trip.id,
+          tripDate: trip.tripDate,
+          status: trip.status,
+          busNumber: trip.bus.busNumber,
+          busName: trip.bus.name,
+        },
+        statistics: {
+          totalBookings,
+          confirmedBookings,
+          cancelledBookings,
+          totalRevenue,
+          totalSeatsBooked: trip.bookingGroups
+            .filter((bg) => bg.status === "CONFIRMED")
+            .reduce((sum, bg) => sum + bg.bookings.length, 0),
+          availableSeats:
+            trip.bus.totalSeats -
+            trip.bookingGroups
+              .filter((bg) => bg.status === "CONFIRMED")
+              .reduce((sum, bg) => sum + bg.bookings.length, 0),
+        },
+        bookings: trip.bookingGroups.map((group) => ({
+          bookingGroupId: group.id,
+          status: group.status,
+          totalPrice: group.totalPrice,
+          bookedAt: group.createdAt,
+          passenger: {
+            id: group.user.id,
+            name: group.user.name,
+            email: group.user.email,
+          },
+          route: {
+            from: group.fromStop.name,
+            to: group.toStop.name,
+          },
+          seats: group.bookings.map((b) => ({
+            seatNumber: b.seat.seatNumber,
+            type: b.seat.type,
+            level: b.seat.level,
+          })),
+          seatCount: group.bookings.length,
+          paymentStatus: group.payment?.status ?? null,
+          refunds: group.payment?.refunds.map(serializeRefund) ?? [],
+        })),
+      });
+    } catch (e) {
+      console.error("Error fetching trip bookings:", e);
+      return res
+        .status(500)
+        .json({ errorMessage: "Failed to fetch trip bookings" });
+    }
+  }
+);
+
+// ==================== SEAT BLOCKS ====================
+
+/**
+ * GET /admin/trip/:tripId/seat-blocks?includeReleased=true
+ * Seats held back from sale on a trip (conductor, VIP or quota seats)
+ */
+adminRouter.get(
+  "/trip/:tripId/seat-blocks",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { tripId } = req.params;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    if (!tripId) {
+      return res.status(400).json({ errorMessage: "Trip ID is required" });
+    }
+
+    try {
+      const { departure, blocks } = await listTripSeatBlocks(
+        adminId,
+        tripId,
+        req.query.includeReleased === "true"
+      );
+
+      return res.status(200).json({
+        message: "Seat blocks fetched successfully",
+        departure,
+        blocks: blocks.map(serializeSeatBlock),
+        count: blocks.length,
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to fetch seat blocks");
+    }
+  }
+);
+
+/**
+ * POST /admin/trip/:tripId/seat-blocks
+ * Keep seats off sale on this trip only. Booked or reserved seats can't be
+ * blocked. Give releaseHoursBeforeDeparture (e.g. 6) or releaseAt to put the
+ * seats back on sale automatically; otherwise they stay blocked until released.
+ * Body: { seatIds: string[], reason, releaseAt?, releaseHoursBeforeDeparture? }
+ */
+adminRouter.post(
+  "/trip/:tripId/seat-blocks",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { tripId } = req.params;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    if (!tripId) {
+      return res.status(400).json({ errorMessage: "Trip ID is required" });
+    }
+
+    try {
+      const blocks = await blockTripSeats(adminId, tripId, req.body ?? {});
+
+      return res.status(201).json({
+        message: "Seats blocked successfully",
+        blocks: blocks.map(serializeSeatBlock),
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to block seats");
+    }
+  }
+);
+
+/**
+ * DELETE /admin/seat-blocks/:blockId
+ * Release a blocked seat now; it is offered to the trip's waitlist first
+ */
+adminRouter.delete(
+  "/seat-blocks/:blockId",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { blockId } = req.params;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    if (!blockId) {
+      return res.status(400).json({ errorMessage: "Block ID is required" });
+    }
+
+    try {
+      const block = await releaseSeatBlock(adminId, blockId);
+
+      return res.status(200).json({
+        message: "Seat released successfully",
+        block: serializeSeatBlock(block),
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to release seat");
+    }
+  }
+);
+
+// ==================== CANCELLATION POLICY ====================
+
+/**
+ * GET /admin/cancellation-policy
+ * Get the refund slabs applied when passengers cancel on this operator's buses
+ */
+adminRouter.get(
+  "/cancellation-policy",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    try {
+      const policy = await getCancellationPolicy(adminId);
+
+      return res.status(200).json({
+        message: "Cancellation policy fetched successfully",
+        policy,
+      });
+    } catch (error) {
+      return handleServiceError(
+        error,
+        res,
+        "Failed to process cancellation policy"
+      );
+    }
+  }
+);
+
+/**
+ * PUT /admin/cancellation-policy
+ * Replace the operator's refund slabs
+ * Body: { slabs: [{ minHoursBeforeDeparture: 24, refundPercentage: 75 }, ...] }
+ */
+adminRouter.put(
+  "/cancellation-policy",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { slabs } = req.body;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    try {
+      const policy = await replaceCancellationPolicy(adminId, slabs);
+
+      return res.status(200).json({
+        message: "Cancellation policy updated successfully",
+        policy,
+      });
+    } catch (error) {
+      return handleServiceError(
+        error,
+        res,
+        "Failed to process cancellation policy"
+      );
+    }
+  }
+);
+
+/**
+ * DELETE /admin/cancellation-policy
+ * Remove custom slabs and fall back to the default policy
+ */
+adminRouter.delete(
+  "/cancellation-policy",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    try {
+      const policy = await resetCancellationPolicy(adminId);
+
+      return res.status(200).json({
+        message: "Cancellation policy reset to default",
+        policy,
+      });
+    } catch (error) {
+      return handleServiceError(
+        error,
+        res,
+        "Failed to process cancellation policy"
+      );
+    }
+  }
+);
+
+// ==================== PRICING RULES ====================
+
+/**
+ * GET /admin/pricing-rules?busId=
+ * List the operator's dynamic pricing rules, highest priority first. With
+ * busId, only rules that apply to that bus (its own and fleet-wide ones).
+ */
+adminRouter.get(
+  "/pricing-rules",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const busId =
+      typeof req.query.busId === "string" ? req.query.busId : undefined;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    try {
+      const rules = await listPricingRules(adminId, busId);
+
+      return res.status(200).json({
+        message: "Pricing rules fetched successfully",
+        rules: rules.map(serializePricingRule),
+        count: rules.length,
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to fetch pricing rules");
+    }
+  }
+);
+
+/**
+ * POST /admin/pricing-rules
+ * Create a pricing rule. Omit busId to apply it to every bus of the operator.
+ * Body: { name, busId?, daysOfWeek?: [0-6], startDate?, endDate?,
+ *         minOccupancyPercent?, minLeadHours?, maxLeadHours?,
+ *         adjustmentType: "PERCENTAGE" | "FIXED_AMOUNT", adjustmentValue,
+ *         priority?, isActive? }
+ */
+adminRouter.post(
+  "/pricing-rules",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    try {
+      const rule = await createPricingRule(adminId, req.body ?? {});
+
+      return res.status(201).json({
+        message: "Pricing rule created successfully",
+        rule: serializePricingRule(rule),
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to create pricing rule");
+    }
+  }
+);
+
+/**
+ * PATCH /admin/pricing-rules/:ruleId
+ * Update a pricing rule
+ * Body: any of the POST fields
+ */
+adminRouter.patch(
+  "/pricing-rules/:ruleId",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { ruleId } = req.params;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    if (!ruleId) {
+      return res.status(400).json({ errorMessage: "Rule ID is required" });
+    }
+
+    try {
+      const rule = await updatePricingRule(adminId, ruleId, req.body ?? {});
+
+      return res.status(200).json({
+        message: "Pricing rule updated successfully",
+        rule: serializePricingRule(rule),
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to update pricing rule");
+    }
+  }
+);
+
+/**
+ * DELETE /admin/pricing-rules/:ruleId
+ * Delete a pricing rule; rules that priced bookings are deactivated instead
+ */
+adminRouter.delete(
+  "/pricing-rules/:ruleId",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { ruleId } = req.params;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    if (!ruleId) {
+      return res.status(400).json({ errorMessage: "Rule ID is required" });
+    }
+
+    try {
+      const { deleted, rule } = await deletePricingRule(adminId, ruleId);
+
+      return res.status(200).json({
+        message: deleted
+          ? "Pricing rule deleted successfully"
+          : "Pricing rule has priced bookings and was deactivated instead",
+        deleted,
+        rule: rule ? serializePricingRule(rule) : null,
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to delete pricing rule");
+    }
+  }
+);
+
+// ==================== FARE CATEGORIES ====================
+
+/**
+ * GET /admin/fare-categories
+ * Passenger fare categories offered on this operator's buses
+ */
+adminRouter.get(
+  "/fare-categories",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    try {
+      const categories = await listFareCategories(adminId);
+
+      return res.status(200).json({
+        message: "Fare categories fetched successfully",
+        categories: categories.map(serializeFareCategory),
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to fetch fare categories");
+    }
+  }
+);
+
+/**
+ * PUT /admin/fare-categories/:category
+ * Offer or change a fare category (CHILD, SENIOR, STUDENT or INFANT)
+ * Body: { adjustmentType: "PERCENTAGE" | "FIXED_AMOUNT", adjustmentValue,
+ *         minAge?, maxAge?, requiresIdProof?, isActive? }
+ * e.g. CHILD { maxAge: 12, adjustmentType: "PERCENTAGE", adjustmentValue: -50 }
+ */
+adminRouter.put(
+  "/fare-categories/:category",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const category = req.params.category?.toUpperCase();
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    try {
+      const fareCategory = await upsertFareCategory(
+        adminId,
+        category,
+        req.body ?? {}
+      );
+
+      return res.status(200).json({
+        message: "Fare category saved successfully",
+        category: serializeFareCategory(fareCategory),
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to update fare category");
+    }
+  }
+);
+
+/**
+ * DELETE /admin/fare-categories/:category
+ * Stop offering a fare category
+ */
+adminRouter.delete(
+  "/fare-categories/:category",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const category = req.params.category?.toUpperCase();
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    if (!category) {
+      return res.status(400).json({ errorMessage: "Category is required" });
+    }
+
+    try {
+      await deleteFareCategory(adminId, category);
+
+      return res.status(200).json({
+        message: "Fare category removed successfully",
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to remove fare category");
+    }
+  }
+);
+
+// ==================== GROUP BOOKINGS ====================
+
+/**
+ * GET /admin/group-bookings?status=REQUESTED
+ * Group and charter booking requests on this operator's buses
+ */
+adminRouter.get(
+  "/group-bookings",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    try {
+      const groupBookings = await getOperatorGroupBookings(
+        adminId,
+        req.query.status
+      );
+
+      return res.status(200).json({
+        message: "Group bookings fetched successfully",
+        count: groupBookings.length,
+        groupBookings,
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to fetch group bookings");
+    }
+  }
+);
+
+/**
+ * POST /admin/group-bookings/:requestId/quote
+ * Quote a negotiated price and hold seats for the group until the quote
+ * expires. Seats that sit together are picked unless seatIds is given.
+ * Body: { quotedPrice, depositAmount?, balanceDueAt?, seatIds?, operatorNote? }
+ * depositAmount defaults to quotedPrice; a smaller deposit needs balanceDueAt.
+ */
+adminRouter.post(
+  "/group-bookings/:requestId/quote",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { requestId } = req.params;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    try {
+      const request = await quoteGroupBooking(
+        adminId,
+        requestId as string,
+        req.body ?? {}
+      );
+
+      return res.status(200).json({
+        message: "Group booking quoted successfully",
+        groupBooking: serializeGroupBooking(request),
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to quote group booking");
+    }
+  }
+);
+
+/**
+ * POST /admin/group-bookings/:requestId/reject
+ * Decline a group booking request that hasn't been paid for
+ * Body: { reason? }
+ */
+adminRouter.post(
+  "/group-bookings/:requestId/reject",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { requestId } = req.params;
+    const reason = req.body?.reason;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    if (reason !== undefined && typeof reason !== "string") {
+      return res.status(400).json({ errorMessage: "reason must be a string" });
+    }
+
+    try {
+      const request = await rejectGroupBooking(
+        adminId,
+        requestId as string,
+        reason
+      );
+
+      return res.status(200).json({
+        message: "Group booking rejected",
+        groupBooking: serializeGroupBooking(request),
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to reject group booking");
+    }
+  }
+);
+
+/**
+ * POST /admin/group-bookings/:requestId/cancel
+ * Cancel a paid group booking (e.g. the balance was never paid). Its seats are
+ * released and the deposit and any balance paid are refunded in full.
+ * Body: { reason? }
+ */
+adminRouter.post(
+  "/group-bookings/:requestId/cancel",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { requestId } = req.params;
+    const reason = req.body?.reason;
+
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    if (reason !== undefined && typeof reason !== "string") {
+      return res.status(400).json({ errorMessage: "reason must be a string" });
+    }
+
+    try {
+      const result = await cancelGroupBooking(
+        adminId,
+        requestId as string,
+        reason
+      );
+
+      return res.status(200).json({
+        message: "Group booking cancelled",
+        groupBooking: serializeGroupBooking(result.request),
+        refunds: result.refunds,
+        refundErrors: result.refundErrors,
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to cancel group booking");
+    }
+  }
+);
+
+// ==================== REFUNDS ====================
+
+/**
+ * Load a refund and make sure it belongs to a booking on this admin's buses
+ */
+const findAdminRefund = async (refundId: string, adminId: string) => {
+  const refund = await prisma.refund.findUnique({
+    where: { id: refundId },
+    include: {
+      payment: {
+        select: {
+          bookingGroup: {
+            select: {
+              trip: { select: { bus: { select: { adminId: true } } } },
             },
           },
         },
-      });
+      },
+    },
+  });
 
-      if (!trip) {
-        return res.status(404).json({
-          errorMessage: "No trip found for this bus on the specified date",
-        });
-      }
+  if (!refund) {
+    return { status: 404, errorMessage: "Refund not found" } as const;
+  }
 
-      // Check if trip already cancelled
-      if (trip.status === "CANCELLED") {
-        return res.status(400).json({
-          errorMessage: "Trip is already cancelled",
-        });
-      }
+  if (refund.payment.bookingGroup?.trip.bus.adminId !== adminId) {
+    return {
+      status: 403,
+      errorMessage: "Not authorized to manage this refund",
+    } as const;
+  }
 
-      // Check for existing confirmed bookings
-      const confirmedBookingsCount = trip.bookingGroups.length;
+  return { refund } as const;
+};
 
-      if (confirmedBookingsCount > 0) {
-        return res.status(400).json({
-          errorMessage: `Cannot cancel trip. There are ${confirmedBookingsCount} confirmed booking(s). Please cancel or refund all bookings first.`,
-          confirmedBookings: confirmedBookingsCount,
-        });
-      }
+/**
+ * GET /admin/refunds
+ * List refunds for bookings on this admin's buses
+ * Query: ?status=PENDING|PROCESSED|FAILED&page=1&limit=20
+ */
+adminRouter.get(
+  "/refunds",
+  authenticateAdmin,
+  async (req: AuthRequest, res): Promise<any> => {
+    const adminId = req.adminId;
+    const { status, page = "1", limit = "20" } = req.query;
 
-      // Update trip status to CANCELLED
-      const updatedTrip = await prisma.trip.update({
-        where: { id: trip.id },
-        data: { status: "CANCELLED" },
+    if (!adminId) {
+      return res.status(401).json({ errorMessage: "Admin not authenticated" });
+    }
+
+    if (
+      status &&
+      !Object.values(RefundStatus).includes(
+        String(status).toUpperCase() as RefundStatus
+      )
+    ) {
+      return res.status(400).json({
+        errorMessage: `Invalid status. Must be one of: ${Object.values(
+          RefundStatus
+        ).join(", ")}`,
       });
+    }
+
+    try {
+      const pageNum = parseInt(page as string) || 1;
+      const limitNum = parseInt(limit as string) || 20;
+
+      const where: any = {
+        payment: { bookingGroup: { trip: { bus: { adminId } } } },
+      };
+      if (status) {
+        where.status = String(status).toUpperCase();
+      }
+
+      const [refunds, total] = await Promise.all([
+        prisma.refund.findMany({
+          where,
+          include: {
+            payment: {
+              select: {
+                id: true,
+                method: true,
+                status: true,
+                chargedAmount: true,
+                chargedCurrency: true,
+                bookingGroup: {
+                  select: {
+                    id: true,
+                    status: true,
+                    user: { select: { name: true, email: true } },
+                    trip: {
+                      select: {
+                        tripDate: true,
+                        bus: { select: { busNumber: true, name: true } },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          orderBy: { createdAt: "desc" },
+          skip: (pageNum - 1) * limitNum,
+          take: limitNum,
+        }),
+        prisma.refund.count({ where }),
+      ]);
 
       return res.status(200).json({
-        message:
-          "Trip cancelled successfully. Users will no longer see or be able to book this trip.",
-        trip: {
-          id: updatedTrip.id,
-          tripDate: updatedTrip.tripDate,
-          status: updatedTrip.status,
-          busNumber: bus.busNumber,
-          busName: bus.name,
+        message: "Refunds fetched successfully",
+        refunds: refunds.map((refund) => ({
+          ...serializeRefund(refund),
+          payment: {
+            paymentId: refund.payment.id,
+            method: refund.payment.method,
+            status: refund.payment.status,
+            chargedAmount: refund.payment.chargedAmount,
+            chargedCurrency: refund.payment.chargedCurrency,
+          },
+          bookingGroupId: refund.payment.bookingGroup?.id ?? null,
+          bookingStatus: refund.payment.bookingGroup?.status ?? null,
+          passenger: refund.payment.bookingGroup?.user ?? null,
+          tripDate: refund.payment.bookingGroup?.trip.tripDate ?? null,
+          bus: refund.payment.bookingGroup?.trip.bus ?? null,
+        })),
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
         },
       });
-    } catch (e: any) {
-      console.error("Error cancelling trip:", e);
-      return res
-        .status(500)
-        .json({ errorMessage: "Failed to cancel trip", details: e.message });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to fetch refunds");
     }
   }
 );
 
 /**
- * POST /admin/bus/:busId/reactivate-trip
- * Reactivate a cancelled trip for a specific date
+ * POST /admin/refunds/:refundId/retry
+ * Send a failed refund to the payment gateway again
  */
 adminRouter.post(
-  "/bus/:busId/reactivate-trip",
+  "/refunds/:refundId/retry",
   authenticateAdmin,
   async (req: AuthRequest, res): Promise<any> => {
     const adminId = req.adminId;
-    const { busId } = req.params;
-    const { tripDate } = req.body;
+    const { refundId } = req.params;
 
     if (!adminId) {
       return res.status(401).json({ errorMessage: "Admin not authenticated" });
     }
 
-    if (!busId) {
-      return res.status(400).json({ errorMessage: "Bus ID is required" });
-    }
-
-    if (!tripDate) {
-      return res.status(400).json({ errorMessage: "Trip date is required" });
+    if (!refundId) {
+      return res.status(400).json({ errorMessage: "Refund ID is required" });
     }
 
     try {
-      // Verify bus exists and belongs to admin
-      const bus = await prisma.bus.findUnique({
-        where: { id: busId },
-      });
-
-      if (!bus) {
-        return res.status(404).json({ errorMessage: "Bus not found" });
-      }
-
-      if (bus.adminId !== adminId) {
+      const lookup = await findAdminRefund(refundId, adminId);
+      if (!("refund" in lookup)) {
         return res
-          .status(403)
-          .json({ errorMessage: "Not authorized to modify this bus" });
-      }
-
-      // Parse the trip date
-      const searchDate = new Date(tripDate);
-      searchDate.setHours(0, 0, 0, 0);
-      const nextDay = new Date(searchDate.getTime() + 24 * 60 * 60 * 1000);
-
-      // Find the trip for this bus and date
-      const trip = await prisma.trip.findFirst({
-        where: {
-          busId,
-          tripDate: {
-            gte: searchDate,
-            lt: nextDay,
-          },
-        },
-      });
-
-      if (!trip) {
-        return res.status(404).json({
-          errorMessage: "No trip found for this bus on the specified date",
-        });
-      }
-
-      // Check if trip is actually cancelled
-      if (trip.status !== "CANCELLED") {
-        return res.status(400).json({
-          errorMessage: `Trip is currently ${trip.status}. Only cancelled trips can be reactivated.`,
-        });
+          .status(lookup.status)
+          .json({ errorMessage: lookup.errorMessage });
       }
 
-      // Update trip status to SCHEDULED
-      const updatedTrip = await prisma.trip.update({
-        where: { id: trip.id },
-        data: { status: "SCHEDULED" },
-      });
+      const refund = await retryRefund(refundId);
 
       return res.status(200).json({
         message:
-          "Trip reactivated successfully. Users can now see and book this trip again.",
-        trip: {
-          id: updatedTrip.id,
-          tripDate: updatedTrip.tripDate,
-          status: updatedTrip.status,
-          busNumber: bus.busNumber,
-          busName: bus.name,
-        },
-      });
-    } catch (e: any) {
-      console.error("Error reactivating trip:", e);
-      return res.status(500).json({
-        errorMessage: "Failed to reactivate trip",
-        details: e.message,
+          refund.status === RefundStatus.FAILED
+            ? "Refund failed again"
+            : "Refund resubmitted successfully",
+        refund: serializeRefund(refund),
       });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to process refund");
     }
   }
 );
 
 /**
- * GET /admin/trip/:tripId/bookings
- * View all bookings for a specific trip
+ * POST /admin/refunds/:refundId/mark-processed
+ * Record a refund that was settled outside the gateway (e.g. eSewa manual refund)
+ * Body: { gatewayRefundId?: string }
  */
-adminRouter.get(
-  "/trip/:tripId/bookings",
+adminRouter.post(
+  "/refunds/:refundId/mark-processed",
   authenticateAdmin,
   async (req: AuthRequest, res): Promise<any> => {
     const adminId = req.adminId;
-    const { tripId } = req.params;
+    const { refundId } = req.params;
+    const { gatewayRefundId } = req.body ?? {};
 
     if (!adminId) {
       return res.status(401).json({ errorMessage: "Admin not authenticated" });
     }
 
-    if (!tripId) {
-      return res.status(400).json({ errorMessage: "Trip ID is required" });
+    if (!refundId) {
+      return res.status(400).json({ errorMessage: "Refund ID is required" });
     }
 
-    try {
-      const trip = await prisma.trip.findUnique({
-        where: { id: tripId },
-        include: {
-          bus: true,
-          bookingGroups: {
-            include: {
-              user: {
-                select: {
-                  id: true,
-                  name: true,
-                  email: true,
-                },
-              },
-              fromStop: true,
-              toStop: true,
-              bookings: {
-                include: {
-                  seat: true,
-                },
-              },
-            },
-            orderBy: { createdAt: "desc" },
-          },
-        },
-      });
-
-      if (!trip) {
-        return res.status(404).json({ errorMessage: "Trip not found" });
-      }
+    if (gatewayRefundId !== undefined && typeof gatewayRefundId !== "string") {
+      return res
+        .status(400)
+        .json({ errorMessage: "gatewayRefundId must be a string" });
+    }
 
-      if (trip.bus.adminId !== adminId) {
+    try {
+      const lookup = await findAdminRefund(refundId, adminId);
+      if (!("refund" in lookup)) {
         return res
-          .status(403)
-          .json({ errorMessage: "Not authorized to view this trip" });
+          .status(lookup.status)
+          .json({ errorMessage: lookup.errorMessage });
       }
 
-      // Calculate revenue and statistics
-      const totalRevenue = trip.bookingGroups
-        .filter((bg) => bg.status === "CONFIRMED")
-        .reduce((sum, bg) => sum + bg.totalPrice, 0);
-
-      const totalBookings = trip.bookingGroups.length;
-      const confirmedBookings = trip.bookingGroups.filter(
-        (bg) => bg.status === "CONFIRMED"
-      ).length;
-      const cancelledBookings = trip.bookingGroups.filter(
-        (bg) => bg.status === "CANCELLED"
-      ).length;
+      const refund = await markRefundProcessed(refundId, gatewayRefundId);
 
       return res.status(200).json({
-        message: "Trip bookings fetched successfully",
-        trip: {
-          id: trip.id,
-          tripDate: trip.tripDate,
-          status: trip.status,
-          busNumber: trip.bus.busNumber,
-          busName: trip.bus.name,
-        },
-        statistics: {
-          totalBookings,
-          confirmedBookings,
-          cancelledBookings,
-          totalRevenue,
-          totalSeatsBooked: trip.bookingGroups
-            .filter((bg) => bg.status === "CONFIRMED")
-            .reduce((sum, bg) => sum + bg.bookings.length, 0),
-          availableSeats:
-            trip.bus.totalSeats -
-            trip.bookingGroups
-              .filter((bg) => bg.status === "CONFIRMED")
-              .reduce((sum, bg) => sum + bg.bookings.length, 0),
-        },
-        bookings: trip.bookingGroups.map((group) => ({
-          bookingGroupId: group.id,
-          status: group.status,
-          totalPrice: group.totalPrice,
-          bookedAt: group.createdAt,
-          passenger: {
-            id: group.user.id,
-            name: group.user.name,
-            email: group.user.email,
-          },
-          route: {
-            from: group.fromStop.name,
-            to: group.toStop.name,
-          },
-          seats: group.bookings.map((b) => ({
-            seatNumber: b.seat.seatNumber,
-            type: b.seat.type,
-            level: b.seat.level,
-          })),
-          seatCount: group.bookings.length,
-        })),
+        message: "Refund marked as processed",
+        refund: serializeRefund(refund),
       });
-    } catch (e) {
-      console.error("Error fetching trip bookings:", e);
-      return res
-        .status(500)
-        .json({ errorMessage: "Failed to fetch trip bookings" });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to process refund");
     }
   }
 );
@@ -2200,7 +4005,8 @@ adminRouter.get(
           },
         },
         include: {
-          bus: {
+          bus: true,
+          routeVersion: {
             include: {
               stops: {
                 orderBy: { stopIndex: "asc" },
@@ -2294,8 +4100,9 @@ adminRouter.get(
         });
 
         // Get route info
-        const firstStop = bus.stops[0];
-        const lastStop = bus.stops[bus.stops.length - 1];
+        const stops = trip.routeVersion.stops;
+        const firstStop = stops[0];
+        const lastStop = stops[stops.length - 1];
         const route =
           firstStop && lastStop
             ? `${firstStop.name} → ${lastStop.name}`
@@ -2522,6 +4329,8 @@ adminRouter.get(
 /**
  * PATCH /admin/bus/:busId
  * Update bus details
+ * Body: { busNumber?, name?, type?, layoutType?, gridRows?, gridColumns?,
+ *         enforceGenderAdjacency? }
  */
 adminRouter.patch(
   "/bus/:busId",
@@ -2529,8 +4338,15 @@ adminRouter.patch(
   async (req: AuthRequest, res): Promise<any> => {
     const adminId = req.adminId;
     const { busId } = req.params;
-    const { busNumber, name, type, layoutType, gridRows, gridColumns } =
-      req.body;
+    const {
+      busNumber,
+      name,
+      type,
+      layoutType,
+      gridRows,
+      gridColumns,
+      enforceGenderAdjacency,
+    } = req.body;
 
     if (!adminId) {
       return res.status(401).json({ errorMessage: "Admin not authenticated" });
@@ -2540,6 +4356,15 @@ adminRouter.patch(
       return res.status(400).json({ errorMessage: "Bus ID is required" });
     }
 
+    if (
+      enforceGenderAdjacency !== undefined &&
+      typeof enforceGenderAdjacency !== "boolean"
+    ) {
+      return res
+        .status(400)
+        .json({ errorMessage: "enforceGenderAdjacency must be true or false" });
+    }
+
     try {
       // Verify bus exists and belongs to admin
       const bus = await prisma.bus.findUnique({
@@ -2566,6 +4391,9 @@ adminRouter.patch(
           ...(layoutType && { layoutType }),
           ...(gridRows && { gridRows }),
           ...(gridColumns && { gridColumns }),
+          ...(enforceGenderAdjacency !== undefined && {
+            enforceGenderAdjacency,
+          }),
         },
       });
 
@@ -2645,10 +4473,12 @@ adminRouter.delete(
         });
       }
 
-      // Delete bus (cascade will delete related data)
-      await prisma.bus.delete({
-        where: { id: busId },
-      });
+      // Trips go first: schedules and route versions can't be deleted while
+      // trips still reference them. The rest cascades with the bus.
+      await prisma.$transaction([
+        prisma.trip.deleteMany({ where: { busId } }),
+        prisma.bus.delete({ where: { id: busId } }),
+      ]);
 
       return res.status(200).json({
         message: "Bus deleted successfully",
@@ -2680,11 +4510,12 @@ adminRouter.get(
         where: { id: busId },
         include: {
           stops: {
+            where: latestRouteStopsWhere,
             orderBy: { stopIndex: "asc" },
           },
           _count: {
             select: {
-              seats: true,
+              seats: { where: { retiredAt: null } },
               trips: true,
             },
           },
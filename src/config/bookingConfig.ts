@@ -0,0 +1,37 @@
+import { requireNumberEnv } from "./env.js";
+
+export const getBookingConfig = () => {
+  return {
+    seatHold: {
+      // How long seats stay reserved after a payment is initiated
+      ttlMinutes: requireNumberEnv("SEAT_HOLD_TTL_MINUTES", 10),
+      sweepIntervalSeconds: requireNumberEnv(
+        "SEAT_HOLD_SWEEP_INTERVAL_SECONDS",
+        60
+      ),
+    },
+    waitlist: {
+      // How long seats offered to a waitlisted user stay held for them
+      offerTtlMinutes: requireNumberEnv("WAITLIST_OFFER_TTL_MINUTES", 15),
+    },
+    groupBooking: {
+      // How long an operator's quote, and the seats held for it, stay open
+      quoteTtlHours: requireNumberEnv("GROUP_BOOKING_QUOTE_TTL_HOURS", 48),
+    },
+    connections: {
+      // Shortest and longest wait between the legs of a connecting journey
+      minLayoverMinutes: requireNumberEnv("CONNECTION_MIN_LAYOVER_MINUTES", 45),
+      maxLayoverMinutes: requireNumberEnv(
+        "CONNECTION_MAX_LAYOVER_MINUTES",
+        480
+      ),
+    },
+    tripGeneration: {
+      // Trips are materialized this many days ahead, starting today
+      horizonDays: requireNumberEnv("TRIP_HORIZON_DAYS", 60),
+      intervalMinutes: requireNumberEnv("TRIP_GENERATION_INTERVAL_MINUTES", 60),
+    },
+  } as const;
+};
+
+export type BookingConfig = ReturnType<typeof getBookingConfig>;
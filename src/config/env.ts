@@ -0,0 +1,25 @@
+import "dotenv/config";
+
+export const requireEnv = (key: string, fallback?: string) => {
+  const value = process.env[key] ?? fallback;
+  if (!value || value === "") {
+    throw new Error(`Missing required environment variable: ${key}`);
+  }
+  return value;
+};
+
+export const requireNumberEnv = (key: string, fallback?: number) => {
+  const raw = process.env[key];
+  if (!raw || raw.trim() === "") {
+    if (fallback !== undefined) {
+      return fallback;
+    }
+    throw new Error(`Missing required numeric environment variable: ${key}`);
+  }
+
+  const parsed = Number(raw);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Environment variable ${key} must be a valid number`);
+  }
+  return parsed;
+};
@@ -1,57 +1,82 @@
-import "dotenv/config";
+import { requireEnv, requireNumberEnv } from "./env.js";
 
-const requireEnv = (key: string, fallback?: string) => {
-  const value = process.env[key] ?? fallback;
-  if (!value || value === "") {
-    throw new Error(`Missing required environment variable: ${key}`);
-  }
-  return value;
+// Each gateway's credentials are read only when that gateway is used, so the
+// booking flow can run with a subset of gateways configured (e.g. MOCK only).
+
+export const getRazorpayConfig = () => {
+  return {
+    keyId: requireEnv("RAZORPAY_KEY_ID"),
+    keySecret: requireEnv("RAZORPAY_KEY_SECRET"),
+    currency: "INR" as const,
+    // Needed only by the /webhooks/razorpay endpoint
+    webhookSecret: process.env.RAZORPAY_WEBHOOK_SECRET || null,
+  } as const;
 };
 
-const requireNumberEnv = (key: string, fallback?: number) => {
-  const raw = process.env[key];
-  if (!raw || raw.trim() === "") {
-    if (fallback !== undefined) {
-      return fallback;
-    }
-    throw new Error(`Missing required numeric environment variable: ${key}`);
-  }
+export const getEsewaConfig = () => {
+  return {
+    merchantId: requireEnv("ESEWA_MERCHANT_ID"),
+    publicKey: requireEnv("ESEWA_PUBLIC_KEY"),
+    secretKey: requireEnv("ESEWA_SECRET_KEY"),
+    productCode: requireEnv("ESEWA_PRODUCT_CODE"),
+    successUrl: requireEnv("ESEWA_SUCCESS_URL"),
+    failureUrl: requireEnv("ESEWA_FAILURE_URL"),
+    endpoint: requireEnv(
+      "ESEWA_ENDPOINT",
+      "https://epay.esewa.com.np/api/epay/main"
+    ),
+    verificationEndpoint: requireEnv(
+      "ESEWA_VERIFICATION_ENDPOINT",
+      "https://epay.esewa.com.np/api/epay/transaction"
+    ),
+    // eSewa has no public refund API; refunds stay PENDING for manual
+    // settlement unless a merchant refund endpoint is configured
+    refundEndpoint: process.env.ESEWA_REFUND_ENDPOINT || null,
+  } as const;
+};
 
-  const parsed = Number(raw);
-  if (Number.isNaN(parsed)) {
-    throw new Error(`Environment variable ${key} must be a valid number`);
+export type MockPaymentOutcome = "SUCCESS" | "FAILURE" | "DELAYED";
+
+export const getMockPaymentConfig = () => {
+  const outcome = (process.env.MOCK_PAYMENT_OUTCOME || "SUCCESS").toUpperCase();
+
+  if (!["SUCCESS", "FAILURE", "DELAYED"].includes(outcome)) {
+    throw new Error(
+      "Environment variable MOCK_PAYMENT_OUTCOME must be SUCCESS, FAILURE or DELAYED"
+    );
   }
-  return parsed;
+
+  return {
+    // Never available in production, whatever the flag says
+    enabled:
+      process.env.ENABLE_MOCK_PAYMENTS === "true" &&
+      process.env.NODE_ENV !== "production",
+    defaultOutcome: outcome as MockPaymentOutcome,
+    settlementDelaySeconds: requireNumberEnv(
+      "MOCK_PAYMENT_SETTLEMENT_DELAY_SECONDS",
+      30
+    ),
+  } as const;
 };
 
-export const getPaymentConfig = () => {
+export const getCurrencyConfig = () => {
   return {
-    razorpay: {
-      keyId: requireEnv("RAZORPAY_KEY_ID"),
-      keySecret: requireEnv("RAZORPAY_KEY_SECRET"),
-      currency: "INR" as const,
-    },
-    esewa: {
-      merchantId: requireEnv("ESEWA_MERCHANT_ID"),
-      publicKey: requireEnv("ESEWA_PUBLIC_KEY"),
-      secretKey: requireEnv("ESEWA_SECRET_KEY"),
-      productCode: requireEnv("ESEWA_PRODUCT_CODE"),
-      successUrl: requireEnv("ESEWA_SUCCESS_URL"),
-      failureUrl: requireEnv("ESEWA_FAILURE_URL"),
-      endpoint: requireEnv(
-        "ESEWA_ENDPOINT",
-        "https://epay.esewa.com.np/api/epay/main"
-      ),
-      verificationEndpoint: requireEnv(
-        "ESEWA_VERIFICATION_ENDPOINT",
-        "https://epay.esewa.com.np/api/epay/transaction"
-      ),
-    },
-    currency: {
-      baseCurrency: "NPR" as const,
-      razorpayConversionRate: requireNumberEnv("NPR_TO_INR_RATE", 0.625),
-    },
+    baseCurrency: "NPR" as const,
+    razorpayConversionRate: requireNumberEnv("NPR_TO_INR_RATE", 0.625),
   } as const;
 };
 
-export type PaymentConfig = ReturnType<typeof getPaymentConfig>;
+export const getReconciliationConfig = () => {
+  return {
+    // Payments untouched for this long are checked against the gateway
+    thresholdMinutes: requireNumberEnv(
+      "PAYMENT_RECONCILIATION_THRESHOLD_MINUTES",
+      30
+    ),
+    intervalMinutes: requireNumberEnv(
+      "PAYMENT_RECONCILIATION_INTERVAL_MINUTES",
+      15
+    ),
+    batchSize: requireNumberEnv("PAYMENT_RECONCILIATION_BATCH_SIZE", 50),
+  } as const;
+};
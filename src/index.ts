@@ -6,12 +6,21 @@ import cookieParser from "cookie-parser";
 import { userRouter } from "./user/userRouter.js";
 import adminRouter from "./admin/adminRouter.js";
 import { superAdminRouter } from "./superadmin/superAdminRouter.js";
+import { webhookRouter } from "./webhooks/webhookRouter.js";
+import { startSeatHoldSweeper } from "./jobs/seatHoldJob.js";
+import { startPaymentReconciliation } from "./jobs/paymentReconciliationJob.js";
+import { startTripGenerator } from "./jobs/tripGenerationJob.js";
 import type { Response, Request } from "express";
-import { PrismaClient } from "@prisma/client";
-export const prisma = new PrismaClient();
+import { prisma } from "./lib/prisma.js";
+export { prisma };
 export type PrismaClientType = typeof prisma;
 
 const app = express();
+
+// Gateway webhooks verify signatures against the raw body, so they are
+// mounted before the JSON parser
+app.use("/webhooks", webhookRouter);
+
 app.use(express.json());
 
 // CORS Configuration - Allow multiple origins
@@ -57,4 +66,7 @@ app.get("/", testFunction);
 
 app.listen(3000, () => {
   console.log("server running on the port 3000");
+  startSeatHoldSweeper();
+  startPaymentReconciliation();
+  startTripGenerator();
 });
@@ -0,0 +1,50 @@
+import { getReconciliationConfig } from "../config/paymentConfig.js";
+import { reconcileStuckPayments } from "../services/payment/reconciliationService.js";
+
+/**
+ * Periodically settle payments stuck in INITIATED (or paid without a booking)
+ * by checking them against the gateway.
+ */
+export function startPaymentReconciliation() {
+  let intervalMinutes: number;
+  try {
+    intervalMinutes = getReconciliationConfig().intervalMinutes;
+  } catch (error) {
+    console.error("Payment reconciliation disabled:", error);
+    return null;
+  }
+
+  let isRunning = false;
+
+  const timer = setInterval(async () => {
+    // A slow gateway can make one run outlast the interval
+    if (isRunning) {
+      return;
+    }
+
+    isRunning = true;
+    try {
+      const report = await reconcileStuckPayments();
+      if (report.discrepancies > 0) {
+        console.log(
+          `🧾 Payment reconciliation: ${report.checked} checked, ${report.discrepancies} discrepancies`
+        );
+        report.entries
+          .filter((entry) => entry.discrepancy)
+          .forEach((entry) =>
+            console.log(
+              `  ${entry.paymentId} [${entry.method}] ${entry.discrepancy} → ${entry.action}`
+            )
+          );
+      }
+    } catch (error) {
+      console.error("Error reconciling payments:", error);
+    } finally {
+      isRunning = false;
+    }
+  }, intervalMinutes * 60 * 1000);
+
+  // Don't keep the process alive just for reconciliation
+  timer.unref();
+  return timer;
+}
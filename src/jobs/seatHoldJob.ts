@@ -0,0 +1,44 @@
+import { getBookingConfig } from "../config/bookingConfig.js";
+import { releaseExpiredSeatHolds } from "../services/booking/seatHoldService.js";
+import { releaseExpiredSeatBlocks } from "../services/booking/seatBlockService.js";
+import { processPendingWaitlists } from "../services/booking/waitlistService.js";
+import { expireGroupBookingQuotes } from "../services/booking/groupBookingService.js";
+
+/**
+ * Periodically release seat holds whose TTL has passed and operator seat
+ * blocks whose release time has come, close lapsed group booking quotes and
+ * offer the freed seats to waitlisted users.
+ */
+export function startSeatHoldSweeper() {
+  const intervalMs = getBookingConfig().seatHold.sweepIntervalSeconds * 1000;
+
+  const timer = setInterval(async () => {
+    try {
+      const released = await releaseExpiredSeatHolds();
+      if (released > 0) {
+        console.log(`🔓 Released ${released} expired seat hold(s)`);
+      }
+
+      const releasedBlocks = await releaseExpiredSeatBlocks();
+      if (releasedBlocks > 0) {
+        console.log(`🔓 Released ${releasedBlocks} blocked seat(s) for sale`);
+      }
+
+      const expiredQuotes = await expireGroupBookingQuotes();
+      if (expiredQuotes > 0) {
+        console.log(`⌛ Expired ${expiredQuotes} group booking quote(s)`);
+      }
+
+      const offered = await processPendingWaitlists();
+      if (offered > 0) {
+        console.log(`🎟️ Offered seats to ${offered} waitlisted user(s)`);
+      }
+    } catch (error) {
+      console.error("Error releasing expired seat holds:", error);
+    }
+  }, intervalMs);
+
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+  return timer;
+}
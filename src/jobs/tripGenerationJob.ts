@@ -0,0 +1,42 @@
+import { getBookingConfig } from "../config/bookingConfig.js";
+import { generateAllTripHorizons } from "../services/booking/tripGenerationService.js";
+
+/**
+ * Keep every bus's trips generated over the rolling horizon: once at startup,
+ * then periodically as days roll into it.
+ */
+export function startTripGenerator() {
+  const intervalMs =
+    getBookingConfig().tripGeneration.intervalMinutes * 60 * 1000;
+
+  let isRunning = false;
+
+  const run = async () => {
+    // A large fleet can make one run outlast the interval
+    if (isRunning) {
+      return;
+    }
+
+    isRunning = true;
+    try {
+      const totals = await generateAllTripHorizons();
+      if (totals.created > 0 || totals.removed > 0) {
+        console.log(
+          `🗓️ Trip generation: ${totals.created} created, ${totals.removed} removed across ${totals.buses} bus(es)`
+        );
+      }
+    } catch (error) {
+      console.error("Error generating trips:", error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  // The horizon should be in place before the first search
+  run();
+  const timer = setInterval(run, intervalMs);
+
+  // Don't keep the process alive just for trip generation
+  timer.unref();
+  return timer;
+}
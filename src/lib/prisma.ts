@@ -0,0 +1,5 @@
+import { PrismaClient } from "@prisma/client";
+
+// Shared client for services, jobs and scripts. Kept out of index.ts so
+// importing a service doesn't start the HTTP server.
+export const prisma = new PrismaClient();
@@ -0,0 +1,36 @@
+/**
+ * An error a service throws for the client to see: handleServiceError answers
+ * with its status code and message. Each service subclasses it so callers can
+ * still tell its errors apart.
+ */
+export class ServiceError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.statusCode = statusCode;
+  }
+
+  // Response body sent to the client; subclasses add their own details
+  toResponseBody(): Record<string, unknown> {
+    return { errorMessage: this.message };
+  }
+}
+
+/**
+ * Answer a request that failed: a ServiceError with its own status and
+ * message, anything else is logged and answered with a 500 and
+ * `fallbackMessage`.
+ */
+export function handleServiceError(
+  error: unknown,
+  res: any,
+  fallbackMessage = "Something went wrong"
+) {
+  if (error instanceof ServiceError) {
+    return res.status(error.statusCode).json(error.toResponseBody());
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return res.status(500).json({ errorMessage: fallbackMessage });
+}
@@ -27,16 +27,43 @@ export const bookTicketSchema = z.object({
         gender: z.enum(["MALE", "FEMALE", "OTHER"]),
         phone: z.string().optional(),
         email: z.string().email().optional(),
+        // Children and seniors also get their fare by age without asking
+        fareCategory: z.enum(["CHILD", "SENIOR", "STUDENT"]).optional(),
+        idProofNumber: z.string().trim().min(1).max(50).optional(),
       })
     )
     .min(1, "Passenger details required for all seats"),
+  // Infants travelling on the lap of the passenger in a booked seat
+  infants: z
+    .array(
+      z.object({
+        seatId: z.string().uuid("Invalid seat ID"),
+        name: z.string().min(2, "Name must be at least 2 characters"),
+        age: z.number().int().min(0).max(5, "Infants must be under 6"),
+        gender: z.enum(["MALE", "FEMALE", "OTHER"]),
+      })
+    )
+    .max(6, "Maximum 6 infants per booking")
+    .optional(),
   boardingPointId: z.string().uuid("Invalid boarding point ID"),
   droppingPointId: z.string().uuid("Invalid dropping point ID"),
   couponCode: z.string().optional(), // Optional coupon code
 });
 
 export const initiatePaymentSchema = bookTicketSchema.extend({
-  paymentMethod: z.enum(["RAZORPAY", "ESEWA"]),
+  paymentMethod: z.enum(["RAZORPAY", "ESEWA", "MOCK"]),
+  // Only used with MOCK; overrides MOCK_PAYMENT_OUTCOME for this payment
+  mockOutcome: z.enum(["SUCCESS", "FAILURE", "DELAYED"]).optional(),
+});
+
+// One payment for both legs of a connecting journey. Coupons are not applied
+// to connections.
+export const initiateConnectionPaymentSchema = z.object({
+  legs: z
+    .array(bookTicketSchema.omit({ couponCode: true }))
+    .length(2, "A connection has exactly two legs"),
+  paymentMethod: z.enum(["RAZORPAY", "ESEWA", "MOCK"]),
+  mockOutcome: z.enum(["SUCCESS", "FAILURE", "DELAYED"]).optional(),
 });
 
 export const verifyPaymentSchema = z.object({
@@ -74,16 +101,106 @@ export const enhancedSearchSchema = z.object({
   hasRestroom: z.boolean().optional(),
   minPrice: z.number().positive().optional(),
   maxPrice: z.number().positive().optional(),
-  departureTimeStart: z.string().optional(), // HH:MM format
-  departureTimeEnd: z.string().optional(),
+  // A window with start after end runs past midnight (e.g. 22:00-04:00)
+  departureTimeStart: z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:MM format")
+    .optional(),
+  departureTimeEnd: z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:MM format")
+    .optional(),
+  // Operator names (the admin's busServiceName)
+  operators: z.array(z.string().trim().min(1)).min(1).optional(),
+  // Boarding point names at the start location
+  boardingPoints: z.array(z.string().trim().min(1)).min(1).optional(),
+  // Only trips with free seats of this type; prices are then this type's
+  seatType: z.enum(["SEATER", "SLEEPER"]).optional(),
   sortBy: z
     .enum(["price", "duration", "departureTime", "seatsAvailable"])
     .optional(),
   sortOrder: z.enum(["asc", "desc"]).optional(),
 });
 
+export const connectionSearchSchema = busSearchSchema.extend({
+  seatCount: z
+    .number()
+    .int()
+    .min(1, "At least one seat is required")
+    .max(6, "Maximum 6 seats per booking")
+    .default(1),
+});
+
+export const fareCalendarQuerySchema = z.object({
+  startLocation: z
+    .string()
+    .trim()
+    .min(2, "Start location must be at least 2 characters"),
+  endLocation: z
+    .string()
+    .trim()
+    .min(2, "End location must be at least 2 characters"),
+  month: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be in YYYY-MM format"),
+});
+
 export const cancelTicketSchema = z.object({
   bookingGroupId: z.string().uuid("Invalid booking group ID"),
+  // Omit to cancel every seat in the group
+  bookingIds: z
+    .array(z.string().uuid("Invalid booking ID"))
+    .min(1, "Select at least one seat to cancel")
+    .optional(),
+});
+
+export const joinWaitlistSchema = z
+  .object({
+    fromStopId: z.string().uuid("Invalid from stop ID"),
+    toStopId: z.string().uuid("Invalid to stop ID"),
+    seatCount: z
+      .number()
+      .int()
+      .min(1, "At least one seat is required")
+      .max(6, "Maximum 6 seats per booking"),
+    // Women among the passengers, who may be offered ladies-only seats
+    femaleSeatCount: z.number().int().min(0).default(0),
+  })
+  .refine((data) => data.femaleSeatCount <= data.seatCount, {
+    message: "femaleSeatCount can't be more than seatCount",
+    path: ["femaleSeatCount"],
+  });
+
+// More seats than one booking allows, or the whole bus (charter), at a price
+// the operator quotes
+export const groupBookingRequestSchema = z
+  .object({
+    fromStopId: z.string().uuid("Invalid from stop ID"),
+    toStopId: z.string().uuid("Invalid to stop ID"),
+    charter: z.boolean().default(false),
+    // Ignored for a charter, which takes every seat
+    seatCount: z
+      .number()
+      .int()
+      .min(7, "Book up to 6 seats directly; group bookings are for more")
+      .optional(),
+    organizationName: z.string().trim().min(2).max(100),
+    contactPhone: z.string().trim().min(7).max(20),
+    notes: z.string().trim().max(500).optional(),
+  })
+  .refine((data) => data.charter || data.seatCount !== undefined, {
+    message: "seatCount is required unless chartering the whole bus",
+    path: ["seatCount"],
+  });
+
+export const payGroupBookingSchema = z.object({
+  paymentMethod: z.enum(["RAZORPAY", "ESEWA", "MOCK"]),
+  mockOutcome: z.enum(["SUCCESS", "FAILURE", "DELAYED"]).optional(),
+});
+
+export const placeAutocompleteQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search text is required").max(100),
+  limit: z.coerce.number().int().min(1).max(20).default(8),
 });
 
 export const busInfoQuerySchema = z.object({
@@ -0,0 +1,26 @@
+import z from "zod";
+
+export const cancellationSlabSchema = z.object({
+  minHoursBeforeDeparture: z.coerce
+    .number({ error: "minHoursBeforeDeparture must be a non-negative number" })
+    .min(0, "minHoursBeforeDeparture must be a non-negative number"),
+  refundPercentage: z.coerce
+    .number({ error: "refundPercentage must be between 0 and 100" })
+    .min(0, "refundPercentage must be between 0 and 100")
+    .max(100, "refundPercentage must be between 0 and 100"),
+});
+
+export const cancellationSlabsSchema = z
+  .array(cancellationSlabSchema, {
+    error: "At least one cancellation slab is required",
+  })
+  .min(1, "At least one cancellation slab is required");
+
+const seatFaresSchema = z.record(z.string(), z.number());
+
+// The part of a payment's metadata that records what each seat cost; a
+// connecting journey stores it per leg
+export const storedSeatFaresSchema = z.object({
+  legs: z.array(z.object({ seatFares: seatFaresSchema.optional() })).optional(),
+  booking: z.object({ seatFares: seatFaresSchema.optional() }).optional(),
+});
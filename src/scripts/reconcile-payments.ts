@@ -0,0 +1,60 @@
+import "dotenv/config";
+import { prisma } from "../lib/prisma.js";
+import { reconcileStuckPayments } from "../services/payment/reconciliationService.js";
+
+// Usage: npm run reconcile-payments -- [--dry-run] [--threshold=<minutes>] [--limit=<n>] [--json]
+const args = process.argv.slice(2);
+
+const getNumberArg = (name: string) => {
+  const arg = args.find((a) => a.startsWith(`--${name}=`));
+  if (!arg) {
+    return undefined;
+  }
+
+  const value = Number(arg.split("=")[1]);
+  if (Number.isNaN(value) || value < 0) {
+    throw new Error(`--${name} must be a non-negative number`);
+  }
+  return value;
+};
+
+async function main() {
+  const report = await reconcileStuckPayments({
+    dryRun: args.includes("--dry-run"),
+    thresholdMinutes: getNumberArg("threshold"),
+    limit: getNumberArg("limit"),
+  });
+
+  if (args.includes("--json")) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  console.log(
+    `Reconciled payments older than ${report.thresholdMinutes} minutes${
+      report.dryRun ? " (dry run)" : ""
+    }`
+  );
+  console.log(
+    `Checked: ${report.checked} | Discrepancies: ${report.discrepancies}`
+  );
+
+  for (const entry of report.entries) {
+    console.log(
+      `${entry.paymentId} | ${entry.method} | recorded=${
+        entry.recordedStatus
+      } | gateway=${entry.gatewayStatus ?? "-"} | action=${entry.action}${
+        entry.discrepancy ? `\n  discrepancy: ${entry.discrepancy}` : ""
+      }${entry.message ? `\n  note: ${entry.message}` : ""}`
+    );
+  }
+}
+
+main()
+  .catch((err) => {
+    console.error("Failed to reconcile payments", err);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,711 @@
+import { PaymentStatus } from "@prisma/client";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../../lib/prisma.js";
+import { ServiceError } from "../../lib/serviceError.js";
+import { bookTicketSchema } from "../../schemas/busSearchSchema.js";
+import { getJourneyTimes, timetableStopSelect } from "./tripScheduleService.js";
+import {
+  notifyBookingConfirmed,
+  notifyOfferApplied,
+} from "../notificationService.js";
+import {
+  findActiveSeatHolds,
+  findBlockedSeatIds,
+  getHeldSeatIds,
+  lockTripForSeatChanges,
+  releaseSeatHoldsForPayment,
+} from "./seatHoldService.js";
+import { completeWaitlistEntries } from "./waitlistService.js";
+import { paymentForBookingGroupWhere } from "../payment/refundService.js";
+
+export class BookingConfirmationError extends ServiceError {}
+
+const roundToTwo = (value: number) =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+/**
+ * Create the booking group for one leg of a payment from its stored booking
+ * data, checking the seats are still free on the leg's segment.
+ */
+async function confirmBookingLeg(
+  tx: Prisma.TransactionClient,
+  params: {
+    userId: string;
+    bookingPayload: any;
+    legNumber?: number;
+  }
+) {
+  const { userId, bookingPayload } = params;
+
+  const bookingValidation = bookTicketSchema.safeParse(bookingPayload);
+  if (!bookingValidation.success) {
+    throw new BookingConfirmationError("Stored booking data is invalid");
+  }
+
+  const {
+    tripId,
+    fromStopId,
+    toStopId,
+    seatIds,
+    passengers,
+    couponCode,
+    boardingPointId,
+    droppingPointId,
+    seatFares,
+    seatPricing,
+    passengerCategories,
+    lapInfants,
+    totalPrice,
+    discountAmount,
+    finalPrice,
+    offerId,
+  } = bookingPayload;
+
+  if (!Array.isArray(seatIds) || seatIds.length === 0) {
+    throw new BookingConfirmationError("Booking metadata missing seats");
+  }
+
+  const trip = await tx.trip.findUnique({
+    where: { id: tripId },
+    include: {
+      routeVersion: { include: { stops: true } },
+      bus: {
+        include: {
+          seats: true,
+        },
+      },
+    },
+  });
+
+  if (!trip) {
+    throw new BookingConfirmationError("Trip not found");
+  }
+
+  if (trip.status === "CANCELLED" || trip.status === "COMPLETED") {
+    throw new BookingConfirmationError("Trip is not available for booking");
+  }
+
+  const now = new Date();
+  const tripDate = new Date(trip.tripDate);
+  tripDate.setHours(0, 0, 0, 0);
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  if (tripDate < today) {
+    throw new BookingConfirmationError("Cannot book tickets for past dates");
+  }
+
+  const fromStop = trip.routeVersion.stops.find((s) => s.id === fromStopId);
+  const toStop = trip.routeVersion.stops.find((s) => s.id === toStopId);
+
+  if (!fromStop || !toStop) {
+    throw new BookingConfirmationError("Stops not found");
+  }
+
+  if (fromStop.stopIndex === toStop.stopIndex) {
+    throw new BookingConfirmationError("From and to stops cannot be the same");
+  }
+
+  const boardingPoint = await tx.stopPoint.findUnique({
+    where: { id: boardingPointId },
+  });
+
+  if (!boardingPoint || boardingPoint.stopId !== fromStopId) {
+    throw new BookingConfirmationError("Invalid boarding point selected");
+  }
+
+  if (boardingPoint.type !== "BOARDING") {
+    throw new BookingConfirmationError(
+      "Selected boarding point is not valid for boarding"
+    );
+  }
+
+  const droppingPoint = await tx.stopPoint.findUnique({
+    where: { id: droppingPointId },
+  });
+
+  if (!droppingPoint || droppingPoint.stopId !== toStopId) {
+    throw new BookingConfirmationError("Invalid dropping point selected");
+  }
+
+  const seats = await tx.seat.findMany({
+    where: {
+      id: { in: seatIds },
+      busId: trip.busId,
+      isActive: true,
+    },
+  });
+
+  if (seats.length !== seatIds.length) {
+    throw new BookingConfirmationError(
+      "One or more seats are invalid or inactive"
+    );
+  }
+
+  await lockTripForSeatChanges(tx, tripId);
+
+  const existingBookings = await tx.booking.findMany({
+    where: {
+      tripId,
+      seatId: { in: seatIds },
+      status: "CONFIRMED",
+    },
+    include: {
+      group: {
+        select: {
+          fromStop: { select: { stopIndex: true } },
+          toStop: { select: { stopIndex: true } },
+        },
+      },
+    },
+  });
+
+  const minIndex = Math.min(fromStop.stopIndex, toStop.stopIndex);
+  const maxIndex = Math.max(fromStop.stopIndex, toStop.stopIndex);
+  const isReturnTrip = fromStop.stopIndex > toStop.stopIndex;
+
+  const conflictingBookings = existingBookings.filter((booking) => {
+    const bookingFromIdx = booking.group.fromStop.stopIndex;
+    const bookingToIdx = booking.group.toStop.stopIndex;
+
+    // Check if booking is in the same direction
+    const bookingIsReturnTrip = bookingFromIdx > bookingToIdx;
+    if (bookingIsReturnTrip !== isReturnTrip) {
+      return false;
+    }
+
+    const bookingMin = Math.min(bookingFromIdx, bookingToIdx);
+    const bookingMax = Math.max(bookingFromIdx, bookingToIdx);
+
+    return minIndex < bookingMax && maxIndex > bookingMin;
+  });
+
+  if (conflictingBookings.length > 0) {
+    const conflictedSeats = conflictingBookings
+      .map((b) => {
+        const seat = seats.find((s) => s.id === b.seatId);
+        return seat?.seatNumber || b.seatId;
+      })
+      .join(", ");
+
+    throw new BookingConfirmationError(
+      `Seat(s) ${conflictedSeats} are already booked for this route segment. Please select different seats.`
+    );
+  }
+
+  // Our own hold may have expired and been taken by someone else. Any hold
+  // of this user counts as ours: a retried payment supersedes the earlier
+  // payment's holds, which may still settle first, and seats offered from the
+  // waitlist are theirs to book.
+  const heldByOthers = getHeldSeatIds(
+    await findActiveSeatHolds(tx, tripId, seatIds),
+    fromStop.stopIndex,
+    toStop.stopIndex,
+    { excludeUserId: userId }
+  );
+
+  if (heldByOthers.size > 0) {
+    const heldSeats = seats
+      .filter((s) => heldByOthers.has(s.id))
+      .map((s) => s.seatNumber)
+      .join(", ");
+
+    throw new BookingConfirmationError(
+      `Your seat reservation expired and seat(s) ${heldSeats} are now reserved by another passenger.`
+    );
+  }
+
+  // The operator may have blocked a seat after our hold expired
+  const blockedSeatIds = await findBlockedSeatIds(tx, tripId, seatIds);
+
+  if (blockedSeatIds.size > 0) {
+    const blockedSeats = seats
+      .filter((s) => blockedSeatIds.has(s.id))
+      .map((s) => s.seatNumber)
+      .join(", ");
+
+    throw new BookingConfirmationError(
+      `Seat(s) ${blockedSeats} are no longer available on this trip.`
+    );
+  }
+
+  const computedTotal =
+    typeof totalPrice === "number"
+      ? totalPrice
+      : seats.reduce((sum, seat) => {
+          const seatFare = seatFares?.[seat.id] ?? 0;
+          return sum + seatFare;
+        }, 0);
+
+  const computedFinal =
+    typeof finalPrice === "number"
+      ? finalPrice
+      : computedTotal - (discountAmount ?? 0);
+
+  const bookingGroup = await tx.bookingGroup.create({
+    data: {
+      userId,
+      tripId,
+      fromStopId,
+      toStopId,
+      totalPrice: roundToTwo(computedTotal),
+      offerId: offerId ?? null,
+      discountAmount: roundToTwo(discountAmount ?? 0),
+      finalPrice: roundToTwo(computedFinal),
+      boardingPointId: boardingPoint.id,
+      droppingPointId: droppingPoint.id,
+      status: "CONFIRMED",
+      legNumber: params.legNumber ?? null,
+    },
+  });
+
+  // A pricing rule deleted since the payment started can't be linked any more
+  const pricingRuleIds = new Set<string>(
+    Object.values(seatPricing ?? {})
+      .map((pricing: any) => pricing?.pricingRuleId)
+      .filter(Boolean)
+  );
+  const existingRuleIds = new Set(
+    pricingRuleIds.size > 0
+      ? (
+          await tx.pricingRule.findMany({
+            where: { id: { in: [...pricingRuleIds] } },
+            select: { id: true },
+          })
+        ).map((rule) => rule.id)
+      : []
+  );
+
+  const bookings = await Promise.all(
+    seatIds.map((seatId: string) => {
+      const pricing = seatPricing?.[seatId];
+      // The passenger's own fare; seatFares also counts a lap infant
+      const fare = pricing?.fare ?? seatFares?.[seatId];
+
+      return tx.booking.create({
+        data: {
+          groupId: bookingGroup.id,
+          tripId,
+          seatId,
+          status: "CONFIRMED",
+          baseFare:
+            typeof pricing?.baseFare === "number" ? pricing.baseFare : null,
+          fare: typeof fare === "number" ? fare : null,
+          pricingRuleId: existingRuleIds.has(pricing?.pricingRuleId)
+            ? pricing.pricingRuleId
+            : null,
+        },
+      });
+    })
+  );
+
+  const passengerRecords = await Promise.all(
+    bookings.map((booking) => {
+      const passengerData = passengers.find(
+        (p: any) => p.seatId === booking.seatId
+      );
+      if (!passengerData) {
+        throw new BookingConfirmationError("Passenger data missing for seat");
+      }
+      return tx.passenger.create({
+        data: {
+          bookingId: booking.id,
+          name: passengerData.name,
+          age: passengerData.age,
+          gender: passengerData.gender,
+          phone: passengerData.phone || "",
+          email: passengerData.email,
+          category: passengerCategories?.[booking.seatId] ?? "ADULT",
+          idProofNumber: passengerData.idProofNumber ?? null,
+        },
+      });
+    })
+  );
+
+  const infantRecords = await Promise.all(
+    (Array.isArray(lapInfants) ? lapInfants : []).map((infant: any) => {
+      const booking = bookings.find((b) => b.seatId === infant.seatId);
+      if (!booking) {
+        throw new BookingConfirmationError("Infant's seat is not in booking");
+      }
+      return tx.lapInfant.create({
+        data: {
+          bookingId: booking.id,
+          name: infant.name,
+          age: infant.age,
+          gender: infant.gender,
+          fare: infant.fare ?? 0,
+        },
+      });
+    })
+  );
+
+  await completeWaitlistEntries(tx, {
+    tripId,
+    userId,
+    fromStopIndex: fromStop.stopIndex,
+    toStopIndex: toStop.stopIndex,
+  });
+
+  if (offerId) {
+    await tx.offer.update({
+      where: { id: offerId },
+      data: { usageCount: { increment: 1 } },
+    });
+  }
+
+  return {
+    bookingGroup,
+    bookings,
+    passengers: passengerRecords,
+    lapInfants: infantRecords,
+    seats,
+    fromStop,
+    toStop,
+    boardingPoint,
+    droppingPoint,
+    totalPrice: roundToTwo(computedTotal),
+    discountAmount: roundToTwo(discountAmount ?? 0),
+    finalPrice: roundToTwo(computedFinal),
+    couponCode,
+    seatFares,
+  };
+}
+
+export type ConfirmedLeg = Awaited<ReturnType<typeof confirmBookingLeg>>;
+
+/**
+ * Create the booking for a successful payment from the booking data stored on
+ * it at initiation. Safe to call more than once for the same payment (browser
+ * confirm, gateway webhook retries): the payment row is locked and the booking
+ * already created for it is returned instead of a duplicate.
+ *
+ * A connecting-journey payment books every leg in the same transaction, so if
+ * one leg can't be booked none are and the whole payment is refunded.
+ */
+export async function confirmPaymentBooking(paymentId: string) {
+  return prisma.$transaction(
+    async (tx) => {
+      await tx.$queryRaw`SELECT id FROM "Payment" WHERE id = ${paymentId} FOR UPDATE`;
+
+      const payment = await tx.payment.findUnique({
+        where: { id: paymentId },
+      });
+
+      if (!payment) {
+        throw new BookingConfirmationError("Payment not found", 404);
+      }
+
+      if (payment.bookingGroupId) {
+        const existingGroup = await tx.bookingGroup.findUnique({
+          where: { id: payment.bookingGroupId },
+        });
+
+        if (existingGroup) {
+          return {
+            alreadyConfirmed: true as const,
+            bookingGroup: existingGroup,
+          };
+        }
+      }
+
+      if (payment.status !== PaymentStatus.SUCCESS) {
+        throw new BookingConfirmationError(
+          "Payment has not been verified successfully"
+        );
+      }
+
+      const userId = payment.userId;
+      const metadata = payment.metadata as any;
+      const isConnection = Array.isArray(metadata?.legs);
+      const legPayloads: any[] = isConnection
+        ? metadata.legs
+        : metadata?.booking
+        ? [metadata.booking]
+        : [];
+
+      if (legPayloads.length === 0) {
+        throw new BookingConfirmationError(
+          "Payment metadata missing booking information"
+        );
+      }
+
+      const legs: ConfirmedLeg[] = [];
+      for (const [index, bookingPayload] of legPayloads.entries()) {
+        try {
+          legs.push(
+            await confirmBookingLeg(tx, {
+              userId,
+              bookingPayload,
+              ...(isConnection ? { legNumber: index + 1 } : {}),
+            })
+          );
+        } catch (error) {
+          if (isConnection && error instanceof BookingConfirmationError) {
+            throw new BookingConfirmationError(
+              `Leg ${index + 1}: ${error.message}`,
+              error.statusCode
+            );
+          }
+          throw error;
+        }
+      }
+
+      const [firstLeg] = legs;
+      if (!firstLeg) {
+        throw new BookingConfirmationError("No booking could be created");
+      }
+
+      const sumOf = (pick: (leg: ConfirmedLeg) => number) =>
+        roundToTwo(legs.reduce((sum, leg) => sum + pick(leg), 0));
+      const finalPrice = sumOf((leg) => leg.finalPrice);
+
+      const itinerary = isConnection
+        ? await tx.itinerary.create({
+            data: {
+              userId,
+              paymentId,
+              transferCity: metadata.connection?.transferCity ?? "",
+              layoverMinutes: metadata.connection?.layoverMinutes ?? 0,
+              totalPrice: finalPrice,
+              legs: {
+                connect: legs.map((leg) => ({ id: leg.bookingGroup.id })),
+              },
+            },
+          })
+        : null;
+
+      // The payment's booking group is the first leg
+      await tx.payment.update({
+        where: { id: paymentId },
+        data: {
+          bookingGroupId: firstLeg.bookingGroup.id,
+          status: PaymentStatus.SUCCESS,
+        },
+      });
+
+      await releaseSeatHoldsForPayment(tx, paymentId, "CONFIRMED");
+
+      return {
+        alreadyConfirmed: false as const,
+        ...firstLeg,
+        totalPrice: sumOf((leg) => leg.totalPrice),
+        discountAmount: sumOf((leg) => leg.discountAmount),
+        finalPrice,
+        legs,
+        itinerary,
+      };
+    },
+    {
+      maxWait: 15000,
+      timeout: 30000,
+    }
+  );
+}
+
+export type ConfirmedBooking = Extract<
+  Awaited<ReturnType<typeof confirmPaymentBooking>>,
+  { alreadyConfirmed: false }
+>;
+
+/**
+ * Send the in-app notifications and the ticket email for a new booking, one
+ * ticket per leg. PDF/email failures are logged and never fail the booking.
+ */
+export async function sendBookingConfirmation(
+  userId: string,
+  result: ConfirmedBooking
+) {
+  for (const leg of result.legs) {
+    await sendLegConfirmation(userId, leg);
+  }
+}
+
+async function sendLegConfirmation(userId: string, result: ConfirmedLeg) {
+  const tripWithBus = await prisma.trip.findUnique({
+    where: { id: result.bookingGroup.tripId },
+    include: {
+      schedule: true,
+      routeVersion: { select: { stops: { select: timetableStopSelect } } },
+      bus: {
+        select: {
+          name: true,
+          busNumber: true,
+          type: true,
+        },
+      },
+    },
+  });
+
+  // Timings of the departure that was booked
+  const journeyTimes = getJourneyTimes(
+    tripWithBus?.routeVersion.stops ?? [result.fromStop, result.toStop],
+    tripWithBus?.schedule,
+    result.fromStop.stopIndex,
+    result.toStop.stopIndex
+  );
+
+  // Get user details for email
+  const userDetails = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { name: true, email: true },
+  });
+
+  await notifyBookingConfirmed(userId, result.bookingGroup.id, {
+    busName: tripWithBus?.bus.name || "Bus",
+    busNumber: tripWithBus?.bus.busNumber || "",
+    date: tripWithBus?.tripDate.toISOString() || new Date().toISOString(),
+    from: result.fromStop.name,
+    to: result.toStop.name,
+    seatNumbers: result.seats.map((s) => s.seatNumber),
+    totalPrice: result.finalPrice,
+  });
+
+  if (result.couponCode) {
+    await notifyOfferApplied(userId, result.couponCode, result.discountAmount);
+  }
+
+  // Generate PDF ticket and send email
+  try {
+    const { generateTicketPDF } = await import("../pdfService.js");
+    const { sendBookingConfirmationEmail } = await import(
+      "../brevoEmailService.js"
+    );
+
+    // Fetch payment details
+    const payment = await prisma.payment.findFirst({
+      where: paymentForBookingGroupWhere(result.bookingGroup.id),
+    });
+
+    // Prepare ticket data
+    const ticketData = {
+      bookingGroupId: result.bookingGroup.id,
+      bookedAt: result.bookingGroup.createdAt.toISOString(),
+      user: {
+        name: userDetails?.name || "Passenger",
+        email: userDetails?.email || "",
+      },
+      trip: {
+        tripDate:
+          tripWithBus?.tripDate.toISOString() || new Date().toISOString(),
+        tripStatus: tripWithBus?.status || "ACTIVE",
+      },
+      bus: {
+        busNumber: tripWithBus?.bus.busNumber || "",
+        name: tripWithBus?.bus.name || "",
+        type: tripWithBus?.bus.type || "SEATER",
+      },
+      route: {
+        from: {
+          name: result.fromStop.name,
+          city: result.fromStop.city,
+          departureTime: journeyTimes.departureTime,
+        },
+        to: {
+          name: result.toStop.name,
+          city: result.toStop.city,
+          arrivalTime: journeyTimes.arrivalTime,
+        },
+      },
+      boardingPoint: result.boardingPoint
+        ? {
+            name: result.boardingPoint.name,
+            landmark: result.boardingPoint.landmark,
+            time: result.boardingPoint.time,
+          }
+        : null,
+      droppingPoint: result.droppingPoint
+        ? {
+            name: result.droppingPoint.name,
+            landmark: result.droppingPoint.landmark,
+            time: result.droppingPoint.time,
+          }
+        : null,
+      seats: result.passengers.map((p) => {
+        const booking = result.bookings.find((b) => b.id === p.bookingId);
+        const seat = result.seats.find((s) => s.id === booking?.seatId);
+        return {
+          seatNumber: seat?.seatNumber || "",
+          seatLevel: seat?.level || "LOWER",
+          seatType: seat?.type || "SEATER",
+          fare:
+            booking?.fare ?? ((result.seatFares as any)?.[seat?.id || ""] || 0),
+          passenger: {
+            name: p.name,
+            age: p.age,
+            gender: p.gender,
+            category: p.category,
+          },
+        };
+      }),
+      infants: result.lapInfants.map((infant) => {
+        const booking = result.bookings.find((b) => b.id === infant.bookingId);
+        const seat = result.seats.find((s) => s.id === booking?.seatId);
+        return {
+          seatNumber: seat?.seatNumber || "",
+          name: infant.name,
+          age: infant.age,
+          gender: infant.gender,
+          fare: infant.fare,
+        };
+      }),
+      pricing: {
+        totalPrice: result.totalPrice,
+        discountAmount: result.discountAmount,
+        finalPrice: result.finalPrice,
+        couponCode: result.couponCode || undefined,
+      },
+      payment: payment
+        ? {
+            method: payment.method as string,
+            amountPaid: payment.chargedAmount,
+            currency: payment.chargedCurrency as string,
+          }
+        : undefined,
+      status: "CONFIRMED" as const,
+    };
+
+    // Generate PDF
+    const pdfBuffer = await generateTicketPDF(ticketData);
+
+    // Send email with PDF attachment
+    if (userDetails?.email) {
+      await sendBookingConfirmationEmail(
+        userDetails.email,
+        userDetails.name,
+        {
+          bookingGroupId: result.bookingGroup.id,
+          busName: tripWithBus?.bus.name || "",
+          busNumber: tripWithBus?.bus.busNumber || "",
+          tripDate: new Date(
+            tripWithBus?.tripDate || new Date()
+          ).toLocaleDateString("en-IN"),
+          fromStop: result.fromStop.name,
+          toStop: result.toStop.name,
+          boardingPoint: result.boardingPoint?.name || "",
+          boardingTime: result.boardingPoint?.time || "",
+          droppingPoint: result.droppingPoint?.name || "",
+          seats: ticketData.seats.map((s) => ({
+            seatNumber: s.seatNumber,
+            passengerName: s.passenger.name,
+            age: s.passenger.age,
+            gender: s.passenger.gender,
+            level: s.seatLevel,
+            type: s.seatType,
+          })),
+          totalPrice: result.totalPrice,
+          discountAmount: result.discountAmount,
+          finalPrice: result.finalPrice,
+          couponCode: result.couponCode,
+          bookedAt: result.bookingGroup.createdAt.toLocaleString("en-IN"),
+        },
+        pdfBuffer
+      );
+      console.log("✅ Booking confirmation email with PDF sent successfully");
+    }
+  } catch (pdfError) {
+    console.error("Error generating PDF or sending email:", pdfError);
+    // Don't fail the booking if PDF/email fails
+  }
+}
@@ -0,0 +1,318 @@
+import type { BusAmenities, PricingRule } from "@prisma/client";
+import { prisma } from "../../lib/prisma.js";
+import {
+  createRouteVersion,
+  diffRouteStops,
+  parseEffectiveFrom,
+  stopKey,
+} from "./routeVersionService.js";
+import {
+  assertUpperSeatersPriced,
+  findOwnedBusWithSeats,
+  getBusTypeForSeats,
+  planSeatLayoutChange,
+  saveSeatLayout,
+  SeatLayoutError,
+} from "./seatLayoutService.js";
+import { refreshTripHorizon } from "./tripGenerationService.js";
+
+export const CLONE_PARTS = ["seats", "stops", "amenities", "pricing"] as const;
+
+export type ClonePart = (typeof CLONE_PARTS)[number];
+
+const AMENITY_FIELDS = [
+  "hasWifi",
+  "hasCharging",
+  "hasAC",
+  "hasRestroom",
+  "hasBlanket",
+  "hasWaterBottle",
+  "hasSnacks",
+  "hasTV",
+  "description",
+] as const;
+
+const parseParts = (value: unknown): ClonePart[] => {
+  if (value === undefined) {
+    return [...CLONE_PARTS];
+  }
+
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    value.some((part) => !CLONE_PARTS.includes(part))
+  ) {
+    throw new SeatLayoutError(
+      `parts must list any of: ${CLONE_PARTS.join(", ")}`
+    );
+  }
+
+  return CLONE_PARTS.filter((part) => value.includes(part));
+};
+
+const loadLatestStops = (busId: string) =>
+  prisma.routeVersion.findFirst({
+    where: { busId, supersededAt: null },
+    include: {
+      stops: {
+        orderBy: { stopIndex: "asc" },
+        include: {
+          boardingPoints: {
+            where: { type: "BOARDING" },
+            orderBy: { pointOrder: "asc" },
+          },
+        },
+      },
+      segmentFares: true,
+    },
+  });
+
+const diffAmenities = (current: BusAmenities | null, next: BusAmenities) =>
+  AMENITY_FIELDS.filter(
+    (field) => (current ? current[field] : null) !== next[field]
+  ).map((field) => ({
+    field,
+    from: current ? current[field] : null,
+    to: next[field],
+  }));
+
+const copyPricingRule = (rule: PricingRule, busId: string) => ({
+  adminId: rule.adminId,
+  busId,
+  name: rule.name,
+  daysOfWeek: rule.daysOfWeek,
+  startDate: rule.startDate,
+  endDate: rule.endDate,
+  minOccupancyPercent: rule.minOccupancyPercent,
+  minLeadHours: rule.minLeadHours,
+  maxLeadHours: rule.maxLeadHours,
+  adjustmentType: rule.adjustmentType,
+  adjustmentValue: rule.adjustmentValue,
+  priority: rule.priority,
+  isActive: rule.isActive,
+});
+
+/**
+ * Copy the seats, stops, amenities and bus-specific pricing rules of one
+ * bus onto another bus of the same operator. Each part replaces what the
+ * target had; seats are synced as for a new layout (see syncBusSeats) and
+ * stops become a new route version from `effectiveFrom`. The diff against
+ * the target is always returned, and `dryRun` stops there.
+ */
+export async function cloneBus(
+  adminId: string,
+  sourceBusId: string,
+  input: Record<string, unknown>
+) {
+  const parts = parseParts(input.parts);
+  const dryRun = input.dryRun === true;
+  const movePassengers = input.movePassengers === true;
+
+  if (typeof input.targetBusId !== "string") {
+    throw new SeatLayoutError("targetBusId is required");
+  }
+
+  if (input.targetBusId === sourceBusId) {
+    throw new SeatLayoutError("Choose a different bus to copy to");
+  }
+
+  const source = await findOwnedBusWithSeats(adminId, sourceBusId);
+  const target = await findOwnedBusWithSeats(adminId, input.targetBusId);
+
+  // ---- Seats ----
+  const seatPlan =
+    parts.includes("seats") && source.seats.length > 0
+      ? await planSeatLayoutChange(target.id, source.seats)
+      : null;
+
+  // ---- Stops ----
+  const sourceRoute = parts.includes("stops")
+    ? await loadLatestStops(source.id)
+    : null;
+  const targetRoute = sourceRoute ? await loadLatestStops(target.id) : null;
+  const effectiveFrom = sourceRoute
+    ? parseEffectiveFrom(input.effectiveFrom)
+    : null;
+  const stopsDiff =
+    sourceRoute && effectiveFrom
+      ? {
+          ...diffRouteStops(
+            { version: targetRoute?.version ?? 0 },
+            targetRoute?.stops ?? [],
+            { version: (targetRoute?.version ?? 0) + 1, effectiveFrom },
+            sourceRoute.stops
+          ),
+          segmentFares: sourceRoute.segmentFares.length,
+        }
+      : null;
+
+  // ---- Amenities ----
+  const sourceAmenities = parts.includes("amenities")
+    ? await prisma.busAmenities.findUnique({ where: { busId: source.id } })
+    : null;
+  const targetAmenities = sourceAmenities
+    ? await prisma.busAmenities.findUnique({ where: { busId: target.id } })
+    : null;
+
+  // ---- Pricing ----
+  const [sourceRules, targetRules] = parts.includes("pricing")
+    ? await Promise.all([
+        prisma.pricingRule.findMany({ where: { busId: source.id } }),
+        prisma.pricingRule.findMany({
+          where: { busId: target.id },
+          include: { _count: { select: { bookings: true } } },
+        }),
+      ])
+    : [[], []];
+
+  const diff = {
+    seats: seatPlan
+      ? {
+          ...seatPlan,
+          grid: {
+            from: { rows: target.gridRows, columns: target.gridColumns },
+            to: { rows: source.gridRows, columns: source.gridColumns },
+          },
+        }
+      : null,
+    stops: stopsDiff,
+    amenities: sourceAmenities
+      ? diffAmenities(targetAmenities, sourceAmenities)
+      : null,
+    pricing: parts.includes("pricing")
+      ? {
+          added: sourceRules.map((rule) => rule.name),
+          removed: targetRules.map((rule) => rule.name),
+        }
+      : null,
+  };
+
+  if (dryRun) {
+    return {
+      applied: false,
+      diff,
+      movedBookings: [],
+      routeVersion: null,
+      pinnedTrips: [],
+    };
+  }
+
+  // The target's seats must be priced on the route it ends up with
+  if (sourceRoute && !seatPlan) {
+    await assertUpperSeatersPriced(prisma, target.id, {
+      seats: target.seats,
+      stops: sourceRoute.stops,
+    });
+  }
+
+  const seatResult = seatPlan
+    ? await saveSeatLayout(target.id, source.seats, {
+        movePassengers,
+        bus: {
+          gridRows: source.gridRows,
+          gridColumns: source.gridColumns,
+          type: getBusTypeForSeats(source.seats),
+        },
+        ...(sourceRoute ? { stops: sourceRoute.stops } : {}),
+      })
+    : null;
+
+  let routeVersion = null;
+  let pinnedTrips: unknown[] = [];
+
+  if (sourceRoute) {
+    const result = await createRouteVersion({
+      busId: target.id,
+      adminId,
+      stops: sourceRoute.stops,
+      effectiveFrom: input.effectiveFrom,
+    });
+
+    // The copied route takes the source's fare matrix instead of the one
+    // carried over from the target's previous route
+    const stopIdsByKey = new Map(
+      result.stops.map((stop) => [stopKey(stop), stop.id])
+    );
+    const sourceKeys = new Map(
+      sourceRoute.stops.map((stop) => [stop.id, stopKey(stop)])
+    );
+    const fares = sourceRoute.segmentFares.flatMap((entry) => {
+      const fromStopId = stopIdsByKey.get(
+        sourceKeys.get(entry.fromStopId) ?? ""
+      );
+      const toStopId = stopIdsByKey.get(sourceKeys.get(entry.toStopId) ?? "");
+
+      return fromStopId && toStopId
+        ? [
+            {
+              routeVersionId: result.routeVersion.id,
+              fromStopId,
+              toStopId,
+              seatType: entry.seatType,
+              seatLevel: entry.seatLevel,
+              price: entry.price,
+            },
+          ]
+        : [];
+    });
+
+    await prisma.$transaction([
+      prisma.segmentFare.deleteMany({
+        where: { routeVersionId: result.routeVersion.id },
+      }),
+      prisma.segmentFare.createMany({ data: fares }),
+    ]);
+    await refreshTripHorizon(target.id);
+
+    routeVersion = result.routeVersion;
+    pinnedTrips = result.pinnedTrips;
+  }
+
+  if (sourceAmenities) {
+    const amenities = Object.fromEntries(
+      AMENITY_FIELDS.map((field) => [field, sourceAmenities[field]])
+    );
+
+    await prisma.busAmenities.upsert({
+      where: { busId: target.id },
+      update: amenities,
+      create: { ...amenities, busId: target.id },
+    });
+  }
+
+  if (parts.includes("pricing")) {
+    // Rules that priced bookings stay, deactivated, for their audit trail
+    await prisma.$transaction([
+      prisma.pricingRule.deleteMany({
+        where: {
+          id: {
+            in: targetRules
+              .filter((rule) => rule._count.bookings === 0)
+              .map((rule) => rule.id),
+          },
+        },
+      }),
+      prisma.pricingRule.updateMany({
+        where: {
+          id: {
+            in: targetRules
+              .filter((rule) => rule._count.bookings > 0)
+              .map((rule) => rule.id),
+          },
+        },
+        data: { isActive: false },
+      }),
+      prisma.pricingRule.createMany({
+        data: sourceRules.map((rule) => copyPricingRule(rule, target.id)),
+      }),
+    ]);
+  }
+
+  return {
+    applied: true,
+    diff,
+    movedBookings: seatResult?.movedBookings ?? [],
+    routeVersion,
+    pinnedTrips,
+  };
+}
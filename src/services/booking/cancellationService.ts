@@ -0,0 +1,426 @@
+import { prisma } from "../../lib/prisma.js";
+import { ServiceError } from "../../lib/serviceError.js";
+import {
+  cancellationSlabsSchema,
+  storedSeatFaresSchema,
+} from "../../schemas/cancellationSchema.js";
+import type { Prisma, PrismaClient } from "@prisma/client";
+import {
+  applyScheduleToStop,
+  timetableStopSelect,
+} from "./tripScheduleService.js";
+import { promoteWaitlists } from "./waitlistService.js";
+
+type PrismaClientOrTransaction = PrismaClient | Prisma.TransactionClient;
+
+export interface CancellationSlabInput {
+  minHoursBeforeDeparture: number;
+  refundPercentage: number;
+}
+
+export interface CancelledSeatSummary {
+  bookingId: string;
+  seatNumber: string;
+  paidAmount: number;
+  refundAmount: number;
+}
+
+export interface CancellationQuote {
+  bookingGroupId: string;
+  departureAt: Date | null;
+  hoursBeforeDeparture: number | null;
+  refundPercentage: number;
+  seats: CancelledSeatSummary[];
+  paidAmount: number;
+  refundAmount: number;
+  cancellationCharge: number;
+  cancelsWholeGroup: boolean;
+}
+
+/**
+ * Applied when an operator has not configured their own slabs.
+ * Cancelling closer to departure than the lowest slab refunds nothing.
+ */
+export const DEFAULT_CANCELLATION_SLABS: CancellationSlabInput[] = [
+  { minHoursBeforeDeparture: 48, refundPercentage: 90 },
+  { minHoursBeforeDeparture: 24, refundPercentage: 75 },
+  { minHoursBeforeDeparture: 12, refundPercentage: 50 },
+  { minHoursBeforeDeparture: 2, refundPercentage: 25 },
+];
+
+export class CancellationError extends ServiceError {}
+
+const roundToTwo = (value: number) =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+/**
+ * Combine the trip date with the departure time ("HH:MM") of the boarding stop.
+ * Returns null when the stop has no departure time configured.
+ */
+export function getDepartureDateTime(
+  tripDate: Date,
+  stop: { departureTime: string | null; returnDepartureTime: string | null },
+  isReturnTrip: boolean
+): Date | null {
+  const departureTime = isReturnTrip
+    ? stop.returnDepartureTime || stop.departureTime
+    : stop.departureTime;
+
+  if (!departureTime) {
+    return null;
+  }
+
+  const [hours, minutes] = departureTime.split(":").map(Number);
+  if (
+    hours === undefined ||
+    minutes === undefined ||
+    Number.isNaN(hours) ||
+    Number.isNaN(minutes)
+  ) {
+    return null;
+  }
+
+  const departure = new Date(tripDate);
+  departure.setHours(hours, minutes, 0, 0);
+  return departure;
+}
+
+function validateSlabs(slabs: unknown): CancellationSlabInput[] {
+  const parsed = cancellationSlabsSchema.safeParse(slabs);
+  if (!parsed.success) {
+    throw new CancellationError(
+      parsed.error.issues[0]?.message ?? "Invalid cancellation slabs"
+    );
+  }
+
+  const normalized = parsed.data;
+
+  const uniqueHours = new Set(normalized.map((s) => s.minHoursBeforeDeparture));
+  if (uniqueHours.size !== normalized.length) {
+    throw new CancellationError(
+      "Each slab must have a different minHoursBeforeDeparture"
+    );
+  }
+
+  const sorted = [...normalized].sort(
+    (a, b) => b.minHoursBeforeDeparture - a.minHoursBeforeDeparture
+  );
+
+  // Cancelling earlier must never refund less than cancelling later
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i]!.refundPercentage > sorted[i - 1]!.refundPercentage) {
+      throw new CancellationError(
+        "Refund percentage cannot increase closer to departure"
+      );
+    }
+  }
+
+  return sorted;
+}
+
+/**
+ * Get the operator's slabs sorted from earliest to latest cancellation window.
+ */
+export async function getCancellationPolicy(
+  adminId: string,
+  client: PrismaClientOrTransaction = prisma
+) {
+  const slabs = await client.cancellationSlab.findMany({
+    where: { adminId },
+    orderBy: { minHoursBeforeDeparture: "desc" },
+  });
+
+  if (slabs.length === 0) {
+    return { isDefault: true, slabs: DEFAULT_CANCELLATION_SLABS };
+  }
+
+  return {
+    isDefault: false,
+    slabs: slabs.map((slab) => ({
+      minHoursBeforeDeparture: slab.minHoursBeforeDeparture,
+      refundPercentage: slab.refundPercentage,
+    })),
+  };
+}
+
+export async function replaceCancellationPolicy(
+  adminId: string,
+  rawSlabs: unknown
+) {
+  const slabs = validateSlabs(rawSlabs);
+
+  await prisma.$transaction([
+    prisma.cancellationSlab.deleteMany({ where: { adminId } }),
+    prisma.cancellationSlab.createMany({
+      data: slabs.map((slab) => ({ adminId, ...slab })),
+    }),
+  ]);
+
+  return getCancellationPolicy(adminId);
+}
+
+export async function resetCancellationPolicy(adminId: string) {
+  await prisma.cancellationSlab.deleteMany({ where: { adminId } });
+  return getCancellationPolicy(adminId);
+}
+
+export function resolveRefundPercentage(
+  slabs: CancellationSlabInput[],
+  hoursBeforeDeparture: number
+) {
+  const slab = [...slabs]
+    .sort((a, b) => b.minHoursBeforeDeparture - a.minHoursBeforeDeparture)
+    .find((s) => hoursBeforeDeparture >= s.minHoursBeforeDeparture);
+
+  return slab ? slab.refundPercentage : 0;
+}
+
+// Per-seat fares stored on a payment; a connecting journey stores them per leg
+const getStoredSeatFares = (
+  paymentMetadata: unknown
+): Record<string, number> | undefined => {
+  if (paymentMetadata == null) {
+    return undefined;
+  }
+
+  const parsed = storedSeatFaresSchema.safeParse(paymentMetadata);
+  if (!parsed.success) {
+    throw new CancellationError(
+      "The fares stored for this booking are invalid, so its refund can't be worked out",
+      500
+    );
+  }
+
+  const { legs, booking } = parsed.data;
+  if (legs) {
+    return Object.assign({}, ...legs.map((leg) => leg.seatFares ?? {}));
+  }
+
+  return booking?.seatFares;
+};
+
+/**
+ * Split the amount actually paid for a group across its seats.
+ * Uses the per-seat fares stored on the payment when available so a
+ * discounted group refunds proportionally; otherwise splits evenly.
+ */
+export function getBookingPaidShares(
+  group: {
+    totalPrice: number;
+    finalPrice: number | null;
+    bookings: Array<{ id: string; seatId: string }>;
+  },
+  paymentMetadata: unknown
+): Record<string, number> {
+  const paidTotal = group.finalPrice ?? group.totalPrice;
+  const seatFares = getStoredSeatFares(paymentMetadata);
+
+  const fareSum = seatFares
+    ? group.bookings.reduce((sum, b) => sum + (seatFares[b.seatId] ?? 0), 0)
+    : 0;
+
+  const shares: Record<string, number> = {};
+  group.bookings.forEach((booking) => {
+    const weight =
+      seatFares && fareSum > 0
+        ? (seatFares[booking.seatId] ?? 0) / fareSum
+        : 1 / group.bookings.length;
+    shares[booking.id] = roundToTwo(paidTotal * weight);
+  });
+
+  return shares;
+}
+
+async function buildCancellationQuote(
+  client: PrismaClientOrTransaction,
+  params: {
+    userId: string;
+    bookingGroupId: string;
+    bookingIds?: string[] | undefined;
+  }
+) {
+  const group = await client.bookingGroup.findUnique({
+    where: { id: params.bookingGroupId },
+    include: {
+      trip: {
+        include: {
+          schedule: true,
+          routeVersion: { select: { stops: { select: timetableStopSelect } } },
+          bus: { select: { adminId: true } },
+        },
+      },
+      fromStop: true,
+      toStop: true,
+      bookings: { include: { seat: { select: { seatNumber: true } } } },
+      payment: { select: { metadata: true } },
+      itinerary: { select: { payment: { select: { metadata: true } } } },
+      groupBookingRequest: { select: { id: true } },
+    },
+  });
+
+  if (!group) {
+    throw new CancellationError("Booking not found", 404);
+  }
+
+  if (group.userId !== params.userId) {
+    throw new CancellationError(
+      "Unauthorized: This booking doesn't belong to you",
+      403
+    );
+  }
+
+  if (group.status !== "CONFIRMED") {
+    throw new CancellationError(
+      `Booking is ${group.status.toLowerCase()} and cannot be cancelled`
+    );
+  }
+
+  // Its price was negotiated and may be part-paid, so the operator cancels it
+  if (group.groupBookingRequest) {
+    throw new CancellationError(
+      "Group bookings are cancelled by the operator; please contact them"
+    );
+  }
+
+  if (group.trip.status === "COMPLETED" || group.trip.status === "CANCELLED") {
+    throw new CancellationError(
+      `Cannot cancel a booking for a ${group.trip.status.toLowerCase()} trip`
+    );
+  }
+
+  const activeBookings = group.bookings.filter((b) => b.status === "CONFIRMED");
+  const requestedIds = params.bookingIds?.length
+    ? Array.from(new Set(params.bookingIds))
+    : activeBookings.map((b) => b.id);
+
+  const bookingsToCancel = activeBookings.filter((b) =>
+    requestedIds.includes(b.id)
+  );
+
+  if (bookingsToCancel.length !== requestedIds.length) {
+    throw new CancellationError(
+      "One or more seats are not part of this booking or are already cancelled"
+    );
+  }
+
+  const isReturnTrip = group.fromStop.stopIndex > group.toStop.stopIndex;
+  const departureAt = getDepartureDateTime(
+    group.trip.tripDate,
+    applyScheduleToStop(
+      group.fromStop,
+      group.trip.routeVersion.stops,
+      group.trip.schedule
+    ),
+    isReturnTrip
+  );
+
+  const now = new Date();
+  if (departureAt && now >= departureAt) {
+    throw new CancellationError(
+      "Cannot cancel a booking after the bus has departed"
+    );
+  }
+
+  const hoursBeforeDeparture = departureAt
+    ? (departureAt.getTime() - now.getTime()) / (1000 * 60 * 60)
+    : null;
+
+  const policy = await getCancellationPolicy(group.trip.bus.adminId, client);
+  const refundPercentage =
+    hoursBeforeDeparture === null
+      ? 0
+      : resolveRefundPercentage(policy.slabs, hoursBeforeDeparture);
+
+  const paidShares = getBookingPaidShares(
+    group,
+    (group.payment ?? group.itinerary?.payment)?.metadata
+  );
+
+  const seats: CancelledSeatSummary[] = bookingsToCancel.map((booking) => {
+    const paidAmount = paidShares[booking.id] ?? 0;
+    return {
+      bookingId: booking.id,
+      seatNumber: booking.seat.seatNumber,
+      paidAmount,
+      refundAmount: roundToTwo((paidAmount * refundPercentage) / 100),
+    };
+  });
+
+  const paidAmount = roundToTwo(seats.reduce((s, b) => s + b.paidAmount, 0));
+  const refundAmount = roundToTwo(
+    seats.reduce((s, b) => s + b.refundAmount, 0)
+  );
+
+  const quote: CancellationQuote = {
+    bookingGroupId: group.id,
+    departureAt,
+    hoursBeforeDeparture:
+      hoursBeforeDeparture === null ? null : roundToTwo(hoursBeforeDeparture),
+    refundPercentage,
+    seats,
+    paidAmount,
+    refundAmount,
+    cancellationCharge: roundToTwo(paidAmount - refundAmount),
+    cancelsWholeGroup: bookingsToCancel.length === activeBookings.length,
+  };
+
+  return { group, quote };
+}
+
+/**
+ * Preview what cancelling the given seats (or the whole group) would refund.
+ */
+export async function quoteCancellation(params: {
+  userId: string;
+  bookingGroupId: string;
+  bookingIds?: string[] | undefined;
+}) {
+  const { quote } = await buildCancellationQuote(prisma, params);
+  return quote;
+}
+
+/**
+ * Cancel a whole booking group or a subset of its seats and record the
+ * refund owed for each cancelled seat. The freed seats are then offered to
+ * the trip's waitlist.
+ */
+export async function cancelBookingGroup(params: {
+  userId: string;
+  bookingGroupId: string;
+  bookingIds?: string[] | undefined;
+}) {
+  const { tripId, quote } = await prisma.$transaction(
+    async (tx) => {
+      const { group, quote } = await buildCancellationQuote(tx, params);
+      const cancelledAt = new Date();
+
+      for (const seat of quote.seats) {
+        await tx.booking.update({
+          where: { id: seat.bookingId },
+          data: {
+            status: "CANCELLED",
+            cancelledAt,
+            refundAmount: seat.refundAmount,
+          },
+        });
+      }
+
+      if (quote.cancelsWholeGroup) {
+        await tx.bookingGroup.update({
+          where: { id: quote.bookingGroupId },
+          data: { status: "CANCELLED" },
+        });
+      }
+
+      return { tripId: group.tripId, quote };
+    },
+    {
+      maxWait: 10000,
+      timeout: 15000,
+    }
+  );
+
+  await promoteWaitlists([tripId]);
+
+  return quote;
+}
@@ -0,0 +1,271 @@
+import { PassengerCategory, PricingAdjustmentType } from "@prisma/client";
+import type { FareCategory, Prisma, PrismaClient } from "@prisma/client";
+import { prisma } from "../../lib/prisma.js";
+import { ServiceError } from "../../lib/serviceError.js";
+import { applyPricingRule } from "./pricingRuleService.js";
+
+type PrismaClientOrTransaction = PrismaClient | Prisma.TransactionClient;
+
+export class FareCategoryError extends ServiceError {}
+
+// Categories a passenger can ask for; children and seniors are also
+// recognised by age without asking
+const CLAIMABLE_CATEGORIES = ["CHILD", "SENIOR", "STUDENT"] as const;
+
+type ClaimableCategory = (typeof CLAIMABLE_CATEGORIES)[number];
+
+const CATEGORY_LABELS: Record<PassengerCategory, string> = {
+  ADULT: "adult",
+  CHILD: "child",
+  SENIOR: "senior",
+  STUDENT: "student",
+  INFANT: "infant",
+};
+
+export interface CategoryFareInput {
+  name: string;
+  age: number;
+  fareCategory?: ClaimableCategory | undefined;
+  idProofNumber?: string | undefined;
+}
+
+export interface CategorizedFare {
+  category: PassengerCategory;
+  fare: number;
+}
+
+const ageFits = (config: FareCategory, age: number) =>
+  (config.minAge === null || age >= config.minAge) &&
+  (config.maxAge === null || age <= config.maxAge);
+
+/**
+ * Active fare categories of an operator, by category.
+ */
+export async function loadFareCategories(
+  client: PrismaClientOrTransaction,
+  adminId: string
+) {
+  const categories = await client.fareCategory.findMany({
+    where: { adminId, isActive: true },
+  });
+
+  return new Map(categories.map((config) => [config.category, config]));
+}
+
+/**
+ * Category and fare of the passenger in a seat. A claimed category must be
+ * offered and the passenger must qualify for it; otherwise children and
+ * seniors get their fare by age and everyone else pays the seat's fare.
+ */
+export function priceSeatedPassenger(
+  categories: Map<PassengerCategory, FareCategory>,
+  passenger: CategoryFareInput,
+  seatFare: number
+): CategorizedFare {
+  const claimed = passenger.fareCategory;
+
+  if (claimed) {
+    const config = categories.get(claimed);
+    const label = CATEGORY_LABELS[claimed];
+
+    if (!config) {
+      throw new FareCategoryError(
+        `The ${label} fare is not offered on this bus`
+      );
+    }
+
+    if (!ageFits(config, passenger.age)) {
+      throw new FareCategoryError(
+        `${passenger.name} is not eligible for the ${label} fare`
+      );
+    }
+
+    if (config.requiresIdProof && !passenger.idProofNumber?.trim()) {
+      throw new FareCategoryError(
+        `An ID number is required for ${passenger.name}'s ${label} fare`
+      );
+    }
+
+    return {
+      category: claimed,
+      fare: applyPricingRule(seatFare, config),
+    };
+  }
+
+  for (const category of ["CHILD", "SENIOR"] as const) {
+    const config = categories.get(category);
+    if (config && ageFits(config, passenger.age)) {
+      return { category, fare: applyPricingRule(seatFare, config) };
+    }
+  }
+
+  return { category: PassengerCategory.ADULT, fare: seatFare };
+}
+
+/**
+ * Fare of an infant on the lap of the passenger in a seat whose fare is
+ * `seatFare`. Only operators with an infant category take lap infants.
+ */
+export function priceLapInfant(
+  categories: Map<PassengerCategory, FareCategory>,
+  infant: { name: string; age: number },
+  seatFare: number
+) {
+  const config = categories.get(PassengerCategory.INFANT);
+
+  if (!config) {
+    throw new FareCategoryError("This bus does not take infants on a lap");
+  }
+
+  if (!ageFits(config, infant.age)) {
+    throw new FareCategoryError(
+      `${infant.name} is too old to travel on a lap and needs a seat`
+    );
+  }
+
+  return applyPricingRule(seatFare, config);
+}
+
+const parseAge = (value: unknown, field: string) => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (!Number.isInteger(value) || (value as number) < 0) {
+    throw new FareCategoryError(`${field} must be a whole number of years`);
+  }
+
+  return value as number;
+};
+
+/**
+ * Create or replace an operator's fare category.
+ */
+export async function upsertFareCategory(
+  adminId: string,
+  category: unknown,
+  input: Record<string, unknown>
+) {
+  if (
+    !Object.values(PassengerCategory).includes(category as PassengerCategory) ||
+    category === PassengerCategory.ADULT
+  ) {
+    throw new FareCategoryError(
+      "category must be CHILD, SENIOR, STUDENT or INFANT"
+    );
+  }
+
+  const minAge = parseAge(input.minAge, "minAge");
+  const maxAge = parseAge(input.maxAge, "maxAge");
+
+  if (
+    (category === PassengerCategory.CHILD ||
+      category === PassengerCategory.INFANT) &&
+    maxAge === null
+  ) {
+    throw new FareCategoryError(
+      `maxAge is required for the ${CATEGORY_LABELS[category]} category`
+    );
+  }
+
+  if (category === PassengerCategory.SENIOR && minAge === null) {
+    throw new FareCategoryError("minAge is required for the senior category");
+  }
+
+  if (minAge !== null && maxAge !== null && minAge > maxAge) {
+    throw new FareCategoryError("minAge must not exceed maxAge");
+  }
+
+  const { adjustmentType, adjustmentValue } = input;
+  if (
+    !Object.values(PricingAdjustmentType).includes(
+      adjustmentType as PricingAdjustmentType
+    )
+  ) {
+    throw new FareCategoryError(
+      "adjustmentType must be PERCENTAGE or FIXED_AMOUNT"
+    );
+  }
+
+  if (
+    typeof adjustmentValue !== "number" ||
+    !Number.isFinite(adjustmentValue)
+  ) {
+    throw new FareCategoryError(
+      "adjustmentValue must be a number (negative for discounts)"
+    );
+  }
+
+  if (
+    adjustmentType === PricingAdjustmentType.PERCENTAGE &&
+    adjustmentValue < -100
+  ) {
+    throw new FareCategoryError("A percentage discount cannot exceed 100");
+  }
+
+  const requiresIdProof =
+    input.requiresIdProof ?? category === PassengerCategory.STUDENT;
+  const isActive = input.isActive ?? true;
+  if (typeof requiresIdProof !== "boolean" || typeof isActive !== "boolean") {
+    throw new FareCategoryError(
+      "requiresIdProof and isActive must be booleans"
+    );
+  }
+
+  const data = {
+    minAge,
+    maxAge,
+    requiresIdProof,
+    adjustmentType: adjustmentType as PricingAdjustmentType,
+    adjustmentValue,
+    isActive,
+  };
+
+  return prisma.fareCategory.upsert({
+    where: {
+      adminId_category: {
+        adminId,
+        category: category as PassengerCategory,
+      },
+    },
+    create: { ...data, adminId, category: category as PassengerCategory },
+    update: data,
+  });
+}
+
+export async function listFareCategories(adminId: string) {
+  return prisma.fareCategory.findMany({
+    where: { adminId },
+    orderBy: { category: "asc" },
+  });
+}
+
+/**
+ * Stop offering a category. Bookings keep the category and fare they were
+ * sold with.
+ */
+export async function deleteFareCategory(adminId: string, category: string) {
+  const { count } = Object.values(PassengerCategory).includes(
+    category as PassengerCategory
+  )
+    ? await prisma.fareCategory.deleteMany({
+        where: { adminId, category: category as PassengerCategory },
+      })
+    : { count: 0 };
+
+  if (count === 0) {
+    throw new FareCategoryError("Fare category not found", 404);
+  }
+}
+
+export const serializeFareCategory = (config: FareCategory) => ({
+  id: config.id,
+  category: config.category,
+  minAge: config.minAge,
+  maxAge: config.maxAge,
+  requiresIdProof: config.requiresIdProof,
+  adjustmentType: config.adjustmentType,
+  adjustmentValue: config.adjustmentValue,
+  isActive: config.isActive,
+  updatedAt: config.updatedAt,
+});
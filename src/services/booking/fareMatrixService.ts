@@ -0,0 +1,236 @@
+import type { SeatLevel, SeatType, SegmentFare } from "@prisma/client";
+import { prisma } from "../../lib/prisma.js";
+import { ServiceError } from "../../lib/serviceError.js";
+import { buildFareMatrix, getSegmentSeatFare } from "./fareService.js";
+import { serializeRouteVersion } from "./routeVersionService.js";
+
+export class FareMatrixError extends ServiceError {}
+
+const SEAT_TYPES: SeatType[] = ["SEATER", "SLEEPER"];
+const SEAT_LEVELS: SeatLevel[] = ["LOWER", "UPPER"];
+
+// Most entries accepted in one update
+const MAX_ENTRIES_PER_UPDATE = 500;
+
+export interface FareMatrixEntryInput {
+  fromStopId: string;
+  toStopId: string;
+  seatType: SeatType;
+  seatLevel: SeatLevel;
+  // null removes the entry, so the pair falls back to cumulative prices
+  price: number | null;
+}
+
+const serializeEntry = (entry: SegmentFare) => ({
+  id: entry.id,
+  fromStopId: entry.fromStopId,
+  toStopId: entry.toStopId,
+  seatType: entry.seatType,
+  seatLevel: entry.seatLevel,
+  price: entry.price,
+  updatedAt: entry.updatedAt,
+});
+
+/**
+ * Route version of a bus whose fare matrix is read or edited: the given
+ * version, or the newest one.
+ */
+async function findRouteVersion(busId: string, version?: number) {
+  const routeVersion = await prisma.routeVersion.findFirst({
+    where: { busId, ...(version ? { version } : { supersededAt: null }) },
+    orderBy: { version: "desc" },
+    include: {
+      stops: { orderBy: { stopIndex: "asc" } },
+      segmentFares: true,
+    },
+  });
+
+  if (!routeVersion) {
+    throw new FareMatrixError(
+      version
+        ? "Route version not found"
+        : "This bus has no route yet; add stops first",
+      404
+    );
+  }
+
+  return routeVersion;
+}
+
+/**
+ * The fare matrix of a route version: its explicit entries and, for every
+ * forward stop pair and seat level/type on the bus, the fare passengers pay
+ * and whether it comes from the matrix or the cumulative prices. Return
+ * journeys are priced the same unless the matrix has an entry for them.
+ */
+export async function getFareMatrix(busId: string, version?: number) {
+  const routeVersion = await findRouteVersion(busId, version);
+
+  const seats = await prisma.seat.findMany({
+    where: { busId, isActive: true },
+    distinct: ["level", "type"],
+    select: { level: true, type: true },
+  });
+  const seatKinds =
+    seats.length > 0
+      ? seats
+      : SEAT_LEVELS.flatMap((level) =>
+          SEAT_TYPES.map((type) => ({ level, type }))
+        );
+
+  const matrix = buildFareMatrix(routeVersion.segmentFares);
+  const { stops } = routeVersion;
+
+  const fares = stops.flatMap((fromStop, fromIndex) =>
+    stops.slice(fromIndex + 1).flatMap((toStop) =>
+      seatKinds.map((seat) => {
+        const cumulativeFare = getSegmentSeatFare(fromStop, toStop, seat);
+        const fare = getSegmentSeatFare(fromStop, toStop, seat, matrix);
+        const hasEntry = routeVersion.segmentFares.some(
+          (entry) =>
+            entry.fromStopId === fromStop.id &&
+            entry.toStopId === toStop.id &&
+            entry.seatLevel === seat.level &&
+            entry.seatType === seat.type
+        );
+
+        return {
+          fromStopId: fromStop.id,
+          toStopId: toStop.id,
+          seatLevel: seat.level,
+          seatType: seat.type,
+          fare,
+          cumulativeFare,
+          source: hasEntry ? "MATRIX" : "CUMULATIVE",
+        };
+      })
+    )
+  );
+
+  return {
+    routeVersion: serializeRouteVersion(routeVersion),
+    stops: stops.map((stop) => ({
+      id: stop.id,
+      name: stop.name,
+      city: stop.city,
+      stopIndex: stop.stopIndex,
+    })),
+    entries: routeVersion.segmentFares.map(serializeEntry),
+    fares,
+  };
+}
+
+const parseEntries = (
+  input: unknown,
+  stopIds: Set<string>
+): FareMatrixEntryInput[] => {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new FareMatrixError("entries must be a non-empty array");
+  }
+
+  if (input.length > MAX_ENTRIES_PER_UPDATE) {
+    throw new FareMatrixError(
+      `At most ${MAX_ENTRIES_PER_UPDATE} entries can be updated at once`
+    );
+  }
+
+  const seen = new Set<string>();
+
+  return input.map((raw: any, index) => {
+    const label = `entries[${index}]`;
+    const { fromStopId, toStopId, seatType, seatLevel, price } = raw ?? {};
+
+    if (!stopIds.has(fromStopId) || !stopIds.has(toStopId)) {
+      throw new FareMatrixError(
+        `${label}: stops must belong to the bus's current route`
+      );
+    }
+
+    if (fromStopId === toStopId) {
+      throw new FareMatrixError(`${label}: from and to stops must differ`);
+    }
+
+    if (!SEAT_TYPES.includes(seatType) || !SEAT_LEVELS.includes(seatLevel)) {
+      throw new FareMatrixError(
+        `${label}: seatType must be SEATER or SLEEPER and seatLevel LOWER or UPPER`
+      );
+    }
+
+    if (
+      price !== null &&
+      (typeof price !== "number" || !Number.isFinite(price) || price < 0)
+    ) {
+      throw new FareMatrixError(
+        `${label}: price must be a non-negative number, or null to remove the entry`
+      );
+    }
+
+    const key = `${fromStopId}|${toStopId}|${seatLevel}|${seatType}`;
+    if (seen.has(key)) {
+      throw new FareMatrixError(`${label}: duplicate stop pair and seat`);
+    }
+    seen.add(key);
+
+    return { fromStopId, toStopId, seatType, seatLevel, price };
+  });
+};
+
+/**
+ * Set or remove fare matrix entries on the bus's newest route version. Fares
+ * of trips already sold on it change for new bookings only; booked seats
+ * keep the fare they were sold at.
+ */
+export async function updateFareMatrix(busId: string, input: unknown) {
+  const routeVersion = await findRouteVersion(busId);
+  const entries = parseEntries(
+    input,
+    new Set(routeVersion.stops.map((stop) => stop.id))
+  );
+
+  await prisma.$transaction(
+    entries.map((entry) => {
+      const where = {
+        fromStopId_toStopId_seatType_seatLevel: {
+          fromStopId: entry.fromStopId,
+          toStopId: entry.toStopId,
+          seatType: entry.seatType,
+          seatLevel: entry.seatLevel,
+        },
+      };
+
+      if (entry.price === null) {
+        return prisma.segmentFare.deleteMany({
+          where: where.fromStopId_toStopId_seatType_seatLevel,
+        });
+      }
+
+      return prisma.segmentFare.upsert({
+        where,
+        create: {
+          routeVersionId: routeVersion.id,
+          fromStopId: entry.fromStopId,
+          toStopId: entry.toStopId,
+          seatType: entry.seatType,
+          seatLevel: entry.seatLevel,
+          price: entry.price,
+        },
+        update: { price: entry.price },
+      });
+    })
+  );
+
+  return getFareMatrix(busId);
+}
+
+/**
+ * Remove every entry from the bus's newest route version, so all its fares
+ * come from the cumulative prices again.
+ */
+export async function clearFareMatrix(busId: string) {
+  const routeVersion = await findRouteVersion(busId);
+  const { count } = await prisma.segmentFare.deleteMany({
+    where: { routeVersionId: routeVersion.id },
+  });
+
+  return count;
+}
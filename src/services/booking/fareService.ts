@@ -0,0 +1,163 @@
+import type {
+  Prisma,
+  PrismaClient,
+  Seat,
+  SegmentFare,
+  Stop,
+} from "@prisma/client";
+
+type PrismaClientOrTransaction = PrismaClient | Prisma.TransactionClient;
+
+type FareStop = Pick<
+  Stop,
+  | "id"
+  | "priceFromOrigin"
+  | "lowerSeaterPrice"
+  | "lowerSleeperPrice"
+  | "upperSleeperPrice"
+  | "upperSeaterPrice"
+>;
+
+type FareSeat = Pick<Seat, "level" | "type">;
+
+const SEAT_KINDS: FareSeat[] = [
+  { level: "LOWER", type: "SEATER" },
+  { level: "LOWER", type: "SLEEPER" },
+  { level: "UPPER", type: "SEATER" },
+  { level: "UPPER", type: "SLEEPER" },
+];
+
+/**
+ * Explicit segment fares of one or more route versions, keyed by stop pair
+ * and seat level/type. Stop IDs are unique across versions, so one matrix can
+ * hold the fares of every trip in a search.
+ */
+export type FareMatrix = Map<string, number>;
+
+const matrixKey = (fromStopId: string, toStopId: string, seat: FareSeat) =>
+  `${fromStopId}|${toStopId}|${seat.level}|${seat.type}`;
+
+export const buildFareMatrix = (
+  entries: Array<
+    Pick<
+      SegmentFare,
+      "fromStopId" | "toStopId" | "seatLevel" | "seatType" | "price"
+    >
+  >
+): FareMatrix =>
+  new Map(
+    entries.map((entry) => [
+      matrixKey(entry.fromStopId, entry.toStopId, {
+        level: entry.seatLevel,
+        type: entry.seatType,
+      }),
+      entry.price,
+    ])
+  );
+
+export async function loadFareMatrix(
+  client: PrismaClientOrTransaction,
+  routeVersionIds: string[]
+) {
+  const ids = [...new Set(routeVersionIds)];
+  if (ids.length === 0) {
+    return buildFareMatrix([]);
+  }
+
+  return buildFareMatrix(
+    await client.segmentFare.findMany({
+      where: { routeVersionId: { in: ids } },
+    })
+  );
+}
+
+/**
+ * The matrix fare for a stop pair and seat, or for the opposite direction
+ * when only that was set; null when the pair isn't in the matrix.
+ */
+export function getMatrixFare(
+  matrix: FareMatrix | undefined,
+  fromStop: Pick<FareStop, "id">,
+  toStop: Pick<FareStop, "id">,
+  seat: FareSeat
+) {
+  return (
+    matrix?.get(matrixKey(fromStop.id, toStop.id, seat)) ??
+    matrix?.get(matrixKey(toStop.id, fromStop.id, seat)) ??
+    null
+  );
+}
+
+/**
+ * Cumulative price from the route's origin to a stop for a seat's level and
+ * type.
+ */
+function getPriceFromOrigin(stop: FareStop, seat: FareSeat) {
+  if (seat.level === "LOWER" && seat.type === "SEATER") {
+    return stop.lowerSeaterPrice ?? stop.priceFromOrigin ?? 0;
+  }
+
+  if (seat.level === "LOWER" && seat.type === "SLEEPER") {
+    return stop.lowerSleeperPrice ?? stop.priceFromOrigin ?? 0;
+  }
+
+  if (seat.level === "UPPER" && seat.type === "SLEEPER") {
+    return stop.upperSleeperPrice ?? stop.priceFromOrigin ?? 0;
+  }
+
+  if (seat.level === "UPPER" && seat.type === "SEATER") {
+    return stop.upperSeaterPrice ?? stop.priceFromOrigin ?? 0;
+  }
+
+  return stop.priceFromOrigin ?? 0;
+}
+
+/**
+ * Fare for one seat between two stops: the fare matrix entry for the pair
+ * when there is one, else the difference between the stops' prices for the
+ * seat's level and type, or between their general prices when that seat type
+ * isn't priced on the route. The same in both directions unless the matrix
+ * says otherwise.
+ */
+export function getSegmentSeatFare(
+  fromStop: FareStop,
+  toStop: FareStop,
+  seat: FareSeat,
+  matrix?: FareMatrix
+) {
+  const matrixFare = getMatrixFare(matrix, fromStop, toStop, seat);
+  if (matrixFare !== null) {
+    return matrixFare;
+  }
+
+  const seatSpecificFare = Math.abs(
+    getPriceFromOrigin(toStop, seat) - getPriceFromOrigin(fromStop, seat)
+  );
+
+  const fare =
+    Number.isFinite(seatSpecificFare) && seatSpecificFare > 0
+      ? seatSpecificFare
+      : Math.abs(
+          (toStop.priceFromOrigin ?? 0) - (fromStop.priceFromOrigin ?? 0)
+        );
+
+  return Number.isFinite(fare) ? fare : 0;
+}
+
+/**
+ * Fare between two stops where no seat has been chosen yet: the general
+ * cumulative fare, or the lowest matrix fare when the pair has entries.
+ */
+export function getSegmentFare(
+  fromStop: Pick<FareStop, "id" | "priceFromOrigin">,
+  toStop: Pick<FareStop, "id" | "priceFromOrigin">,
+  matrix?: FareMatrix
+) {
+  const matrixFares = SEAT_KINDS.map((seat) =>
+    getMatrixFare(matrix, fromStop, toStop, seat)
+  ).filter((fare): fare is number => fare !== null);
+
+  return matrixFares.length > 0
+    ? Math.min(...matrixFares)
+    : Math.abs((toStop.priceFromOrigin ?? 0) - (fromStop.priceFromOrigin ?? 0));
+}
@@ -0,0 +1,1127 @@
+import { GroupBookingStatus, PaymentStatus } from "@prisma/client";
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { prisma } from "../../lib/prisma.js";
+import { ServiceError } from "../../lib/serviceError.js";
+import { getBookingConfig } from "../../config/bookingConfig.js";
+import { notifyGroupBookingUpdate } from "../notificationService.js";
+import { issueRefund, serializeRefund } from "../payment/refundService.js";
+import { BookingConfirmationError } from "./bookingConfirmationService.js";
+import {
+  findActiveSeatHolds,
+  getHeldSeatIds,
+  isSegmentOverlapping,
+  lockTripForSeatChanges,
+} from "./seatHoldService.js";
+import {
+  findFreeSeats,
+  isTripOpenForBooking,
+  promoteWaitlists,
+} from "./waitlistService.js";
+import { tripServesDirection } from "./tripScheduleService.js";
+
+type PrismaClientOrTransaction = PrismaClient | Prisma.TransactionClient;
+
+export class GroupBookingError extends ServiceError {}
+
+// Largest regular booking (see bookTicketSchema); group requests are for more
+export const MAX_SEATS_PER_BOOKING = 6;
+
+export type GroupBookingPaymentStage = "DEPOSIT" | "BALANCE";
+
+// Requests the operator can still quote, reject or the user withdraw
+const UNPAID_STATUSES: GroupBookingStatus[] = [
+  GroupBookingStatus.REQUESTED,
+  GroupBookingStatus.QUOTED,
+];
+
+const PAID_STATUSES: GroupBookingStatus[] = [
+  GroupBookingStatus.DEPOSIT_PAID,
+  GroupBookingStatus.CONFIRMED,
+];
+
+// Requests that still refer to the trip's stops and may yet book seats
+export const OPEN_GROUP_BOOKING_STATUSES: GroupBookingStatus[] = [
+  ...UNPAID_STATUSES,
+  GroupBookingStatus.DEPOSIT_PAID,
+];
+
+const roundToTwo = (value: number) =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+const requestInclude = {
+  trip: {
+    select: {
+      id: true,
+      tripDate: true,
+      status: true,
+      bus: {
+        select: {
+          id: true,
+          name: true,
+          busNumber: true,
+          type: true,
+          adminId: true,
+        },
+      },
+    },
+  },
+  fromStop: { select: { id: true, name: true, city: true, stopIndex: true } },
+  toStop: { select: { id: true, name: true, city: true, stopIndex: true } },
+  // Expired holds are filtered out when serializing
+  seatHolds: {
+    where: { releasedAt: null },
+    select: {
+      expiresAt: true,
+      seat: { select: { id: true, seatNumber: true } },
+    },
+  },
+  bookingGroup: {
+    select: {
+      id: true,
+      status: true,
+      bookings: {
+        where: { status: "CONFIRMED" },
+        select: { seat: { select: { id: true, seatNumber: true } } },
+      },
+    },
+  },
+} as const;
+
+type GroupBookingWithDetails = Prisma.GroupBookingRequestGetPayload<{
+  include: typeof requestInclude;
+}>;
+
+const formatDate = (date: Date) => date.toISOString().split("T")[0] ?? "";
+
+/**
+ * Ask the operator for more seats than one booking allows on a trip segment,
+ * or for the whole bus. A charter covers the route end to end in the
+ * direction of the given stops, so nobody else boards along the way. Seats
+ * are not held until the operator quotes.
+ */
+export async function requestGroupBooking(params: {
+  userId: string;
+  tripId: string;
+  fromStopId: string;
+  toStopId: string;
+  seatCount?: number | undefined;
+  charter: boolean;
+  organizationName: string;
+  contactPhone: string;
+  notes?: string | undefined;
+}) {
+  const { userId, tripId, charter } = params;
+
+  return prisma.$transaction(
+    async (tx) => {
+      await lockTripForSeatChanges(tx, tripId);
+
+      const trip = await tx.trip.findUnique({
+        where: { id: tripId },
+        include: {
+          schedule: true,
+          routeVersion: {
+            include: { stops: { orderBy: { stopIndex: "asc" } } },
+          },
+        },
+      });
+
+      if (!trip) {
+        throw new GroupBookingError("Trip not found", 404);
+      }
+
+      if (!isTripOpenForBooking(trip)) {
+        throw new GroupBookingError("Trip is not available for booking");
+      }
+
+      const { stops } = trip.routeVersion;
+      const fromStop = stops.find((s) => s.id === params.fromStopId);
+      const toStop = stops.find((s) => s.id === params.toStopId);
+
+      if (!fromStop || !toStop) {
+        throw new GroupBookingError("Stops not found", 404);
+      }
+
+      if (fromStop.stopIndex === toStop.stopIndex) {
+        throw new GroupBookingError("From and to stops cannot be the same");
+      }
+
+      const isReturnTrip = fromStop.stopIndex > toStop.stopIndex;
+      if (!tripServesDirection(trip.schedule, isReturnTrip)) {
+        throw new GroupBookingError(
+          "This departure does not run in the selected direction"
+        );
+      }
+
+      const origin = stops[0] ?? fromStop;
+      const terminus = stops[stops.length - 1] ?? toStop;
+      const [segmentFrom, segmentTo] = !charter
+        ? [fromStop, toStop]
+        : isReturnTrip
+        ? [terminus, origin]
+        : [origin, terminus];
+
+      const existing = await tx.groupBookingRequest.findFirst({
+        where: { tripId, userId, status: { in: UNPAID_STATUSES } },
+      });
+
+      if (existing) {
+        throw new GroupBookingError(
+          "You already have an open group booking request for this trip",
+          409
+        );
+      }
+
+      const freeSeats = await findFreeSeats(
+        tx,
+        trip,
+        segmentFrom.stopIndex,
+        segmentTo.stopIndex
+      );
+
+      let seatCount = params.seatCount ?? 0;
+      if (charter) {
+        const busSeats = await tx.seat.count({
+          where: { busId: trip.busId, isActive: true },
+        });
+
+        if (freeSeats.length < busSeats) {
+          throw new GroupBookingError(
+            "Seats on this departure are already booked, so the bus can't be chartered"
+          );
+        }
+        seatCount = busSeats;
+      } else if (seatCount <= MAX_SEATS_PER_BOOKING) {
+        throw new GroupBookingError(
+          `Group bookings are for more than ${MAX_SEATS_PER_BOOKING} seats; book smaller groups directly`
+        );
+      } else if (freeSeats.length < seatCount) {
+        throw new GroupBookingError(
+          `Only ${freeSeats.length} seats are free on this segment`
+        );
+      }
+
+      return tx.groupBookingRequest.create({
+        data: {
+          userId,
+          tripId,
+          fromStopId: segmentFrom.id,
+          toStopId: segmentTo.id,
+          seatCount,
+          isCharter: charter,
+          organizationName: params.organizationName,
+          contactPhone: params.contactPhone,
+          notes: params.notes ?? null,
+        },
+        include: requestInclude,
+      });
+    },
+    {
+      maxWait: 10000,
+      timeout: 15000,
+    }
+  );
+}
+
+/**
+ * `count` free seats that keep the group together: the run of seats in layout
+ * order that stays on one deck and spans the fewest rows.
+ */
+function pickAdjacentSeats<
+  T extends { level: string; row: number; column: number }
+>(freeSeats: T[], count: number) {
+  let best: T[] = [];
+  let bestScore = Infinity;
+
+  for (let start = 0; start + count <= freeSeats.length; start++) {
+    const window = freeSeats.slice(start, start + count);
+    const first = window[0];
+    const last = window[window.length - 1];
+    if (!first || !last) {
+      continue;
+    }
+
+    const decks = new Set(window.map((seat) => seat.level)).size;
+    const score = (decks - 1) * 1000 + (last.row - first.row);
+    if (score < bestScore) {
+      best = window;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+const parseQuote = (
+  input: Record<string, unknown>,
+  tripDate: Date,
+  seatCount: number
+) => {
+  const { quotedPrice, depositAmount, balanceDueAt, seatIds, operatorNote } =
+    input;
+
+  if (
+    typeof quotedPrice !== "number" ||
+    !Number.isFinite(quotedPrice) ||
+    quotedPrice <= 0
+  ) {
+    throw new GroupBookingError("quotedPrice must be a positive number");
+  }
+
+  const deposit = depositAmount ?? quotedPrice;
+  if (
+    typeof deposit !== "number" ||
+    !Number.isFinite(deposit) ||
+    deposit <= 0 ||
+    deposit > quotedPrice
+  ) {
+    throw new GroupBookingError(
+      "depositAmount must be a positive number no larger than quotedPrice"
+    );
+  }
+
+  let balanceDue: Date | null = null;
+  if (deposit < quotedPrice) {
+    balanceDue =
+      typeof balanceDueAt === "string" ? new Date(balanceDueAt) : null;
+
+    if (!balanceDue || Number.isNaN(balanceDue.getTime())) {
+      throw new GroupBookingError(
+        "balanceDueAt is required when a deposit is taken"
+      );
+    }
+
+    if (balanceDue <= new Date() || balanceDue >= tripDate) {
+      throw new GroupBookingError(
+        "balanceDueAt must be in the future and before the day of travel"
+      );
+    }
+  }
+
+  if (
+    seatIds !== undefined &&
+    (!Array.isArray(seatIds) ||
+      !seatIds.every((id) => typeof id === "string") ||
+      new Set(seatIds).size !== seatCount)
+  ) {
+    throw new GroupBookingError(
+      `seatIds must list ${seatCount} different seats`
+    );
+  }
+
+  if (operatorNote !== undefined && typeof operatorNote !== "string") {
+    throw new GroupBookingError("operatorNote must be a string");
+  }
+
+  return {
+    quotedPrice: roundToTwo(quotedPrice),
+    depositAmount: roundToTwo(deposit),
+    balanceDueAt: balanceDue,
+    seatIds: seatIds as string[] | undefined,
+    operatorNote: operatorNote?.trim() || null,
+  };
+};
+
+/**
+ * Find a request on one of the operator's buses.
+ */
+async function findOperatorRequest(
+  client: PrismaClientOrTransaction,
+  adminId: string,
+  requestId: string
+) {
+  const request = await client.groupBookingRequest.findUnique({
+    where: { id: requestId },
+    include: requestInclude,
+  });
+
+  if (!request) {
+    throw new GroupBookingError("Group booking request not found", 404);
+  }
+
+  if (request.trip.bus.adminId !== adminId) {
+    throw new GroupBookingError(
+      "Not authorized to manage this group booking",
+      403
+    );
+  }
+
+  return request;
+}
+
+/**
+ * Offer a negotiated price for a request and hold its seats until the quote
+ * expires. The operator may pick the seats; otherwise free seats that sit
+ * together are chosen. Quoting again replaces the previous quote and seats.
+ * `depositAmount` defaults to the full price; when it is lower the balance is
+ * due by `balanceDueAt`.
+ */
+export async function quoteGroupBooking(
+  adminId: string,
+  requestId: string,
+  input: Record<string, unknown>
+) {
+  const quoted = await prisma.$transaction(
+    async (tx) => {
+      const existing = await findOperatorRequest(tx, adminId, requestId);
+      await lockTripForSeatChanges(tx, existing.tripId);
+
+      if (!UNPAID_STATUSES.includes(existing.status)) {
+        throw new GroupBookingError(
+          `Group booking is already ${existing.status.toLowerCase()}`
+        );
+      }
+
+      const trip = await tx.trip.findUnique({
+        where: { id: existing.tripId },
+      });
+
+      if (!trip || !isTripOpenForBooking(trip)) {
+        throw new GroupBookingError("Trip is not available for booking");
+      }
+
+      const quote = parseQuote(input, trip.tripDate, existing.seatCount);
+      const now = new Date();
+
+      await tx.seatHold.updateMany({
+        where: { groupBookingRequestId: requestId, releasedAt: null },
+        data: { releasedAt: now, releaseReason: "SUPERSEDED" },
+      });
+
+      const fromStopIndex = existing.fromStop.stopIndex;
+      const toStopIndex = existing.toStop.stopIndex;
+      const freeSeats = await findFreeSeats(
+        tx,
+        trip,
+        fromStopIndex,
+        toStopIndex
+      );
+
+      let seats: typeof freeSeats;
+      if (existing.isCharter) {
+        // Seats the operator added since the request still go with the bus
+        if (freeSeats.length < existing.seatCount) {
+          throw new GroupBookingError(
+            "Seats on this departure have been booked since the charter was requested",
+            409
+          );
+        }
+        seats = freeSeats;
+      } else if (quote.seatIds) {
+        const requested = new Set(quote.seatIds);
+        seats = freeSeats.filter((seat) => requested.has(seat.id));
+
+        if (seats.length !== requested.size) {
+          throw new GroupBookingError(
+            "Some of the selected seats are not free on this segment",
+            409
+          );
+        }
+      } else {
+        // Group bookings carry no passenger details, so ladies-only seats
+        // are only given when the operator picks them
+        const openSeats = freeSeats.filter((seat) => !seat.isLadiesOnly);
+        seats = pickAdjacentSeats(openSeats, existing.seatCount);
+
+        if (seats.length < existing.seatCount) {
+          throw new GroupBookingError(
+            openSeats.length < freeSeats.length
+              ? `Only ${openSeats.length} seats outside the ladies-only seats are free on this segment; pick the seats for this quote`
+              : `Only ${freeSeats.length} seats are free on this segment`,
+            409
+          );
+        }
+      }
+
+      const quoteExpiresAt = new Date(
+        now.getTime() +
+          getBookingConfig().groupBooking.quoteTtlHours * 60 * 60 * 1000
+      );
+
+      await tx.seatHold.createMany({
+        data: seats.map((seat) => ({
+          tripId: trip.id,
+          seatId: seat.id,
+          userId: existing.userId,
+          groupBookingRequestId: requestId,
+          fromStopIndex,
+          toStopIndex,
+          expiresAt: quoteExpiresAt,
+        })),
+      });
+
+      return tx.groupBookingRequest.update({
+        where: { id: requestId },
+        data: {
+          status: GroupBookingStatus.QUOTED,
+          seatCount: seats.length,
+          quotedPrice: quote.quotedPrice,
+          depositAmount: quote.depositAmount,
+          balanceDueAt: quote.balanceDueAt,
+          quoteExpiresAt,
+          operatorNote: quote.operatorNote,
+        },
+        include: requestInclude,
+      });
+    },
+    {
+      maxWait: 10000,
+      timeout: 15000,
+    }
+  );
+
+  const seatNumbers = quoted.seatHolds.map((hold) => hold.seat.seatNumber);
+  await sendUpdate(
+    quoted,
+    "Group Booking Quoted",
+    `${quoted.trip.bus.name} has quoted NPR ${quoted.quotedPrice} for ${
+      quoted.seatCount
+    } seats (${seatNumbers.join(", ")}) on ${formatDate(
+      quoted.trip.tripDate
+    )}. Pay NPR ${
+      quoted.depositAmount
+    } before ${quoted.quoteExpiresAt?.toLocaleString("en-IN")} to confirm.`
+  );
+
+  return quoted;
+}
+
+/**
+ * End an unpaid request: the operator rejects it or the user withdraws it.
+ * Seats held for its quote go to waitlisted passengers.
+ */
+async function closeUnpaidRequest(
+  request: GroupBookingWithDetails,
+  status: "REJECTED" | "CANCELLED",
+  operatorNote?: string | undefined
+) {
+  if (!UNPAID_STATUSES.includes(request.status)) {
+    throw new GroupBookingError(
+      PAID_STATUSES.includes(request.status)
+        ? "This group booking has been paid for; cancel it instead"
+        : `Group booking is already ${request.status.toLowerCase()}`
+    );
+  }
+
+  const closed = await prisma.$transaction(async (tx) => {
+    await tx.seatHold.updateMany({
+      where: { groupBookingRequestId: request.id, releasedAt: null },
+      data: { releasedAt: new Date(), releaseReason: "GROUP_REQUEST_CLOSED" },
+    });
+
+    return tx.groupBookingRequest.update({
+      where: { id: request.id },
+      data: {
+        status,
+        ...(operatorNote !== undefined ? { operatorNote } : {}),
+      },
+      include: requestInclude,
+    });
+  });
+
+  await promoteWaitlists([request.tripId]);
+
+  return closed;
+}
+
+export async function rejectGroupBooking(
+  adminId: string,
+  requestId: string,
+  reason?: string | undefined
+) {
+  const request = await findOperatorRequest(prisma, adminId, requestId);
+  const rejected = await closeUnpaidRequest(request, "REJECTED", reason);
+
+  await sendUpdate(
+    rejected,
+    "Group Booking Declined",
+    `${rejected.trip.bus.name} can't take your group of ${
+      rejected.seatCount
+    } on ${formatDate(rejected.trip.tripDate)}.${reason ? ` ${reason}` : ""}`
+  );
+
+  return rejected;
+}
+
+/**
+ * The user withdraws a request before paying for it.
+ */
+export async function withdrawGroupBooking(userId: string, requestId: string) {
+  const request = await prisma.groupBookingRequest.findUnique({
+    where: { id: requestId },
+    include: requestInclude,
+  });
+
+  if (!request || request.userId !== userId) {
+    throw new GroupBookingError("Group booking request not found", 404);
+  }
+
+  if (PAID_STATUSES.includes(request.status)) {
+    throw new GroupBookingError(
+      "Paid group bookings are cancelled by the operator; please contact them"
+    );
+  }
+
+  return closeUnpaidRequest(request, "CANCELLED");
+}
+
+/**
+ * Refund every successful payment of a group booking in full. Failures are
+ * recorded on the refund (or returned) and never stop the other refunds.
+ */
+export async function refundGroupBookingPayments(
+  requestId: string,
+  reason: string
+) {
+  const payments = await prisma.payment.findMany({
+    where: { groupBookingRequestId: requestId, status: PaymentStatus.SUCCESS },
+    select: { id: true },
+  });
+
+  const refunds: Array<ReturnType<typeof serializeRefund>> = [];
+  const errors: string[] = [];
+
+  for (const payment of payments) {
+    try {
+      const refund = await issueRefund({ paymentId: payment.id, reason });
+      if (refund) {
+        refunds.push(serializeRefund(refund));
+        if (refund.failureReason) {
+          errors.push(refund.failureReason);
+        }
+      }
+    } catch (error: any) {
+      console.error(
+        `Error refunding group booking payment ${payment.id}:`,
+        error
+      );
+      errors.push(error?.message || "Refund failed");
+    }
+  }
+
+  return { refunds, errors };
+}
+
+/**
+ * The operator cancels a paid group booking: its seats are released and
+ * everything paid towards it is refunded.
+ */
+export async function cancelGroupBooking(
+  adminId: string,
+  requestId: string,
+  reason?: string | undefined
+) {
+  const request = await findOperatorRequest(prisma, adminId, requestId);
+
+  if (!PAID_STATUSES.includes(request.status)) {
+    throw new GroupBookingError(
+      UNPAID_STATUSES.includes(request.status)
+        ? "This group booking hasn't been paid for; reject it instead"
+        : `Group booking is already ${request.status.toLowerCase()}`
+    );
+  }
+
+  const cancelled = await prisma.$transaction(async (tx) => {
+    if (request.bookingGroupId) {
+      const seatShare = roundToTwo(
+        request.amountPaid / Math.max(request.seatCount, 1)
+      );
+
+      await tx.booking.updateMany({
+        where: { groupId: request.bookingGroupId, status: "CONFIRMED" },
+        data: {
+          status: "CANCELLED",
+          cancelledAt: new Date(),
+          refundAmount: seatShare,
+        },
+      });
+      await tx.bookingGroup.update({
+        where: { id: request.bookingGroupId },
+        data: { status: "CANCELLED" },
+      });
+    }
+
+    return tx.groupBookingRequest.update({
+      where: { id: requestId },
+      data: {
+        status: GroupBookingStatus.CANCELLED,
+        ...(reason !== undefined ? { operatorNote: reason } : {}),
+      },
+      include: requestInclude,
+    });
+  });
+
+  const { refunds, errors } = await refundGroupBookingPayments(
+    requestId,
+    reason ?? "Group booking cancelled by operator"
+  );
+
+  await promoteWaitlists([request.tripId]);
+  await sendUpdate(
+    cancelled,
+    "Group Booking Cancelled",
+    `${
+      cancelled.trip.bus.name
+    } has cancelled your group booking on ${formatDate(
+      cancelled.trip.tripDate
+    )}. NPR ${cancelled.amountPaid} will be refunded.${
+      reason ? ` ${reason}` : ""
+    }`
+  );
+
+  return { request: cancelled, refunds, refundErrors: errors };
+}
+
+/**
+ * Close every open or paid request of a cancelled trip. Their holds are
+ * released and their bookings cancelled together with the trip's others.
+ */
+export async function cancelTripGroupBookings(
+  client: PrismaClientOrTransaction,
+  tripId: string
+) {
+  const result = await client.groupBookingRequest.updateMany({
+    where: {
+      tripId,
+      status: { in: [...UNPAID_STATUSES, ...PAID_STATUSES] },
+    },
+    data: { status: GroupBookingStatus.CANCELLED },
+  });
+
+  return result.count;
+}
+
+/**
+ * What the user pays next on a request: the deposit while the quote is open,
+ * then the balance.
+ */
+export async function getGroupBookingPaymentDue(
+  userId: string,
+  requestId: string
+) {
+  const request = await prisma.groupBookingRequest.findUnique({
+    where: { id: requestId },
+    include: requestInclude,
+  });
+
+  if (!request || request.userId !== userId) {
+    throw new GroupBookingError("Group booking request not found", 404);
+  }
+
+  if (
+    request.status === GroupBookingStatus.QUOTED &&
+    request.depositAmount !== null
+  ) {
+    if (request.quoteExpiresAt && request.quoteExpiresAt <= new Date()) {
+      throw new GroupBookingError(
+        "This quote has expired; please ask the operator for a new one"
+      );
+    }
+
+    return {
+      request,
+      stage: "DEPOSIT" as GroupBookingPaymentStage,
+      amount: request.depositAmount,
+    };
+  }
+
+  if (
+    request.status === GroupBookingStatus.DEPOSIT_PAID &&
+    request.quotedPrice !== null
+  ) {
+    return {
+      request,
+      stage: "BALANCE" as GroupBookingPaymentStage,
+      amount: roundToTwo(request.quotedPrice - request.amountPaid),
+    };
+  }
+
+  throw new GroupBookingError(
+    request.status === GroupBookingStatus.REQUESTED
+      ? "The operator hasn't quoted this group booking yet"
+      : `Group booking is ${request.status.toLowerCase()} and has nothing to pay`
+  );
+}
+
+/**
+ * Apply a successful group booking payment. The deposit books the quoted
+ * seats on the trip; the balance completes the price. Safe to call more than
+ * once for the same payment. Throws BookingConfirmationError when the
+ * payment can't be applied, so the caller refunds it.
+ */
+export async function confirmGroupBookingPayment(paymentId: string) {
+  return prisma.$transaction(
+    async (tx) => {
+      await tx.$queryRaw`SELECT id FROM "Payment" WHERE id = ${paymentId} FOR UPDATE`;
+
+      const payment = await tx.payment.findUnique({
+        where: { id: paymentId },
+      });
+
+      if (!payment || !payment.groupBookingRequestId) {
+        throw new BookingConfirmationError("Payment not found", 404);
+      }
+
+      const metadata = payment.metadata as any;
+      const stage: GroupBookingPaymentStage | undefined =
+        metadata?.groupBooking?.stage;
+
+      if (metadata?.groupBooking?.appliedAt) {
+        const request = await tx.groupBookingRequest.findUniqueOrThrow({
+          where: { id: payment.groupBookingRequestId },
+          include: requestInclude,
+        });
+        return { alreadyConfirmed: true as const, request, stage };
+      }
+
+      if (payment.status !== PaymentStatus.SUCCESS) {
+        throw new BookingConfirmationError(
+          "Payment has not been verified successfully"
+        );
+      }
+
+      const request = await tx.groupBookingRequest.findUnique({
+        where: { id: payment.groupBookingRequestId },
+        include: {
+          trip: true,
+          fromStop: true,
+          toStop: true,
+          seatHolds: { where: { releasedAt: null } },
+        },
+      });
+
+      if (!request || request.quotedPrice === null) {
+        throw new BookingConfirmationError("Group booking request not found");
+      }
+
+      await lockTripForSeatChanges(tx, request.tripId);
+
+      let bookingGroupId = request.bookingGroupId;
+
+      if (stage === "DEPOSIT") {
+        // The seat holds lapse with the quote, so a deposit that settles
+        // afterwards can't be applied and is refunded instead
+        const quoteOpen =
+          request.status === GroupBookingStatus.QUOTED &&
+          (request.quoteExpiresAt === null ||
+            request.quoteExpiresAt > new Date());
+
+        if (!quoteOpen) {
+          throw new BookingConfirmationError(
+            request.status === GroupBookingStatus.QUOTED ||
+            request.status === GroupBookingStatus.EXPIRED
+              ? "The quote expired before the deposit was confirmed"
+              : `Group booking is ${request.status.toLowerCase()} and can no longer be paid for`
+          );
+        }
+
+        if (!isTripOpenForBooking(request.trip)) {
+          throw new BookingConfirmationError(
+            "Trip is no longer available for booking"
+          );
+        }
+
+        const seatIds = request.seatHolds.map((hold) => hold.seatId);
+        if (seatIds.length !== request.seatCount) {
+          throw new BookingConfirmationError(
+            "The seats quoted for this group booking are no longer held"
+          );
+        }
+
+        const fromStopIndex = request.fromStop.stopIndex;
+        const toStopIndex = request.toStop.stopIndex;
+        const [bookings, holds] = await Promise.all([
+          tx.booking.findMany({
+            where: {
+              tripId: request.tripId,
+              seatId: { in: seatIds },
+              status: "CONFIRMED",
+            },
+            select: {
+              seatId: true,
+              group: {
+                select: {
+                  fromStop: { select: { stopIndex: true } },
+                  toStop: { select: { stopIndex: true } },
+                },
+              },
+            },
+          }),
+          findActiveSeatHolds(tx, request.tripId, seatIds),
+        ]);
+
+        const taken = getHeldSeatIds(holds, fromStopIndex, toStopIndex, {
+          excludeUserId: request.userId,
+        });
+        bookings.forEach((booking) => {
+          if (
+            isSegmentOverlapping(
+              fromStopIndex,
+              toStopIndex,
+              booking.group.fromStop.stopIndex,
+              booking.group.toStop.stopIndex
+            )
+          ) {
+            taken.add(booking.seatId);
+          }
+        });
+
+        if (taken.size > 0) {
+          throw new BookingConfirmationError(
+            "Some of the quoted seats have been booked since the quote was made"
+          );
+        }
+
+        const seatFare = roundToTwo(request.quotedPrice / seatIds.length);
+        const bookingGroup = await tx.bookingGroup.create({
+          data: {
+            userId: request.userId,
+            tripId: request.tripId,
+            fromStopId: request.fromStopId,
+            toStopId: request.toStopId,
+            totalPrice: request.quotedPrice,
+            finalPrice: request.quotedPrice,
+            status: "CONFIRMED",
+            bookings: {
+              create: seatIds.map((seatId) => ({
+                tripId: request.tripId,
+                seatId,
+                baseFare: seatFare,
+                fare: seatFare,
+              })),
+            },
+          },
+        });
+        bookingGroupId = bookingGroup.id;
+
+        await tx.seatHold.updateMany({
+          where: { groupBookingRequestId: request.id, releasedAt: null },
+          data: { releasedAt: new Date(), releaseReason: "CONFIRMED" },
+        });
+      } else if (
+        stage !== "BALANCE" ||
+        request.status !== GroupBookingStatus.DEPOSIT_PAID
+      ) {
+        throw new BookingConfirmationError(
+          `Group booking is ${request.status.toLowerCase()} and has no balance due`
+        );
+      }
+
+      const amountPaid = roundToTwo(request.amountPaid + payment.baseAmount);
+      const updated = await tx.groupBookingRequest.update({
+        where: { id: request.id },
+        data: {
+          amountPaid,
+          bookingGroupId,
+          status:
+            amountPaid >= request.quotedPrice - 0.01
+              ? GroupBookingStatus.CONFIRMED
+              : GroupBookingStatus.DEPOSIT_PAID,
+        },
+        include: requestInclude,
+      });
+
+      await tx.payment.update({
+        where: { id: paymentId },
+        data: {
+          // The deposit owns the booking group, as a regular booking's
+          // payment does
+          ...(stage === "DEPOSIT" ? { bookingGroupId } : {}),
+          metadata: {
+            ...metadata,
+            groupBooking: {
+              ...metadata.groupBooking,
+              appliedAt: new Date().toISOString(),
+            },
+          },
+        },
+      });
+
+      return { alreadyConfirmed: false as const, request: updated, stage };
+    },
+    {
+      maxWait: 15000,
+      timeout: 30000,
+    }
+  );
+}
+
+export type ConfirmedGroupBookingPayment = Extract<
+  Awaited<ReturnType<typeof confirmGroupBookingPayment>>,
+  { alreadyConfirmed: false }
+>;
+
+/**
+ * Tell the user their group booking payment went through.
+ */
+export async function sendGroupBookingPaymentConfirmation(
+  result: ConfirmedGroupBookingPayment
+) {
+  const { request } = result;
+  const seatNumbers =
+    request.bookingGroup?.bookings.map((b) => b.seat.seatNumber) ?? [];
+  const balance = roundToTwo((request.quotedPrice ?? 0) - request.amountPaid);
+
+  await sendUpdate(
+    request,
+    request.status === GroupBookingStatus.CONFIRMED
+      ? "Group Booking Confirmed"
+      : "Group Booking Deposit Received",
+    `Seats ${seatNumbers.join(", ")} on ${
+      request.trip.bus.name
+    } on ${formatDate(request.trip.tripDate)} are booked for ${
+      request.organizationName
+    }.${
+      balance > 0
+        ? ` The balance of NPR ${balance} is due by ${request.balanceDueAt?.toLocaleString(
+            "en-IN"
+          )}.`
+        : " The booking is paid in full."
+    }`
+  );
+}
+
+async function sendUpdate(
+  request: GroupBookingWithDetails,
+  title: string,
+  message: string
+) {
+  try {
+    await notifyGroupBookingUpdate(request.userId, {
+      groupBookingRequestId: request.id,
+      status: request.status,
+      title,
+      message,
+    });
+  } catch (error) {
+    console.error(
+      `Error notifying user about group booking ${request.id}:`,
+      error
+    );
+  }
+}
+
+/**
+ * Quotes whose time ran out without a deposit. Their seat holds expire on
+ * their own at the same time.
+ */
+export async function expireGroupBookingQuotes() {
+  const result = await prisma.groupBookingRequest.updateMany({
+    where: {
+      status: GroupBookingStatus.QUOTED,
+      quoteExpiresAt: { lte: new Date() },
+    },
+    data: { status: GroupBookingStatus.EXPIRED },
+  });
+
+  return result.count;
+}
+
+export async function getUserGroupBookings(userId: string) {
+  const requests = await prisma.groupBookingRequest.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+    include: requestInclude,
+  });
+
+  return requests.map(serializeGroupBooking);
+}
+
+/**
+ * Requests on the operator's buses, newest first, optionally by status.
+ */
+export async function getOperatorGroupBookings(
+  adminId: string,
+  status?: unknown
+) {
+  if (
+    status !== undefined &&
+    !Object.values(GroupBookingStatus).includes(status as GroupBookingStatus)
+  ) {
+    throw new GroupBookingError(
+      `status must be one of ${Object.values(GroupBookingStatus).join(", ")}`
+    );
+  }
+
+  const requests = await prisma.groupBookingRequest.findMany({
+    where: {
+      trip: { bus: { adminId } },
+      ...(status ? { status: status as GroupBookingStatus } : {}),
+    },
+    orderBy: { createdAt: "desc" },
+    include: {
+      ...requestInclude,
+      user: { select: { id: true, name: true, email: true, phone: true } },
+    },
+  });
+
+  return requests.map((request) => ({
+    ...serializeGroupBooking(request),
+    user: request.user,
+  }));
+}
+
+export const serializeGroupBooking = (request: GroupBookingWithDetails) => {
+  const balanceDue =
+    request.quotedPrice === null
+      ? null
+      : roundToTwo(Math.max(request.quotedPrice - request.amountPaid, 0));
+
+  return {
+    id: request.id,
+    status: request.status,
+    isCharter: request.isCharter,
+    seatCount: request.seatCount,
+    organizationName: request.organizationName,
+    contactPhone: request.contactPhone,
+    notes: request.notes,
+    trip: {
+      tripId: request.trip.id,
+      tripDate: formatDate(request.trip.tripDate),
+      tripStatus: request.trip.status,
+    },
+    bus: {
+      id: request.trip.bus.id,
+      name: request.trip.bus.name,
+      busNumber: request.trip.bus.busNumber,
+      type: request.trip.bus.type,
+    },
+    route: {
+      from: {
+        id: request.fromStop.id,
+        name: request.fromStop.name,
+        city: request.fromStop.city,
+      },
+      to: {
+        id: request.toStop.id,
+        name: request.toStop.name,
+        city: request.toStop.city,
+      },
+    },
+    quote:
+      request.quotedPrice === null
+        ? null
+        : {
+            quotedPrice: request.quotedPrice,
+            depositAmount: request.depositAmount,
+            quoteExpiresAt: request.quoteExpiresAt,
+            balanceDueAt: request.balanceDueAt,
+            operatorNote: request.operatorNote,
+          },
+    amountPaid: request.amountPaid,
+    balanceDue,
+    balanceOverdue:
+      request.status === GroupBookingStatus.DEPOSIT_PAID &&
+      request.balanceDueAt !== null &&
+      request.balanceDueAt < new Date(),
+    // Seats held for an open quote, then the seats booked
+    seats: request.bookingGroup
+      ? request.bookingGroup.bookings.map((booking) => booking.seat)
+      : request.seatHolds
+          .filter((hold) => hold.expiresAt > new Date())
+          .map((hold) => hold.seat),
+    bookingGroupId: request.bookingGroupId,
+    createdAt: request.createdAt,
+    updatedAt: request.updatedAt,
+  };
+};
@@ -0,0 +1,448 @@
+import { PricingAdjustmentType } from "@prisma/client";
+import type { Prisma, PricingRule, PrismaClient } from "@prisma/client";
+import { prisma } from "../../lib/prisma.js";
+import { ServiceError } from "../../lib/serviceError.js";
+import { getDepartureDateTime } from "./cancellationService.js";
+
+type PrismaClientOrTransaction = PrismaClient | Prisma.TransactionClient;
+
+export class PricingRuleError extends ServiceError {}
+
+/**
+ * What rules are matched against for a journey: the travel date, how full
+ * the bus is on the segment and how long before departure it is booked.
+ */
+export interface PricingConditions {
+  dateKey: string;
+  dayOfWeek: number;
+  occupancyPercent: number;
+  // Null when the boarding stop has no departure time
+  leadHours: number | null;
+}
+
+export interface PricedFare {
+  baseFare: number;
+  fare: number;
+  pricingRuleId: string | null;
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// Changing these would rewrite the fares recorded against a rule
+const PRICING_FIELDS = [
+  "busId",
+  "daysOfWeek",
+  "startDate",
+  "endDate",
+  "minOccupancyPercent",
+  "minLeadHours",
+  "maxLeadHours",
+  "adjustmentType",
+  "adjustmentValue",
+] as const;
+
+const roundToTwo = (value: number) =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+const toDateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+export function getPricingConditions(params: {
+  tripDate: Date;
+  fromStop: {
+    departureTime: string | null;
+    returnDepartureTime: string | null;
+  };
+  isReturnTrip: boolean;
+  occupiedSeats: number;
+  totalSeats: number;
+  now?: Date;
+}): PricingConditions {
+  const now = params.now ?? new Date();
+  const departure = getDepartureDateTime(
+    params.tripDate,
+    params.fromStop,
+    params.isReturnTrip
+  );
+
+  return {
+    dateKey: toDateKey(params.tripDate),
+    dayOfWeek: params.tripDate.getUTCDay(),
+    occupancyPercent:
+      params.totalSeats > 0
+        ? (params.occupiedSeats / params.totalSeats) * 100
+        : 0,
+    leadHours: departure
+      ? (departure.getTime() - now.getTime()) / (60 * 60 * 1000)
+      : null,
+  };
+}
+
+const ruleMatches = (rule: PricingRule, conditions: PricingConditions) =>
+  (rule.daysOfWeek.length === 0 ||
+    rule.daysOfWeek.includes(conditions.dayOfWeek)) &&
+  (!rule.startDate || conditions.dateKey >= toDateKey(rule.startDate)) &&
+  (!rule.endDate || conditions.dateKey <= toDateKey(rule.endDate)) &&
+  (rule.minOccupancyPercent === null ||
+    conditions.occupancyPercent >= rule.minOccupancyPercent) &&
+  (rule.minLeadHours === null ||
+    (conditions.leadHours !== null &&
+      conditions.leadHours >= rule.minLeadHours)) &&
+  (rule.maxLeadHours === null ||
+    (conditions.leadHours !== null &&
+      conditions.leadHours <= rule.maxLeadHours));
+
+export function applyPricingRule(
+  baseFare: number,
+  rule: Pick<PricingRule, "adjustmentType" | "adjustmentValue">
+) {
+  const adjusted =
+    rule.adjustmentType === PricingAdjustmentType.PERCENTAGE
+      ? baseFare * (1 + rule.adjustmentValue / 100)
+      : baseFare + rule.adjustmentValue;
+
+  return Math.max(0, roundToTwo(adjusted));
+}
+
+/**
+ * The rule that applies to a journey, from `rules` as returned by
+ * loadPricingRules, and a function pricing base fares with it.
+ */
+export function createFarePricer(
+  rules: PricingRule[],
+  conditions: PricingConditions
+) {
+  const rule = rules.find((r) => ruleMatches(r, conditions)) ?? null;
+
+  return {
+    rule,
+    price: (baseFare: number): PricedFare => ({
+      baseFare,
+      fare: rule ? applyPricingRule(baseFare, rule) : baseFare,
+      pricingRuleId: rule?.id ?? null,
+    }),
+  };
+}
+
+/**
+ * Active pricing rules for a set of buses, in the order they are tried
+ * (priority, then newest first). Returns a lookup by bus.
+ */
+export async function loadPricingRules(
+  client: PrismaClientOrTransaction,
+  buses: Array<{ id: string; adminId: string }>
+) {
+  const rules =
+    buses.length > 0
+      ? await client.pricingRule.findMany({
+          where: {
+            isActive: true,
+            adminId: { in: [...new Set(buses.map((bus) => bus.adminId))] },
+            OR: [
+              { busId: null },
+              { busId: { in: buses.map((bus) => bus.id) } },
+            ],
+          },
+          orderBy: [{ priority: "desc" }, { createdAt: "desc" }],
+        })
+      : [];
+
+  return (bus: { id: string; adminId: string }) =>
+    rules.filter(
+      (rule) =>
+        rule.adminId === bus.adminId &&
+        (rule.busId === null || rule.busId === bus.id)
+    );
+}
+
+const parseDate = (value: unknown, field: string) => {
+  if (value === null || value === "") {
+    return null;
+  }
+
+  const match = typeof value === "string" ? DATE_PATTERN.exec(value) : null;
+  if (!match) {
+    throw new PricingRuleError(`${field} must be a YYYY-MM-DD date`);
+  }
+
+  return new Date(
+    Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  );
+};
+
+const parseOptionalNumber = (
+  value: unknown,
+  field: string,
+  range: { min: number; max?: number }
+) => {
+  if (value === null) {
+    return null;
+  }
+
+  if (
+    typeof value !== "number" ||
+    !Number.isFinite(value) ||
+    value < range.min ||
+    (range.max !== undefined && value > range.max)
+  ) {
+    throw new PricingRuleError(
+      range.max === undefined
+        ? `${field} must be a number of at least ${range.min}`
+        : `${field} must be a number from ${range.min} to ${range.max}`
+    );
+  }
+
+  return value;
+};
+
+/**
+ * Validate a rule's fields over its current values (none when creating) and
+ * return the data to store.
+ */
+async function buildRuleData(
+  adminId: string,
+  input: Record<string, unknown>,
+  current: PricingRule | null
+) {
+  const has = (field: string) => input[field] !== undefined;
+
+  const name = has("name") ? input.name : current?.name;
+  if (typeof name !== "string" || !name.trim()) {
+    throw new PricingRuleError("name is required");
+  }
+
+  const busId = has("busId") ? input.busId : current?.busId ?? null;
+  if (busId !== null) {
+    const bus =
+      typeof busId === "string"
+        ? await prisma.bus.findUnique({
+            where: { id: busId },
+            select: { adminId: true },
+          })
+        : null;
+
+    if (!bus || bus.adminId !== adminId) {
+      throw new PricingRuleError(
+        "Pricing rules can only target buses owned by your service",
+        403
+      );
+    }
+  }
+
+  const daysOfWeek = has("daysOfWeek")
+    ? input.daysOfWeek
+    : current?.daysOfWeek ?? [];
+  if (
+    !Array.isArray(daysOfWeek) ||
+    daysOfWeek.some((d) => !Number.isInteger(d) || d < 0 || d > 6)
+  ) {
+    throw new PricingRuleError(
+      "daysOfWeek must list days from 0 (Sunday) to 6 (Saturday)"
+    );
+  }
+
+  const startDate = has("startDate")
+    ? parseDate(input.startDate, "startDate")
+    : current?.startDate ?? null;
+  const endDate = has("endDate")
+    ? parseDate(input.endDate, "endDate")
+    : current?.endDate ?? null;
+  if (startDate && endDate && startDate > endDate) {
+    throw new PricingRuleError("startDate must be on or before endDate");
+  }
+
+  const minOccupancyPercent = has("minOccupancyPercent")
+    ? parseOptionalNumber(input.minOccupancyPercent, "minOccupancyPercent", {
+        min: 0,
+        max: 100,
+      })
+    : current?.minOccupancyPercent ?? null;
+  const minLeadHours = has("minLeadHours")
+    ? parseOptionalNumber(input.minLeadHours, "minLeadHours", { min: 0 })
+    : current?.minLeadHours ?? null;
+  const maxLeadHours = has("maxLeadHours")
+    ? parseOptionalNumber(input.maxLeadHours, "maxLeadHours", { min: 0 })
+    : current?.maxLeadHours ?? null;
+  if (
+    minLeadHours !== null &&
+    maxLeadHours !== null &&
+    minLeadHours > maxLeadHours
+  ) {
+    throw new PricingRuleError("minLeadHours must not exceed maxLeadHours");
+  }
+
+  const adjustmentType = has("adjustmentType")
+    ? input.adjustmentType
+    : current?.adjustmentType;
+  if (
+    !Object.values(PricingAdjustmentType).includes(
+      adjustmentType as PricingAdjustmentType
+    )
+  ) {
+    throw new PricingRuleError(
+      "adjustmentType must be PERCENTAGE or FIXED_AMOUNT"
+    );
+  }
+
+  const adjustmentValue = has("adjustmentValue")
+    ? input.adjustmentValue
+    : current?.adjustmentValue;
+  if (
+    typeof adjustmentValue !== "number" ||
+    !Number.isFinite(adjustmentValue) ||
+    adjustmentValue === 0
+  ) {
+    throw new PricingRuleError(
+      "adjustmentValue must be a non-zero number (negative for discounts)"
+    );
+  }
+  if (
+    adjustmentType === PricingAdjustmentType.PERCENTAGE &&
+    adjustmentValue < -100
+  ) {
+    throw new PricingRuleError("A percentage discount cannot exceed 100");
+  }
+
+  const priority = has("priority") ? input.priority : current?.priority ?? 0;
+  if (!Number.isInteger(priority)) {
+    throw new PricingRuleError("priority must be a whole number");
+  }
+
+  const isActive = has("isActive") ? input.isActive : current?.isActive ?? true;
+  if (typeof isActive !== "boolean") {
+    throw new PricingRuleError("isActive must be a boolean");
+  }
+
+  return {
+    name: name.trim(),
+    busId: busId as string | null,
+    daysOfWeek: [...new Set(daysOfWeek as number[])].sort((a, b) => a - b),
+    startDate,
+    endDate,
+    minOccupancyPercent,
+    minLeadHours,
+    maxLeadHours,
+    adjustmentType: adjustmentType as PricingAdjustmentType,
+    adjustmentValue,
+    priority: priority as number,
+    isActive,
+  };
+}
+
+async function findOwnedRule(adminId: string, ruleId: string) {
+  const rule = await prisma.pricingRule.findUnique({
+    where: { id: ruleId },
+    include: { _count: { select: { bookings: true } } },
+  });
+
+  if (!rule) {
+    throw new PricingRuleError("Pricing rule not found", 404);
+  }
+
+  if (rule.adminId !== adminId) {
+    throw new PricingRuleError("Not authorized", 403);
+  }
+
+  return rule;
+}
+
+export async function listPricingRules(adminId: string, busId?: string) {
+  return prisma.pricingRule.findMany({
+    where: {
+      adminId,
+      ...(busId ? { OR: [{ busId }, { busId: null }] } : {}),
+    },
+    include: {
+      bus: { select: { busNumber: true, name: true } },
+      _count: { select: { bookings: true } },
+    },
+    orderBy: [{ priority: "desc" }, { createdAt: "desc" }],
+  });
+}
+
+export async function createPricingRule(
+  adminId: string,
+  input: Record<string, unknown>
+) {
+  const data = await buildRuleData(adminId, input, null);
+  return prisma.pricingRule.create({ data: { ...data, adminId } });
+}
+
+/**
+ * Update a rule. Once a rule has priced bookings, only its name, priority
+ * and whether it is active can change, so recorded fares stay explainable;
+ * create a new rule for different pricing.
+ */
+export async function updatePricingRule(
+  adminId: string,
+  ruleId: string,
+  input: Record<string, unknown>
+) {
+  const rule = await findOwnedRule(adminId, ruleId);
+
+  if (
+    rule._count.bookings > 0 &&
+    PRICING_FIELDS.some((field) => input[field] !== undefined)
+  ) {
+    throw new PricingRuleError(
+      "This rule has priced bookings; only its name, priority and isActive can be changed. Create a new rule instead."
+    );
+  }
+
+  const data = await buildRuleData(adminId, input, rule);
+  return prisma.pricingRule.update({ where: { id: rule.id }, data });
+}
+
+/**
+ * Delete a rule. Rules that have priced bookings are deactivated instead so
+ * the bookings keep their audit trail.
+ */
+export async function deletePricingRule(adminId: string, ruleId: string) {
+  const rule = await findOwnedRule(adminId, ruleId);
+
+  if (rule._count.bookings > 0) {
+    const updated = await prisma.pricingRule.update({
+      where: { id: rule.id },
+      data: { isActive: false },
+    });
+    return { deleted: false, rule: updated };
+  }
+
+  await prisma.pricingRule.delete({ where: { id: rule.id } });
+  return { deleted: true, rule: null };
+}
+
+export const serializePricingRule = (
+  rule: PricingRule & {
+    bus?: { busNumber: string; name: string } | null;
+    _count?: { bookings: number };
+  }
+) => ({
+  id: rule.id,
+  name: rule.name,
+  busId: rule.busId,
+  bus: rule.bus ?? null,
+  daysOfWeek: rule.daysOfWeek,
+  startDate: rule.startDate ? toDateKey(rule.startDate) : null,
+  endDate: rule.endDate ? toDateKey(rule.endDate) : null,
+  minOccupancyPercent: rule.minOccupancyPercent,
+  minLeadHours: rule.minLeadHours,
+  maxLeadHours: rule.maxLeadHours,
+  adjustmentType: rule.adjustmentType,
+  adjustmentValue: rule.adjustmentValue,
+  priority: rule.priority,
+  isActive: rule.isActive,
+  ...(rule._count ? { bookingCount: rule._count.bookings } : {}),
+  createdAt: rule.createdAt,
+  updatedAt: rule.updatedAt,
+});
+
+// What search results and booking summaries show about the applied rule
+export const summarizePricingRule = (rule: PricingRule | null) =>
+  rule
+    ? {
+        id: rule.id,
+        name: rule.name,
+        adjustmentType: rule.adjustmentType,
+        adjustmentValue: rule.adjustmentValue,
+      }
+    : null;
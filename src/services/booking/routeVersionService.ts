@@ -0,0 +1,490 @@
+import type {
+  Prisma,
+  PrismaClient,
+  RouteVersion,
+  Stop,
+  StopPoint,
+} from "@prisma/client";
+import { prisma } from "../../lib/prisma.js";
+import { ServiceError } from "../../lib/serviceError.js";
+import { invalidatePlacesIndex } from "../search/placeIndexService.js";
+import {
+  activeSeatHoldWhere,
+  lockTripForSeatChanges,
+} from "./seatHoldService.js";
+import { OPEN_GROUP_BOOKING_STATUSES } from "./groupBookingService.js";
+import { ACTIVE_WAITLIST_STATUSES } from "./waitlistService.js";
+
+type PrismaClientOrTransaction = PrismaClient | Prisma.TransactionClient;
+
+type StopWithPoints = Stop & { boardingPoints: StopPoint[] };
+
+export class RouteVersionError extends ServiceError {}
+
+/**
+ * Stop filter for the newest route version of a bus, i.e. the route as the
+ * operator last defined it (it may only apply from a future date).
+ */
+export const latestRouteStopsWhere = {
+  routeVersion: { supersededAt: null },
+} as const;
+
+/**
+ * Route version that applies to a travel date: the newest version already
+ * effective on that date. Dates before the first version use the first one.
+ */
+export async function findRouteVersionForDate(
+  client: PrismaClientOrTransaction,
+  busId: string,
+  tripDate: Date
+) {
+  const effective = await client.routeVersion.findFirst({
+    where: { busId, effectiveFrom: { lte: tripDate } },
+    orderBy: { version: "desc" },
+  });
+
+  if (effective) {
+    return effective;
+  }
+
+  return client.routeVersion.findFirst({
+    where: { busId },
+    orderBy: { version: "asc" },
+  });
+}
+
+/**
+ * findRouteVersionForDate over versions already loaded, for a "YYYY-MM-DD"
+ * date key.
+ */
+export function pickRouteVersionForDate<
+  T extends { version: number; effectiveFrom: Date }
+>(versions: T[], dateKey: string) {
+  const inEffect = versions
+    .filter((v) => v.effectiveFrom.toISOString().slice(0, 10) <= dateKey)
+    .sort((a, b) => b.version - a.version);
+
+  return inEffect[0] ?? [...versions].sort((a, b) => a.version - b.version)[0];
+}
+
+const toNumber = (value: unknown) =>
+  typeof value === "number" ? value : Number(value) || 0;
+
+/**
+ * Parse a "YYYY-MM-DD" date into UTC midnight, the way trip dates are stored.
+ */
+export const parseEffectiveFrom = (value: unknown) => {
+  const today = new Date();
+  const todayUtc = new Date(
+    Date.UTC(today.getFullYear(), today.getMonth(), today.getDate())
+  );
+
+  if (value === undefined || value === null || value === "") {
+    return todayUtc;
+  }
+
+  const match =
+    typeof value === "string" ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+  if (!match) {
+    throw new RouteVersionError("effectiveFrom must be a YYYY-MM-DD date");
+  }
+
+  const effectiveFrom = new Date(
+    Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  );
+
+  if (effectiveFrom < todayUtc) {
+    throw new RouteVersionError("effectiveFrom cannot be in the past");
+  }
+
+  return effectiveFrom;
+};
+
+/**
+ * Create a new route version for a bus from a full list of stops. Trips on or
+ * after `effectiveFrom` move to the new version unless they already have
+ * bookings, seats on hold, waiting passengers or open group requests; those
+ * keep the route they were sold with. Fare matrix entries between stops that
+ * stay on the route are copied over.
+ */
+export async function createRouteVersion(params: {
+  busId: string;
+  adminId: string;
+  stops: any[];
+  effectiveFrom?: unknown;
+}) {
+  const { busId, adminId, stops } = params;
+  const effectiveFrom = parseEffectiveFrom(params.effectiveFrom);
+
+  const result = await prisma.$transaction(
+    async (tx) => {
+      const previous = await tx.routeVersion.findFirst({
+        where: { busId },
+        orderBy: { version: "desc" },
+        include: {
+          stops: {
+            orderBy: { stopIndex: "asc" },
+            include: { boardingPoints: { orderBy: { pointOrder: "asc" } } },
+          },
+        },
+      });
+
+      const routeVersion = await tx.routeVersion.create({
+        data: {
+          busId,
+          version: (previous?.version ?? 0) + 1,
+          effectiveFrom,
+          createdBy: adminId,
+        },
+      });
+
+      await tx.routeVersion.updateMany({
+        where: { busId, supersededAt: null, id: { not: routeVersion.id } },
+        data: { supersededAt: new Date() },
+      });
+
+      // Create new stops with proper indexing
+      const createdStops = await Promise.all(
+        stops.map((stop: any, index: number) =>
+          tx.stop.create({
+            data: {
+              busId,
+              routeVersionId: routeVersion.id,
+              name: stop.name,
+              city: stop.city,
+              state: stop.state || null,
+              stopIndex: index,
+              arrivalTime: index === 0 ? null : stop.arrivalTime,
+              departureTime:
+                index === stops.length - 1 ? null : stop.departureTime,
+              returnArrivalTime:
+                index === stops.length - 1
+                  ? null
+                  : stop.returnArrivalTime || null,
+              returnDepartureTime:
+                index === 0 ? null : stop.returnDepartureTime || null,
+              distanceFromOrigin: toNumber(stop.distanceFromOrigin),
+              priceFromOrigin: toNumber(stop.priceFromOrigin),
+              lowerSeaterPrice: toNumber(stop.lowerSeaterPrice),
+              lowerSleeperPrice: toNumber(stop.lowerSleeperPrice),
+              upperSleeperPrice: toNumber(stop.upperSleeperPrice),
+              upperSeaterPrice: toNumber(stop.upperSeaterPrice),
+              boardingPoints: {
+                create: (stop.boardingPoints || []).map(
+                  (point: any, pointIndex: number) => ({
+                    type: "BOARDING",
+                    name: point.name,
+                    time: point.time,
+                    landmark: point.landmark || null,
+                    address: point.address || null,
+                    pointOrder: pointIndex,
+                  })
+                ),
+              },
+            },
+            include: {
+              boardingPoints: {
+                orderBy: { pointOrder: "asc" },
+              },
+            },
+          })
+        )
+      );
+
+      // Fare matrix entries carry over between stops kept on the route
+      if (previous) {
+        const previousKeys = new Map(
+          previous.stops.map((stop) => [stop.id, stopKey(stop)])
+        );
+        const stopIdsByKey = new Map(
+          createdStops.map((stop) => [stopKey(stop), stop.id])
+        );
+        const carriedFares = (
+          await tx.segmentFare.findMany({
+            where: { routeVersionId: previous.id },
+          })
+        ).flatMap((entry) => {
+          const fromStopId = stopIdsByKey.get(
+            previousKeys.get(entry.fromStopId) ?? ""
+          );
+          const toStopId = stopIdsByKey.get(
+            previousKeys.get(entry.toStopId) ?? ""
+          );
+
+          return fromStopId && toStopId
+            ? [
+                {
+                  routeVersionId: routeVersion.id,
+                  fromStopId,
+                  toStopId,
+                  seatType: entry.seatType,
+                  seatLevel: entry.seatLevel,
+                  price: entry.price,
+                },
+              ]
+            : [];
+        });
+
+        if (carriedFares.length > 0) {
+          await tx.segmentFare.createMany({ data: carriedFares });
+        }
+      }
+
+      const candidateTrips = await tx.trip.findMany({
+        where: {
+          busId,
+          tripDate: { gte: effectiveFrom },
+          routeVersionId: { not: routeVersion.id },
+        },
+        select: { id: true },
+        orderBy: { tripDate: "asc" },
+      });
+      const candidateIds = candidateTrips.map((trip) => trip.id);
+
+      // Lock so no seat can be held or booked while trips are moved
+      for (const tripId of candidateIds) {
+        await lockTripForSeatChanges(tx, tripId);
+      }
+
+      const moved = await tx.trip.updateMany({
+        where: {
+          id: { in: candidateIds },
+          bookingGroups: { none: {} },
+          seatHolds: { none: activeSeatHoldWhere() },
+          // Waitlist entries and group requests keep the stops of the
+          // version they were made on
+          waitlist: { none: { status: { in: ACTIVE_WAITLIST_STATUSES } } },
+          groupBookings: {
+            none: { status: { in: OPEN_GROUP_BOOKING_STATUSES } },
+          },
+        },
+        data: { routeVersionId: routeVersion.id },
+      });
+
+      const pinnedTrips = await tx.trip.findMany({
+        where: {
+          id: { in: candidateIds },
+          routeVersionId: { not: routeVersion.id },
+        },
+        select: {
+          id: true,
+          tripDate: true,
+          scheduleId: true,
+          routeVersion: { select: { version: true } },
+          _count: { select: { bookingGroups: true } },
+        },
+        orderBy: { tripDate: "asc" },
+      });
+
+      createdStops.sort((a, b) => a.stopIndex - b.stopIndex);
+
+      return {
+        routeVersion,
+        stops: createdStops,
+        diff: previous
+          ? diffRouteStops(previous, previous.stops, routeVersion, createdStops)
+          : null,
+        reassignedTrips: moved.count,
+        pinnedTrips: pinnedTrips.map((trip) => ({
+          tripId: trip.id,
+          tripDate: trip.tripDate,
+          scheduleId: trip.scheduleId,
+          routeVersion: trip.routeVersion.version,
+          bookingCount: trip._count.bookingGroups,
+        })),
+      };
+    },
+    {
+      maxWait: 10000, // Wait up to 10 seconds for transaction slot
+      timeout: 20000, // Allow up to 20 seconds for transaction to complete
+    }
+  );
+
+  // New stop and boarding point names must show up in place search
+  invalidatePlacesIndex();
+
+  return result;
+}
+
+const COMPARED_STOP_FIELDS = [
+  "state",
+  "stopIndex",
+  "arrivalTime",
+  "departureTime",
+  "returnArrivalTime",
+  "returnDepartureTime",
+  "distanceFromOrigin",
+  "priceFromOrigin",
+  "lowerSeaterPrice",
+  "lowerSleeperPrice",
+  "upperSleeperPrice",
+  "upperSeaterPrice",
+] as const;
+
+type ComparedField = (typeof COMPARED_STOP_FIELDS)[number];
+
+export interface RouteStopChange {
+  name: string;
+  city: string;
+  changes: Array<{
+    field: ComparedField;
+    from: string | number | null;
+    to: string | number | null;
+  }>;
+  boardingPoints: {
+    added: string[];
+    removed: string[];
+    retimed: Array<{ name: string; from: string; to: string }>;
+  };
+}
+
+export interface RouteVersionDiff {
+  fromVersion: number;
+  toVersion: number;
+  effectiveFrom: Date;
+  added: Array<{ name: string; city: string; stopIndex: number }>;
+  removed: Array<{ name: string; city: string; stopIndex: number }>;
+  changed: RouteStopChange[];
+}
+
+// Stops are matched across versions by name and city, since IDs change
+export const stopKey = (stop: Pick<Stop, "name" | "city">) =>
+  `${stop.name.trim().toLowerCase()}|${stop.city.trim().toLowerCase()}`;
+
+/**
+ * What changed between two route versions: stops added or removed, and for
+ * stops in both, changed timings, prices, order and boarding points.
+ */
+export function diffRouteStops(
+  fromVersion: Pick<RouteVersion, "version">,
+  fromStops: StopWithPoints[],
+  toVersion: Pick<RouteVersion, "version" | "effectiveFrom">,
+  toStops: StopWithPoints[]
+): RouteVersionDiff {
+  const previousByKey = new Map(fromStops.map((s) => [stopKey(s), s]));
+  const nextKeys = new Set(toStops.map(stopKey));
+
+  const diff: RouteVersionDiff = {
+    fromVersion: fromVersion.version,
+    toVersion: toVersion.version,
+    effectiveFrom: toVersion.effectiveFrom,
+    added: [],
+    removed: fromStops
+      .filter((s) => !nextKeys.has(stopKey(s)))
+      .map((s) => ({ name: s.name, city: s.city, stopIndex: s.stopIndex })),
+    changed: [],
+  };
+
+  for (const stop of toStops) {
+    const previous = previousByKey.get(stopKey(stop));
+
+    if (!previous) {
+      diff.added.push({
+        name: stop.name,
+        city: stop.city,
+        stopIndex: stop.stopIndex,
+      });
+      continue;
+    }
+
+    const changes = COMPARED_STOP_FIELDS.filter(
+      (field) => previous[field] !== stop[field]
+    ).map((field) => ({ field, from: previous[field], to: stop[field] }));
+
+    const previousPoints = new Map(
+      previous.boardingPoints.map((p) => [p.name, p])
+    );
+    const nextPoints = new Map(stop.boardingPoints.map((p) => [p.name, p]));
+    const boardingPoints = {
+      added: stop.boardingPoints
+        .filter((p) => !previousPoints.has(p.name))
+        .map((p) => p.name),
+      removed: previous.boardingPoints
+        .filter((p) => !nextPoints.has(p.name))
+        .map((p) => p.name),
+      retimed: stop.boardingPoints.flatMap((p) => {
+        const old = previousPoints.get(p.name);
+        return old && old.time !== p.time
+          ? [{ name: p.name, from: old.time, to: p.time }]
+          : [];
+      }),
+    };
+
+    if (
+      changes.length > 0 ||
+      boardingPoints.added.length > 0 ||
+      boardingPoints.removed.length > 0 ||
+      boardingPoints.retimed.length > 0
+    ) {
+      diff.changed.push({
+        name: stop.name,
+        city: stop.city,
+        changes,
+        boardingPoints,
+      });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Diff two route versions of a bus. Defaults to the newest version against
+ * the one before it.
+ */
+export async function getRouteVersionDiff(
+  busId: string,
+  versions: { from?: number | undefined; to?: number | undefined } = {}
+) {
+  const stopsInclude = {
+    stops: {
+      orderBy: { stopIndex: "asc" },
+      include: { boardingPoints: { orderBy: { pointOrder: "asc" } } },
+    },
+  } as const;
+
+  const to = await prisma.routeVersion.findFirst({
+    where: { busId, ...(versions.to ? { version: versions.to } : {}) },
+    orderBy: { version: "desc" },
+    include: stopsInclude,
+  });
+
+  if (!to) {
+    throw new RouteVersionError("Route version not found", 404);
+  }
+
+  const from = await prisma.routeVersion.findFirst({
+    where: {
+      busId,
+      ...(versions.from
+        ? { version: versions.from }
+        : { version: { lt: to.version } }),
+    },
+    orderBy: { version: "desc" },
+    include: stopsInclude,
+  });
+
+  if (!from) {
+    throw new RouteVersionError(
+      versions.from
+        ? "Route version not found"
+        : "This is the first route version; there is nothing to compare",
+      404
+    );
+  }
+
+  return diffRouteStops(from, from.stops, to, to.stops);
+}
+
+export const serializeRouteVersion = (
+  routeVersion: Pick<
+    RouteVersion,
+    "id" | "version" | "effectiveFrom" | "supersededAt" | "createdAt"
+  >
+) => ({
+  id: routeVersion.id,
+  version: routeVersion.version,
+  effectiveFrom: routeVersion.effectiveFrom.toISOString().split("T")[0],
+  isLatest: routeVersion.supersededAt === null,
+  createdAt: routeVersion.createdAt,
+});
@@ -0,0 +1,362 @@
+import { TripDirection } from "@prisma/client";
+import type { BusSchedule, Prisma, PrismaClient, Stop } from "@prisma/client";
+import { prisma } from "../../lib/prisma.js";
+import { ServiceError } from "../../lib/serviceError.js";
+import { getDepartureDateTime } from "./cancellationService.js";
+import {
+  activeSeatBlockWhere,
+  findActiveSeatHolds,
+  lockTripForSeatChanges,
+} from "./seatHoldService.js";
+import {
+  applyScheduleToStops,
+  timetableStopSelect,
+} from "./tripScheduleService.js";
+import { isTripOpenForBooking, promoteWaitlists } from "./waitlistService.js";
+
+type PrismaClientOrTransaction = PrismaClient | Prisma.TransactionClient;
+
+export class SeatBlockError extends ServiceError {}
+
+const MAX_REASON_LENGTH = 100;
+
+const blockInclude = {
+  seat: { select: { seatNumber: true, level: true, type: true } },
+} as const;
+
+type SeatBlockWithSeat = Prisma.TripSeatBlockGetPayload<{
+  include: typeof blockInclude;
+}>;
+
+/**
+ * When the trip leaves its first stop. Unscheduled trips serve both
+ * directions, so the earlier of the two departures counts.
+ */
+export function getTripDeparture(trip: {
+  tripDate: Date;
+  schedule: Pick<BusSchedule, "direction" | "departureTime"> | null;
+  routeVersion: {
+    stops: Array<
+      Pick<
+        Stop,
+        | "stopIndex"
+        | "arrivalTime"
+        | "departureTime"
+        | "returnArrivalTime"
+        | "returnDepartureTime"
+      >
+    >;
+  };
+}) {
+  const stops = applyScheduleToStops(trip.routeVersion.stops, trip.schedule);
+  if (stops.length === 0) {
+    return null;
+  }
+
+  const ordered = [...stops].sort((a, b) => a.stopIndex - b.stopIndex);
+  const first = ordered[0];
+  const last = ordered[ordered.length - 1];
+  const directions = trip.schedule
+    ? [trip.schedule.direction === TripDirection.RETURN]
+    : [false, true];
+
+  const departures = directions.flatMap((isReturnTrip) => {
+    const origin = isReturnTrip ? last : first;
+
+    // Unscheduled trips only run back when return timings are configured
+    if (
+      !origin ||
+      (isReturnTrip && !trip.schedule && !origin.returnDepartureTime)
+    ) {
+      return [];
+    }
+
+    const departure = getDepartureDateTime(trip.tripDate, origin, isReturnTrip);
+    return departure ? [departure] : [];
+  });
+
+  return departures.length > 0
+    ? new Date(Math.min(...departures.map((d) => d.getTime())))
+    : null;
+}
+
+/**
+ * The trip with its bus, checked to belong to the operator.
+ */
+async function findOperatorTrip(
+  client: PrismaClientOrTransaction,
+  adminId: string,
+  tripId: string
+) {
+  const trip = await client.trip.findUnique({
+    where: { id: tripId },
+    include: {
+      bus: { select: { adminId: true } },
+      schedule: { select: { direction: true, departureTime: true } },
+      routeVersion: { select: { stops: { select: timetableStopSelect } } },
+    },
+  });
+
+  if (!trip) {
+    throw new SeatBlockError("Trip not found", 404);
+  }
+
+  if (trip.bus.adminId !== adminId) {
+    throw new SeatBlockError("Not authorized to modify this trip", 403);
+  }
+
+  return trip;
+}
+
+const parseBlockInput = (
+  input: Record<string, unknown>,
+  departure: Date | null
+) => {
+  const { seatIds, reason, releaseAt, releaseHoursBeforeDeparture } = input;
+
+  if (
+    !Array.isArray(seatIds) ||
+    seatIds.length === 0 ||
+    seatIds.some((id) => typeof id !== "string")
+  ) {
+    throw new SeatBlockError("seatIds must be a non-empty array of seat IDs");
+  }
+
+  if (typeof reason !== "string" || reason.trim() === "") {
+    throw new SeatBlockError("reason is required");
+  }
+
+  if (reason.trim().length > MAX_REASON_LENGTH) {
+    throw new SeatBlockError(
+      `reason must be at most ${MAX_REASON_LENGTH} characters`
+    );
+  }
+
+  if (releaseAt != null && releaseHoursBeforeDeparture != null) {
+    throw new SeatBlockError(
+      "Give either releaseAt or releaseHoursBeforeDeparture, not both"
+    );
+  }
+
+  let release: Date | null = null;
+
+  if (releaseAt != null) {
+    release = typeof releaseAt === "string" ? new Date(releaseAt) : null;
+
+    if (!release || Number.isNaN(release.getTime())) {
+      throw new SeatBlockError("releaseAt must be a valid date");
+    }
+  }
+
+  if (releaseHoursBeforeDeparture != null) {
+    if (
+      typeof releaseHoursBeforeDeparture !== "number" ||
+      !Number.isFinite(releaseHoursBeforeDeparture) ||
+      releaseHoursBeforeDeparture <= 0
+    ) {
+      throw new SeatBlockError(
+        "releaseHoursBeforeDeparture must be a positive number"
+      );
+    }
+
+    if (!departure) {
+      throw new SeatBlockError(
+        "The trip has no departure time configured; give releaseAt instead"
+      );
+    }
+
+    release = new Date(
+      departure.getTime() - releaseHoursBeforeDeparture * 60 * 60 * 1000
+    );
+  }
+
+  if (release && release <= new Date()) {
+    throw new SeatBlockError("The release time has already passed");
+  }
+
+  return {
+    seatIds: Array.from(new Set(seatIds as string[])),
+    reason: reason.trim(),
+    releaseAt: release,
+  };
+};
+
+/**
+ * Blocks on a trip, oldest first. Released blocks are only included on
+ * request.
+ */
+export async function listTripSeatBlocks(
+  adminId: string,
+  tripId: string,
+  includeReleased = false
+) {
+  const trip = await findOperatorTrip(prisma, adminId, tripId);
+
+  const blocks = await prisma.tripSeatBlock.findMany({
+    where: {
+      tripId,
+      ...(includeReleased ? {} : activeSeatBlockWhere()),
+    },
+    include: blockInclude,
+    orderBy: { createdAt: "asc" },
+  });
+
+  return { trip, departure: getTripDeparture(trip), blocks };
+}
+
+/**
+ * Keep seats of the trip's bus off sale on this trip (conductor, VIP or
+ * quota seats). Seats that are booked or being paid for on any segment can't
+ * be blocked. `releaseHoursBeforeDeparture` puts the seats back on sale that
+ * long before the trip leaves its first stop; `releaseAt` at a fixed time.
+ */
+export async function blockTripSeats(
+  adminId: string,
+  tripId: string,
+  input: Record<string, unknown>
+) {
+  return prisma.$transaction(
+    async (tx) => {
+      const trip = await findOperatorTrip(tx, adminId, tripId);
+      await lockTripForSeatChanges(tx, tripId);
+
+      if (!isTripOpenForBooking(trip)) {
+        throw new SeatBlockError("Seats can only be blocked on upcoming trips");
+      }
+
+      const { seatIds, reason, releaseAt } = parseBlockInput(
+        input,
+        getTripDeparture(trip)
+      );
+
+      const seats = await tx.seat.findMany({
+        where: {
+          id: { in: seatIds },
+          busId: trip.busId,
+          isActive: true,
+          retiredAt: null,
+        },
+        select: { id: true, seatNumber: true },
+      });
+
+      if (seats.length !== seatIds.length) {
+        throw new SeatBlockError(
+          "Some of the seats are not active seats of this bus"
+        );
+      }
+
+      const seatNumber = (seatId: string) =>
+        seats.find((seat) => seat.id === seatId)?.seatNumber ?? seatId;
+
+      const [bookings, holds, blocks] = await Promise.all([
+        tx.booking.findMany({
+          where: { tripId, seatId: { in: seatIds }, status: "CONFIRMED" },
+          select: { seatId: true },
+        }),
+        findActiveSeatHolds(tx, tripId, seatIds),
+        tx.tripSeatBlock.findMany({
+          where: { tripId, seatId: { in: seatIds }, ...activeSeatBlockWhere() },
+          select: { seatId: true },
+        }),
+      ]);
+
+      const conflicts = [
+        { seatIds: bookings.map((b) => b.seatId), state: "booked" },
+        { seatIds: holds.map((h) => h.seatId), state: "being booked" },
+        { seatIds: blocks.map((b) => b.seatId), state: "already blocked" },
+      ].find((conflict) => conflict.seatIds.length > 0);
+
+      if (conflicts) {
+        throw new SeatBlockError(
+          `Seat(s) ${Array.from(new Set(conflicts.seatIds))
+            .map(seatNumber)
+            .join(", ")} are ${conflicts.state} on this trip`,
+          409
+        );
+      }
+
+      return Promise.all(
+        seatIds.map((seatId) =>
+          tx.tripSeatBlock.create({
+            data: { tripId, seatId, reason, releaseAt, createdBy: adminId },
+            include: blockInclude,
+          })
+        )
+      );
+    },
+    {
+      maxWait: 10000,
+      timeout: 15000,
+    }
+  );
+}
+
+/**
+ * Put a blocked seat back on sale now and offer it to the trip's waitlist.
+ */
+export async function releaseSeatBlock(adminId: string, blockId: string) {
+  const block = await prisma.tripSeatBlock.findUnique({
+    where: { id: blockId },
+    include: { trip: { select: { bus: { select: { adminId: true } } } } },
+  });
+
+  if (!block) {
+    throw new SeatBlockError("Seat block not found", 404);
+  }
+
+  if (block.trip.bus.adminId !== adminId) {
+    throw new SeatBlockError("Not authorized to modify this trip", 403);
+  }
+
+  const now = new Date();
+  if (block.releasedAt || (block.releaseAt && block.releaseAt <= now)) {
+    throw new SeatBlockError("Seat block has already been released");
+  }
+
+  const released = await prisma.tripSeatBlock.update({
+    where: { id: blockId },
+    data: { releasedAt: now, releaseReason: "MANUAL" },
+    include: blockInclude,
+  });
+
+  await promoteWaitlists([block.tripId]);
+
+  return released;
+}
+
+/**
+ * Mark every block whose release time has passed as released. Such blocks
+ * already stop blocking their seat through activeSeatBlockWhere(); this
+ * records when and why the seat went back on sale.
+ */
+export async function releaseExpiredSeatBlocks() {
+  const now = new Date();
+  const result = await prisma.tripSeatBlock.updateMany({
+    where: { releasedAt: null, releaseAt: { lte: now } },
+    data: { releasedAt: now, releaseReason: "AUTO_RELEASE" },
+  });
+
+  return result.count;
+}
+
+export const serializeSeatBlock = (block: SeatBlockWithSeat) => {
+  const releasedAt =
+    block.releasedAt ??
+    (block.releaseAt && block.releaseAt <= new Date() ? block.releaseAt : null);
+
+  return {
+    id: block.id,
+    tripId: block.tripId,
+    seatId: block.seatId,
+    seatNumber: block.seat.seatNumber,
+    level: block.seat.level,
+    type: block.seat.type,
+    reason: block.reason,
+    createdBy: block.createdBy,
+    releaseAt: block.releaseAt,
+    releasedAt,
+    releaseReason: block.releaseReason ?? (releasedAt ? "AUTO_RELEASE" : null),
+    isActive: releasedAt === null,
+    createdAt: block.createdAt,
+  };
+};
@@ -0,0 +1,360 @@
+import { prisma } from "../../lib/prisma.js";
+import { ServiceError } from "../../lib/serviceError.js";
+import { Prisma } from "@prisma/client";
+import type { PrismaClient } from "@prisma/client";
+import { getBookingConfig } from "../../config/bookingConfig.js";
+
+type PrismaClientOrTransaction = PrismaClient | Prisma.TransactionClient;
+
+export type SeatHoldReleaseReason =
+  | "CONFIRMED"
+  | "PAYMENT_FAILED"
+  | "EXPIRED"
+  | "SUPERSEDED"
+  | "TRIP_CANCELLED"
+  | "WAITLIST_CANCELLED"
+  | "GROUP_REQUEST_CLOSED";
+
+export class SeatHoldConflictError extends ServiceError {
+  seatIds: string[];
+
+  constructor(message: string, seatIds: string[]) {
+    super(message, 409);
+    this.seatIds = seatIds;
+  }
+
+  toResponseBody() {
+    return { ...super.toResponseBody(), unavailableSeatIds: this.seatIds };
+  }
+}
+
+/**
+ * Prisma filter for holds that still block a seat.
+ */
+export const activeSeatHoldWhere = (now: Date = new Date()) => ({
+  releasedAt: null,
+  expiresAt: { gt: now },
+});
+
+/**
+ * Prisma filter for operator seat blocks that still keep a seat off sale.
+ * Blocks apply to the whole trip, whatever the segment or direction.
+ */
+export const activeSeatBlockWhere = (now: Date = new Date()) => ({
+  releasedAt: null,
+  OR: [{ releaseAt: null }, { releaseAt: { gt: now } }],
+});
+
+export async function findBlockedSeatIds(
+  client: PrismaClientOrTransaction,
+  tripId: string,
+  seatIds?: string[]
+) {
+  const blocks = await client.tripSeatBlock.findMany({
+    where: {
+      tripId,
+      ...(seatIds ? { seatId: { in: seatIds } } : {}),
+      ...activeSeatBlockWhere(),
+    },
+    select: { seatId: true },
+  });
+
+  return new Set(blocks.map((block) => block.seatId));
+}
+
+/**
+ * Two segments on the same trip compete for a seat only when they travel in
+ * the same direction and their stop ranges overlap.
+ */
+export function isSegmentOverlapping(
+  fromStopIndex: number,
+  toStopIndex: number,
+  otherFromStopIndex: number,
+  otherToStopIndex: number
+) {
+  const isReturnTrip = fromStopIndex > toStopIndex;
+  const otherIsReturnTrip = otherFromStopIndex > otherToStopIndex;
+
+  if (isReturnTrip !== otherIsReturnTrip) {
+    return false;
+  }
+
+  const minIndex = Math.min(fromStopIndex, toStopIndex);
+  const maxIndex = Math.max(fromStopIndex, toStopIndex);
+  const otherMin = Math.min(otherFromStopIndex, otherToStopIndex);
+  const otherMax = Math.max(otherFromStopIndex, otherToStopIndex);
+
+  return minIndex < otherMax && maxIndex > otherMin;
+}
+
+/**
+ * Seat IDs held for a segment overlapping fromStopIndex → toStopIndex.
+ * Holds belonging to `excludeUserId` / `excludePaymentId` are ignored so a
+ * user never competes with their own reservation.
+ */
+export function getHeldSeatIds(
+  holds: Array<{
+    seatId: string;
+    userId?: string;
+    paymentId?: string | null;
+    fromStopIndex: number;
+    toStopIndex: number;
+  }>,
+  fromStopIndex: number,
+  toStopIndex: number,
+  options: { excludeUserId?: string; excludePaymentId?: string } = {}
+) {
+  const held = new Set<string>();
+
+  holds.forEach((hold) => {
+    if (options.excludeUserId && hold.userId === options.excludeUserId) {
+      return;
+    }
+    if (
+      options.excludePaymentId &&
+      hold.paymentId === options.excludePaymentId
+    ) {
+      return;
+    }
+    if (
+      isSegmentOverlapping(
+        fromStopIndex,
+        toStopIndex,
+        hold.fromStopIndex,
+        hold.toStopIndex
+      )
+    ) {
+      held.add(hold.seatId);
+    }
+  });
+
+  return held;
+}
+
+/**
+ * Seats taken on fromStopIndex → toStopIndex by confirmed bookings or active
+ * holds for an overlapping segment, plus any seats blocked by the operator.
+ */
+export function getOccupiedSeatIds(
+  bookings: Array<{
+    seatId: string;
+    group: {
+      fromStop: { stopIndex: number };
+      toStop: { stopIndex: number };
+    };
+  }>,
+  holds: Parameters<typeof getHeldSeatIds>[0],
+  fromStopIndex: number,
+  toStopIndex: number,
+  blockedSeatIds: Iterable<string> = []
+) {
+  const occupied = getHeldSeatIds(holds, fromStopIndex, toStopIndex);
+  for (const seatId of blockedSeatIds) {
+    occupied.add(seatId);
+  }
+
+  bookings.forEach((booking) => {
+    if (
+      isSegmentOverlapping(
+        fromStopIndex,
+        toStopIndex,
+        booking.group.fromStop.stopIndex,
+        booking.group.toStop.stopIndex
+      )
+    ) {
+      occupied.add(booking.seatId);
+    }
+  });
+
+  return occupied;
+}
+
+export async function findActiveSeatHolds(
+  client: PrismaClientOrTransaction,
+  tripId: string,
+  seatIds?: string[]
+) {
+  return client.seatHold.findMany({
+    where: {
+      tripId,
+      ...(seatIds ? { seatId: { in: seatIds } } : {}),
+      ...activeSeatHoldWhere(),
+    },
+    select: {
+      id: true,
+      seatId: true,
+      userId: true,
+      paymentId: true,
+      waitlistEntryId: true,
+      groupBookingRequestId: true,
+      fromStopIndex: true,
+      toStopIndex: true,
+      expiresAt: true,
+    },
+  });
+}
+
+/**
+ * Lock the trip row so concurrent hold/booking writes for the same trip run
+ * one after another. Must be called inside a transaction.
+ */
+export async function lockTripForSeatChanges(
+  tx: Prisma.TransactionClient,
+  tripId: string
+) {
+  await tx.$queryRaw`SELECT id FROM "Trip" WHERE id = ${tripId} FOR UPDATE`;
+}
+
+/**
+ * Reserve seats for a payment. Fails with SeatHoldConflictError when another
+ * user already holds or has booked one of the seats for an overlapping
+ * segment, or the operator has blocked it.
+ * Any older payment holds the same user has on these seats are superseded;
+ * confirming accepts holds of the same user, so the earlier payment can
+ * still book the seats if it settles after all.
+ */
+export async function createSeatHolds(
+  tx: Prisma.TransactionClient,
+  params: {
+    tripId: string;
+    seatIds: string[];
+    userId: string;
+    paymentId: string;
+    fromStopIndex: number;
+    toStopIndex: number;
+  }
+) {
+  const { tripId, seatIds, userId, paymentId, fromStopIndex, toStopIndex } =
+    params;
+
+  await lockTripForSeatChanges(tx, tripId);
+
+  const existingBookings = await tx.booking.findMany({
+    where: {
+      tripId,
+      seatId: { in: seatIds },
+      status: "CONFIRMED",
+    },
+    select: {
+      seatId: true,
+      group: {
+        select: {
+          fromStop: { select: { stopIndex: true } },
+          toStop: { select: { stopIndex: true } },
+        },
+      },
+    },
+  });
+
+  const bookedSeatIds = existingBookings
+    .filter((booking) =>
+      isSegmentOverlapping(
+        fromStopIndex,
+        toStopIndex,
+        booking.group.fromStop.stopIndex,
+        booking.group.toStop.stopIndex
+      )
+    )
+    .map((booking) => booking.seatId);
+
+  const activeHolds = await findActiveSeatHolds(tx, tripId, seatIds);
+  const heldSeatIds = getHeldSeatIds(activeHolds, fromStopIndex, toStopIndex, {
+    excludeUserId: userId,
+  });
+
+  const blockedSeatIds = await findBlockedSeatIds(tx, tripId, seatIds);
+
+  const unavailable = Array.from(
+    new Set([...bookedSeatIds, ...heldSeatIds, ...blockedSeatIds])
+  );
+  if (unavailable.length > 0) {
+    throw new SeatHoldConflictError(
+      "Some of the selected seats were just reserved by another passenger. Please select different seats.",
+      unavailable
+    );
+  }
+
+  const now = new Date();
+  // A waitlist offer or group booking quote keeps its own hold so the seats
+  // stay the user's if this payment fails before the offer expires
+  const ownOverlappingHoldIds = activeHolds
+    .filter(
+      (hold) =>
+        hold.userId === userId &&
+        !hold.waitlistEntryId &&
+        !hold.groupBookingRequestId &&
+        isSegmentOverlapping(
+          fromStopIndex,
+          toStopIndex,
+          hold.fromStopIndex,
+          hold.toStopIndex
+        )
+    )
+    .map((hold) => hold.id);
+
+  if (ownOverlappingHoldIds.length > 0) {
+    await tx.seatHold.updateMany({
+      where: { id: { in: ownOverlappingHoldIds } },
+      data: { releasedAt: now, releaseReason: "SUPERSEDED" },
+    });
+  }
+
+  const expiresAt = new Date(
+    now.getTime() + getBookingConfig().seatHold.ttlMinutes * 60 * 1000
+  );
+
+  await tx.seatHold.createMany({
+    data: seatIds.map((seatId) => ({
+      tripId,
+      seatId,
+      userId,
+      paymentId,
+      fromStopIndex,
+      toStopIndex,
+      expiresAt,
+    })),
+  });
+
+  return { expiresAt };
+}
+
+export async function releaseSeatHoldsForPayment(
+  client: PrismaClientOrTransaction,
+  paymentId: string,
+  reason: SeatHoldReleaseReason
+) {
+  const result = await client.seatHold.updateMany({
+    where: { paymentId, releasedAt: null },
+    data: { releasedAt: new Date(), releaseReason: reason },
+  });
+
+  return result.count;
+}
+
+export async function releaseSeatHoldsForTrip(
+  client: PrismaClientOrTransaction,
+  tripId: string,
+  reason: SeatHoldReleaseReason
+) {
+  const result = await client.seatHold.updateMany({
+    where: { tripId, releasedAt: null },
+    data: { releasedAt: new Date(), releaseReason: reason },
+  });
+
+  return result.count;
+}
+
+/**
+ * Mark every hold whose TTL has passed as released. Expired holds already stop
+ * blocking seats through activeSeatHoldWhere(); this keeps the table tidy and
+ * records why the hold ended.
+ */
+export async function releaseExpiredSeatHolds() {
+  const now = new Date();
+  const result = await prisma.seatHold.updateMany({
+    where: { releasedAt: null, expiresAt: { lte: now } },
+    data: { releasedAt: now, releaseReason: "EXPIRED" },
+  });
+
+  return result.count;
+}
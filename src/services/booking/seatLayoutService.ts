@@ -0,0 +1,1392 @@
+import type {
+  BusType,
+  Gender,
+  Prisma,
+  PrismaClient,
+  Seat,
+  SeatLayoutTemplate,
+} from "@prisma/client";
+import { prisma } from "../../lib/prisma.js";
+import { ServiceError } from "../../lib/serviceError.js";
+import { notifySeatChanged } from "../notificationService.js";
+import {
+  activeSeatBlockWhere,
+  activeSeatHoldWhere,
+  isSegmentOverlapping,
+  lockTripForSeatChanges,
+} from "./seatHoldService.js";
+import { assertSeatRules, SeatRuleError } from "./seatRuleService.js";
+
+type PrismaClientOrTransaction = PrismaClient | Prisma.TransactionClient;
+
+export class SeatLayoutError extends ServiceError {
+  errors: LayoutValidationError[];
+
+  constructor(
+    message: string,
+    statusCode = 400,
+    errors: LayoutValidationError[] = []
+  ) {
+    super(message, statusCode);
+    this.errors = errors;
+  }
+
+  toResponseBody() {
+    return {
+      ...super.toResponseBody(),
+      ...(this.errors.length > 0 ? { errors: this.errors } : {}),
+    };
+  }
+}
+
+// A problem with one cell of a submitted grid, or with a whole deck when
+// row/column are null. Coordinates are 0-based like Seat.row/column.
+export interface LayoutValidationError {
+  code:
+    | "INVALID_GRID"
+    | "GRID_ROWS_MISMATCH"
+    | "GRID_COLUMNS_MISMATCH"
+    | "INVALID_CELL"
+    | "DUPLICATE_SEAT_NUMBER"
+    | "INVALID_SLEEPER_SHAPE"
+    | "SEAT_NUMBER_ON_BOTH_DECKS";
+  level: "LOWER" | "UPPER";
+  row: number | null;
+  column: number | null;
+  seatNumber: string | null;
+  message: string;
+}
+
+export interface SeatGridInput {
+  seatNumber: string; // "1", "2", "3", "" for empty
+  isLadiesOnly?: boolean; // Set on any cell of the seat
+}
+
+export interface ProcessedSeat {
+  seatNumber: string;
+  row: number;
+  column: number;
+  rowSpan: number;
+  columnSpan: number;
+  type: "SEATER" | "SLEEPER";
+  level: "LOWER" | "UPPER";
+  isLadiesOnly: boolean;
+}
+
+export interface SeatLayoutInput {
+  gridRows: number;
+  gridColumns: number;
+  lowerDeckGrid: SeatGridInput[][];
+  upperDeckGrid?: SeatGridInput[][] | null | undefined;
+}
+
+export type LayoutSeat = Pick<
+  Seat,
+  | "seatNumber"
+  | "row"
+  | "column"
+  | "rowSpan"
+  | "columnSpan"
+  | "type"
+  | "level"
+  | "isLadiesOnly"
+>;
+
+/**
+ * Process admin's grid input to detect sleeper seats
+ * Rules:
+ * - Same number twice horizontally = Horizontal sleeper (1 row × 2 cols)
+ * - Same number twice vertically = Vertical sleeper (2 rows × 1 col)
+ * - Single cell = Seater (1 row × 1 col)
+ */
+export function processGridToSeats(
+  grid: SeatGridInput[][],
+  level: "LOWER" | "UPPER"
+): ProcessedSeat[] {
+  const seats: ProcessedSeat[] = [];
+  const processed = new Set<string>(); // Track processed cells
+
+  for (let row = 0; row < grid.length; row++) {
+    const currentRow = grid[row];
+    if (!currentRow) continue;
+
+    for (let col = 0; col < currentRow.length; col++) {
+      const currentCell = currentRow[col];
+      if (!currentCell) continue;
+
+      const seatNum = currentCell.seatNumber?.trim();
+      const cellKey = `${level}-${row}-${col}`;
+
+      // Skip empty cells or already processed cells
+      if (!seatNum || processed.has(cellKey)) continue;
+
+      // Check if horizontal sleeper (scan ahead for all cells with same number)
+      let horizontalSpan = 1;
+      for (let c = col + 1; c < currentRow.length && c < col + 4; c++) {
+        const checkCell = currentRow[c];
+        if (checkCell && checkCell.seatNumber?.trim() === seatNum) {
+          horizontalSpan++;
+        } else {
+          break;
+        }
+      }
+
+      if (horizontalSpan > 1) {
+        // Horizontal sleeper (2-4 cells wide)
+        seats.push({
+          seatNumber: seatNum,
+          row,
+          column: col,
+          rowSpan: 1,
+          columnSpan: horizontalSpan,
+          type: "SLEEPER",
+          level,
+          isLadiesOnly: currentRow
+            .slice(col, col + horizontalSpan)
+            .some((cell) => cell?.isLadiesOnly === true),
+        });
+        // Mark all spanned cells as processed
+        for (let c = col; c < col + horizontalSpan; c++) {
+          processed.add(`${level}-${row}-${c}`);
+        }
+        continue;
+      }
+
+      // Check if vertical sleeper (same number below)
+      const nextRow = row + 1 < grid.length ? grid[row + 1] : null;
+      const belowCellObj = nextRow && nextRow[col] ? nextRow[col] : null;
+      const belowCell = belowCellObj ? belowCellObj.seatNumber?.trim() : null;
+
+      if (belowCell === seatNum) {
+        // Vertical sleeper (2 cells tall)
+        seats.push({
+          seatNumber: seatNum,
+          row,
+          column: col,
+          rowSpan: 2,
+          columnSpan: 1,
+          type: "SLEEPER",
+          level,
+          isLadiesOnly:
+            currentCell.isLadiesOnly === true ||
+            belowCellObj?.isLadiesOnly === true,
+        });
+        processed.add(`${level}-${row}-${col}`);
+        processed.add(`${level}-${row + 1}-${col}`);
+        continue;
+      }
+
+      // Single cell = Seater
+      seats.push({
+        seatNumber: seatNum,
+        row,
+        column: col,
+        rowSpan: 1,
+        columnSpan: 1,
+        type: "SEATER",
+        level,
+        isLadiesOnly: currentCell.isLadiesOnly === true,
+      });
+      processed.add(`${level}-${row}-${col}`);
+    }
+  }
+
+  return seats;
+}
+
+const isGrid = (value: unknown): value is unknown[][] =>
+  Array.isArray(value) && value.every((row) => Array.isArray(row));
+
+const DECK_LABELS = { LOWER: "lower deck", UPPER: "upper deck" } as const;
+
+type Cell = { row: number; column: number };
+
+const describeCell = (level: "LOWER" | "UPPER", cell: Cell) =>
+  `row ${cell.row + 1}, column ${cell.column + 1} of the ${DECK_LABELS[level]}`;
+
+/**
+ * Split the cells sharing a seat number into groups of touching cells.
+ */
+function groupTouchingCells(cells: Cell[]) {
+  const groups: Cell[][] = [];
+  const remaining = [...cells];
+
+  while (remaining.length > 0) {
+    const group = remaining.splice(0, 1);
+
+    for (let i = 0; i < group.length; i++) {
+      const cell = group[i] as Cell;
+      for (let j = remaining.length - 1; j >= 0; j--) {
+        const other = remaining[j] as Cell;
+        if (
+          Math.abs(other.row - cell.row) +
+            Math.abs(other.column - cell.column) ===
+          1
+        ) {
+          group.push(...remaining.splice(j, 1));
+        }
+      }
+    }
+
+    groups.push(group.sort((a, b) => a.row - b.row || a.column - b.column));
+  }
+
+  return groups.sort(
+    (a, b) =>
+      (a[0] as Cell).row - (b[0] as Cell).row ||
+      (a[0] as Cell).column - (b[0] as Cell).column
+  );
+}
+
+// Shapes processGridToSeats reads as one seat: a single cell, 2-4 cells
+// side by side, or 2 cells one above the other
+const isSeatShape = (cells: Cell[]) => {
+  const rows = new Set(cells.map((cell) => cell.row));
+  const columns = new Set(cells.map((cell) => cell.column));
+
+  return (
+    cells.length === 1 ||
+    (rows.size === 1 && cells.length <= 4) ||
+    (columns.size === 1 && cells.length === 2)
+  );
+};
+
+function validateDeck(
+  grid: unknown,
+  level: "LOWER" | "UPPER",
+  gridRows: number,
+  gridColumns: number
+) {
+  const label = DECK_LABELS[level];
+  const errors: LayoutValidationError[] = [];
+  const seatCells = new Map<string, Cell[]>();
+
+  if (!isGrid(grid)) {
+    errors.push({
+      code: "INVALID_GRID",
+      level,
+      row: null,
+      column: null,
+      seatNumber: null,
+      message: `The ${label} grid must be an array of rows`,
+    });
+    return { errors, seatCells };
+  }
+
+  if (grid.length !== gridRows) {
+    errors.push({
+      code: "GRID_ROWS_MISMATCH",
+      level,
+      row: null,
+      column: null,
+      seatNumber: null,
+      message: `The ${label} grid has ${grid.length} rows; this bus has ${gridRows}`,
+    });
+  }
+
+  grid.forEach((cells, row) => {
+    if (cells.length !== gridColumns) {
+      errors.push({
+        code: "GRID_COLUMNS_MISMATCH",
+        level,
+        row,
+        column: null,
+        seatNumber: null,
+        message: `Row ${row + 1} of the ${label} has ${
+          cells.length
+        } columns; this bus has ${gridColumns}`,
+      });
+    }
+
+    cells.forEach((cell, column) => {
+      const seatNumber =
+        cell && typeof cell === "object"
+          ? (cell as { seatNumber?: unknown }).seatNumber
+          : undefined;
+
+      if (
+        !cell ||
+        typeof cell !== "object" ||
+        (seatNumber !== undefined && typeof seatNumber !== "string")
+      ) {
+        errors.push({
+          code: "INVALID_CELL",
+          level,
+          row,
+          column,
+          seatNumber: null,
+          message: `The cell at ${describeCell(level, {
+            row,
+            column,
+          })} must be an object with a seatNumber string`,
+        });
+        return;
+      }
+
+      const number = typeof seatNumber === "string" ? seatNumber.trim() : "";
+      if (number) {
+        seatCells.set(number, [
+          ...(seatCells.get(number) ?? []),
+          { row, column },
+        ]);
+      }
+    });
+  });
+
+  seatCells.forEach((cells, seatNumber) => {
+    groupTouchingCells(cells).forEach((group, index) => {
+      const first = group[0] as Cell;
+
+      if (index > 0) {
+        errors.push({
+          code: "DUPLICATE_SEAT_NUMBER",
+          level,
+          ...first,
+          seatNumber,
+          message: `Seat ${seatNumber} appears again at ${describeCell(
+            level,
+            first
+          )}; every seat needs its own number`,
+        });
+      } else if (!isSeatShape(group)) {
+        errors.push({
+          code: "INVALID_SLEEPER_SHAPE",
+          level,
+          ...first,
+          seatNumber,
+          message: `Seat ${seatNumber} at ${describeCell(
+            level,
+            first
+          )} covers ${
+            group.length
+          } cells that don't form a seat; a sleeper is 2-4 cells in a row or 2 cells in a column`,
+        });
+      }
+    });
+  });
+
+  return { errors, seatCells };
+}
+
+/**
+ * Every problem with a layout, in grid order: decks that don't match the
+ * bus dimensions, malformed cells, seat numbers used for more than one seat
+ * (including on both decks) and numbered cells that don't form a seater or
+ * sleeper.
+ */
+export function validateSeatLayout(layout: SeatLayoutInput) {
+  const { gridRows, gridColumns, lowerDeckGrid, upperDeckGrid } = layout;
+
+  const lower = validateDeck(lowerDeckGrid, "LOWER", gridRows, gridColumns);
+  const upper = upperDeckGrid
+    ? validateDeck(upperDeckGrid, "UPPER", gridRows, gridColumns)
+    : null;
+
+  const errors = [...lower.errors, ...(upper?.errors ?? [])];
+
+  upper?.seatCells.forEach((cells, seatNumber) => {
+    const first = cells[0];
+    if (first && lower.seatCells.has(seatNumber)) {
+      errors.push({
+        code: "SEAT_NUMBER_ON_BOTH_DECKS",
+        level: "UPPER",
+        ...first,
+        seatNumber,
+        message: `Seat ${seatNumber} at ${describeCell(
+          "UPPER",
+          first
+        )} is also on the lower deck; number upper deck seats differently (e.g. U${seatNumber})`,
+      });
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Seats of a layout. Fails with every validation error when the layout is
+ * invalid (see validateSeatLayout).
+ */
+export function parseSeatLayout(layout: SeatLayoutInput) {
+  const errors = validateSeatLayout(layout);
+
+  if (errors.length > 0) {
+    throw new SeatLayoutError(
+      errors.length === 1
+        ? (errors[0] as LayoutValidationError).message
+        : `The seat layout has ${errors.length} problems`,
+      400,
+      errors
+    );
+  }
+
+  const { lowerDeckGrid, upperDeckGrid } = layout;
+  const lowerSeats = processGridToSeats(lowerDeckGrid, "LOWER");
+  const upperSeats = upperDeckGrid
+    ? processGridToSeats(upperDeckGrid, "UPPER")
+    : [];
+
+  return { lowerSeats, upperSeats, seats: [...lowerSeats, ...upperSeats] };
+}
+
+/**
+ * Seat counts of a layout by deck and type.
+ */
+export function countLayoutSeats(seats: Pick<Seat, "level" | "type">[]) {
+  const count = (level?: string, type?: string) =>
+    seats.filter(
+      (seat) =>
+        (!level || seat.level === level) && (!type || seat.type === type)
+    ).length;
+
+  return {
+    total: seats.length,
+    seater: count(undefined, "SEATER"),
+    sleeper: count(undefined, "SLEEPER"),
+    lowerDeck: {
+      total: count("LOWER"),
+      seater: count("LOWER", "SEATER"),
+      sleeper: count("LOWER", "SLEEPER"),
+    },
+    upperDeck: {
+      total: count("UPPER"),
+      seater: count("UPPER", "SEATER"),
+      sleeper: count("UPPER", "SLEEPER"),
+    },
+  };
+}
+
+/**
+ * Grid of one deck drawn from saved seats, the inverse of processGridToSeats.
+ */
+export function seatsToGrid(
+  seats: LayoutSeat[],
+  gridRows: number,
+  gridColumns: number
+): SeatGridInput[][] {
+  return Array.from({ length: gridRows }, (_, row) =>
+    Array.from({ length: gridColumns }, (_, column) => {
+      const seat = seats.find(
+        (s) =>
+          row >= s.row &&
+          row < s.row + s.rowSpan &&
+          column >= s.column &&
+          column < s.column + s.columnSpan
+      );
+
+      return seat
+        ? {
+            seatNumber: seat.seatNumber,
+            ...(seat.isLadiesOnly ? { isLadiesOnly: true } : {}),
+          }
+        : { seatNumber: "" };
+    })
+  );
+}
+
+/**
+ * Bus type that matches a set of seats.
+ */
+export function getBusTypeForSeats(seats: Pick<Seat, "type">[]): BusType {
+  const hasSeater = seats.some((seat) => seat.type === "SEATER");
+  const hasSleeper = seats.some((seat) => seat.type === "SLEEPER");
+
+  return hasSeater && hasSleeper ? "MIXED" : hasSleeper ? "SLEEPER" : "SEATER";
+}
+
+const COMPARED_SEAT_FIELDS = [
+  "row",
+  "column",
+  "rowSpan",
+  "columnSpan",
+  "type",
+  "isLadiesOnly",
+] as const;
+
+type ComparedSeatField = (typeof COMPARED_SEAT_FIELDS)[number];
+
+export interface SeatLayoutDiff {
+  added: Array<{ seatNumber: string; level: string; type: string }>;
+  removed: Array<{ seatNumber: string; level: string; type: string }>;
+  changed: Array<{
+    seatNumber: string;
+    level: string;
+    changes: Array<{
+      field: ComparedSeatField;
+      from: string | number | boolean;
+      to: string | number | boolean;
+    }>;
+  }>;
+  unchanged: number;
+}
+
+// Seats are matched across layouts by deck and seat number
+const seatKey = (seat: { level: string; seatNumber: string }) =>
+  `${seat.level}|${seat.seatNumber}`;
+
+const describeSeat = (seat: LayoutSeat) => ({
+  seatNumber: seat.seatNumber,
+  level: seat.level,
+  type: seat.type,
+});
+
+/**
+ * What replacing `current` seats with `next` would change: seats added or
+ * removed, and seats that moved, resized, changed type or ladies-only flag.
+ */
+export function diffSeatLayouts(
+  current: LayoutSeat[],
+  next: LayoutSeat[]
+): SeatLayoutDiff {
+  const currentByKey = new Map(current.map((seat) => [seatKey(seat), seat]));
+  const nextKeys = new Set(next.map(seatKey));
+
+  const diff: SeatLayoutDiff = {
+    added: [],
+    removed: current
+      .filter((seat) => !nextKeys.has(seatKey(seat)))
+      .map(describeSeat),
+    changed: [],
+    unchanged: 0,
+  };
+
+  for (const seat of next) {
+    const previous = currentByKey.get(seatKey(seat));
+
+    if (!previous) {
+      diff.added.push(describeSeat(seat));
+      continue;
+    }
+
+    const changes = COMPARED_SEAT_FIELDS.filter(
+      (field) => previous[field] !== seat[field]
+    ).map((field) => ({ field, from: previous[field], to: seat[field] }));
+
+    if (changes.length > 0) {
+      diff.changed.push({
+        seatNumber: seat.seatNumber,
+        level: seat.level,
+        changes,
+      });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  return diff;
+}
+
+export const hasSeatChanges = (diff: SeatLayoutDiff) =>
+  diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
+
+// ==================== LAYOUT CHANGES ====================
+
+export interface AffectedBooking {
+  bookingId: string;
+  bookingGroupId: string;
+  userId: string;
+  tripId: string;
+  tripDate: Date;
+  passengerName: string | null;
+  seatNumber: string;
+  level: string;
+  type: string;
+  reason: "SEAT_REMOVED" | "SEAT_TYPE_CHANGED";
+  // Free seat of the same deck and type in the new layout that the passenger
+  // may take under the bus's seat rules, if any
+  suggestedSeat: { seatNumber: string; level: string; type: string } | null;
+}
+
+export interface SeatSyncOptions {
+  movePassengers?: boolean;
+  bus?: Prisma.BusUpdateInput;
+  // Stops the bus is about to get, when they are replaced along with the seats
+  stops?: Array<{ name: string; upperSeaterPrice: number }>;
+}
+
+export interface SeatLayoutPlan {
+  diff: SeatLayoutDiff;
+  // Removed seats kept, inactive, because bookings or holds point at them
+  retiredSeats: Array<{ seatNumber: string; level: string }>;
+  affectedBookings: AffectedBooking[];
+}
+
+/**
+ * How a new layout would be applied to a bus's seats. Seats are matched by
+ * deck and seat number and keep their IDs. Removed seats that bookings or
+ * active holds point at are retired rather than deleted. Upcoming bookings
+ * on removed seats, or on seats that change type, are listed with an
+ * equivalent free seat their passenger could move to. When applying the
+ * layout, `tx` locks the affected trips before their free seats are worked
+ * out so no booking or hold can take a suggested seat meanwhile.
+ */
+async function buildSeatLayoutPlan(
+  client: PrismaClientOrTransaction,
+  busId: string,
+  nextSeats: LayoutSeat[],
+  tx?: Prisma.TransactionClient
+) {
+  const bus = await client.bus.findUnique({
+    where: { id: busId },
+    select: { enforceGenderAdjacency: true },
+  });
+  const existing = await client.seat.findMany({
+    where: { busId },
+    include: {
+      _count: { select: { bookings: true } },
+      seatHolds: { where: activeSeatHoldWhere(), select: { id: true } },
+    },
+  });
+  const existingByKey = new Map(existing.map((seat) => [seatKey(seat), seat]));
+  const nextKeys = new Set(nextSeats.map(seatKey));
+  const current = existing.filter((seat) => !seat.retiredAt);
+
+  const removed = current.filter((seat) => !nextKeys.has(seatKey(seat)));
+  const retyped = nextSeats.flatMap((seat) => {
+    const previous = existingByKey.get(seatKey(seat));
+    return previous && !previous.retiredAt && previous.type !== seat.type
+      ? [previous]
+      : [];
+  });
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  const bookings = await client.booking.findMany({
+    where: {
+      seatId: { in: [...removed, ...retyped].map((seat) => seat.id) },
+      status: "CONFIRMED",
+      trip: { tripDate: { gte: today } },
+    },
+    include: {
+      passenger: { select: { name: true, gender: true } },
+      trip: { select: { tripDate: true } },
+      group: {
+        select: {
+          userId: true,
+          fromStop: { select: { stopIndex: true } },
+          toStop: { select: { stopIndex: true } },
+        },
+      },
+    },
+    orderBy: [{ trip: { tripDate: "asc" } }, { createdAt: "asc" }],
+  });
+
+  const tripIds = Array.from(new Set(bookings.map((b) => b.tripId))).sort();
+  if (tx) {
+    for (const tripId of tripIds) {
+      await lockTripForSeatChanges(tx, tripId);
+    }
+  }
+
+  const [tripBookings, tripHolds, tripBlocks] =
+    tripIds.length > 0
+      ? await Promise.all([
+          client.booking.findMany({
+            where: { tripId: { in: tripIds }, status: "CONFIRMED" },
+            select: {
+              tripId: true,
+              seatId: true,
+              groupId: true,
+              passenger: { select: { gender: true } },
+              group: {
+                select: {
+                  fromStop: { select: { stopIndex: true } },
+                  toStop: { select: { stopIndex: true } },
+                },
+              },
+            },
+          }),
+          client.seatHold.findMany({
+            where: { tripId: { in: tripIds }, ...activeSeatHoldWhere() },
+            select: {
+              tripId: true,
+              seatId: true,
+              fromStopIndex: true,
+              toStopIndex: true,
+            },
+          }),
+          client.tripSeatBlock.findMany({
+            where: { tripId: { in: tripIds }, ...activeSeatBlockWhere() },
+            select: { tripId: true, seatId: true },
+          }),
+        ])
+      : [[], [], []];
+
+  // Seat keys taken on each affected trip, by segment, with who sits there
+  const keysById = new Map(existing.map((seat) => [seat.id, seatKey(seat)]));
+  const taken: Array<{
+    tripId: string;
+    key: string | undefined;
+    from: number;
+    to: number;
+    groupId: string | null;
+    gender: Gender | null;
+  }> = [
+    ...tripBookings.map((b) => ({
+      tripId: b.tripId,
+      key: keysById.get(b.seatId),
+      from: b.group.fromStop.stopIndex,
+      to: b.group.toStop.stopIndex,
+      groupId: b.groupId,
+      gender: b.passenger?.gender ?? null,
+    })),
+    ...tripHolds.map((h) => ({
+      tripId: h.tripId,
+      key: keysById.get(h.seatId),
+      from: h.fromStopIndex,
+      to: h.toStopIndex,
+      groupId: null,
+      gender: null,
+    })),
+  ];
+
+  // Seats the operator blocked on a trip are off limits on every segment
+  const blocked = new Set(
+    tripBlocks.map((b) => `${b.tripId}|${keysById.get(b.seatId)}`)
+  );
+
+  // The new layout, keyed like `taken`, to check seat rules against
+  const layoutSeats = nextSeats.map((seat) => ({ ...seat, id: seatKey(seat) }));
+
+  // Whether the passenger may sit in the seat: ladies-only seats, and on
+  // buses that enforce it, no man beside a woman booked separately
+  const fitsSeatRules = (
+    candidate: LayoutSeat,
+    booking: { tripId: string; groupId: string; from: number; to: number },
+    passenger: { name: string; gender: Gender } | null
+  ) => {
+    if (!passenger) {
+      return !candidate.isLadiesOnly;
+    }
+
+    const occupants = taken
+      .filter(
+        (t) =>
+          t.tripId === booking.tripId &&
+          t.groupId !== booking.groupId &&
+          t.key !== undefined &&
+          isSegmentOverlapping(booking.from, booking.to, t.from, t.to)
+      )
+      .map((t) => ({ seatId: t.key ?? "", gender: t.gender }));
+
+    try {
+      assertSeatRules({
+        busSeats: layoutSeats,
+        occupants,
+        enforceGenderAdjacency: bus?.enforceGenderAdjacency ?? false,
+        passengers: [{ ...passenger, seatId: seatKey(candidate) }],
+      });
+    } catch (error) {
+      if (error instanceof SeatRuleError) {
+        return false;
+      }
+      throw error;
+    }
+
+    return true;
+  };
+
+  // Seats disabled by the operator don't take moved passengers
+  const candidates = nextSeats.filter((seat) => {
+    const previous = existingByKey.get(seatKey(seat));
+    return !previous || previous.isActive || previous.retiredAt;
+  });
+
+  const affectedBookings: AffectedBooking[] = bookings.map((booking) => {
+    const seat = existing.find((s) => s.id === booking.seatId);
+    const from = booking.group.fromStop.stopIndex;
+    const to = booking.group.toStop.stopIndex;
+
+    const passenger = booking.passenger
+      ? { name: booking.passenger.name, gender: booking.passenger.gender }
+      : null;
+    const position = {
+      tripId: booking.tripId,
+      groupId: booking.groupId,
+      from,
+      to,
+    };
+
+    const suggested = candidates
+      .filter(
+        (candidate) =>
+          candidate.level === seat?.level &&
+          candidate.type === seat?.type &&
+          !blocked.has(`${booking.tripId}|${seatKey(candidate)}`) &&
+          !taken.some(
+            (t) =>
+              t.tripId === booking.tripId &&
+              t.key === seatKey(candidate) &&
+              isSegmentOverlapping(from, to, t.from, t.to)
+          ) &&
+          fitsSeatRules(candidate, position, passenger)
+      )
+      .sort(
+        (a, b) =>
+          Math.abs(a.row - (seat?.row ?? 0)) +
+          Math.abs(a.column - (seat?.column ?? 0)) -
+          (Math.abs(b.row - (seat?.row ?? 0)) +
+            Math.abs(b.column - (seat?.column ?? 0)))
+      )[0];
+
+    if (suggested) {
+      taken.push({
+        tripId: booking.tripId,
+        key: seatKey(suggested),
+        from,
+        to,
+        groupId: booking.groupId,
+        gender: passenger?.gender ?? null,
+      });
+    }
+
+    return {
+      bookingId: booking.id,
+      bookingGroupId: booking.groupId,
+      userId: booking.group.userId,
+      tripId: booking.tripId,
+      tripDate: booking.trip.tripDate,
+      passengerName: booking.passenger?.name ?? null,
+      seatNumber: seat?.seatNumber ?? "",
+      level: seat?.level ?? "",
+      type: seat?.type ?? "",
+      reason: nextKeys.has(keysById.get(booking.seatId) ?? "")
+        ? "SEAT_TYPE_CHANGED"
+        : "SEAT_REMOVED",
+      suggestedSeat: suggested ? describeSeat(suggested) : null,
+    };
+  });
+
+  const retired = removed.filter(
+    (seat) => seat._count.bookings > 0 || seat.seatHolds.length > 0
+  );
+
+  const plan: SeatLayoutPlan = {
+    diff: diffSeatLayouts(current, nextSeats),
+    retiredSeats: retired.map((seat) => ({
+      seatNumber: seat.seatNumber,
+      level: seat.level,
+    })),
+    affectedBookings,
+  };
+
+  return { existingByKey, removed, retired, plan };
+}
+
+export async function planSeatLayoutChange(
+  busId: string,
+  nextSeats: LayoutSeat[]
+) {
+  return (await buildSeatLayoutPlan(prisma, busId, nextSeats)).plan;
+}
+
+/**
+ * Upper deck seaters are priced from their own stop column; left at 0 they'd
+ * be sold at the deprecated priceFromOrigin. Fails when active upper deck
+ * seaters are among `seats` and a stop after the origin has no
+ * upperSeaterPrice. `seats` default to the bus's active seats and `stops`
+ * (in route order) to its current route.
+ */
+export async function assertUpperSeatersPriced(
+  client: PrismaClientOrTransaction,
+  busId: string,
+  options: {
+    seats?: Array<Pick<Seat, "level" | "type"> & { isActive?: boolean }>;
+    stops?: Array<{ name: string; upperSeaterPrice?: unknown }>;
+  } = {}
+) {
+  const seats: Array<Pick<Seat, "level" | "type"> & { isActive?: boolean }> =
+    options.seats ??
+    (await client.seat.findMany({
+      where: { busId, isActive: true, retiredAt: null },
+      select: { level: true, type: true },
+    }));
+
+  const hasUpperSeaters = seats.some(
+    (seat) =>
+      seat.level === "UPPER" &&
+      seat.type === "SEATER" &&
+      seat.isActive !== false
+  );
+  if (!hasUpperSeaters) {
+    return;
+  }
+
+  const stops =
+    options.stops ??
+    (await client.stop.findMany({
+      where: { busId, routeVersion: { supersededAt: null } },
+      orderBy: { stopIndex: "asc" },
+      select: { name: true, upperSeaterPrice: true },
+    }));
+
+  const unpriced = stops
+    .slice(1)
+    .filter((stop) => !(Number(stop.upperSeaterPrice) > 0));
+
+  if (unpriced.length > 0) {
+    throw new SeatLayoutError(
+      `This bus has upper deck seater seats; set upperSeaterPrice for: ${unpriced
+        .map((stop) => stop.name)
+        .join(", ")}`
+    );
+  }
+}
+
+/**
+ * Apply a new layout to a bus's seats within a transaction, as planned by
+ * buildSeatLayoutPlan. With `movePassengers` the affected bookings that have
+ * a suggested seat are moved to it. `bus` updates the bus's grid and type
+ * along with the seats. Upper deck seaters must be priced on the bus's route,
+ * or on `stops` when the route is being replaced as well.
+ */
+export async function syncBusSeats(
+  tx: Prisma.TransactionClient,
+  busId: string,
+  nextSeats: LayoutSeat[],
+  options: SeatSyncOptions = {}
+) {
+  await assertUpperSeatersPriced(tx, busId, {
+    seats: nextSeats,
+    ...(options.stops ? { stops: options.stops } : {}),
+  });
+
+  const { existingByKey, removed, retired, plan } = await buildSeatLayoutPlan(
+    tx,
+    busId,
+    nextSeats,
+    tx
+  );
+  const now = new Date();
+
+  for (const seat of nextSeats) {
+    const previous = existingByKey.get(seatKey(seat));
+    if (!previous) {
+      continue;
+    }
+
+    const unchanged =
+      !previous.retiredAt &&
+      COMPARED_SEAT_FIELDS.every((field) => previous[field] === seat[field]);
+    if (unchanged) {
+      continue;
+    }
+
+    await tx.seat.update({
+      where: { id: previous.id },
+      data: {
+        row: seat.row,
+        column: seat.column,
+        rowSpan: seat.rowSpan,
+        columnSpan: seat.columnSpan,
+        type: seat.type,
+        isLadiesOnly: seat.isLadiesOnly,
+        // A retired seat put back on the layout is sold again
+        ...(previous.retiredAt ? { retiredAt: null, isActive: true } : {}),
+      },
+    });
+  }
+
+  await tx.seat.createMany({
+    data: nextSeats
+      .filter((seat) => !existingByKey.has(seatKey(seat)))
+      .map((seat) => ({
+        busId,
+        seatNumber: seat.seatNumber,
+        row: seat.row,
+        column: seat.column,
+        rowSpan: seat.rowSpan,
+        columnSpan: seat.columnSpan,
+        type: seat.type,
+        level: seat.level,
+        isActive: true,
+        isLadiesOnly: seat.isLadiesOnly,
+      })),
+  });
+
+  const retiredIds = new Set(retired.map((seat) => seat.id));
+  await tx.seat.updateMany({
+    where: { id: { in: Array.from(retiredIds) } },
+    data: { isActive: false, retiredAt: now },
+  });
+  await tx.seat.deleteMany({
+    where: {
+      id: {
+        in: removed
+          .filter((seat) => !retiredIds.has(seat.id))
+          .map((seat) => seat.id),
+      },
+    },
+  });
+
+  const movedBookings: Array<AffectedBooking & { seatId: string }> = [];
+
+  if (options.movePassengers) {
+    const seatIdsByKey = new Map(
+      (
+        await tx.seat.findMany({
+          where: { busId, retiredAt: null },
+          select: { id: true, seatNumber: true, level: true },
+        })
+      ).map((seat) => [seatKey(seat), seat.id])
+    );
+
+    for (const booking of plan.affectedBookings) {
+      const seatId = booking.suggestedSeat
+        ? seatIdsByKey.get(seatKey(booking.suggestedSeat))
+        : undefined;
+      if (!seatId) {
+        continue;
+      }
+
+      await tx.booking.update({
+        where: { id: booking.bookingId },
+        data: { seatId },
+      });
+      movedBookings.push({ ...booking, seatId });
+    }
+  }
+
+  await tx.bus.update({
+    where: { id: busId },
+    data: { ...options.bus, totalSeats: nextSeats.length },
+  });
+
+  return { ...plan, movedBookings };
+}
+
+/**
+ * Save a new layout for a bus and tell moved passengers about their new
+ * seat.
+ */
+export async function saveSeatLayout(
+  busId: string,
+  nextSeats: LayoutSeat[],
+  options: SeatSyncOptions = {}
+) {
+  const result = await prisma.$transaction(
+    (tx) => syncBusSeats(tx, busId, nextSeats, options),
+    {
+      maxWait: 10000, // Maximum time to wait for a transaction slot (10s)
+      timeout: 20000, // Maximum time for the transaction to complete (20s)
+    }
+  );
+
+  if (result.movedBookings.length > 0) {
+    const bus = await prisma.bus.findUnique({
+      where: { id: busId },
+      select: { name: true },
+    });
+
+    for (const booking of result.movedBookings) {
+      try {
+        await notifySeatChanged(booking.userId, {
+          bookingId: booking.bookingId,
+          bookingGroupId: booking.bookingGroupId,
+          busName: bus?.name ?? "",
+          date: booking.tripDate.toISOString().split("T")[0] ?? "",
+          passengerName: booking.passengerName ?? "Your passenger",
+          fromSeatNumber: booking.seatNumber,
+          toSeatNumber: booking.suggestedSeat?.seatNumber ?? "",
+        });
+      } catch (error) {
+        console.error("Error notifying passenger of seat change:", error);
+      }
+    }
+  }
+
+  return result;
+}
+
+// ==================== TEMPLATES ====================
+
+export interface LayoutTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  isSystem: boolean;
+  gridRows: number;
+  gridColumns: number;
+  lowerDeckGrid: SeatGridInput[][];
+  upperDeckGrid: SeatGridInput[][] | null;
+}
+
+// 2+2 seater: two seats, the aisle, two seats
+const seaterDeck = (rows: number): SeatGridInput[][] =>
+  Array.from({ length: rows }, (_, row) =>
+    [0, 1, null, 2, 3].map((position) => ({
+      seatNumber: position === null ? "" : String(row * 4 + position + 1),
+    }))
+  );
+
+// 2+1 sleeper: a double berth, the aisle, a single berth; berths run two
+// rows along the bus
+const sleeperDeck = (berthRows: number, prefix: string): SeatGridInput[][] =>
+  Array.from({ length: berthRows * 2 }, (_, row) =>
+    [0, 1, null, 2].map((position) => ({
+      seatNumber:
+        position === null
+          ? ""
+          : `${prefix}${Math.floor(row / 2) * 3 + position + 1}`,
+    }))
+  );
+
+const SYSTEM_TEMPLATES: LayoutTemplate[] = [
+  {
+    id: "system-2x2-seater",
+    name: "2+2 seater (40 seats)",
+    description: "Ten rows of 2+2 seats with a centre aisle",
+    isSystem: true,
+    gridRows: 10,
+    gridColumns: 5,
+    lowerDeckGrid: seaterDeck(10),
+    upperDeckGrid: null,
+  },
+  {
+    id: "system-2x1-sleeper",
+    name: "2+1 sleeper (36 berths)",
+    description: "Six rows of 2+1 berths on each deck",
+    isSystem: true,
+    gridRows: 12,
+    gridColumns: 4,
+    lowerDeckGrid: sleeperDeck(6, "L"),
+    upperDeckGrid: sleeperDeck(6, "U"),
+  },
+  {
+    id: "system-30-berth",
+    name: "30-berth sleeper",
+    description: "Five rows of 2+1 berths on each deck",
+    isSystem: true,
+    gridRows: 10,
+    gridColumns: 4,
+    lowerDeckGrid: sleeperDeck(5, "L"),
+    upperDeckGrid: sleeperDeck(5, "U"),
+  },
+];
+
+const fromStoredTemplate = (template: SeatLayoutTemplate): LayoutTemplate => ({
+  id: template.id,
+  name: template.name,
+  description: template.description,
+  isSystem: false,
+  gridRows: template.gridRows,
+  gridColumns: template.gridColumns,
+  lowerDeckGrid: template.lowerDeckGrid as unknown as SeatGridInput[][],
+  upperDeckGrid: template.upperDeckGrid as unknown as SeatGridInput[][] | null,
+});
+
+/**
+ * Built-in templates followed by the operator's own.
+ */
+export async function listLayoutTemplates(adminId: string) {
+  const own = await prisma.seatLayoutTemplate.findMany({
+    where: { adminId },
+    orderBy: { name: "asc" },
+  });
+
+  return [...SYSTEM_TEMPLATES, ...own.map(fromStoredTemplate)];
+}
+
+export async function getLayoutTemplate(adminId: string, templateId: string) {
+  const system = SYSTEM_TEMPLATES.find((t) => t.id === templateId);
+  if (system) {
+    return system;
+  }
+
+  const template = await prisma.seatLayoutTemplate.findUnique({
+    where: { id: templateId },
+  });
+
+  if (!template || template.adminId !== adminId) {
+    throw new SeatLayoutError("Layout template not found", 404);
+  }
+
+  return fromStoredTemplate(template);
+}
+
+/**
+ * Bus owned by the admin, with the seats on its layout.
+ */
+export async function findOwnedBusWithSeats(adminId: string, busId: string) {
+  const bus = await prisma.bus.findUnique({
+    where: { id: busId },
+    include: { seats: { where: { retiredAt: null } } },
+  });
+
+  if (!bus) {
+    throw new SeatLayoutError("Bus not found", 404);
+  }
+
+  if (bus.adminId !== adminId) {
+    throw new SeatLayoutError("Not authorized to modify this bus", 403);
+  }
+
+  return bus;
+}
+
+/**
+ * Save a layout as a template, either from the grids given or from the
+ * current seats of one of the operator's buses (`fromBusId`).
+ */
+export async function createLayoutTemplate(
+  adminId: string,
+  input: Record<string, unknown>
+) {
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name) {
+    throw new SeatLayoutError("Template name is required");
+  }
+
+  const description =
+    typeof input.description === "string" && input.description.trim()
+      ? input.description.trim()
+      : null;
+
+  let layout: SeatLayoutInput;
+
+  if (typeof input.fromBusId === "string") {
+    const bus = await findOwnedBusWithSeats(adminId, input.fromBusId);
+    const upperSeats = bus.seats.filter((seat) => seat.level === "UPPER");
+
+    layout = {
+      gridRows: bus.gridRows,
+      gridColumns: bus.gridColumns,
+      lowerDeckGrid: seatsToGrid(
+        bus.seats.filter((seat) => seat.level === "LOWER"),
+        bus.gridRows,
+        bus.gridColumns
+      ),
+      upperDeckGrid:
+        upperSeats.length > 0
+          ? seatsToGrid(upperSeats, bus.gridRows, bus.gridColumns)
+          : null,
+    };
+  } else {
+    const { gridRows, gridColumns } = input;
+    if (
+      !Number.isInteger(gridRows) ||
+      !Number.isInteger(gridColumns) ||
+      (gridRows as number) < 1 ||
+      (gridColumns as number) < 1
+    ) {
+      throw new SeatLayoutError(
+        "gridRows and gridColumns must be positive whole numbers"
+      );
+    }
+
+    layout = {
+      gridRows: gridRows as number,
+      gridColumns: gridColumns as number,
+      lowerDeckGrid: input.lowerDeckGrid as SeatGridInput[][],
+      upperDeckGrid: (input.upperDeckGrid as SeatGridInput[][]) ?? null,
+    };
+  }
+
+  if (parseSeatLayout(layout).seats.length === 0) {
+    throw new SeatLayoutError("The layout has no seats");
+  }
+
+  const existing = await prisma.seatLayoutTemplate.findUnique({
+    where: { adminId_name: { adminId, name } },
+  });
+  if (existing) {
+    throw new SeatLayoutError("A template with this name already exists", 409);
+  }
+
+  const template = await prisma.seatLayoutTemplate.create({
+    data: {
+      adminId,
+      name,
+      description,
+      gridRows: layout.gridRows,
+      gridColumns: layout.gridColumns,
+      lowerDeckGrid: layout.lowerDeckGrid as unknown as Prisma.InputJsonValue,
+      ...(layout.upperDeckGrid
+        ? {
+            upperDeckGrid:
+              layout.upperDeckGrid as unknown as Prisma.InputJsonValue,
+          }
+        : {}),
+    },
+  });
+
+  return fromStoredTemplate(template);
+}
+
+export async function deleteLayoutTemplate(
+  adminId: string,
+  templateId: string
+) {
+  if (SYSTEM_TEMPLATES.some((t) => t.id === templateId)) {
+    throw new SeatLayoutError("Built-in templates can't be deleted");
+  }
+
+  const { count } = await prisma.seatLayoutTemplate.deleteMany({
+    where: { id: templateId, adminId },
+  });
+
+  if (count === 0) {
+    throw new SeatLayoutError("Layout template not found", 404);
+  }
+}
+
+/**
+ * Put a template's layout on a bus, taking over its grid size and bus type.
+ * With `dryRun` only the plan against the current seats is returned.
+ */
+export async function applyLayoutTemplate(
+  adminId: string,
+  busId: string,
+  templateId: string,
+  options: { dryRun: boolean; movePassengers: boolean }
+) {
+  const template = await getLayoutTemplate(adminId, templateId);
+  const bus = await findOwnedBusWithSeats(adminId, busId);
+  const { seats } = parseSeatLayout(template);
+
+  if (options.dryRun) {
+    return {
+      applied: false,
+      ...(await planSeatLayoutChange(bus.id, seats)),
+      movedBookings: [],
+    };
+  }
+
+  const result = await saveSeatLayout(bus.id, seats, {
+    movePassengers: options.movePassengers,
+    bus: {
+      gridRows: template.gridRows,
+      gridColumns: template.gridColumns,
+      type: getBusTypeForSeats(seats),
+    },
+  });
+
+  return { applied: true, ...result };
+}
+
+export const serializeLayoutTemplate = (
+  template: LayoutTemplate,
+  withGrids = false
+) => {
+  const { lowerSeats, upperSeats, seats } = parseSeatLayout(template);
+
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    isSystem: template.isSystem,
+    gridRows: template.gridRows,
+    gridColumns: template.gridColumns,
+    busType: getBusTypeForSeats(seats),
+    totalSeats: seats.length,
+    lowerDeckSeats: lowerSeats.length,
+    upperDeckSeats: upperSeats.length,
+    ...(withGrids
+      ? {
+          lowerDeckGrid: template.lowerDeckGrid,
+          upperDeckGrid: template.upperDeckGrid,
+        }
+      : {}),
+  };
+};
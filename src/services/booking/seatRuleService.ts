@@ -0,0 +1,169 @@
+import type { Gender, Prisma, PrismaClient, Seat } from "@prisma/client";
+import { isSegmentOverlapping } from "./seatHoldService.js";
+import { ServiceError } from "../../lib/serviceError.js";
+
+type PrismaClientOrTransaction = PrismaClient | Prisma.TransactionClient;
+
+export class SeatRuleError extends ServiceError {}
+
+// Why a male passenger can't take a seat: it is reserved for women, or the
+// seat beside it is booked by a woman travelling without him
+export type SeatRestriction = "LADIES_ONLY" | "NEXT_TO_FEMALE";
+
+type GridSeat = Pick<
+  Seat,
+  "id" | "level" | "row" | "column" | "rowSpan" | "columnSpan"
+>;
+
+// A passenger already booked on the segment
+export interface SeatOccupant {
+  seatId: string;
+  gender: Gender | null;
+}
+
+/**
+ * Seats sitting right beside each other: same deck, same row and height, with
+ * no aisle (empty grid column) between them. Sleeper berths that span several
+ * columns touch where one ends and the next starts.
+ */
+export function getAdjacentSeatIds(seats: GridSeat[]) {
+  const adjacent = new Map<string, string[]>(
+    seats.map((seat) => [seat.id, []])
+  );
+
+  seats.forEach((seat) => {
+    const right = seats.find(
+      (other) =>
+        other.level === seat.level &&
+        other.row === seat.row &&
+        other.rowSpan === seat.rowSpan &&
+        other.column === seat.column + seat.columnSpan
+    );
+
+    if (right) {
+      adjacent.get(seat.id)?.push(right.id);
+      adjacent.get(right.id)?.push(seat.id);
+    }
+  });
+
+  return adjacent;
+}
+
+/**
+ * Passengers booked on the trip for a segment overlapping
+ * fromStopIndex → toStopIndex.
+ */
+export async function findSeatOccupants(
+  client: PrismaClientOrTransaction,
+  tripId: string,
+  fromStopIndex: number,
+  toStopIndex: number
+): Promise<SeatOccupant[]> {
+  const bookings = await client.booking.findMany({
+    where: { tripId, status: "CONFIRMED" },
+    select: {
+      seatId: true,
+      passenger: { select: { gender: true } },
+      group: {
+        select: {
+          fromStop: { select: { stopIndex: true } },
+          toStop: { select: { stopIndex: true } },
+        },
+      },
+    },
+  });
+
+  return bookings
+    .filter((booking) =>
+      isSegmentOverlapping(
+        fromStopIndex,
+        toStopIndex,
+        booking.group.fromStop.stopIndex,
+        booking.group.toStop.stopIndex
+      )
+    )
+    .map((booking) => ({
+      seatId: booking.seatId,
+      gender: booking.passenger?.gender ?? null,
+    }));
+}
+
+/**
+ * Restriction of every seat for a new booking, given who already sits where.
+ * Ladies-only seats are always restricted; seats beside a woman are only
+ * restricted on buses that enforce gender adjacency.
+ */
+export function getSeatRestrictions(
+  seats: Array<GridSeat & Pick<Seat, "isLadiesOnly">>,
+  occupants: SeatOccupant[],
+  enforceGenderAdjacency: boolean
+) {
+  const adjacent = getAdjacentSeatIds(seats);
+  const femaleSeatIds = new Set(
+    occupants
+      .filter((occupant) => occupant.gender === "FEMALE")
+      .map((occupant) => occupant.seatId)
+  );
+
+  const restrictions = new Map<string, SeatRestriction | null>();
+  seats.forEach((seat) => {
+    const besideFemale =
+      enforceGenderAdjacency &&
+      (adjacent.get(seat.id) ?? []).some((id) => femaleSeatIds.has(id));
+
+    restrictions.set(
+      seat.id,
+      seat.isLadiesOnly ? "LADIES_ONLY" : besideFemale ? "NEXT_TO_FEMALE" : null
+    );
+  });
+
+  return { adjacent, restrictions };
+}
+
+/**
+ * Check the passengers of a new booking against the bus's seat rules: only
+ * women in ladies-only seats, and, when the bus enforces adjacency, no man
+ * beside a woman booked separately. Passengers of the same booking may sit
+ * together freely.
+ */
+export function assertSeatRules(params: {
+  busSeats: Array<GridSeat & Pick<Seat, "seatNumber" | "isLadiesOnly">>;
+  occupants: SeatOccupant[];
+  enforceGenderAdjacency: boolean;
+  passengers: Array<{ seatId: string; name: string; gender: Gender }>;
+}) {
+  const { busSeats, occupants, enforceGenderAdjacency, passengers } = params;
+  const adjacent = getAdjacentSeatIds(busSeats);
+
+  passengers.forEach((passenger) => {
+    const seat = busSeats.find((s) => s.id === passenger.seatId);
+
+    if (seat?.isLadiesOnly && passenger.gender !== "FEMALE") {
+      throw new SeatRuleError(
+        `Seat ${seat.seatNumber} is reserved for female passengers`
+      );
+    }
+
+    if (!enforceGenderAdjacency || passenger.gender !== "MALE") {
+      return;
+    }
+
+    const femaleNeighbour = (adjacent.get(passenger.seatId) ?? []).find(
+      (neighbourId) =>
+        occupants.some(
+          (occupant) =>
+            occupant.seatId === neighbourId && occupant.gender === "FEMALE"
+        )
+    );
+
+    if (femaleNeighbour) {
+      throw new SeatRuleError(
+        `Seat ${
+          seat?.seatNumber ?? passenger.seatId
+        } is next to a female passenger travelling separately; please choose another seat for ${
+          passenger.name
+        }`
+      );
+    }
+  });
+}
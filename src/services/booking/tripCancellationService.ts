@@ -0,0 +1,209 @@
+import { prisma } from "../../lib/prisma.js";
+import { getBookingPaidShares } from "./cancellationService.js";
+import {
+  lockTripForSeatChanges,
+  releaseSeatHoldsForTrip,
+} from "./seatHoldService.js";
+import { cancelTripWaitlist } from "./waitlistService.js";
+import {
+  cancelTripGroupBookings,
+  refundGroupBookingPayments,
+} from "./groupBookingService.js";
+import { issueRefund, serializeRefund } from "../payment/refundService.js";
+import { notifyTripCancelled } from "../notificationService.js";
+import { sendTripCancellationEmail } from "../brevoEmailService.js";
+
+export interface TripCancellationOutcome {
+  bookingGroupId: string;
+  passenger: { id: string; name: string; email: string };
+  route: { from: string; to: string };
+  seatNumbers: string[];
+  refundAmount: number;
+  refund: ReturnType<typeof serializeRefund> | null;
+  refundError: string | null;
+  notified: boolean;
+  emailed: boolean;
+}
+
+/**
+ * Cancel a trip together with all of its confirmed bookings.
+ * Bookings are cancelled in one transaction; refunds, notifications and
+ * emails are then attempted per booking and reported individually so one
+ * failing gateway call doesn't block the rest.
+ */
+export async function cancelTripWithBookings(tripId: string) {
+  const cancelledAt = new Date();
+
+  const { trip, groups } = await prisma.$transaction(
+    async (tx) => {
+      await lockTripForSeatChanges(tx, tripId);
+
+      const trip = await tx.trip.update({
+        where: { id: tripId },
+        data: { status: "CANCELLED" },
+        include: { bus: { select: { name: true, busNumber: true } } },
+      });
+
+      const confirmedGroups = await tx.bookingGroup.findMany({
+        where: { tripId, status: "CONFIRMED" },
+        include: {
+          user: { select: { id: true, name: true, email: true } },
+          fromStop: { select: { name: true } },
+          toStop: { select: { name: true } },
+          bookings: {
+            include: { seat: { select: { seatNumber: true } } },
+          },
+          payment: { select: { id: true, metadata: true } },
+          itinerary: {
+            select: { payment: { select: { id: true, metadata: true } } },
+          },
+          groupBookingRequest: { select: { id: true, amountPaid: true } },
+        },
+      });
+
+      const groups = [];
+      for (const { itinerary, ...group } of confirmedGroups) {
+        // A connecting-journey leg is refunded from the journey's payment
+        const payment = group.payment ?? itinerary?.payment ?? null;
+        // Shares are computed over every seat in the group so seats the
+        // passenger already cancelled keep their own refund amounts
+        // A group booking may have paid only its deposit so far
+        const paidShares = group.groupBookingRequest
+          ? getBookingPaidShares(
+              {
+                ...group,
+                totalPrice: group.groupBookingRequest.amountPaid,
+                finalPrice: group.groupBookingRequest.amountPaid,
+              },
+              null
+            )
+          : getBookingPaidShares(group, payment?.metadata);
+        const activeBookings = group.bookings.filter(
+          (b) => b.status === "CONFIRMED"
+        );
+
+        for (const booking of activeBookings) {
+          await tx.booking.update({
+            where: { id: booking.id },
+            data: {
+              status: "CANCELLED",
+              cancelledAt,
+              refundAmount: paidShares[booking.id] ?? 0,
+            },
+          });
+        }
+
+        await tx.bookingGroup.update({
+          where: { id: group.id },
+          data: { status: "CANCELLED" },
+        });
+
+        groups.push({
+          ...group,
+          payment,
+          bookings: activeBookings,
+          refundAmount: activeBookings.reduce(
+            (sum, b) => sum + (paidShares[b.id] ?? 0),
+            0
+          ),
+        });
+      }
+
+      await releaseSeatHoldsForTrip(tx, tripId, "TRIP_CANCELLED");
+      await cancelTripWaitlist(tx, tripId);
+      await cancelTripGroupBookings(tx, tripId);
+
+      return { trip, groups };
+    },
+    {
+      maxWait: 10000,
+      timeout: 30000,
+    }
+  );
+
+  const tripDate = trip.tripDate.toISOString().split("T")[0] ?? "";
+  const outcomes: TripCancellationOutcome[] = [];
+
+  for (const group of groups) {
+    const refundAmount = Math.round(group.refundAmount * 100) / 100;
+    const seatNumbers = group.bookings.map((b) => b.seat.seatNumber);
+    const outcome: TripCancellationOutcome = {
+      bookingGroupId: group.id,
+      passenger: group.user,
+      route: { from: group.fromStop.name, to: group.toStop.name },
+      seatNumbers,
+      refundAmount,
+      refund: null,
+      refundError: null,
+      notified: false,
+      emailed: false,
+    };
+
+    if (group.groupBookingRequest && refundAmount > 0) {
+      // Deposit and balance are separate payments; refund both in full
+      const { refunds, errors } = await refundGroupBookingPayments(
+        group.groupBookingRequest.id,
+        "Trip cancelled by operator"
+      );
+      outcome.refund = refunds[0] ?? null;
+      outcome.refundError = errors[0] ?? null;
+    } else if (group.payment && refundAmount > 0) {
+      try {
+        const refund = await issueRefund({
+          paymentId: group.payment.id,
+          baseAmount: refundAmount,
+          bookingIds: group.bookings.map((b) => b.id),
+          reason: "Trip cancelled by operator",
+        });
+        outcome.refund = refund ? serializeRefund(refund) : null;
+        outcome.refundError = refund?.failureReason ?? null;
+      } catch (error: any) {
+        console.error(`Error refunding booking ${group.id}:`, error);
+        outcome.refundError = error?.message || "Refund failed";
+      }
+    } else if (!group.payment) {
+      outcome.refundError = "No payment recorded for this booking";
+    }
+
+    // In-app only: the cancellation email below carries the refund details
+    try {
+      await notifyTripCancelled(
+        group.user.id,
+        {
+          busName: trip.bus.name,
+          date: tripDate,
+          from: group.fromStop.name,
+          to: group.toStop.name,
+          bookingGroupId: group.id,
+          refundAmount,
+        },
+        { sendEmail: false }
+      );
+      outcome.notified = true;
+    } catch (error) {
+      console.error(`Error notifying user for booking ${group.id}:`, error);
+    }
+
+    try {
+      await sendTripCancellationEmail(group.user.email, group.user.name, {
+        bookingGroupId: group.id,
+        busName: trip.bus.name,
+        busNumber: trip.bus.busNumber,
+        tripDate,
+        fromStop: group.fromStop.name,
+        toStop: group.toStop.name,
+        seatNumbers,
+        refundAmount: outcome.refund?.amount ?? refundAmount,
+        refundCurrency: outcome.refund?.currency ?? "NPR",
+        refundStatus: outcome.refund?.status ?? "PENDING",
+      });
+      outcome.emailed = true;
+    } catch (error) {
+      console.error(`Error emailing user for booking ${group.id}:`, error);
+    }
+
+    outcomes.push(outcome);
+  }
+
+  return { trip, outcomes };
+}
@@ -0,0 +1,468 @@
+import type { Bus, Prisma, TripStatus } from "@prisma/client";
+import { getBookingConfig } from "../../config/bookingConfig.js";
+import { prisma } from "../../lib/prisma.js";
+import { ServiceError } from "../../lib/serviceError.js";
+import { pickRouteVersionForDate } from "./routeVersionService.js";
+
+export class TripGenerationError extends ServiceError {}
+
+type OperatingCalendar = Pick<
+  Bus,
+  "operatingDays" | "operatingFrom" | "operatingUntil"
+>;
+
+export type NonOperatingReason =
+  | "HOLIDAY"
+  | "OUT_OF_SEASON"
+  | "NOT_OPERATING_DAY";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_HORIZON_DAYS = 365;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const toDateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+// Today's local date at UTC midnight, the way trip dates are stored
+const todayTripDate = () => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
+};
+
+/**
+ * Why a bus doesn't run on a "YYYY-MM-DD" date under its operating calendar
+ * and holidays (given as date keys), or null when it runs.
+ */
+export function getNonOperatingReason(
+  calendar: OperatingCalendar,
+  dateKey: string,
+  holidayKeys: Set<string>
+): NonOperatingReason | null {
+  if (holidayKeys.has(dateKey)) {
+    return "HOLIDAY";
+  }
+
+  if (
+    (calendar.operatingFrom && dateKey < toDateKey(calendar.operatingFrom)) ||
+    (calendar.operatingUntil && dateKey > toDateKey(calendar.operatingUntil))
+  ) {
+    return "OUT_OF_SEASON";
+  }
+
+  const dayOfWeek = new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+  if (!calendar.operatingDays.includes(dayOfWeek)) {
+    return "NOT_OPERATING_DAY";
+  }
+
+  return null;
+}
+
+const horizonTripSelect = {
+  id: true,
+  tripDate: true,
+  scheduleId: true,
+  status: true,
+  isGenerated: true,
+  _count: {
+    select: {
+      bookingGroups: true,
+      seatHolds: true,
+      waitlist: true,
+      groupBookings: true,
+      seatBlocks: true,
+    },
+  },
+} as const;
+
+/**
+ * What the horizon of a bus should hold from today for `days` days, next to
+ * the trips it has: the departures each operating day needs (with their
+ * trip, if created) and the scheduled trips the calendar no longer wants.
+ * Those can be removed unless they have bookings, holds, a waitlist, group
+ * booking requests or seats blocked by the operator.
+ */
+export async function planTripHorizon(
+  busId: string,
+  days: number = getBookingConfig().tripGeneration.horizonDays
+) {
+  if (!Number.isInteger(days) || days < 1 || days > MAX_HORIZON_DAYS) {
+    throw new TripGenerationError(
+      `days must be a whole number from 1 to ${MAX_HORIZON_DAYS}`
+    );
+  }
+
+  const start = todayTripDate();
+  const end = new Date(start.getTime() + (days - 1) * DAY_MS);
+
+  const bus = await prisma.bus.findUnique({
+    where: { id: busId },
+    select: {
+      id: true,
+      adminId: true,
+      operatingDays: true,
+      operatingFrom: true,
+      operatingUntil: true,
+      schedules: {
+        where: { isActive: true },
+        orderBy: [{ direction: "asc" }, { departureTime: "asc" }],
+        select: { id: true, direction: true, departureTime: true, label: true },
+      },
+      holidays: {
+        where: { date: { gte: start, lte: end } },
+        select: { date: true },
+      },
+      routeVersions: {
+        select: { id: true, version: true, effectiveFrom: true },
+      },
+    },
+  });
+
+  if (!bus) {
+    throw new TripGenerationError("Bus not found", 404);
+  }
+
+  const trips = await prisma.trip.findMany({
+    where: { busId, tripDate: { gte: start, lte: end } },
+    select: horizonTripSelect,
+  });
+
+  const holidayKeys = new Set(bus.holidays.map((h) => toDateKey(h.date)));
+  const activeScheduleIds = new Set(bus.schedules.map((s) => s.id));
+
+  const planned = [];
+  for (let offset = 0; offset < days; offset++) {
+    const tripDate = new Date(start.getTime() + offset * DAY_MS);
+    const dateKey = toDateKey(tripDate);
+    const routeVersion = pickRouteVersionForDate(bus.routeVersions, dateKey);
+    const reason =
+      getNonOperatingReason(bus, dateKey, holidayKeys) ??
+      (routeVersion ? null : ("NO_ROUTE" as const));
+    const dayTrips = trips.filter((t) => toDateKey(t.tripDate) === dateKey);
+
+    // One trip per active schedule, or a single unscheduled trip
+    const schedules = reason
+      ? []
+      : bus.schedules.length > 0
+      ? bus.schedules
+      : [null];
+
+    const isWanted = (scheduleId: string | null) =>
+      !reason &&
+      (scheduleId === null
+        ? bus.schedules.length === 0
+        : activeScheduleIds.has(scheduleId));
+
+    planned.push({
+      tripDate,
+      dateKey,
+      reason,
+      routeVersion: reason ? null : routeVersion ?? null,
+      departures: schedules.map((schedule) => ({
+        schedule,
+        trip:
+          dayTrips.find((t) => t.scheduleId === (schedule?.id ?? null)) ?? null,
+      })),
+      // Trips the operator added by hand are never stale
+      staleTrips: dayTrips
+        .filter(
+          (t) =>
+            t.status === "SCHEDULED" && t.isGenerated && !isWanted(t.scheduleId)
+        )
+        .map((trip) => ({
+          trip,
+          removable:
+            trip._count.bookingGroups === 0 &&
+            trip._count.seatHolds === 0 &&
+            trip._count.waitlist === 0 &&
+            trip._count.groupBookings === 0 &&
+            trip._count.seatBlocks === 0,
+        })),
+    });
+  }
+
+  return { bus, start, end, days: planned };
+}
+
+export type TripHorizonPlan = Awaited<ReturnType<typeof planTripHorizon>>;
+
+/**
+ * Bring a bus's trips in line with its plan: create the missing departures
+ * and delete stale trips it generated that nobody has booked, held,
+ * waitlisted, asked a group booking for or blocked seats on.
+ */
+export async function regenerateTripHorizon(busId: string, days?: number) {
+  const plan = await planTripHorizon(busId, days);
+  let created = 0;
+
+  for (const day of plan.days) {
+    for (const { schedule, trip } of day.departures) {
+      if (trip || !day.routeVersion) {
+        continue;
+      }
+
+      const createdTrip = await createTripIfMissing({
+        busId,
+        scheduleId: schedule?.id ?? null,
+        routeVersionId: day.routeVersion.id,
+        tripDate: day.tripDate,
+        isGenerated: true,
+      });
+      if (createdTrip) {
+        created += 1;
+      }
+    }
+  }
+
+  const stale = plan.days.flatMap((day) => day.staleTrips);
+  const removableIds = stale.filter((s) => s.removable).map((s) => s.trip.id);
+
+  // Checked again here so a trip booked since planning is kept
+  const removed =
+    removableIds.length > 0
+      ? (
+          await prisma.trip.deleteMany({
+            where: {
+              id: { in: removableIds },
+              status: "SCHEDULED",
+              isGenerated: true,
+              bookingGroups: { none: {} },
+              seatHolds: { none: {} },
+              waitlist: { none: {} },
+              // Open group requests hold no seats until quoted
+              groupBookings: { none: {} },
+              seatBlocks: { none: {} },
+            },
+          })
+        ).count
+      : 0;
+
+  return { created, removed, kept: stale.length - removed };
+}
+
+type NewTrip = {
+  busId: string;
+  scheduleId: string | null;
+  routeVersionId: string;
+  tripDate: Date;
+  status?: TripStatus | undefined;
+  isGenerated?: boolean | undefined;
+};
+
+async function insertTripIfMissing(
+  tx: Prisma.TransactionClient,
+  data: NewTrip
+) {
+  await tx.$queryRaw`SELECT id FROM "Bus" WHERE id = ${data.busId} FOR UPDATE`;
+
+  const existing = await tx.trip.findFirst({
+    where: {
+      busId: data.busId,
+      scheduleId: data.scheduleId,
+      tripDate: data.tripDate,
+    },
+    select: { id: true },
+  });
+
+  if (existing) {
+    return null;
+  }
+
+  return tx.trip.create({
+    data: {
+      ...data,
+      status: data.status ?? "SCHEDULED",
+      isGenerated: data.isGenerated ?? false,
+    },
+  });
+}
+
+/**
+ * Create a departure's trip unless it already has one. Buses without
+ * schedules run one trip per day; the partial unique index that guarantees
+ * it can't be declared in schema.prisma, so it is also checked here under a
+ * lock on the bus. Returns null when the trip already exists.
+ * Given a transaction, the trip is created in it and a trip created meanwhile
+ * by another run fails it with P2002.
+ */
+export async function createTripIfMissing(
+  data: NewTrip,
+  tx?: Prisma.TransactionClient
+) {
+  if (tx) {
+    return insertTripIfMissing(tx, data);
+  }
+
+  try {
+    return await prisma.$transaction((tx) => insertTripIfMissing(tx, data));
+  } catch (e: any) {
+    // Created meanwhile by another run
+    if (e.code === "P2002") {
+      return null;
+    }
+    throw e;
+  }
+}
+
+/**
+ * Regenerate a bus's horizon after its calendar, holidays, schedules or route
+ * change. Failures are only logged; the periodic run catches up.
+ */
+export async function refreshTripHorizon(busId: string) {
+  try {
+    return await regenerateTripHorizon(busId);
+  } catch (error) {
+    console.error(`Error regenerating trips for bus ${busId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Regenerate the horizon of every bus.
+ */
+export async function generateAllTripHorizons() {
+  const buses = await prisma.bus.findMany({ select: { id: true } });
+  const totals = { buses: buses.length, created: 0, removed: 0, failed: 0 };
+
+  for (const bus of buses) {
+    try {
+      const result = await regenerateTripHorizon(bus.id);
+      totals.created += result.created;
+      totals.removed += result.removed;
+    } catch (error) {
+      totals.failed += 1;
+      console.error(`Error generating trips for bus ${bus.id}:`, error);
+    }
+  }
+
+  return totals;
+}
+
+const parseCalendarDate = (value: unknown, field: string) => {
+  if (value === null || value === "") {
+    return null;
+  }
+
+  const match = typeof value === "string" ? DATE_PATTERN.exec(value) : null;
+  if (!match) {
+    throw new TripGenerationError(`${field} must be a YYYY-MM-DD date`);
+  }
+
+  return new Date(
+    Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  );
+};
+
+/**
+ * Update a bus's operating calendar. Fields left out keep their value; a
+ * null season bound removes it.
+ */
+export async function updateOperatingCalendar(
+  busId: string,
+  input: {
+    operatingDays?: unknown;
+    operatingFrom?: unknown;
+    operatingUntil?: unknown;
+  }
+) {
+  const bus = await prisma.bus.findUnique({
+    where: { id: busId },
+    select: { operatingDays: true, operatingFrom: true, operatingUntil: true },
+  });
+
+  if (!bus) {
+    throw new TripGenerationError("Bus not found", 404);
+  }
+
+  const { operatingDays } = input;
+  if (
+    operatingDays !== undefined &&
+    (!Array.isArray(operatingDays) ||
+      operatingDays.length === 0 ||
+      operatingDays.some((d) => !Number.isInteger(d) || d < 0 || d > 6))
+  ) {
+    throw new TripGenerationError(
+      "operatingDays must list days of the week from 0 (Sunday) to 6 (Saturday)"
+    );
+  }
+
+  const calendar = {
+    operatingDays:
+      operatingDays === undefined
+        ? bus.operatingDays
+        : [...new Set(operatingDays as number[])].sort((a, b) => a - b),
+    operatingFrom:
+      input.operatingFrom === undefined
+        ? bus.operatingFrom
+        : parseCalendarDate(input.operatingFrom, "operatingFrom"),
+    operatingUntil:
+      input.operatingUntil === undefined
+        ? bus.operatingUntil
+        : parseCalendarDate(input.operatingUntil, "operatingUntil"),
+  };
+
+  if (
+    calendar.operatingFrom &&
+    calendar.operatingUntil &&
+    calendar.operatingFrom > calendar.operatingUntil
+  ) {
+    throw new TripGenerationError(
+      "operatingFrom must be on or before operatingUntil"
+    );
+  }
+
+  return prisma.bus.update({
+    where: { id: busId },
+    data: calendar,
+    select: { operatingDays: true, operatingFrom: true, operatingUntil: true },
+  });
+}
+
+export const serializeOperatingCalendar = (calendar: OperatingCalendar) => ({
+  operatingDays: calendar.operatingDays,
+  operatingFrom: calendar.operatingFrom
+    ? toDateKey(calendar.operatingFrom)
+    : null,
+  operatingUntil: calendar.operatingUntil
+    ? toDateKey(calendar.operatingUntil)
+    : null,
+});
+
+export const serializeTripHorizon = (plan: TripHorizonPlan) => {
+  const departures = plan.days.flatMap((day) => day.departures);
+  const stale = plan.days.flatMap((day) => day.staleTrips);
+
+  return {
+    from: toDateKey(plan.start),
+    to: toDateKey(plan.end),
+    calendar: serializeOperatingCalendar(plan.bus),
+    summary: {
+      operatingDays: plan.days.filter((day) => !day.reason).length,
+      existingTrips: departures.filter((d) => d.trip).length,
+      tripsToCreate: departures.filter((d) => !d.trip).length,
+      tripsToRemove: stale.filter((s) => s.removable).length,
+      // Stale trips that stay because they have bookings, holds, a waitlist,
+      // group booking requests or seat blocks
+      tripsToKeep: stale.filter((s) => !s.removable).length,
+    },
+    days: plan.days.map((day) => ({
+      date: day.dateKey,
+      operates: day.reason === null,
+      reason: day.reason,
+      routeVersion: day.routeVersion?.version ?? null,
+      departures: day.departures.map(({ schedule, trip }) => ({
+        scheduleId: schedule?.id ?? null,
+        label: schedule?.label ?? null,
+        direction: schedule?.direction ?? null,
+        departureTime: schedule?.departureTime ?? null,
+        tripId: trip?.id ?? null,
+        tripStatus: trip?.status ?? null,
+        action: trip ? "EXISTS" : "CREATE",
+      })),
+      staleTrips: day.staleTrips.map(({ trip, removable }) => ({
+        tripId: trip.id,
+        scheduleId: trip.scheduleId,
+        bookingCount: trip._count.bookingGroups,
+        action: removable ? "REMOVE" : "KEEP",
+      })),
+    })),
+  };
+};
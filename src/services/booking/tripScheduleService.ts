@@ -0,0 +1,296 @@
+import { TripDirection } from "@prisma/client";
+import type { BusSchedule, Stop } from "@prisma/client";
+import { prisma } from "../../lib/prisma.js";
+import { ServiceError } from "../../lib/serviceError.js";
+
+export class ScheduleError extends ServiceError {}
+
+type TimetableStop = Pick<
+  Stop,
+  | "stopIndex"
+  | "arrivalTime"
+  | "departureTime"
+  | "returnArrivalTime"
+  | "returnDepartureTime"
+>;
+
+type ScheduleTiming = Pick<BusSchedule, "direction" | "departureTime">;
+
+// Stop fields needed to work out a trip's timetable
+export const timetableStopSelect = {
+  stopIndex: true,
+  arrivalTime: true,
+  departureTime: true,
+  returnArrivalTime: true,
+  returnDepartureTime: true,
+} as const;
+
+const MINUTES_PER_DAY = 24 * 60;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export const isValidScheduleTime = (time: unknown): time is string =>
+  typeof time === "string" && TIME_PATTERN.test(time);
+
+export const parseTimeToMinutes = (time: string | null | undefined) => {
+  if (!time) {
+    return null;
+  }
+
+  const [hours, minutes] = time.split(":").map(Number);
+  if (
+    hours === undefined ||
+    minutes === undefined ||
+    Number.isNaN(hours) ||
+    Number.isNaN(minutes)
+  ) {
+    return null;
+  }
+
+  return hours * 60 + minutes;
+};
+
+const formatMinutes = (total: number) => {
+  const minutes =
+    ((total % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hh = String(Math.floor(minutes / 60)).padStart(2, "0");
+  const mm = String(minutes % 60).padStart(2, "0");
+  return `${hh}:${mm}`;
+};
+
+const shiftTime = (time: string | null, offsetMinutes: number) => {
+  const minutes = parseTimeToMinutes(time);
+  return minutes === null ? time : formatMinutes(minutes + offsetMinutes);
+};
+
+/**
+ * Whether a trip can carry passengers in the given direction. Unscheduled
+ * trips serve both directions; scheduled trips only their schedule's.
+ */
+export const tripServesDirection = (
+  schedule: Pick<BusSchedule, "direction"> | null | undefined,
+  isReturnTrip: boolean
+) =>
+  !schedule || (schedule.direction === TripDirection.RETURN) === isReturnTrip;
+
+/**
+ * Stop timings as they apply to a scheduled departure. The stop timetable is
+ * shifted so the first stop in the schedule's direction departs at the
+ * schedule's time; unscheduled trips get the stops back unchanged.
+ */
+export function applyScheduleToStops<T extends TimetableStop>(
+  stops: T[],
+  schedule: ScheduleTiming | null | undefined
+): T[] {
+  if (!schedule || stops.length === 0) {
+    return stops;
+  }
+
+  const isReturn = schedule.direction === TripDirection.RETURN;
+  const origin = stops.reduce((first, stop) =>
+    isReturn
+      ? stop.stopIndex > first.stopIndex
+        ? stop
+        : first
+      : stop.stopIndex < first.stopIndex
+      ? stop
+      : first
+  );
+
+  const baseDeparture = parseTimeToMinutes(
+    isReturn
+      ? origin.returnDepartureTime || origin.departureTime
+      : origin.departureTime
+  );
+  const scheduledDeparture = parseTimeToMinutes(schedule.departureTime) ?? 0;
+
+  return stops.map((stop) => {
+    // Without a timetable to shift, only the origin's departure is known
+    if (baseDeparture === null) {
+      if (stop.stopIndex !== origin.stopIndex) {
+        return stop;
+      }
+      return isReturn
+        ? { ...stop, returnDepartureTime: schedule.departureTime }
+        : { ...stop, departureTime: schedule.departureTime };
+    }
+
+    const offset = scheduledDeparture - baseDeparture;
+
+    if (isReturn) {
+      return {
+        ...stop,
+        returnArrivalTime: shiftTime(
+          stop.returnArrivalTime || stop.arrivalTime,
+          offset
+        ),
+        returnDepartureTime: shiftTime(
+          stop.returnDepartureTime || stop.departureTime,
+          offset
+        ),
+      };
+    }
+
+    return {
+      ...stop,
+      arrivalTime: shiftTime(stop.arrivalTime, offset),
+      departureTime: shiftTime(stop.departureTime, offset),
+    };
+  });
+}
+
+/**
+ * Scheduled timings for a single stop of a trip.
+ */
+export function applyScheduleToStop<T extends TimetableStop>(
+  stop: T,
+  stops: TimetableStop[],
+  schedule: ScheduleTiming | null | undefined
+): T {
+  if (!schedule) {
+    return stop;
+  }
+
+  const scheduled = applyScheduleToStops(stops, schedule).find(
+    (s) => s.stopIndex === stop.stopIndex
+  );
+
+  return scheduled
+    ? {
+        ...stop,
+        arrivalTime: scheduled.arrivalTime,
+        departureTime: scheduled.departureTime,
+        returnArrivalTime: scheduled.returnArrivalTime,
+        returnDepartureTime: scheduled.returnDepartureTime,
+      }
+    : stop;
+}
+
+/**
+ * Departure from the boarding stop and arrival at the destination for a
+ * journey on a trip, in its direction of travel.
+ */
+export function getJourneyTimes(
+  stops: TimetableStop[],
+  schedule: ScheduleTiming | null | undefined,
+  fromStopIndex: number,
+  toStopIndex: number
+) {
+  const scheduled = applyScheduleToStops(stops, schedule);
+  const from = scheduled.find((s) => s.stopIndex === fromStopIndex);
+  const to = scheduled.find((s) => s.stopIndex === toStopIndex);
+  const isReturnTrip = fromStopIndex > toStopIndex;
+
+  return {
+    departureTime:
+      (isReturnTrip
+        ? from?.returnDepartureTime || from?.departureTime
+        : from?.departureTime) ?? null,
+    arrivalTime:
+      (isReturnTrip
+        ? to?.returnArrivalTime || to?.arrivalTime
+        : to?.arrivalTime) ?? null,
+  };
+}
+
+// First time of day `minutes` falls on at or after `after` (both in minutes)
+const atOrAfter = (minutes: number, after: number) =>
+  after +
+  ((((minutes - after) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY);
+
+/**
+ * Departure and arrival of a journey on a trip, in minutes from midnight of
+ * the trip's date. Timetables only hold times of day, so each time is taken
+ * as the first one after the trip leaves its first stop: a bus leaving at
+ * 22:00 and arriving at 05:00 arrives the next morning. Null when the
+ * timetable lacks either time. `stops` must already be scheduled.
+ */
+export function getLegTiming(
+  stops: TimetableStop[],
+  fromStopIndex: number,
+  toStopIndex: number
+) {
+  const isReturnTrip = fromStopIndex > toStopIndex;
+  const departureOf = (stop: TimetableStop) =>
+    parseTimeToMinutes(
+      isReturnTrip
+        ? stop.returnDepartureTime || stop.departureTime
+        : stop.departureTime
+    );
+  const arrivalOf = (stop: TimetableStop) =>
+    parseTimeToMinutes(
+      isReturnTrip
+        ? stop.returnArrivalTime || stop.arrivalTime
+        : stop.arrivalTime
+    );
+
+  const from = stops.find((s) => s.stopIndex === fromStopIndex);
+  const to = stops.find((s) => s.stopIndex === toStopIndex);
+  const departure = from ? departureOf(from) : null;
+  const arrival = to ? arrivalOf(to) : null;
+
+  if (departure === null || arrival === null || stops.length === 0) {
+    return null;
+  }
+
+  const origin = stops.reduce((first, stop) =>
+    isReturnTrip
+      ? stop.stopIndex > first.stopIndex
+        ? stop
+        : first
+      : stop.stopIndex < first.stopIndex
+      ? stop
+      : first
+  );
+
+  const departsAt = atOrAfter(departure, departureOf(origin) ?? departure);
+  const arrivesAt = atOrAfter(arrival, departsAt);
+
+  return { departsAt, arrivesAt, duration: arrivesAt - departsAt };
+}
+
+/**
+ * Find the trip to act on for a bus and date. With several departures on the
+ * date the caller must say which one (by trip or schedule).
+ */
+export async function findTripForDate(
+  busId: string,
+  tripDate: Date,
+  selector: {
+    tripId?: string | undefined;
+    scheduleId?: string | undefined;
+  } = {}
+) {
+  const nextDay = new Date(tripDate.getTime() + 24 * 60 * 60 * 1000);
+
+  const trips = await prisma.trip.findMany({
+    where: {
+      busId,
+      tripDate: { gte: tripDate, lt: nextDay },
+      ...(selector.tripId ? { id: selector.tripId } : {}),
+      ...(selector.scheduleId ? { scheduleId: selector.scheduleId } : {}),
+    },
+    include: { schedule: true },
+  });
+
+  if (trips.length > 1) {
+    throw new ScheduleError(
+      "Several departures run on this date. Specify tripId or scheduleId.",
+      409
+    );
+  }
+
+  return trips[0] ?? null;
+}
+
+export const serializeSchedule = (
+  schedule: Pick<
+    BusSchedule,
+    "id" | "direction" | "departureTime" | "label" | "isActive"
+  >
+) => ({
+  id: schedule.id,
+  direction: schedule.direction,
+  departureTime: schedule.departureTime,
+  label: schedule.label,
+  isActive: schedule.isActive,
+});
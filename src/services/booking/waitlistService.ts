@@ -0,0 +1,685 @@
+import { WaitlistStatus } from "@prisma/client";
+import type { Prisma, PrismaClient, Trip } from "@prisma/client";
+import { prisma } from "../../lib/prisma.js";
+import { ServiceError } from "../../lib/serviceError.js";
+import { getBookingConfig } from "../../config/bookingConfig.js";
+import { notifyWaitlistOffer } from "../notificationService.js";
+import {
+  activeSeatHoldWhere,
+  findActiveSeatHolds,
+  findBlockedSeatIds,
+  getHeldSeatIds,
+  isSegmentOverlapping,
+  lockTripForSeatChanges,
+} from "./seatHoldService.js";
+import { findSeatOccupants, getSeatRestrictions } from "./seatRuleService.js";
+import { tripServesDirection } from "./tripScheduleService.js";
+
+type PrismaClientOrTransaction = PrismaClient | Prisma.TransactionClient;
+
+export class WaitlistError extends ServiceError {}
+
+export interface WaitlistOffer {
+  waitlistEntryId: string;
+  userId: string;
+  seatIds: string[];
+  seatNumbers: string[];
+  expiresAt: Date;
+}
+
+export const ACTIVE_WAITLIST_STATUSES = [
+  WaitlistStatus.WAITING,
+  WaitlistStatus.OFFERED,
+];
+
+export const isTripOpenForBooking = (
+  trip: Pick<Trip, "status" | "tripDate">
+) => {
+  if (trip.status !== "SCHEDULED" && trip.status !== "ONGOING") {
+    return false;
+  }
+
+  const tripDate = new Date(trip.tripDate);
+  tripDate.setHours(0, 0, 0, 0);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  return tripDate >= today;
+};
+
+/**
+ * Active seats of the trip's bus that nobody has booked or holds for a
+ * segment overlapping fromStopIndex → toStopIndex, and that the operator has
+ * not blocked on this trip, in layout order.
+ */
+export async function findFreeSeats(
+  client: PrismaClientOrTransaction,
+  trip: Pick<Trip, "id" | "busId">,
+  fromStopIndex: number,
+  toStopIndex: number
+) {
+  const [seats, bookings, holds, blockedSeatIds] = await Promise.all([
+    client.seat.findMany({
+      where: { busId: trip.busId, isActive: true },
+      select: {
+        id: true,
+        seatNumber: true,
+        level: true,
+        row: true,
+        column: true,
+        isLadiesOnly: true,
+      },
+      orderBy: [{ level: "asc" }, { row: "asc" }, { column: "asc" }],
+    }),
+    client.booking.findMany({
+      where: { tripId: trip.id, status: "CONFIRMED" },
+      select: {
+        seatId: true,
+        group: {
+          select: {
+            fromStop: { select: { stopIndex: true } },
+            toStop: { select: { stopIndex: true } },
+          },
+        },
+      },
+    }),
+    findActiveSeatHolds(client, trip.id),
+    findBlockedSeatIds(client, trip.id),
+  ]);
+
+  const blocked = getHeldSeatIds(holds, fromStopIndex, toStopIndex);
+  blockedSeatIds.forEach((seatId) => blocked.add(seatId));
+  bookings.forEach((booking) => {
+    if (
+      isSegmentOverlapping(
+        fromStopIndex,
+        toStopIndex,
+        booking.group.fromStop.stopIndex,
+        booking.group.toStop.stopIndex
+      )
+    ) {
+      blocked.add(booking.seatId);
+    }
+  });
+
+  return seats.filter((seat) => !blocked.has(seat.id));
+}
+
+/**
+ * Free seats to offer a waitlist entry, in layout order, or null when the
+ * segment can't seat it yet. Seats only a woman may take (ladies-only, or
+ * beside a woman on a bus that enforces gender adjacency) make up at most
+ * `femaleSeatCount` of them, so every offer can be booked.
+ */
+async function findOfferSeats(
+  client: PrismaClientOrTransaction,
+  trip: Pick<Trip, "id" | "busId">,
+  entry: {
+    fromStopIndex: number;
+    toStopIndex: number;
+    seatCount: number;
+    femaleSeatCount: number;
+  }
+) {
+  const { fromStopIndex, toStopIndex, seatCount, femaleSeatCount } = entry;
+  const [freeSeats, occupants, bus] = await Promise.all([
+    findFreeSeats(client, trip, fromStopIndex, toStopIndex),
+    findSeatOccupants(client, trip.id, fromStopIndex, toStopIndex),
+    client.bus.findUnique({
+      where: { id: trip.busId },
+      select: {
+        enforceGenderAdjacency: true,
+        seats: {
+          where: { isActive: true },
+          select: {
+            id: true,
+            level: true,
+            row: true,
+            column: true,
+            rowSpan: true,
+            columnSpan: true,
+            isLadiesOnly: true,
+          },
+        },
+      },
+    }),
+  ]);
+
+  const { restrictions } = getSeatRestrictions(
+    bus?.seats ?? [],
+    occupants,
+    bus?.enforceGenderAdjacency ?? false
+  );
+  const open = freeSeats.filter((seat) => !restrictions.get(seat.id));
+  const restricted = freeSeats.filter((seat) => restrictions.get(seat.id));
+
+  const openCount = Math.min(open.length, seatCount);
+  const restrictedCount = seatCount - openCount;
+  if (restrictedCount > Math.min(restricted.length, femaleSeatCount)) {
+    return null;
+  }
+
+  const chosen = new Set(
+    [...open.slice(0, openCount), ...restricted.slice(0, restrictedCount)].map(
+      (seat) => seat.id
+    )
+  );
+  return freeSeats.filter((seat) => chosen.has(seat.id));
+}
+
+/**
+ * Put a user on the waitlist of a trip segment. Only allowed when the segment
+ * can't currently seat `seatCount` passengers.
+ */
+export async function joinWaitlist(params: {
+  userId: string;
+  tripId: string;
+  fromStopId: string;
+  toStopId: string;
+  seatCount: number;
+  femaleSeatCount: number;
+}) {
+  const { userId, tripId, fromStopId, toStopId, seatCount, femaleSeatCount } =
+    params;
+
+  return prisma.$transaction(
+    async (tx) => {
+      await lockTripForSeatChanges(tx, tripId);
+
+      const trip = await tx.trip.findUnique({
+        where: { id: tripId },
+        include: {
+          schedule: true,
+          routeVersion: { include: { stops: true } },
+        },
+      });
+
+      if (!trip) {
+        throw new WaitlistError("Trip not found", 404);
+      }
+
+      if (!isTripOpenForBooking(trip)) {
+        throw new WaitlistError("Trip is not available for booking");
+      }
+
+      const fromStop = trip.routeVersion.stops.find((s) => s.id === fromStopId);
+      const toStop = trip.routeVersion.stops.find((s) => s.id === toStopId);
+
+      if (!fromStop || !toStop) {
+        throw new WaitlistError("Stops not found", 404);
+      }
+
+      if (fromStop.stopIndex === toStop.stopIndex) {
+        throw new WaitlistError("From and to stops cannot be the same");
+      }
+
+      if (
+        !tripServesDirection(
+          trip.schedule,
+          fromStop.stopIndex > toStop.stopIndex
+        )
+      ) {
+        throw new WaitlistError(
+          "This departure does not run in the selected direction"
+        );
+      }
+
+      const existing = await tx.waitlistEntry.findFirst({
+        where: { tripId, userId, status: { in: ACTIVE_WAITLIST_STATUSES } },
+      });
+
+      if (existing) {
+        throw new WaitlistError(
+          "You are already on the waitlist for this trip",
+          409
+        );
+      }
+
+      const offerSeats = await findOfferSeats(tx, trip, {
+        fromStopIndex: fromStop.stopIndex,
+        toStopIndex: toStop.stopIndex,
+        seatCount,
+        femaleSeatCount,
+      });
+
+      if (offerSeats) {
+        throw new WaitlistError(
+          "Seats are available on this trip. Please book them directly."
+        );
+      }
+
+      const entry = await tx.waitlistEntry.create({
+        data: {
+          tripId,
+          userId,
+          fromStopId,
+          toStopId,
+          seatCount,
+          femaleSeatCount,
+        },
+      });
+
+      const position = await tx.waitlistEntry.count({
+        where: {
+          tripId,
+          status: WaitlistStatus.WAITING,
+          createdAt: { lte: entry.createdAt },
+        },
+      });
+
+      return { entry, position };
+    },
+    {
+      maxWait: 10000,
+      timeout: 15000,
+    }
+  );
+}
+
+/**
+ * Offer freed seats on a trip to its waitlist. Lapsed offers are expired
+ * first, then waiting entries are visited oldest first and every entry whose
+ * segment has enough free seats gets a priority hold on them. An entry that
+ * doesn't fit yet keeps its place. Offered users are notified afterwards.
+ */
+export async function promoteWaitlist(tripId: string) {
+  const { trip, offers } = await prisma.$transaction(
+    async (tx) => {
+      await lockTripForSeatChanges(tx, tripId);
+      const now = new Date();
+
+      const lapsed = await tx.waitlistEntry.findMany({
+        where: {
+          tripId,
+          status: WaitlistStatus.OFFERED,
+          offerExpiresAt: { lte: now },
+        },
+        select: { id: true },
+      });
+
+      if (lapsed.length > 0) {
+        const lapsedIds = lapsed.map((entry) => entry.id);
+        await tx.waitlistEntry.updateMany({
+          where: { id: { in: lapsedIds } },
+          data: { status: WaitlistStatus.EXPIRED },
+        });
+        await tx.seatHold.updateMany({
+          where: { waitlistEntryId: { in: lapsedIds }, releasedAt: null },
+          data: { releasedAt: now, releaseReason: "EXPIRED" },
+        });
+      }
+
+      const trip = await tx.trip.findUnique({ where: { id: tripId } });
+      if (!trip || !isTripOpenForBooking(trip)) {
+        return { trip, offers: [] as WaitlistOffer[] };
+      }
+
+      const waiting = await tx.waitlistEntry.findMany({
+        where: { tripId, status: WaitlistStatus.WAITING },
+        orderBy: { createdAt: "asc" },
+        include: {
+          fromStop: { select: { stopIndex: true } },
+          toStop: { select: { stopIndex: true } },
+        },
+      });
+
+      const expiresAt = new Date(
+        now.getTime() + getBookingConfig().waitlist.offerTtlMinutes * 60 * 1000
+      );
+      const offers: WaitlistOffer[] = [];
+
+      for (const entry of waiting) {
+        const seats = await findOfferSeats(tx, trip, {
+          fromStopIndex: entry.fromStop.stopIndex,
+          toStopIndex: entry.toStop.stopIndex,
+          seatCount: entry.seatCount,
+          femaleSeatCount: entry.femaleSeatCount,
+        });
+
+        if (!seats) {
+          continue;
+        }
+
+        await tx.seatHold.createMany({
+          data: seats.map((seat) => ({
+            tripId,
+            seatId: seat.id,
+            userId: entry.userId,
+            waitlistEntryId: entry.id,
+            fromStopIndex: entry.fromStop.stopIndex,
+            toStopIndex: entry.toStop.stopIndex,
+            expiresAt,
+          })),
+        });
+
+        await tx.waitlistEntry.update({
+          where: { id: entry.id },
+          data: {
+            status: WaitlistStatus.OFFERED,
+            offeredAt: now,
+            offerExpiresAt: expiresAt,
+          },
+        });
+
+        offers.push({
+          waitlistEntryId: entry.id,
+          userId: entry.userId,
+          seatIds: seats.map((seat) => seat.id),
+          seatNumbers: seats.map((seat) => seat.seatNumber),
+          expiresAt,
+        });
+      }
+
+      return { trip, offers };
+    },
+    {
+      maxWait: 10000,
+      timeout: 30000,
+    }
+  );
+
+  if (trip && offers.length > 0) {
+    await notifyWaitlistOffers(trip, offers);
+  }
+
+  return offers;
+}
+
+async function notifyWaitlistOffers(trip: Trip, offers: WaitlistOffer[]) {
+  const [bus, entries] = await Promise.all([
+    prisma.bus.findUnique({
+      where: { id: trip.busId },
+      select: { name: true },
+    }),
+    prisma.waitlistEntry.findMany({
+      where: { id: { in: offers.map((offer) => offer.waitlistEntryId) } },
+      select: {
+        id: true,
+        fromStop: { select: { name: true } },
+        toStop: { select: { name: true } },
+      },
+    }),
+  ]);
+
+  for (const offer of offers) {
+    const entry = entries.find((e) => e.id === offer.waitlistEntryId);
+
+    try {
+      await notifyWaitlistOffer(offer.userId, {
+        waitlistEntryId: offer.waitlistEntryId,
+        tripId: trip.id,
+        busName: bus?.name ?? "",
+        date: trip.tripDate.toISOString().split("T")[0] ?? "",
+        from: entry?.fromStop.name ?? "",
+        to: entry?.toStop.name ?? "",
+        seatNumbers: offer.seatNumbers,
+        expiresAt: offer.expiresAt,
+      });
+    } catch (error) {
+      console.error(
+        `Error notifying waitlist entry ${offer.waitlistEntryId}:`,
+        error
+      );
+    }
+  }
+}
+
+/**
+ * Promote the waitlists of several trips. Failures are logged per trip so
+ * callers (cancellations, payment failures, the sweeper) never fail because
+ * of the waitlist. Returns the number of offers made.
+ */
+export async function promoteWaitlists(tripIds: string[]) {
+  let offered = 0;
+
+  for (const tripId of new Set(tripIds)) {
+    try {
+      offered += (await promoteWaitlist(tripId)).length;
+    } catch (error) {
+      console.error(`Error promoting waitlist for trip ${tripId}:`, error);
+    }
+  }
+
+  return offered;
+}
+
+/**
+ * A payment's seat holds were released (payment failed or was refunded).
+ */
+export async function promoteWaitlistsForPayment(paymentId: string) {
+  const holds = await prisma.seatHold.findMany({
+    where: { paymentId },
+    select: { tripId: true },
+    distinct: ["tripId"],
+  });
+
+  return promoteWaitlists(holds.map((hold) => hold.tripId));
+}
+
+/**
+ * Seats may have been freed on any upcoming trip of the bus (e.g. the
+ * operator re-enabled a seat).
+ */
+export async function promoteBusWaitlists(busId: string) {
+  const entries = await prisma.waitlistEntry.findMany({
+    where: { status: WaitlistStatus.WAITING, trip: { busId } },
+    select: { tripId: true },
+    distinct: ["tripId"],
+  });
+
+  return promoteWaitlists(entries.map((entry) => entry.tripId));
+}
+
+/**
+ * Periodic pass over every open waitlist: entries for trips that have left
+ * are expired, and trips with waiting users or lapsed offers are promoted.
+ * Catches seats freed by holds that expired on their own.
+ */
+export async function processPendingWaitlists() {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  await prisma.waitlistEntry.updateMany({
+    where: {
+      status: { in: ACTIVE_WAITLIST_STATUSES },
+      trip: { tripDate: { lt: today } },
+    },
+    data: { status: WaitlistStatus.EXPIRED },
+  });
+
+  const entries = await prisma.waitlistEntry.findMany({
+    where: {
+      OR: [
+        { status: WaitlistStatus.WAITING },
+        {
+          status: WaitlistStatus.OFFERED,
+          offerExpiresAt: { lte: new Date() },
+        },
+      ],
+    },
+    select: { tripId: true },
+    distinct: ["tripId"],
+  });
+
+  return promoteWaitlists(entries.map((entry) => entry.tripId));
+}
+
+/**
+ * The user booked seats on the trip: their open waitlist entries for an
+ * overlapping segment are done, and any seats still held for them by an
+ * offer are released. Runs inside the booking transaction.
+ */
+export async function completeWaitlistEntries(
+  tx: Prisma.TransactionClient,
+  params: {
+    tripId: string;
+    userId: string;
+    fromStopIndex: number;
+    toStopIndex: number;
+  }
+) {
+  const entries = await tx.waitlistEntry.findMany({
+    where: {
+      tripId: params.tripId,
+      userId: params.userId,
+      status: { in: ACTIVE_WAITLIST_STATUSES },
+    },
+    include: {
+      fromStop: { select: { stopIndex: true } },
+      toStop: { select: { stopIndex: true } },
+    },
+  });
+
+  const completedIds = entries
+    .filter((entry) =>
+      isSegmentOverlapping(
+        params.fromStopIndex,
+        params.toStopIndex,
+        entry.fromStop.stopIndex,
+        entry.toStop.stopIndex
+      )
+    )
+    .map((entry) => entry.id);
+
+  if (completedIds.length === 0) {
+    return 0;
+  }
+
+  await tx.waitlistEntry.updateMany({
+    where: { id: { in: completedIds } },
+    data: { status: WaitlistStatus.BOOKED },
+  });
+  await tx.seatHold.updateMany({
+    where: { waitlistEntryId: { in: completedIds }, releasedAt: null },
+    data: { releasedAt: new Date(), releaseReason: "CONFIRMED" },
+  });
+
+  return completedIds.length;
+}
+
+/**
+ * Close every open waitlist entry of a cancelled trip. Their holds are
+ * released together with the trip's other holds.
+ */
+export async function cancelTripWaitlist(
+  client: PrismaClientOrTransaction,
+  tripId: string
+) {
+  const result = await client.waitlistEntry.updateMany({
+    where: { tripId, status: { in: ACTIVE_WAITLIST_STATUSES } },
+    data: { status: WaitlistStatus.CANCELLED },
+  });
+
+  return result.count;
+}
+
+/**
+ * Take a user off a waitlist. Seats held by an open offer go to the next
+ * users in line.
+ */
+export async function leaveWaitlist(userId: string, waitlistEntryId: string) {
+  const entry = await prisma.$transaction(async (tx) => {
+    const entry = await tx.waitlistEntry.findUnique({
+      where: { id: waitlistEntryId },
+    });
+
+    if (!entry || entry.userId !== userId) {
+      throw new WaitlistError("Waitlist entry not found", 404);
+    }
+
+    if (!ACTIVE_WAITLIST_STATUSES.some((status) => status === entry.status)) {
+      throw new WaitlistError(
+        `Waitlist entry is already ${entry.status.toLowerCase()}`
+      );
+    }
+
+    await tx.seatHold.updateMany({
+      where: { waitlistEntryId, releasedAt: null },
+      data: { releasedAt: new Date(), releaseReason: "WAITLIST_CANCELLED" },
+    });
+
+    return tx.waitlistEntry.update({
+      where: { id: waitlistEntryId },
+      data: { status: WaitlistStatus.CANCELLED },
+    });
+  });
+
+  await promoteWaitlists([entry.tripId]);
+
+  return entry;
+}
+
+/**
+ * A user's waitlist entries, newest first, with their queue position while
+ * waiting and the seats held for them while an offer is open.
+ */
+export async function getUserWaitlist(userId: string) {
+  const entries = await prisma.waitlistEntry.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+    include: {
+      trip: {
+        select: {
+          id: true,
+          tripDate: true,
+          status: true,
+          bus: { select: { name: true, busNumber: true, type: true } },
+        },
+      },
+      fromStop: { select: { id: true, name: true, city: true } },
+      toStop: { select: { id: true, name: true, city: true } },
+      seatHolds: {
+        where: activeSeatHoldWhere(),
+        select: { seat: { select: { id: true, seatNumber: true } } },
+      },
+    },
+  });
+
+  return Promise.all(
+    entries.map(async (entry) => ({
+      ...serializeWaitlistEntry(entry),
+      position:
+        entry.status === WaitlistStatus.WAITING
+          ? await prisma.waitlistEntry.count({
+              where: {
+                tripId: entry.tripId,
+                status: WaitlistStatus.WAITING,
+                createdAt: { lte: entry.createdAt },
+              },
+            })
+          : null,
+      trip: {
+        tripId: entry.trip.id,
+        tripDate: entry.trip.tripDate.toISOString().split("T")[0],
+        tripStatus: entry.trip.status,
+      },
+      bus: entry.trip.bus,
+      route: { from: entry.fromStop, to: entry.toStop },
+      heldSeats: entry.seatHolds.map((hold) => hold.seat),
+    }))
+  );
+}
+
+export const serializeWaitlistEntry = (entry: {
+  id: string;
+  tripId: string;
+  fromStopId: string;
+  toStopId: string;
+  seatCount: number;
+  femaleSeatCount: number;
+  status: WaitlistStatus;
+  offeredAt: Date | null;
+  offerExpiresAt: Date | null;
+  createdAt: Date;
+}) => ({
+  id: entry.id,
+  tripId: entry.tripId,
+  fromStopId: entry.fromStopId,
+  toStopId: entry.toStopId,
+  seatCount: entry.seatCount,
+  femaleSeatCount: entry.femaleSeatCount,
+  status: entry.status,
+  offeredAt: entry.offeredAt,
+  offerExpiresAt: entry.offerExpiresAt,
+  createdAt: entry.createdAt,
+});
@@ -190,3 +190,98 @@ export async function sendBookingConfirmationEmail(
     throw new Error("Failed to send booking confirmation email");
   }
 }
+
+/**
+ * Send trip cancellation email (operator cancelled the trip) via Brevo
+ */
+export async function sendTripCancellationEmail(
+  userEmail: string,
+  userName: string,
+  details: {
+    bookingGroupId: string;
+    busName: string;
+    busNumber: string;
+    tripDate: string;
+    fromStop: string;
+    toStop: string;
+    seatNumbers: string[];
+    refundAmount: number;
+    refundCurrency: string;
+    refundStatus: string;
+  }
+): Promise<void> {
+  const tripDateDual = getDualDateForPDF(details.tripDate);
+
+  const refundMessage =
+    details.refundStatus === "PROCESSED"
+      ? `A full refund of <strong>${details.refundCurrency} ${details.refundAmount}</strong> has been issued to your original payment method.`
+      : `A full refund of <strong>${details.refundCurrency} ${details.refundAmount}</strong> has been initiated and will reach your original payment method within 5-7 business days.`;
+
+  const htmlContent = `
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background: #f9fafc; padding: 20px; border-radius: 10px;">
+    <div style="text-align: center; margin-bottom: 20px;">
+      <h2 style="color: #007bff; margin: 0;">Go Gantabya 🚍</h2>
+      <p style="color: #666; font-size: 14px;">Your Journey Partner</p>
+    </div>
+
+    <div style="background: white; padding: 20px; border-radius: 8px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
+      <h3 style="color: #333; border-bottom: 2px solid #d32f2f; padding-bottom: 10px;">Trip Cancelled</h3>
+
+      <p style="color: #555;">Dear <strong>${userName}</strong>,</p>
+      <p style="color: #555;">We're sorry, the operator has cancelled the following trip and your booking has been cancelled.</p>
+
+      <div style="background: #fff4f4; padding: 15px; border-radius: 5px; margin: 15px 0;">
+        <p style="margin: 5px 0;"><strong>Bus:</strong> ${details.busName} (${
+    details.busNumber
+  })</p>
+        <p style="margin: 5px 0;"><strong>Date (AD):</strong> ${
+          tripDateDual.ad
+        }</p>
+        <p style="margin: 5px 0;"><strong>Date (BS):</strong> ${
+          tripDateDual.bs
+        }</p>
+        <p style="margin: 5px 0;"><strong>Route:</strong> ${
+          details.fromStop
+        } → ${details.toStop}</p>
+        <p style="margin: 5px 0;"><strong>Seats:</strong> ${details.seatNumbers.join(
+          ", "
+        )}</p>
+        <p style="margin: 5px 0;"><strong>Booking ID:</strong> ${
+          details.bookingGroupId
+        }</p>
+      </div>
+
+      <p style="color: #555;">${refundMessage}</p>
+
+      <div style="border-top: 1px solid #ddd; margin-top: 20px; padding-top: 15px;">
+        <p style="color: #999; font-size: 12px; margin: 5px 0;">We apologise for the inconvenience.</p>
+        <p style="color: #999; font-size: 12px; margin: 5px 0;">- Team Go Gantabya</p>
+      </div>
+    </div>
+
+    <div style="text-align: center; margin-top: 20px; color: #999; font-size: 11px;">
+      <p>This is an automated email. Please do not reply.</p>
+    </div>
+  </div>
+  `;
+
+  try {
+    const sendSmtpEmail = new brevo.SendSmtpEmail();
+    sendSmtpEmail.subject = `Trip Cancelled - ${details.busName} | Go Gantabya`;
+    sendSmtpEmail.htmlContent = htmlContent;
+    sendSmtpEmail.sender = {
+      name: process.env.BREVO_SENDER_NAME || "Go Gantabya",
+      email: process.env.BREVO_SENDER_EMAIL || "noreply@gogantabya.com",
+    };
+    sendSmtpEmail.to = [{ email: userEmail, name: userName }];
+
+    const response = await apiInstance.sendTransacEmail(sendSmtpEmail);
+    console.log(
+      "Trip cancellation email sent successfully:",
+      (response as any).messageId || "Email sent"
+    );
+  } catch (error) {
+    console.error("Error sending trip cancellation email via Brevo:", error);
+    throw new Error("Failed to send trip cancellation email");
+  }
+}
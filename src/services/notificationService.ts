@@ -1,4 +1,4 @@
-import { prisma } from "../index.js";
+import { prisma } from "../lib/prisma.js";
 import { sendGmail } from "../user/sendmail.js";
 
 export interface NotificationData {
@@ -9,6 +9,9 @@ export interface NotificationData {
     | "TRIP_CANCELLED"
     | "OFFER_APPLIED"
     | "TRIP_REMINDER"
+    | "WAITLIST_OFFER"
+    | "GROUP_BOOKING_UPDATE"
+    | "SEAT_CHANGED"
     | "GENERAL";
   title: string;
   message: string;
@@ -152,23 +155,31 @@ export async function notifyBookingConfirmed(
 export async function notifyBookingCancelled(
   userId: string,
   bookingGroupId: string,
-  refundAmount: number
+  refundAmount: number,
+  seatNumbers?: string[]
 ) {
+  const seatInfo =
+    seatNumbers && seatNumbers.length > 0
+      ? ` (Seats: ${seatNumbers.join(", ")})`
+      : "";
+
   return createNotification({
     userId,
     type: "BOOKING_CANCELLED",
     title: "Booking Cancelled",
-    message: `Your booking has been cancelled successfully. Refund amount: ₹${refundAmount} will be processed within 5-7 business days.`,
+    message: `Your booking${seatInfo} has been cancelled successfully. Refund amount: ₹${refundAmount} will be processed within 5-7 business days.`,
     metadata: {
       bookingGroupId,
       refundAmount,
+      seatNumbers,
     },
     sendEmail: true,
   });
 }
 
 /**
- * Create notification for trip cancellation by admin
+ * Create notification for trip cancellation by admin. Also emailed unless
+ * `sendEmail` is false.
  */
 export async function notifyTripCancelled(
   userId: string,
@@ -177,7 +188,10 @@ export async function notifyTripCancelled(
     date: string;
     from: string;
     to: string;
-  }
+    bookingGroupId?: string;
+    refundAmount?: number;
+  },
+  options: { sendEmail?: boolean } = {}
 ) {
   return createNotification({
     userId,
@@ -185,6 +199,93 @@ export async function notifyTripCancelled(
     title: "Trip Cancelled by Operator",
     message: `Unfortunately, the trip ${tripDetails.busName} scheduled for ${tripDetails.date} (${tripDetails.from} to ${tripDetails.to}) has been cancelled. Full refund will be initiated automatically.`,
     metadata: tripDetails,
+    sendEmail: options.sendEmail ?? true,
+  });
+}
+
+/**
+ * Create notification for seats offered to a waitlisted user
+ */
+export async function notifyWaitlistOffer(
+  userId: string,
+  offerDetails: {
+    waitlistEntryId: string;
+    tripId: string;
+    busName: string;
+    date: string;
+    from: string;
+    to: string;
+    seatNumbers: string[];
+    expiresAt: Date;
+  }
+) {
+  const expiresAt = offerDetails.expiresAt.toLocaleTimeString("en-US", {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+  return createNotification({
+    userId,
+    type: "WAITLIST_OFFER",
+    title: "Seats Available From Your Waitlist",
+    message: `Seats ${offerDetails.seatNumbers.join(", ")} on ${
+      offerDetails.busName
+    } (${offerDetails.from} to ${offerDetails.to}) on ${
+      offerDetails.date
+    } are being held for you. Complete your booking before ${expiresAt} or they will be offered to the next passenger.`,
+    metadata: offerDetails,
+    sendEmail: true,
+  });
+}
+
+/**
+ * Create notification for a change to a group booking request (quoted,
+ * rejected, paid or cancelled)
+ */
+export async function notifyGroupBookingUpdate(
+  userId: string,
+  update: {
+    groupBookingRequestId: string;
+    status: string;
+    title: string;
+    message: string;
+  }
+) {
+  return createNotification({
+    userId,
+    type: "GROUP_BOOKING_UPDATE",
+    title: update.title,
+    message: update.message,
+    metadata: {
+      groupBookingRequestId: update.groupBookingRequestId,
+      status: update.status,
+    },
+    sendEmail: true,
+  });
+}
+
+/**
+ * Create notification for a passenger moved to another seat after the
+ * operator changed the bus layout
+ */
+export async function notifySeatChanged(
+  userId: string,
+  change: {
+    bookingId: string;
+    bookingGroupId: string;
+    busName: string;
+    date: string;
+    passengerName: string;
+    fromSeatNumber: string;
+    toSeatNumber: string;
+  }
+) {
+  return createNotification({
+    userId,
+    type: "SEAT_CHANGED",
+    title: "Your Seat Has Changed",
+    message: `The operator changed the seat layout of ${change.busName}. ${change.passengerName}'s seat on ${change.date} is now ${change.toSeatNumber} (was ${change.fromSeatNumber}). Your fare is unchanged.`,
+    metadata: change,
     sendEmail: true,
   });
 }
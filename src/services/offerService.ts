@@ -1,4 +1,5 @@
-import { prisma } from "../index.js";
+import { prisma } from "../lib/prisma.js";
+import { handleServiceError, ServiceError } from "../lib/serviceError.js";
 import { DiscountType, OfferCreatorRole, Prisma } from "@prisma/client";
 
 export interface OfferPayload {
@@ -19,14 +20,7 @@ export interface OfferActor {
   role: OfferCreatorRole;
 }
 
-class OfferValidationError extends Error {
-  statusCode: number;
-
-  constructor(message: string, statusCode = 400) {
-    super(message);
-    this.statusCode = statusCode;
-  }
-}
+class OfferValidationError extends ServiceError {}
 
 function ensurePositiveNumber(
   value: number | null | undefined,
@@ -215,10 +209,6 @@ export function mapOfferWithUsage(offer: any) {
 }
 
 export function handleOfferError(error: unknown, res: any) {
-  if (error instanceof OfferValidationError) {
-    return res.status(error.statusCode).json({ errorMessage: error.message });
-  }
-
   if (error instanceof Prisma.PrismaClientKnownRequestError) {
     if (error.code === "P2002") {
       return res
@@ -227,6 +217,5 @@ export function handleOfferError(error: unknown, res: any) {
     }
   }
 
-  console.error("Offer operation failed:", error);
-  return res.status(500).json({ errorMessage: "Failed to process offer" });
+  return handleServiceError(error, res, "Failed to process offer");
 }
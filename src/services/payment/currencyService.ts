@@ -1,5 +1,5 @@
 import { CurrencyCode, PaymentMethod } from "@prisma/client";
-import { getPaymentConfig } from "../../config/paymentConfig.js";
+import { getCurrencyConfig } from "../../config/paymentConfig.js";
 
 type ConversionResult = {
   baseAmount: number;
@@ -13,12 +13,12 @@ export const calculatePaymentAmounts = (
   method: PaymentMethod,
   amountInNpr: number
 ): ConversionResult => {
-  const config = getPaymentConfig();
+  const config = getCurrencyConfig();
   const baseCurrency = CurrencyCode.NPR;
   const roundedBase = roundToTwo(amountInNpr);
 
   if (method === PaymentMethod.RAZORPAY) {
-    const rate = config.currency.razorpayConversionRate;
+    const rate = config.razorpayConversionRate;
     const amountInInr = roundToTwo(roundedBase * rate);
 
     return {
@@ -38,6 +38,21 @@ export const calculatePaymentAmounts = (
   };
 };
 
+/**
+ * Convert an NPR amount into the currency a payment was charged in, using the
+ * exchange rate locked in when the payment was created.
+ */
+export const convertBaseToChargedAmount = (
+  payment: { chargedCurrency: CurrencyCode; exchangeRate: number | null },
+  amountInNpr: number
+) => {
+  if (payment.chargedCurrency === CurrencyCode.NPR || !payment.exchangeRate) {
+    return roundToTwo(amountInNpr);
+  }
+
+  return roundToTwo(amountInNpr * payment.exchangeRate);
+};
+
 export const convertToMinorUnits = (amount: number, currency: CurrencyCode) => {
   if (currency === CurrencyCode.INR) {
     // Razorpay expects amount in paise (INR * 100)
@@ -0,0 +1,212 @@
+import { PaymentStatus, RefundStatus } from "@prisma/client";
+import { prisma } from "../../lib/prisma.js";
+import {
+  BookingConfirmationError,
+  confirmPaymentBooking,
+  sendBookingConfirmation,
+} from "../booking/bookingConfirmationService.js";
+import {
+  confirmGroupBookingPayment,
+  sendGroupBookingPaymentConfirmation,
+} from "../booking/groupBookingService.js";
+import { releaseSeatHoldsForPayment } from "../booking/seatHoldService.js";
+import { promoteWaitlistsForPayment } from "../booking/waitlistService.js";
+import { issueRefund } from "./refundService.js";
+
+export type SettlementSource = "WEBHOOK" | "RECONCILIATION";
+
+export type SettlementOutcome =
+  | "BOOKING_CONFIRMED"
+  | "ALREADY_CONFIRMED"
+  | "REFUNDED"
+  | "MARKED_FAILED"
+  | "IGNORED";
+
+export interface SettlementResult {
+  paymentId: string;
+  outcome: SettlementOutcome;
+  bookingGroupId?: string;
+  refundId?: string;
+  message?: string;
+}
+
+/**
+ * The gateway reports the payment as paid: mark it SUCCESS and create its
+ * booking. If the seats can no longer be booked the full amount is refunded.
+ * Repeated calls for the same payment are harmless.
+ */
+export async function settleSuccessfulPayment(
+  paymentId: string,
+  params: {
+    source: SettlementSource;
+    gatewayPaymentId?: string | null | undefined;
+    details?: Record<string, unknown> | undefined;
+  }
+): Promise<SettlementResult> {
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    include: { refunds: { select: { status: true } } },
+  });
+
+  if (!payment) {
+    return { paymentId, outcome: "IGNORED", message: "Payment not found" };
+  }
+
+  // A payment being refunded because its booking failed must not book later
+  const isBeingRefunded =
+    !payment.bookingGroupId &&
+    payment.refunds.some((r) => r.status !== RefundStatus.FAILED);
+
+  if (payment.status === PaymentStatus.REFUNDED || isBeingRefunded) {
+    return {
+      paymentId,
+      outcome: "IGNORED",
+      message: "Payment has already been refunded",
+    };
+  }
+
+  if (payment.status !== PaymentStatus.SUCCESS) {
+    await prisma.payment.update({
+      where: { id: paymentId },
+      data: {
+        status: PaymentStatus.SUCCESS,
+        gatewayPaymentId: params.gatewayPaymentId ?? payment.gatewayPaymentId,
+        metadata: {
+          ...(payment.metadata as any),
+          settlement: {
+            status: "SUCCESS",
+            source: params.source,
+            settledAt: new Date().toISOString(),
+            ...(params.details ?? {}),
+          },
+        },
+      },
+    });
+  }
+
+  try {
+    if (payment.groupBookingRequestId) {
+      return await settleGroupBookingPayment(paymentId);
+    }
+
+    const result = await confirmPaymentBooking(paymentId);
+
+    if (result.alreadyConfirmed) {
+      return {
+        paymentId,
+        outcome: "ALREADY_CONFIRMED",
+        bookingGroupId: result.bookingGroup.id,
+      };
+    }
+
+    try {
+      await sendBookingConfirmation(payment.userId, result);
+    } catch (notificationError) {
+      console.error(
+        "Error sending booking confirmation after settlement:",
+        notificationError
+      );
+    }
+
+    return {
+      paymentId,
+      outcome: "BOOKING_CONFIRMED",
+      bookingGroupId: result.bookingGroup.id,
+    };
+  } catch (error) {
+    if (!(error instanceof BookingConfirmationError)) {
+      throw error;
+    }
+
+    // Paid but the booking can't be created (seats taken, trip cancelled...)
+    await releaseSeatHoldsForPayment(prisma, paymentId, "PAYMENT_FAILED");
+    await promoteWaitlistsForPayment(paymentId);
+    const refund = await issueRefund({
+      paymentId,
+      reason: `Booking could not be created: ${error.message}`,
+    });
+
+    return {
+      paymentId,
+      outcome: "REFUNDED",
+      message: error.message,
+      ...(refund ? { refundId: refund.id } : {}),
+    };
+  }
+}
+
+/**
+ * Apply a paid group booking deposit or balance to its request.
+ */
+async function settleGroupBookingPayment(
+  paymentId: string
+): Promise<SettlementResult> {
+  const result = await confirmGroupBookingPayment(paymentId);
+  const bookingGroupId = result.request.bookingGroupId;
+
+  if (!result.alreadyConfirmed) {
+    await sendGroupBookingPaymentConfirmation(result);
+  }
+
+  return {
+    paymentId,
+    outcome: result.alreadyConfirmed
+      ? "ALREADY_CONFIRMED"
+      : "BOOKING_CONFIRMED",
+    ...(bookingGroupId ? { bookingGroupId } : {}),
+  };
+}
+
+/**
+ * The gateway reports the payment as failed. Only payments still waiting for
+ * a result are moved to FAILED; a later success always wins.
+ */
+export async function settleFailedPayment(
+  paymentId: string,
+  params: {
+    source: SettlementSource;
+    reason?: string | undefined;
+    details?: Record<string, unknown> | undefined;
+  }
+): Promise<SettlementResult> {
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+  });
+
+  if (!payment) {
+    return { paymentId, outcome: "IGNORED", message: "Payment not found" };
+  }
+
+  if (payment.status !== PaymentStatus.INITIATED) {
+    return {
+      paymentId,
+      outcome: "IGNORED",
+      message: `Payment is already ${payment.status}`,
+    };
+  }
+
+  await prisma.payment.update({
+    where: { id: paymentId },
+    data: {
+      status: PaymentStatus.FAILED,
+      metadata: {
+        ...(payment.metadata as any),
+        settlement: {
+          status: "FAILED",
+          source: params.source,
+          reason: params.reason ?? null,
+          settledAt: new Date().toISOString(),
+          ...(params.details ?? {}),
+        },
+      },
+    },
+  });
+  await releaseSeatHoldsForPayment(prisma, paymentId, "PAYMENT_FAILED");
+  await promoteWaitlistsForPayment(paymentId);
+
+  return {
+    paymentId,
+    outcome: "MARKED_FAILED",
+    ...(params.reason ? { message: params.reason } : {}),
+  };
+}
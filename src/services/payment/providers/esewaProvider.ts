@@ -0,0 +1,223 @@
+import crypto from "crypto";
+import axios from "axios";
+import { PaymentMethod, RefundStatus } from "@prisma/client";
+import { getEsewaConfig } from "../../../config/paymentConfig.js";
+import type { PaymentProvider } from "./types.js";
+
+const signFields = (secretKey: string, fields: Array<[string, string]>) => {
+  // eSewa v2 signature: concatenate values in the exact order of signed_field_names
+  // Format: "total_amount={value},transaction_uuid={value},product_code={value}"
+  const signaturePayload = fields
+    .map(([name, value]) => `${name}=${value}`)
+    .join(",");
+
+  return crypto
+    .createHmac("sha256", secretKey)
+    .update(signaturePayload)
+    .digest("base64");
+};
+
+export const esewaProvider: PaymentProvider = {
+  method: PaymentMethod.ESEWA,
+
+  async createOrder({ amount }) {
+    const config = getEsewaConfig();
+    const transactionUuid = `rb-${Date.now()}-${Math.random()
+      .toString(36)
+      .slice(2, 10)}`;
+    const totalAmountStr = amount.toFixed(2);
+
+    const signature = signFields(config.secretKey, [
+      ["total_amount", totalAmountStr],
+      ["transaction_uuid", transactionUuid],
+      ["product_code", config.productCode],
+    ]);
+
+    return {
+      gatewayOrderId: transactionUuid,
+      gatewayMeta: {
+        formUrl: config.endpoint,
+        params: {
+          amount: totalAmountStr,
+          tax_amount: "0",
+          total_amount: totalAmountStr,
+          transaction_uuid: transactionUuid,
+          product_code: config.productCode,
+          product_service_charge: "0",
+          product_delivery_charge: "0",
+          success_url: config.successUrl,
+          failure_url: config.failureUrl,
+          signed_field_names: "total_amount,transaction_uuid,product_code",
+          signature,
+        },
+      },
+    };
+  },
+
+  attachPaymentId(paymentId, gatewayMeta) {
+    const config = getEsewaConfig();
+
+    return {
+      ...gatewayMeta,
+      params: {
+        ...gatewayMeta.params,
+        // Use path parameters instead of query parameters to avoid issues with eSewa appending ?data=...
+        success_url: `${config.successUrl}/${paymentId}`,
+        failure_url: `${config.failureUrl}/${paymentId}`,
+        payment_id: paymentId,
+      },
+    };
+  },
+
+  getCheckoutDetails(gatewayMeta) {
+    return {
+      message: "Payment initiation data for eSewa",
+      form: gatewayMeta,
+    };
+  },
+
+  async verify(payment, input) {
+    if (!input.esewaRefId) {
+      return { status: "INVALID", reason: "Missing eSewa reference ID" };
+    }
+
+    const config = getEsewaConfig();
+    const verificationPayload = {
+      product_code: config.productCode,
+      total_amount: payment.chargedAmount.toFixed(2),
+      transaction_uuid: payment.gatewayOrderId,
+    };
+
+    let verificationStatus: "SUCCESS" | "FAILED" = "FAILED";
+
+    try {
+      const response = await axios.get(config.verificationEndpoint, {
+        params: verificationPayload,
+        headers: {
+          Accept: "application/json",
+        },
+      });
+
+      const statusValue =
+        response?.data?.status ||
+        response?.data?.state ||
+        response?.data?.result;
+
+      if (typeof statusValue === "string") {
+        const normalized = statusValue.toUpperCase();
+        if (["SUCCESS", "COMPLETED", "COMPLETE", "OK"].includes(normalized)) {
+          verificationStatus = "SUCCESS";
+        }
+      }
+    } catch (verificationError) {
+      console.error("eSewa verification error:", verificationError);
+    }
+
+    return {
+      status: verificationStatus,
+      gatewayPaymentId: input.esewaRefId,
+      verification: {
+        status: verificationStatus,
+        payload: verificationPayload,
+      },
+      reason: "eSewa payment verification failed",
+    };
+  },
+
+  async refund(payment, refund) {
+    const config = getEsewaConfig();
+
+    if (!config.refundEndpoint) {
+      return {
+        status: RefundStatus.PENDING,
+        response: { manual: true },
+      };
+    }
+
+    const refundAmountStr = refund.amount.toFixed(2);
+    const signature = signFields(config.secretKey, [
+      ["refund_amount", refundAmountStr],
+      ["transaction_uuid", payment.gatewayOrderId ?? ""],
+      ["product_code", config.productCode],
+    ]);
+
+    try {
+      const response = await axios.post(
+        config.refundEndpoint,
+        {
+          product_code: config.productCode,
+          transaction_uuid: payment.gatewayOrderId,
+          ref_id: payment.gatewayPaymentId,
+          refund_amount: refundAmountStr,
+          refund_uuid: refund.id,
+          signed_field_names: "refund_amount,transaction_uuid,product_code",
+          signature,
+        },
+        { headers: { Accept: "application/json" } }
+      );
+
+      const statusValue = response?.data?.status || response?.data?.state;
+      const normalized =
+        typeof statusValue === "string" ? statusValue.toUpperCase() : "";
+
+      if (
+        ["SUCCESS", "COMPLETE", "COMPLETED", "REFUNDED"].includes(normalized)
+      ) {
+        return {
+          status: RefundStatus.PROCESSED,
+          gatewayRefundId: response.data?.refund_id ?? response.data?.ref_id,
+          response: response.data,
+        };
+      }
+
+      if (["FAILED", "FAILURE", "REJECTED"].includes(normalized)) {
+        return {
+          status: RefundStatus.FAILED,
+          failureReason: response.data?.message || "eSewa rejected the refund",
+          response: response.data,
+        };
+      }
+
+      return { status: RefundStatus.PENDING, response: response.data };
+    } catch (error: any) {
+      console.error("eSewa refund error:", error);
+      return {
+        status: RefundStatus.FAILED,
+        failureReason: error?.message || "eSewa refund failed",
+      };
+    }
+  },
+
+  async lookupStatus(payment) {
+    const config = getEsewaConfig();
+
+    const response = await axios.get(config.verificationEndpoint, {
+      params: {
+        product_code: config.productCode,
+        total_amount: payment.chargedAmount.toFixed(2),
+        transaction_uuid: payment.gatewayOrderId,
+      },
+      headers: {
+        Accept: "application/json",
+      },
+    });
+
+    const gatewayStatus = String(
+      response?.data?.status || response?.data?.state || "UNKNOWN"
+    ).toUpperCase();
+
+    if (gatewayStatus === "COMPLETE" || gatewayStatus === "COMPLETED") {
+      return {
+        state: "PAID",
+        gatewayStatus,
+        gatewayPaymentId: response.data?.ref_id ?? null,
+      };
+    }
+
+    if (gatewayStatus === "PENDING" || gatewayStatus === "AMBIGUOUS") {
+      return { state: "PENDING", gatewayStatus };
+    }
+
+    return { state: "FAILED", gatewayStatus };
+  },
+};
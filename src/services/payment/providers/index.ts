@@ -0,0 +1,32 @@
+import { PaymentMethod } from "@prisma/client";
+import { getMockPaymentConfig } from "../../../config/paymentConfig.js";
+import { esewaProvider } from "./esewaProvider.js";
+import { mockProvider } from "./mockProvider.js";
+import { razorpayProvider } from "./razorpayProvider.js";
+import type { PaymentProvider } from "./types.js";
+import { ServiceError } from "../../../lib/serviceError.js";
+
+export class PaymentProviderError extends ServiceError {}
+
+const providers: Record<PaymentMethod, PaymentProvider> = {
+  [PaymentMethod.RAZORPAY]: razorpayProvider,
+  [PaymentMethod.ESEWA]: esewaProvider,
+  [PaymentMethod.MOCK]: mockProvider,
+};
+
+/**
+ * Provider for a payment method. MOCK is only available when mock payments
+ * are enabled, so it can't be selected in production.
+ */
+export function getPaymentProvider(method: PaymentMethod): PaymentProvider {
+  if (method === PaymentMethod.MOCK && !getMockPaymentConfig().enabled) {
+    throw new PaymentProviderError("Mock payments are not enabled");
+  }
+
+  const provider = providers[method];
+  if (!provider) {
+    throw new PaymentProviderError(`Unsupported payment method ${method}`);
+  }
+
+  return provider;
+}
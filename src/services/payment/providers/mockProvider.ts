@@ -0,0 +1,102 @@
+import crypto from "crypto";
+import { PaymentMethod, RefundStatus } from "@prisma/client";
+import type { Payment } from "@prisma/client";
+import {
+  getMockPaymentConfig,
+  type MockPaymentOutcome,
+} from "../../../config/paymentConfig.js";
+import type { GatewayStatusLookup, PaymentProvider } from "./types.js";
+
+const randomId = (prefix: string) =>
+  `${prefix}_${crypto.randomBytes(8).toString("hex")}`;
+
+/**
+ * Resolve what the simulated gateway reports for a payment right now.
+ * DELAYED payments stay pending until the settlement delay has passed.
+ */
+const resolveMockState = (payment: Payment): GatewayStatusLookup => {
+  const gatewayMeta = (payment.metadata as any)?.gatewayMeta ?? {};
+  const outcome: MockPaymentOutcome = gatewayMeta.outcome ?? "SUCCESS";
+  const gatewayPaymentId = `mock_pay_${payment.id}`;
+
+  if (outcome === "FAILURE") {
+    return { state: "FAILED", gatewayStatus: "failed" };
+  }
+
+  if (outcome === "DELAYED") {
+    const settlesAt = new Date(gatewayMeta.settlesAt ?? payment.createdAt);
+    if (Date.now() < settlesAt.getTime()) {
+      return { state: "PENDING", gatewayStatus: "pending", gatewayPaymentId };
+    }
+  }
+
+  return { state: "PAID", gatewayStatus: "captured", gatewayPaymentId };
+};
+
+/**
+ * Simulated gateway for local development and tests. Never makes network
+ * calls; the outcome is chosen per payment or by MOCK_PAYMENT_OUTCOME.
+ */
+export const mockProvider: PaymentProvider = {
+  method: PaymentMethod.MOCK,
+
+  async createOrder({ amount, currency, mockOutcome }) {
+    const config = getMockPaymentConfig();
+    const outcome = mockOutcome ?? config.defaultOutcome;
+    const orderId = randomId("mock_order");
+    const settlesAt =
+      outcome === "DELAYED"
+        ? new Date(Date.now() + config.settlementDelaySeconds * 1000)
+        : new Date();
+
+    return {
+      gatewayOrderId: orderId,
+      gatewayMeta: {
+        orderId,
+        amount,
+        currency,
+        outcome,
+        settlesAt: settlesAt.toISOString(),
+      },
+    };
+  },
+
+  getCheckoutDetails(gatewayMeta) {
+    return {
+      message: "Payment initiated via mock gateway",
+      orderId: gatewayMeta.orderId,
+      mockOutcome: gatewayMeta.outcome,
+      settlesAt: gatewayMeta.settlesAt,
+    };
+  },
+
+  async verify(payment) {
+    const lookup = resolveMockState(payment);
+
+    if (lookup.state === "PENDING") {
+      return {
+        status: "PENDING",
+        reason: "Mock payment has not settled yet",
+      };
+    }
+
+    return {
+      status: lookup.state === "PAID" ? "SUCCESS" : "FAILED",
+      gatewayPaymentId: lookup.gatewayPaymentId ?? null,
+      verification: { status: lookup.gatewayStatus, mock: true },
+      reason: "Mock payment failed",
+    };
+  },
+
+  async refund() {
+    return {
+      status: RefundStatus.PROCESSED,
+      gatewayRefundId: randomId("mock_rfnd"),
+      response: { mock: true },
+    };
+  },
+
+  async lookupStatus(payment) {
+    return resolveMockState(payment);
+  },
+};
@@ -0,0 +1,147 @@
+import crypto from "crypto";
+import Razorpay from "razorpay";
+import { PaymentMethod, RefundStatus } from "@prisma/client";
+import { getRazorpayConfig } from "../../../config/paymentConfig.js";
+import { convertToMinorUnits } from "../currencyService.js";
+import type { PaymentProvider } from "./types.js";
+
+const createClient = () => {
+  const config = getRazorpayConfig();
+  return new Razorpay({
+    key_id: config.keyId,
+    key_secret: config.keySecret,
+  });
+};
+
+export const razorpayProvider: PaymentProvider = {
+  method: PaymentMethod.RAZORPAY,
+
+  async createOrder({ amount, currency, notes }) {
+    const config = getRazorpayConfig();
+    const order = await createClient().orders.create({
+      amount: convertToMinorUnits(amount, currency),
+      currency: config.currency,
+      receipt: `rb-${Date.now()}`,
+      notes,
+    });
+
+    return {
+      gatewayOrderId: order.id,
+      gatewayMeta: {
+        orderId: order.id,
+        currency: order.currency,
+        amount: order.amount,
+        razorpayKeyId: config.keyId,
+      },
+    };
+  },
+
+  getCheckoutDetails(gatewayMeta) {
+    return {
+      message: "Payment initiated via Razorpay",
+      orderId: gatewayMeta.orderId,
+      razorpayKeyId: gatewayMeta.razorpayKeyId,
+    };
+  },
+
+  async verify(payment, input) {
+    const { razorpayOrderId, razorpayPaymentId, razorpaySignature } = input;
+
+    if (!razorpayOrderId || !razorpayPaymentId || !razorpaySignature) {
+      return {
+        status: "INVALID",
+        reason: "Missing Razorpay verification fields",
+      };
+    }
+
+    if (payment.gatewayOrderId !== razorpayOrderId) {
+      return { status: "INVALID", reason: "Razorpay order ID mismatch" };
+    }
+
+    const expectedSignature = crypto
+      .createHmac("sha256", getRazorpayConfig().keySecret)
+      .update(`${razorpayOrderId}|${razorpayPaymentId}`)
+      .digest("hex");
+
+    return {
+      status: expectedSignature === razorpaySignature ? "SUCCESS" : "FAILED",
+      gatewayPaymentId: razorpayPaymentId,
+      gatewaySignature: razorpaySignature,
+      reason: "Invalid Razorpay signature",
+    };
+  },
+
+  async refund(payment, refund) {
+    if (!payment.gatewayPaymentId) {
+      return {
+        status: RefundStatus.FAILED,
+        failureReason: "Payment has no Razorpay payment ID",
+      };
+    }
+
+    try {
+      const response = await createClient().payments.refund(
+        payment.gatewayPaymentId,
+        {
+          amount: convertToMinorUnits(refund.amount, refund.currency),
+          receipt: refund.id,
+          notes: {
+            paymentId: payment.id,
+            reason: refund.reason ?? "",
+          },
+        }
+      );
+
+      const status =
+        response.status === "processed"
+          ? RefundStatus.PROCESSED
+          : response.status === "failed"
+          ? RefundStatus.FAILED
+          : RefundStatus.PENDING;
+
+      return { status, gatewayRefundId: response.id, response };
+    } catch (error: any) {
+      console.error("Razorpay refund error:", error);
+      return {
+        status: RefundStatus.FAILED,
+        failureReason:
+          error?.error?.description ||
+          error?.message ||
+          "Razorpay refund failed",
+      };
+    }
+  },
+
+  async lookupStatus(payment) {
+    if (!payment.gatewayOrderId) {
+      return { state: "FAILED", gatewayStatus: "NO_ORDER" };
+    }
+
+    const razorpay = createClient();
+    const order = await razorpay.orders.fetch(payment.gatewayOrderId);
+    const { items } = await razorpay.orders.fetchPayments(
+      payment.gatewayOrderId
+    );
+
+    const captured = items.find((p) => p.status === "captured");
+    if (captured || order.status === "paid") {
+      return {
+        state: "PAID",
+        gatewayStatus: "paid",
+        gatewayPaymentId: captured?.id ?? null,
+      };
+    }
+
+    // Authorized payments are captured (or auto-refunded) by Razorpay later
+    const authorized = items.find((p) => p.status === "authorized");
+    if (authorized) {
+      return {
+        state: "PENDING",
+        gatewayStatus: "authorized",
+        gatewayPaymentId: authorized.id,
+      };
+    }
+
+    return { state: "FAILED", gatewayStatus: order.status };
+  },
+};
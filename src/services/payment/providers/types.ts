@@ -0,0 +1,86 @@
+import type {
+  CurrencyCode,
+  Payment,
+  PaymentMethod,
+  Refund,
+  RefundStatus,
+} from "@prisma/client";
+import type { MockPaymentOutcome } from "../../../config/paymentConfig.js";
+
+export interface CreateOrderParams {
+  amount: number; // In the charged currency
+  currency: CurrencyCode;
+  notes: Record<string, string>;
+  mockOutcome?: MockPaymentOutcome | undefined;
+}
+
+export interface CreatedOrder {
+  gatewayOrderId: string;
+  gatewayMeta: Record<string, any>;
+}
+
+/**
+ * Fields the client sends back after checkout; each provider reads its own.
+ */
+export interface VerificationInput {
+  razorpayOrderId?: string | undefined;
+  razorpayPaymentId?: string | undefined;
+  razorpaySignature?: string | undefined;
+  esewaRefId?: string | undefined;
+}
+
+export type VerificationResult =
+  | {
+      status: "SUCCESS" | "FAILED";
+      gatewayPaymentId?: string | null;
+      gatewaySignature?: string | null;
+      verification?: Record<string, unknown>;
+      reason?: string;
+    }
+  // Gateway hasn't settled yet; the payment stays INITIATED
+  | { status: "PENDING"; reason: string }
+  // The request itself is wrong (missing fields, mismatched order)
+  | { status: "INVALID"; reason: string };
+
+export interface GatewayRefundResult {
+  status: RefundStatus;
+  gatewayRefundId?: string | null;
+  failureReason?: string | null;
+  response?: unknown;
+}
+
+/**
+ * What the gateway says happened to a payment, normalised across gateways.
+ * PENDING means the gateway hasn't reached a final state yet.
+ */
+export interface GatewayStatusLookup {
+  state: "PAID" | "FAILED" | "PENDING";
+  gatewayStatus: string;
+  gatewayPaymentId?: string | null;
+}
+
+export interface PaymentProvider {
+  method: PaymentMethod;
+  createOrder(params: CreateOrderParams): Promise<CreatedOrder>;
+  /**
+   * Update the order data once the Payment row exists (e.g. callback URLs
+   * that carry the payment ID).
+   */
+  attachPaymentId?(
+    paymentId: string,
+    gatewayMeta: Record<string, any>
+  ): Record<string, any>;
+  /**
+   * What the client needs to open the gateway's checkout.
+   */
+  getCheckoutDetails(gatewayMeta: Record<string, any>): {
+    message: string;
+    [key: string]: unknown;
+  };
+  verify(
+    payment: Payment,
+    input: VerificationInput
+  ): Promise<VerificationResult>;
+  refund(payment: Payment, refund: Refund): Promise<GatewayRefundResult>;
+  lookupStatus(payment: Payment): Promise<GatewayStatusLookup>;
+}
@@ -0,0 +1,216 @@
+import { PaymentMethod, PaymentStatus, Prisma } from "@prisma/client";
+import type { Payment } from "@prisma/client";
+import { prisma } from "../../lib/prisma.js";
+import { getReconciliationConfig } from "../../config/paymentConfig.js";
+import { getPaymentProvider } from "./providers/index.js";
+import type { GatewayStatusLookup } from "./providers/types.js";
+import {
+  settleFailedPayment,
+  settleSuccessfulPayment,
+} from "./paymentSettlementService.js";
+import type { SettlementOutcome } from "./paymentSettlementService.js";
+
+export interface ReconciliationEntry {
+  paymentId: string;
+  method: PaymentMethod;
+  gatewayOrderId: string | null;
+  createdAt: Date;
+  recordedStatus: PaymentStatus;
+  hasBooking: boolean;
+  gatewayStatus: string | null;
+  discrepancy: string | null;
+  action: SettlementOutcome | "NONE" | "ERROR";
+  bookingGroupId?: string;
+  refundId?: string;
+  message?: string;
+}
+
+export interface ReconciliationReport {
+  startedAt: Date;
+  finishedAt: Date;
+  dryRun: boolean;
+  thresholdMinutes: number;
+  checked: number;
+  discrepancies: number;
+  entries: ReconciliationEntry[];
+}
+
+/**
+ * Group booking balance payments never own the booking group (the deposit
+ * does), so once applied they count as booked.
+ */
+const isAppliedGroupBookingPayment = (payment: Payment) =>
+  !!payment.groupBookingRequestId &&
+  !!(payment.metadata as any)?.groupBooking?.appliedAt;
+
+const describeDiscrepancy = (
+  payment: Payment,
+  lookup: GatewayStatusLookup | null
+) => {
+  if (
+    payment.status === PaymentStatus.SUCCESS &&
+    !payment.bookingGroupId &&
+    !isAppliedGroupBookingPayment(payment)
+  ) {
+    return "Payment succeeded but no booking was created";
+  }
+
+  if (!lookup) {
+    return null;
+  }
+
+  if (lookup.state === "PAID") {
+    return `Gateway reports the payment as paid (${lookup.gatewayStatus}) but it is recorded as ${payment.status}`;
+  }
+
+  if (lookup.state === "FAILED") {
+    return `Gateway reports the payment as not paid (${lookup.gatewayStatus}) but it is still ${payment.status}`;
+  }
+
+  return null;
+};
+
+async function reconcilePayment(
+  payment: Payment,
+  dryRun: boolean
+): Promise<ReconciliationEntry> {
+  const entry: ReconciliationEntry = {
+    paymentId: payment.id,
+    method: payment.method,
+    gatewayOrderId: payment.gatewayOrderId,
+    createdAt: payment.createdAt,
+    recordedStatus: payment.status,
+    hasBooking: !!payment.bookingGroupId,
+    gatewayStatus: null,
+    discrepancy: null,
+    action: "NONE",
+  };
+
+  try {
+    // SUCCESS payments were already verified with the gateway; they only
+    // need their booking created
+    const lookup =
+      payment.status === PaymentStatus.INITIATED
+        ? await getPaymentProvider(payment.method).lookupStatus(payment)
+        : null;
+
+    entry.gatewayStatus = lookup?.gatewayStatus ?? null;
+    entry.discrepancy = describeDiscrepancy(payment, lookup);
+
+    if (dryRun || !entry.discrepancy) {
+      return entry;
+    }
+
+    const result =
+      payment.status === PaymentStatus.SUCCESS || lookup?.state === "PAID"
+        ? await settleSuccessfulPayment(payment.id, {
+            source: "RECONCILIATION",
+            gatewayPaymentId: lookup?.gatewayPaymentId,
+            details: { gatewayStatus: lookup?.gatewayStatus ?? null },
+          })
+        : await settleFailedPayment(payment.id, {
+            source: "RECONCILIATION",
+            reason: `Gateway status ${lookup?.gatewayStatus}`,
+          });
+
+    entry.action = result.outcome;
+    if (result.bookingGroupId) entry.bookingGroupId = result.bookingGroupId;
+    if (result.refundId) entry.refundId = result.refundId;
+    if (result.message) entry.message = result.message;
+  } catch (error: any) {
+    console.error(`Error reconciling payment ${payment.id}:`, error);
+    entry.action = "ERROR";
+    entry.message =
+      error?.error?.description || error?.message || "Reconciliation failed";
+  }
+
+  return entry;
+}
+
+/**
+ * Check payments that have been INITIATED (or paid without a booking) for
+ * longer than the threshold against their gateway and settle them: mark them
+ * failed, create the booking when the seats are still free, or refund.
+ * Payments never checked come first, then those checked longest ago; one
+ * checked within the threshold waits, so payments the gateway still reports
+ * as pending don't fill every batch.
+ * With `dryRun` nothing is changed and only the report is produced.
+ */
+export async function reconcileStuckPayments(
+  options: {
+    thresholdMinutes?: number | undefined;
+    limit?: number | undefined;
+    dryRun?: boolean | undefined;
+  } = {}
+): Promise<ReconciliationReport> {
+  const config = getReconciliationConfig();
+  const thresholdMinutes = options.thresholdMinutes ?? config.thresholdMinutes;
+  const limit = options.limit ?? config.batchSize;
+  const dryRun = options.dryRun ?? false;
+
+  const startedAt = new Date();
+  const cutoff = new Date(startedAt.getTime() - thresholdMinutes * 60 * 1000);
+
+  const payments = await prisma.payment.findMany({
+    where: {
+      updatedAt: { lt: cutoff },
+      AND: [
+        {
+          OR: [
+            { status: PaymentStatus.INITIATED },
+            // Paid without a booking, unless it was already refunded instead
+            // or applied to a group booking
+            {
+              status: PaymentStatus.SUCCESS,
+              bookingGroupId: null,
+              refunds: { none: {} },
+              OR: [
+                { groupBookingRequestId: null },
+                {
+                  metadata: {
+                    path: ["groupBooking", "appliedAt"],
+                    equals: Prisma.AnyNull,
+                  },
+                },
+              ],
+            },
+          ],
+        },
+        {
+          OR: [
+            { lastReconciledAt: null },
+            { lastReconciledAt: { lt: cutoff } },
+          ],
+        },
+      ],
+    },
+    orderBy: [
+      { lastReconciledAt: { sort: "asc", nulls: "first" } },
+      { createdAt: "asc" },
+    ],
+    take: limit,
+  });
+
+  // Recorded up front so a payment whose check throws still moves back
+  if (!dryRun && payments.length > 0) {
+    await prisma.payment.updateMany({
+      where: { id: { in: payments.map((payment) => payment.id) } },
+      data: { lastReconciledAt: startedAt },
+    });
+  }
+
+  const entries: ReconciliationEntry[] = [];
+  for (const payment of payments) {
+    entries.push(await reconcilePayment(payment, dryRun));
+  }
+
+  return {
+    startedAt,
+    finishedAt: new Date(),
+    dryRun,
+    thresholdMinutes,
+    checked: entries.length,
+    discrepancies: entries.filter((e) => e.discrepancy).length,
+    entries,
+  };
+}
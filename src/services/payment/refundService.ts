@@ -0,0 +1,397 @@
+import { GroupStatus, PaymentStatus, RefundStatus } from "@prisma/client";
+import type { Payment, Prisma, Refund } from "@prisma/client";
+import { prisma } from "../../lib/prisma.js";
+import { ServiceError } from "../../lib/serviceError.js";
+import { convertBaseToChargedAmount } from "./currencyService.js";
+import { getPaymentProvider, PaymentProviderError } from "./providers/index.js";
+import type { GatewayRefundResult } from "./providers/types.js";
+
+export class RefundError extends ServiceError {}
+
+const roundToTwo = (value: number) =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+// Refunds that have been or may still be paid out count against the payment
+const isOutstandingOrPaid = (refund: Pick<Refund, "status">) =>
+  refund.status !== RefundStatus.FAILED;
+
+// A PENDING refund without a gateway ID touched this recently may still be
+// on its way to the gateway, so it isn't sent again yet
+const IN_FLIGHT_MS = 5 * 60 * 1000;
+
+/**
+ * Lock the payment row so refunds against it are created, retried and
+ * settled one at a time. Must be called inside a transaction.
+ */
+async function lockPayment(tx: Prisma.TransactionClient, paymentId: string) {
+  await tx.$queryRaw`SELECT id FROM "Payment" WHERE id = ${paymentId} FOR UPDATE`;
+}
+
+/**
+ * Filter for the payment a booking group was paid with: its own, or the
+ * payment of the connecting journey it is a leg of.
+ */
+export const paymentForBookingGroupWhere = (
+  bookingGroupId: string
+): Prisma.PaymentWhereInput => ({
+  OR: [
+    { bookingGroupId },
+    { itinerary: { legs: { some: { id: bookingGroupId } } } },
+  ],
+});
+
+/**
+ * Amount still refundable on a payment, in both NPR and the charged currency.
+ */
+export function getRefundableAmounts(
+  payment: Pick<Payment, "baseAmount" | "chargedAmount">,
+  refunds: Array<Pick<Refund, "status" | "amount" | "baseAmount">>
+) {
+  const active = refunds.filter(isOutstandingOrPaid);
+  const refundedBase = active.reduce((sum, r) => sum + r.baseAmount, 0);
+  const refundedCharged = active.reduce((sum, r) => sum + r.amount, 0);
+
+  return {
+    baseAmount: Math.max(0, roundToTwo(payment.baseAmount - refundedBase)),
+    chargedAmount: Math.max(
+      0,
+      roundToTwo(payment.chargedAmount - refundedCharged)
+    ),
+  };
+}
+
+async function sendRefundToGateway(
+  payment: Payment,
+  refund: Refund
+): Promise<GatewayRefundResult> {
+  try {
+    return await getPaymentProvider(payment.method).refund(payment, refund);
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      return { status: RefundStatus.FAILED, failureReason: error.message };
+    }
+    throw error;
+  }
+}
+
+async function applyGatewayResult(refund: Refund, result: GatewayRefundResult) {
+  const updated = await prisma.refund.update({
+    where: { id: refund.id },
+    data: {
+      status: result.status,
+      gatewayRefundId: result.gatewayRefundId ?? refund.gatewayRefundId,
+      failureReason:
+        result.status === RefundStatus.FAILED
+          ? result.failureReason ?? "Refund failed"
+          : null,
+      processedAt: result.status === RefundStatus.PROCESSED ? new Date() : null,
+      metadata:
+        result.response === undefined
+          ? (refund.metadata as any)
+          : { gatewayResponse: result.response as any },
+    },
+  });
+
+  if (updated.status === RefundStatus.PROCESSED) {
+    await syncPaymentRefundStatus(updated.paymentId);
+  }
+
+  return updated;
+}
+
+/**
+ * Move the payment to REFUNDED once everything charged has been paid back,
+ * and its cancelled booking groups (every leg of a connecting journey) to
+ * REFUNDED once all its refunds have settled.
+ */
+export async function syncPaymentRefundStatus(paymentId: string) {
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    include: {
+      refunds: true,
+      bookingGroup: { select: { id: true, status: true } },
+      itinerary: { select: { legs: { select: { id: true, status: true } } } },
+    },
+  });
+
+  if (!payment) {
+    return;
+  }
+
+  const processed = payment.refunds.filter(
+    (r) => r.status === RefundStatus.PROCESSED
+  );
+  const processedCharged = roundToTwo(
+    processed.reduce((sum, r) => sum + r.amount, 0)
+  );
+
+  if (
+    payment.status === PaymentStatus.SUCCESS &&
+    processedCharged >= roundToTwo(payment.chargedAmount)
+  ) {
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { status: PaymentStatus.REFUNDED },
+    });
+  }
+
+  const hasUnsettled = payment.refunds.some(
+    (r) => r.status !== RefundStatus.PROCESSED
+  );
+
+  const groups =
+    payment.itinerary?.legs ??
+    (payment.bookingGroup ? [payment.bookingGroup] : []);
+  const cancelledGroupIds = groups
+    .filter((group) => group.status === GroupStatus.CANCELLED)
+    .map((group) => group.id);
+
+  if (cancelledGroupIds.length > 0 && processed.length > 0 && !hasUnsettled) {
+    await prisma.bookingGroup.updateMany({
+      where: { id: { in: cancelledGroupIds } },
+      data: { status: GroupStatus.REFUNDED },
+    });
+  }
+}
+
+/**
+ * Refund part or all of a successful payment through its gateway.
+ * `baseAmount` is in NPR and defaults to everything not yet refunded.
+ * Gateway failures are recorded on the refund row instead of being thrown so
+ * they can be retried later. Returns null when there is nothing to refund.
+ */
+export async function issueRefund(params: {
+  paymentId: string;
+  baseAmount?: number | undefined;
+  bookingIds?: string[] | undefined;
+  reason?: string | undefined;
+}) {
+  // Lock the payment so two concurrent refunds can't both see the same balance
+  const created = await prisma.$transaction(async (tx) => {
+    await lockPayment(tx, params.paymentId);
+
+    const payment = await tx.payment.findUnique({
+      where: { id: params.paymentId },
+      include: { refunds: true },
+    });
+
+    if (!payment) {
+      throw new RefundError("Payment not found", 404);
+    }
+
+    if (payment.status === PaymentStatus.REFUNDED) {
+      throw new RefundError("Payment has already been fully refunded");
+    }
+
+    if (payment.status !== PaymentStatus.SUCCESS) {
+      throw new RefundError(
+        `Cannot refund a payment with status ${payment.status}`
+      );
+    }
+
+    const refundable = getRefundableAmounts(payment, payment.refunds);
+    const baseAmount = roundToTwo(params.baseAmount ?? refundable.baseAmount);
+
+    if (baseAmount <= 0) {
+      return null;
+    }
+
+    if (baseAmount > refundable.baseAmount + 0.01) {
+      throw new RefundError(
+        `Refund of NPR ${baseAmount} exceeds the refundable balance of NPR ${refundable.baseAmount}`
+      );
+    }
+
+    // Refunding the full balance uses the remaining charged amount directly so
+    // rounding in the conversion never leaves a few paise behind
+    const isFinalRefund = baseAmount >= refundable.baseAmount - 0.01;
+    const amount = isFinalRefund
+      ? refundable.chargedAmount
+      : Math.min(
+          convertBaseToChargedAmount(payment, baseAmount),
+          refundable.chargedAmount
+        );
+
+    const refund = await tx.refund.create({
+      data: {
+        paymentId: payment.id,
+        amount,
+        currency: payment.chargedCurrency,
+        baseAmount,
+        reason: params.reason ?? null,
+        bookingIds: params.bookingIds ?? [],
+      },
+    });
+
+    const { refunds, ...paymentRow } = payment;
+    return { payment: paymentRow, refund };
+  });
+
+  if (!created) {
+    return null;
+  }
+
+  const result = await sendRefundToGateway(created.payment, created.refund);
+  return applyGatewayResult(created.refund, result);
+}
+
+/**
+ * Load a refund with its payment's refunds under the payment lock, and check
+ * it still fits in what the payment has left to refund. A FAILED refund
+ * doesn't count against the balance, so others may have used it up since.
+ */
+async function findRefundForUpdate(
+  tx: Prisma.TransactionClient,
+  refundId: string
+) {
+  const existing = await tx.refund.findUnique({
+    where: { id: refundId },
+    select: { paymentId: true },
+  });
+
+  if (!existing) {
+    throw new RefundError("Refund not found", 404);
+  }
+
+  await lockPayment(tx, existing.paymentId);
+
+  const refund = await tx.refund.findUnique({
+    where: { id: refundId },
+    include: { payment: { include: { refunds: true } } },
+  });
+
+  if (!refund) {
+    throw new RefundError("Refund not found", 404);
+  }
+
+  if (refund.status === RefundStatus.PROCESSED) {
+    throw new RefundError("Refund has already been processed");
+  }
+
+  const { payment, ...refundRow } = refund;
+  const { refunds, ...paymentRow } = payment;
+  const refundable = getRefundableAmounts(
+    paymentRow,
+    refunds.filter((r) => r.id !== refundRow.id)
+  );
+
+  if (
+    refundRow.baseAmount > refundable.baseAmount + 0.01 ||
+    refundRow.amount > refundable.chargedAmount + 0.01
+  ) {
+    throw new RefundError(
+      `Refund of NPR ${refundRow.baseAmount} exceeds the refundable balance of NPR ${refundable.baseAmount}`
+    );
+  }
+
+  return { refund: refundRow, payment: paymentRow };
+}
+
+/**
+ * Send a FAILED refund (or a PENDING one that never reached the gateway)
+ * to the gateway again. The refund is moved to PENDING before the gateway
+ * call so a concurrent retry can't send it twice.
+ */
+export async function retryRefund(refundId: string) {
+  const claimed = await prisma.$transaction(async (tx) => {
+    const { refund, payment } = await findRefundForUpdate(tx, refundId);
+
+    if (refund.status === RefundStatus.PENDING) {
+      if (refund.gatewayRefundId) {
+        throw new RefundError(
+          "Refund is already being processed by the gateway"
+        );
+      }
+
+      if (refund.updatedAt.getTime() > Date.now() - IN_FLIGHT_MS) {
+        throw new RefundError(
+          "Refund is already being sent to the gateway; try again in a few minutes",
+          409
+        );
+      }
+    }
+
+    const pending = await tx.refund.update({
+      where: { id: refund.id },
+      data: { status: RefundStatus.PENDING, failureReason: null },
+    });
+
+    return { payment, refund: pending };
+  });
+
+  const result = await sendRefundToGateway(claimed.payment, claimed.refund);
+  return applyGatewayResult(claimed.refund, result);
+}
+
+/**
+ * Record a refund that was settled outside the gateway (e.g. eSewa manual
+ * settlement).
+ */
+export async function markRefundProcessed(
+  refundId: string,
+  gatewayRefundId?: string | undefined
+) {
+  const processed = await prisma.$transaction(async (tx) => {
+    const { refund } = await findRefundForUpdate(tx, refundId);
+
+    return tx.refund.update({
+      where: { id: refund.id },
+      data: {
+        status: RefundStatus.PROCESSED,
+        gatewayRefundId: gatewayRefundId ?? refund.gatewayRefundId,
+        failureReason: null,
+        processedAt: new Date(),
+        metadata: { gatewayResponse: { manual: true } },
+      },
+    });
+  });
+
+  await syncPaymentRefundStatus(processed.paymentId);
+  return processed;
+}
+
+/**
+ * Apply a refund status reported by the gateway (webhook or status lookup)
+ * to the matching refund row. Returns null when no refund matches.
+ */
+export async function updateRefundFromGateway(
+  gatewayRefundId: string,
+  status: RefundStatus,
+  params: { failureReason?: string | undefined; response?: unknown } = {}
+) {
+  const refund = await prisma.refund.findFirst({
+    where: { gatewayRefundId },
+  });
+
+  if (!refund || refund.status === status) {
+    return refund;
+  }
+
+  // A processed refund never goes back
+  if (refund.status === RefundStatus.PROCESSED) {
+    return refund;
+  }
+
+  return applyGatewayResult(refund, {
+    status,
+    gatewayRefundId,
+    failureReason: params.failureReason ?? null,
+    response: params.response,
+  });
+}
+
+export function serializeRefund(refund: Refund) {
+  return {
+    refundId: refund.id,
+    amount: refund.amount,
+    currency: refund.currency,
+    baseAmount: refund.baseAmount,
+    status: refund.status,
+    reason: refund.reason,
+    bookingIds: refund.bookingIds,
+    gatewayRefundId: refund.gatewayRefundId,
+    failureReason: refund.failureReason,
+    processedAt: refund.processedAt,
+    createdAt: refund.createdAt,
+  };
+}
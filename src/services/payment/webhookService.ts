@@ -0,0 +1,214 @@
+import crypto from "crypto";
+import { PaymentMethod, RefundStatus } from "@prisma/client";
+import { prisma } from "../../lib/prisma.js";
+import { ServiceError } from "../../lib/serviceError.js";
+import {
+  getEsewaConfig,
+  getRazorpayConfig,
+} from "../../config/paymentConfig.js";
+import {
+  settleFailedPayment,
+  settleSuccessfulPayment,
+} from "./paymentSettlementService.js";
+import type { SettlementResult } from "./paymentSettlementService.js";
+import { updateRefundFromGateway } from "./refundService.js";
+
+export class WebhookError extends ServiceError {}
+
+const safeEqual = (a: string, b: string) => {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return (
+    bufferA.length === bufferB.length &&
+    crypto.timingSafeEqual(bufferA, bufferB)
+  );
+};
+
+async function findPaymentByOrderId(
+  method: PaymentMethod,
+  gatewayOrderId: string
+) {
+  return prisma.payment.findFirst({
+    where: { method, gatewayOrderId },
+  });
+}
+
+/**
+ * Handle a Razorpay webhook. The signature is an HMAC-SHA256 of the raw
+ * request body with the webhook secret, so this must receive the unparsed body.
+ */
+export async function handleRazorpayWebhook(
+  rawBody: Buffer,
+  signature: string | undefined
+): Promise<SettlementResult | { event: string; handled: boolean }> {
+  const { webhookSecret } = getRazorpayConfig();
+
+  if (!webhookSecret) {
+    throw new WebhookError("Razorpay webhook secret is not configured", 500);
+  }
+
+  if (!signature) {
+    throw new WebhookError("Missing Razorpay signature");
+  }
+
+  const expectedSignature = crypto
+    .createHmac("sha256", webhookSecret)
+    .update(rawBody)
+    .digest("hex");
+
+  if (!safeEqual(expectedSignature, signature)) {
+    throw new WebhookError("Invalid Razorpay signature");
+  }
+
+  let body: any;
+  try {
+    body = JSON.parse(rawBody.toString("utf8"));
+  } catch {
+    throw new WebhookError("Invalid webhook payload");
+  }
+
+  const event: string = body?.event ?? "";
+  const paymentEntity = body?.payload?.payment?.entity;
+  const refundEntity = body?.payload?.refund?.entity;
+
+  if (event === "payment.captured" || event === "order.paid") {
+    const orderId = paymentEntity?.order_id ?? body?.payload?.order?.entity?.id;
+    const payment = orderId
+      ? await findPaymentByOrderId(PaymentMethod.RAZORPAY, orderId)
+      : null;
+
+    if (!payment) {
+      return { event, handled: false };
+    }
+
+    return settleSuccessfulPayment(payment.id, {
+      source: "WEBHOOK",
+      gatewayPaymentId: paymentEntity?.id,
+      details: { event },
+    });
+  }
+
+  if (event === "payment.failed") {
+    const payment = paymentEntity?.order_id
+      ? await findPaymentByOrderId(
+          PaymentMethod.RAZORPAY,
+          paymentEntity.order_id
+        )
+      : null;
+
+    if (!payment) {
+      return { event, handled: false };
+    }
+
+    return settleFailedPayment(payment.id, {
+      source: "WEBHOOK",
+      reason: paymentEntity?.error_description,
+      details: { event, gatewayPaymentId: paymentEntity?.id },
+    });
+  }
+
+  if (
+    (event === "refund.processed" || event === "refund.failed") &&
+    refundEntity?.id
+  ) {
+    const refund = await updateRefundFromGateway(
+      refundEntity.id,
+      event === "refund.processed"
+        ? RefundStatus.PROCESSED
+        : RefundStatus.FAILED,
+      { failureReason: "Refund failed at Razorpay", response: refundEntity }
+    );
+    return { event, handled: !!refund };
+  }
+
+  return { event, handled: false };
+}
+
+// eSewa statuses after which the payment can no longer be paid
+const ESEWA_FAILED_STATUSES = ["CANCELED", "NOT_FOUND"];
+
+/**
+ * Handle the eSewa payment callback. eSewa sends a base64 encoded JSON `data`
+ * payload signed with the merchant secret over its `signed_field_names`.
+ */
+export async function handleEsewaCallback(
+  encodedData: string | undefined
+): Promise<SettlementResult> {
+  if (!encodedData) {
+    throw new WebhookError("Missing eSewa callback data");
+  }
+
+  let data: Record<string, any>;
+  try {
+    data = JSON.parse(Buffer.from(encodedData, "base64").toString("utf8"));
+  } catch {
+    throw new WebhookError("Invalid eSewa callback data");
+  }
+
+  const config = getEsewaConfig();
+  const signedFields =
+    typeof data.signed_field_names === "string"
+      ? data.signed_field_names.split(",")
+      : [];
+
+  if (signedFields.length === 0 || typeof data.signature !== "string") {
+    throw new WebhookError("eSewa callback is not signed");
+  }
+
+  const signaturePayload = signedFields
+    .map((field: string) => `${field}=${data[field] ?? ""}`)
+    .join(",");
+  const expectedSignature = crypto
+    .createHmac("sha256", config.secretKey)
+    .update(signaturePayload)
+    .digest("base64");
+
+  if (!safeEqual(expectedSignature, data.signature)) {
+    throw new WebhookError("Invalid eSewa signature");
+  }
+
+  if (data.product_code !== config.productCode) {
+    throw new WebhookError("eSewa product code mismatch");
+  }
+
+  const payment = data.transaction_uuid
+    ? await findPaymentByOrderId(PaymentMethod.ESEWA, data.transaction_uuid)
+    : null;
+
+  if (!payment) {
+    throw new WebhookError("Payment not found", 404);
+  }
+
+  const status = String(data.status ?? "").toUpperCase();
+
+  if (ESEWA_FAILED_STATUSES.includes(status)) {
+    return settleFailedPayment(payment.id, {
+      source: "WEBHOOK",
+      reason: `eSewa reported status ${status}`,
+      details: { transactionCode: data.transaction_code ?? null },
+    });
+  }
+
+  // PENDING, AMBIGUOUS and the like may still settle; the reconciliation
+  // checks them with eSewa later
+  if (status !== "COMPLETE") {
+    return {
+      paymentId: payment.id,
+      outcome: "IGNORED",
+      message: `eSewa reported status ${
+        status || "UNKNOWN"
+      }; left for reconciliation`,
+    };
+  }
+
+  const paidAmount = Number(String(data.total_amount).replace(/,/g, ""));
+  if (Math.abs(paidAmount - payment.chargedAmount) > 0.01) {
+    throw new WebhookError("eSewa amount does not match the payment");
+  }
+
+  return settleSuccessfulPayment(payment.id, {
+    source: "WEBHOOK",
+    gatewayPaymentId: data.transaction_code,
+    details: { transactionCode: data.transaction_code },
+  });
+}
@@ -55,8 +55,17 @@ export interface TicketData {
       name: string;
       age: number;
       gender: string;
+      category: string; // ADULT, CHILD, SENIOR, STUDENT
     };
   }>;
+  // Infants on the lap of the passenger in a seat
+  infants?: Array<{
+    seatNumber: string;
+    name: string;
+    age: number;
+    gender: string;
+    fare: number;
+  }>;
   pricing: {
     totalPrice: number;
     discountAmount: number;
@@ -73,6 +82,13 @@ export interface TicketData {
   status: string;
 }
 
+const capitalize = (word: string) =>
+  word.charAt(0) + word.slice(1).toLowerCase();
+
+// e.g. "Upper Seater"
+const formatSeatCategory = (level: string, type: string) =>
+  [level, type].map(capitalize).join(" ");
+
 /**
  * Generate PDF ticket for a booking
  * Returns a Buffer containing the PDF data
@@ -407,8 +423,16 @@ export async function generateTicketPDF(
       currentY += 35;
 
       // Table Header
-      const tableHeaders = ["Seat", "Passenger Name", "Age", "Gender", "Type"];
-      const colWidths = [50, 200, 50, 80, 100];
+      const tableHeaders = [
+        "Seat",
+        "Passenger Name",
+        "Age",
+        "Gender",
+        "Category",
+        "Type",
+        "Fare",
+      ];
+      const colWidths = [45, 130, 35, 60, 65, 95, 70];
       let x = margin + 10;
 
       doc.font("Roboto-Bold").fontSize(9).fillColor("#64748b");
@@ -437,7 +461,34 @@ export async function generateTicketPDF(
         x += colWidths[2] || 0;
         doc.text(seat.passenger.gender, x, currentY);
         x += colWidths[3] || 0;
-        doc.text(`${seat.seatLevel} ${seat.seatType}`, x, currentY);
+        doc.text(capitalize(seat.passenger.category), x, currentY);
+        x += colWidths[4] || 0;
+        doc.text(
+          formatSeatCategory(seat.seatLevel, seat.seatType),
+          x,
+          currentY
+        );
+        x += colWidths[5] || 0;
+        doc.text(`NPR ${seat.fare.toFixed(2)}`, x, currentY);
+
+        currentY += 20;
+      });
+
+      (ticketData.infants ?? []).forEach((infant) => {
+        x = margin + 10;
+        doc.font("Roboto-Bold").text(infant.seatNumber, x, currentY);
+        x += colWidths[0] || 0;
+        doc.font("Roboto-Regular").text(infant.name, x, currentY);
+        x += colWidths[1] || 0;
+        doc.text(infant.age.toString(), x, currentY);
+        x += colWidths[2] || 0;
+        doc.text(infant.gender, x, currentY);
+        x += colWidths[3] || 0;
+        doc.text("Infant", x, currentY);
+        x += colWidths[4] || 0;
+        doc.text("On lap", x, currentY);
+        x += colWidths[5] || 0;
+        doc.text(`NPR ${infant.fare.toFixed(2)}`, x, currentY);
 
         currentY += 20;
       });
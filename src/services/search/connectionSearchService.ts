@@ -0,0 +1,514 @@
+import type { BusSchedule, PricingRule, Stop } from "@prisma/client";
+import { prisma } from "../../lib/prisma.js";
+import { ServiceError } from "../../lib/serviceError.js";
+import { getBookingConfig } from "../../config/bookingConfig.js";
+import { foldPlaceName } from "../../utils/placeNameNormalizer.js";
+import { getSegmentFare, loadFareMatrix } from "../booking/fareService.js";
+import {
+  createFarePricer,
+  getPricingConditions,
+  loadPricingRules,
+  summarizePricingRule,
+  type PricedFare,
+} from "../booking/pricingRuleService.js";
+import {
+  activeSeatBlockWhere,
+  activeSeatHoldWhere,
+  getOccupiedSeatIds,
+} from "../booking/seatHoldService.js";
+import {
+  applyScheduleToStops,
+  getLegTiming,
+  tripServesDirection,
+} from "../booking/tripScheduleService.js";
+import type { LocationFilter } from "./placeIndexService.js";
+
+export class ConnectionError extends ServiceError {}
+
+const MINUTES_PER_DAY = 24 * 60;
+const MS_PER_DAY = MINUTES_PER_DAY * 60 * 1000;
+// Booking closes this long before departure, as for direct trips
+const BOOKING_CUTOFF_MINUTES = 30;
+// Most itineraries returned by one search
+const MAX_CONNECTIONS = 20;
+
+type TimetableStop = Pick<
+  Stop,
+  | "stopIndex"
+  | "arrivalTime"
+  | "departureTime"
+  | "returnArrivalTime"
+  | "returnDepartureTime"
+>;
+
+const hasReturnTimings = (stops: TimetableStop[]) =>
+  stops.some((s) => s.returnArrivalTime || s.returnDepartureTime);
+
+const parseDateParts = (date: string) => {
+  const [year = 0, month = 1, day = 1] = date.split("-").map(Number);
+  return { year, month, day };
+};
+
+const addDays = (date: string, days: number) => {
+  const { year, month, day } = parseDateParts(date);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .split("T")[0] as string;
+};
+
+// "YYYY-MM-DDTHH:MM" for a time given in minutes from midnight of `date`
+const formatDateTime = (date: string, minutes: number) => {
+  const { year, month, day } = parseDateParts(date);
+  return new Date(Date.UTC(year, month - 1, day, 0, minutes))
+    .toISOString()
+    .slice(0, 16);
+};
+
+const connectionTripInclude = () =>
+  ({
+    schedule: true,
+    routeVersion: {
+      include: {
+        stops: {
+          orderBy: { stopIndex: "asc" },
+          include: { boardingPoints: { orderBy: { pointOrder: "asc" } } },
+        },
+      },
+    },
+    bus: {
+      select: {
+        id: true,
+        adminId: true,
+        busNumber: true,
+        name: true,
+        type: true,
+        layoutType: true,
+        totalSeats: true,
+      },
+    },
+    bookings: {
+      where: { status: "CONFIRMED" },
+      select: {
+        seatId: true,
+        group: {
+          select: {
+            fromStop: { select: { stopIndex: true } },
+            toStop: { select: { stopIndex: true } },
+          },
+        },
+      },
+    },
+    seatHolds: {
+      where: activeSeatHoldWhere(),
+      select: { seatId: true, fromStopIndex: true, toStopIndex: true },
+    },
+    seatBlocks: {
+      where: activeSeatBlockWhere(),
+      select: { seatId: true },
+    },
+  } as const);
+
+/**
+ * Bookable trips on a date whose route stops at `location`. Buses on holiday
+ * are left out.
+ */
+async function findTripsServing(location: LocationFilter, date: string) {
+  const { year, month, day } = parseDateParts(date);
+  const dayStart = new Date(year, month - 1, day, 0, 0, 0, 0);
+  const dayEnd = new Date(year, month - 1, day, 23, 59, 59, 999);
+  const tripDate = new Date(Date.UTC(year, month - 1, day, 0, 0, 0, 0));
+  const onHoliday = { some: { date: { gte: dayStart, lte: dayEnd } } };
+
+  return prisma.trip.findMany({
+    where: {
+      tripDate,
+      status: { in: ["SCHEDULED", "ONGOING"] },
+      routeVersion: { stops: { some: location.stopWhere } },
+      bus: { NOT: { holidays: onHoliday } },
+    },
+    include: connectionTripInclude(),
+  });
+}
+
+type ConnectionTrip = Awaited<ReturnType<typeof findTripsServing>>[number];
+type ConnectionStop = ConnectionTrip["routeVersion"]["stops"][number];
+
+interface LegOption {
+  trip: ConnectionTrip;
+  fromStop: ConnectionStop;
+  toStop: ConnectionStop;
+  isReturnTrip: boolean;
+  // Minutes from midnight of the searched date
+  departsAt: number;
+  arrivesAt: number;
+  transferKey: string;
+}
+
+/**
+ * Every journey on a trip that starts (or ends) at a stop matching `anchor`,
+ * one per possible transfer stop. Trips that also reach `otherEnd` are left
+ * out: they are direct trips and /showbus already lists them.
+ */
+function collectLegOptions(
+  trip: ConnectionTrip,
+  dayOffset: number,
+  anchor: LocationFilter,
+  otherEnd: LocationFilter,
+  anchorIsBoarding: boolean
+): LegOption[] {
+  const stops = applyScheduleToStops(trip.routeVersion.stops, trip.schedule);
+  const anchorStop = stops.find((s) => anchor.matchesStop(s));
+
+  if (!anchorStop) {
+    return [];
+  }
+
+  const options: LegOption[] = [];
+
+  for (const stop of stops) {
+    if (stop.stopIndex === anchorStop.stopIndex || anchor.matchesStop(stop)) {
+      continue;
+    }
+
+    const [fromStop, toStop] = anchorIsBoarding
+      ? [anchorStop, stop]
+      : [stop, anchorStop];
+    const isReturnTrip = fromStop.stopIndex > toStop.stopIndex;
+
+    if (
+      !tripServesDirection(trip.schedule, isReturnTrip) ||
+      (isReturnTrip && !hasReturnTimings(stops))
+    ) {
+      continue;
+    }
+
+    if (otherEnd.matchesStop(stop)) {
+      return [];
+    }
+
+    const timing = getLegTiming(stops, fromStop.stopIndex, toStop.stopIndex);
+    if (!timing) {
+      continue;
+    }
+
+    options.push({
+      trip,
+      fromStop,
+      toStop,
+      isReturnTrip,
+      departsAt: dayOffset * MINUTES_PER_DAY + timing.departsAt,
+      arrivesAt: dayOffset * MINUTES_PER_DAY + timing.arrivesAt,
+      transferKey: foldPlaceName(stop.city),
+    });
+  }
+
+  return options;
+}
+
+const countOccupiedSeats = (leg: LegOption) =>
+  getOccupiedSeatIds(
+    leg.trip.bookings,
+    leg.trip.seatHolds,
+    leg.fromStop.stopIndex,
+    leg.toStop.stopIndex,
+    leg.trip.seatBlocks.map((block) => block.seatId)
+  ).size;
+
+interface LegAvailability {
+  availableSeats: number;
+  fare: PricedFare;
+  pricingRule: PricingRule | null;
+}
+
+const serializeLeg = (
+  leg: LegOption,
+  date: string,
+  { availableSeats, fare, pricingRule }: LegAvailability
+) => {
+  const timeOfDay = (minutes: number) =>
+    formatDateTime(date, minutes).slice(11);
+
+  return {
+    tripId: leg.trip.id,
+    busId: leg.trip.bus.id,
+    busNumber: leg.trip.bus.busNumber,
+    busName: leg.trip.bus.name,
+    busType: leg.trip.bus.type,
+    layoutType: leg.trip.bus.layoutType,
+    tripDate: leg.trip.tripDate.toISOString().split("T")[0],
+    scheduleId: leg.trip.scheduleId,
+    scheduleLabel: leg.trip.schedule?.label ?? null,
+    isReturnTrip: leg.isReturnTrip,
+    fromStop: {
+      id: leg.fromStop.id,
+      name: leg.fromStop.name,
+      city: leg.fromStop.city,
+      stopIndex: leg.fromStop.stopIndex,
+      departureTime: timeOfDay(leg.departsAt),
+      boardingPoints: leg.fromStop.boardingPoints
+        .filter((point) => point.type === "BOARDING")
+        .map((point) => ({
+          id: point.id,
+          name: point.name,
+          time: point.time,
+          landmark: point.landmark,
+        })),
+    },
+    toStop: {
+      id: leg.toStop.id,
+      name: leg.toStop.name,
+      city: leg.toStop.city,
+      stopIndex: leg.toStop.stopIndex,
+      arrivalTime: timeOfDay(leg.arrivesAt),
+      droppingPoints: leg.toStop.boardingPoints
+        .filter((point) => point.type === "DROPPING")
+        .map((point) => ({
+          id: point.id,
+          name: point.name,
+          time: point.time,
+          landmark: point.landmark,
+        })),
+    },
+    departsAt: formatDateTime(date, leg.departsAt),
+    arrivesAt: formatDateTime(date, leg.arrivesAt),
+    duration: leg.arrivesAt - leg.departsAt,
+    fare: fare.fare,
+    baseFare: fare.baseFare,
+    pricingRule: summarizePricingRule(pricingRule),
+    availableSeats,
+    totalSeats: leg.trip.bus.totalSeats,
+  };
+};
+
+/**
+ * Itineraries with one transfer from `from` to `to` departing on `date`: a
+ * trip to some city followed by a trip on another bus out of the same city,
+ * leaving between the configured minimum and maximum layover after the first
+ * arrives. The second leg may run the next day. Only pairs with `seatCount`
+ * free seats on both legs are returned, quickest first.
+ */
+export async function searchConnections(params: {
+  from: LocationFilter;
+  to: LocationFilter;
+  date: string;
+  seatCount: number;
+}) {
+  const { from, to, date, seatCount } = params;
+  const { minLayoverMinutes, maxLayoverMinutes } =
+    getBookingConfig().connections;
+  const nextDate = addDays(date, 1);
+
+  const firstTrips = await findTripsServing(from, date);
+  const secondTrips = [
+    ...(await findTripsServing(to, date)).map((trip) => ({ trip, day: 0 })),
+    ...(await findTripsServing(to, nextDate)).map((trip) => ({
+      trip,
+      day: 1,
+    })),
+  ];
+
+  const firstLegs = firstTrips.flatMap((trip) =>
+    collectLegOptions(trip, 0, from, to, true)
+  );
+
+  const secondLegsByTransfer = new Map<string, LegOption[]>();
+  secondTrips.forEach(({ trip, day }) => {
+    collectLegOptions(trip, day, to, from, false).forEach((leg) => {
+      const legs = secondLegsByTransfer.get(leg.transferKey) ?? [];
+      legs.push(leg);
+      secondLegsByTransfer.set(leg.transferKey, legs);
+    });
+  });
+
+  const rulesFor = await loadPricingRules(prisma, [
+    ...firstTrips.map((trip) => trip.bus),
+    ...secondTrips.map(({ trip }) => trip.bus),
+  ]);
+  const fareMatrix = await loadFareMatrix(prisma, [
+    ...firstTrips.map((trip) => trip.routeVersionId),
+    ...secondTrips.map(({ trip }) => trip.routeVersionId),
+  ]);
+
+  // Free seats and the priced fare depend on the segment's occupancy
+  const legCache = new Map<string, LegAvailability>();
+  const availabilityFor = (leg: LegOption) => {
+    const key = `${leg.trip.id}:${leg.fromStop.stopIndex}:${leg.toStop.stopIndex}`;
+    const cached = legCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const occupiedSeats = countOccupiedSeats(leg);
+    const pricer = createFarePricer(
+      rulesFor(leg.trip.bus),
+      getPricingConditions({
+        tripDate: leg.trip.tripDate,
+        fromStop: leg.fromStop,
+        isReturnTrip: leg.isReturnTrip,
+        occupiedSeats,
+        totalSeats: leg.trip.bus.totalSeats,
+      })
+    );
+    const availability = {
+      availableSeats: leg.trip.bus.totalSeats - occupiedSeats,
+      fare: pricer.price(getSegmentFare(leg.fromStop, leg.toStop, fareMatrix)),
+      pricingRule: pricer.rule,
+    };
+    legCache.set(key, availability);
+    return availability;
+  };
+  const availableSeatsFor = (leg: LegOption) =>
+    availabilityFor(leg).availableSeats;
+  const legFare = (leg: LegOption) => availabilityFor(leg).fare.fare;
+
+  const { year, month, day } = parseDateParts(date);
+  const bookableAfter = Date.now() + BOOKING_CUTOFF_MINUTES * 60 * 1000;
+
+  // Best transfer for each pair of trips
+  const best = new Map<
+    string,
+    { first: LegOption; second: LegOption; duration: number; fare: number }
+  >();
+
+  for (const first of firstLegs) {
+    const departure = new Date(year, month - 1, day, 0, first.departsAt);
+    if (departure.getTime() <= bookableAfter) {
+      continue;
+    }
+
+    for (const second of secondLegsByTransfer.get(first.transferKey) ?? []) {
+      const layover = second.departsAt - first.arrivesAt;
+
+      if (
+        second.trip.busId === first.trip.busId ||
+        layover < minLayoverMinutes ||
+        layover > maxLayoverMinutes
+      ) {
+        continue;
+      }
+
+      if (
+        availableSeatsFor(first) < seatCount ||
+        availableSeatsFor(second) < seatCount
+      ) {
+        continue;
+      }
+
+      const candidate = {
+        first,
+        second,
+        duration: second.arrivesAt - first.departsAt,
+        fare: legFare(first) + legFare(second),
+      };
+      const key = `${first.trip.id}:${second.trip.id}`;
+      const current = best.get(key);
+
+      if (
+        !current ||
+        candidate.duration < current.duration ||
+        (candidate.duration === current.duration &&
+          candidate.fare < current.fare)
+      ) {
+        best.set(key, candidate);
+      }
+    }
+  }
+
+  return [...best.values()]
+    .sort((a, b) => a.duration - b.duration || a.fare - b.fare)
+    .slice(0, MAX_CONNECTIONS)
+    .map(({ first, second, duration, fare }) => {
+      const firstLeg = availabilityFor(first);
+      const secondLeg = availabilityFor(second);
+
+      return {
+        transfer: {
+          city: second.fromStop.city,
+          layoverMinutes: second.departsAt - first.arrivesAt,
+          arrivalStop: { id: first.toStop.id, name: first.toStop.name },
+          departureStop: { id: second.fromStop.id, name: second.fromStop.name },
+        },
+        departsAt: formatDateTime(date, first.departsAt),
+        arrivesAt: formatDateTime(date, second.arrivesAt),
+        totalDuration: duration,
+        totalFare: fare,
+        availableSeats: Math.min(
+          firstLeg.availableSeats,
+          secondLeg.availableSeats
+        ),
+        legs: [
+          serializeLeg(first, date, firstLeg),
+          serializeLeg(second, date, secondLeg),
+        ],
+      };
+    });
+}
+
+interface PreparedLeg {
+  trip: {
+    busId: string;
+    tripDate: Date;
+    schedule: Pick<BusSchedule, "direction" | "departureTime"> | null;
+    routeVersion: { stops: TimetableStop[] };
+  };
+  fromStop: { stopIndex: number; city: string; name: string };
+  toStop: { stopIndex: number; city: string; name: string };
+}
+
+/**
+ * Check that two legs being booked together form a connection: the second
+ * boards in the city the first arrives in, on another bus, within the allowed
+ * layover. Returns the transfer city and layover in minutes.
+ */
+export function getConnectionTransfer(first: PreparedLeg, second: PreparedLeg) {
+  const { minLayoverMinutes, maxLayoverMinutes } =
+    getBookingConfig().connections;
+
+  if (first.trip.busId === second.trip.busId) {
+    throw new ConnectionError("Both legs of a connection run on the same bus");
+  }
+
+  if (
+    foldPlaceName(first.toStop.city) !== foldPlaceName(second.fromStop.city)
+  ) {
+    throw new ConnectionError(
+      `The second leg must depart from ${first.toStop.city}, where the first leg arrives`
+    );
+  }
+
+  const timingOf = (leg: PreparedLeg) =>
+    getLegTiming(
+      applyScheduleToStops(leg.trip.routeVersion.stops, leg.trip.schedule),
+      leg.fromStop.stopIndex,
+      leg.toStop.stopIndex
+    );
+  const firstTiming = timingOf(first);
+  const secondTiming = timingOf(second);
+
+  if (!firstTiming || !secondTiming) {
+    throw new ConnectionError("Timings are not available for this connection");
+  }
+
+  const dayOffset = Math.round(
+    (second.trip.tripDate.getTime() - first.trip.tripDate.getTime()) /
+      MS_PER_DAY
+  );
+  const layoverMinutes =
+    dayOffset * MINUTES_PER_DAY +
+    secondTiming.departsAt -
+    firstTiming.arrivesAt;
+
+  if (layoverMinutes < minLayoverMinutes) {
+    throw new ConnectionError(
+      `The second leg must leave at least ${minLayoverMinutes} minutes after the first arrives`
+    );
+  }
+
+  if (layoverMinutes > maxLayoverMinutes) {
+    throw new ConnectionError(
+      `The second leg must leave within ${maxLayoverMinutes} minutes of the first arriving`
+    );
+  }
+
+  return { transferCity: second.fromStop.city, layoverMinutes };
+}
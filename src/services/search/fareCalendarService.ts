@@ -0,0 +1,353 @@
+import type { BusSchedule, Stop } from "@prisma/client";
+import { prisma } from "../../lib/prisma.js";
+import {
+  adToBS,
+  formatBSDateEnglish,
+  formatBSMonthEnglish,
+} from "../../utils/nepaliDateConverter.js";
+import {
+  activeSeatBlockWhere,
+  activeSeatHoldWhere,
+  getOccupiedSeatIds,
+} from "../booking/seatHoldService.js";
+import {
+  applyScheduleToStops,
+  parseTimeToMinutes,
+  timetableStopSelect,
+  tripServesDirection,
+} from "../booking/tripScheduleService.js";
+import { getNonOperatingReason } from "../booking/tripGenerationService.js";
+import { pickRouteVersionForDate } from "../booking/routeVersionService.js";
+import {
+  getSegmentFare,
+  loadFareMatrix,
+  type FareMatrix,
+} from "../booking/fareService.js";
+import {
+  createFarePricer,
+  getPricingConditions,
+  loadPricingRules,
+} from "../booking/pricingRuleService.js";
+import type { LocationFilter } from "./placeIndexService.js";
+
+const calendarStopSelect = {
+  ...timetableStopSelect,
+  id: true,
+  name: true,
+  city: true,
+  priceFromOrigin: true,
+} as const;
+
+type CalendarStop = Pick<Stop, keyof typeof calendarStopSelect>;
+type ScheduleTiming = Pick<BusSchedule, "direction" | "departureTime">;
+
+interface Departure {
+  adminId: string;
+  fare: number;
+  seatsAvailable: boolean;
+}
+
+const toDateKey = (date: Date) => date.toISOString().split("T")[0] as string;
+
+/**
+ * The searched journey on a departure running `stops` under `schedule`, with
+ * its fare and departure time; null when the departure doesn't carry
+ * passengers from `from` to `to`.
+ */
+function findSegment(
+  stops: CalendarStop[],
+  schedule: ScheduleTiming | null,
+  from: LocationFilter,
+  to: LocationFilter,
+  fareMatrix: FareMatrix
+) {
+  const scheduled = applyScheduleToStops(stops, schedule);
+  const fromStop = scheduled.find((s) => from.matchesStop(s));
+  const toStop = scheduled.find((s) => to.matchesStop(s));
+
+  if (!fromStop || !toStop || fromStop.stopIndex === toStop.stopIndex) {
+    return null;
+  }
+
+  const isReturnTrip = fromStop.stopIndex > toStop.stopIndex;
+
+  if (!tripServesDirection(schedule, isReturnTrip)) {
+    return null;
+  }
+
+  if (
+    isReturnTrip &&
+    !scheduled.some((s) => s.returnArrivalTime || s.returnDepartureTime)
+  ) {
+    return null;
+  }
+
+  return {
+    fromStop,
+    isReturnTrip,
+    fromStopIndex: fromStop.stopIndex,
+    toStopIndex: toStop.stopIndex,
+    fare: getSegmentFare(fromStop, toStop, fareMatrix),
+    departureTime: isReturnTrip
+      ? fromStop.returnDepartureTime || fromStop.departureTime
+      : fromStop.departureTime,
+  };
+}
+
+/**
+ * Cheapest fare, operator count and seat availability for each day of a month
+ * (`YYYY-MM`) from `from` to `to`, with every day also given in BS.
+ *
+ * Read-only: days whose trips exist use them (fares of the route version they
+ * run, seats left after bookings and holds), with the bus's pricing rules
+ * applied. For days the trip generator
+ * hasn't reached yet, the bus's active schedules and the route version that
+ * would be in effect stand in for its trips, with every seat free. Days a bus
+ * doesn't operate (holidays, days of the week it doesn't run, outside its
+ * season), cancelled trips and today's departures that have left are
+ * excluded. Past days have no departures.
+ */
+export async function getFareCalendar(params: {
+  from: LocationFilter;
+  to: LocationFilter;
+  month: string;
+}) {
+  const { from, to, month } = params;
+  const [year = 0, monthNumber = 1] = month.split("-").map(Number);
+  const daysInMonth = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+  const monthStart = new Date(Date.UTC(year, monthNumber - 1, 1));
+  const monthEnd = new Date(Date.UTC(year, monthNumber - 1, daysInMonth));
+
+  const buses = await prisma.bus.findMany({
+    where: {
+      routeVersions: {
+        some: {
+          AND: [
+            { stops: { some: from.stopWhere } },
+            { stops: { some: to.stopWhere } },
+          ],
+        },
+      },
+    },
+    select: {
+      id: true,
+      adminId: true,
+      totalSeats: true,
+      operatingDays: true,
+      operatingFrom: true,
+      operatingUntil: true,
+      routeVersions: {
+        select: {
+          id: true,
+          version: true,
+          effectiveFrom: true,
+          stops: { select: calendarStopSelect },
+        },
+      },
+      schedules: {
+        where: { isActive: true },
+        select: { id: true, direction: true, departureTime: true },
+      },
+      holidays: {
+        where: { date: { gte: monthStart, lte: monthEnd } },
+        select: { date: true },
+      },
+    },
+  });
+
+  const trips = await prisma.trip.findMany({
+    where: {
+      busId: { in: buses.map((bus) => bus.id) },
+      tripDate: { gte: monthStart, lte: monthEnd },
+    },
+    select: {
+      busId: true,
+      routeVersionId: true,
+      scheduleId: true,
+      status: true,
+      tripDate: true,
+      schedule: { select: { direction: true, departureTime: true } },
+      routeVersion: { select: { stops: { select: calendarStopSelect } } },
+      bookings: {
+        where: { status: "CONFIRMED" },
+        select: {
+          seatId: true,
+          group: {
+            select: {
+              fromStop: { select: { stopIndex: true } },
+              toStop: { select: { stopIndex: true } },
+            },
+          },
+        },
+      },
+      seatHolds: {
+        where: activeSeatHoldWhere(),
+        select: { seatId: true, fromStopIndex: true, toStopIndex: true },
+      },
+      seatBlocks: {
+        where: activeSeatBlockWhere(),
+        select: { seatId: true },
+      },
+    },
+  });
+
+  const rulesFor = await loadPricingRules(prisma, buses);
+  const fareMatrix = await loadFareMatrix(prisma, [
+    ...buses.flatMap((bus) => bus.routeVersions.map((version) => version.id)),
+    ...trips.map((trip) => trip.routeVersionId),
+  ]);
+
+  const tripsByBusDay = new Map<string, typeof trips>();
+  trips.forEach((trip) => {
+    const key = `${trip.busId}|${toDateKey(trip.tripDate)}`;
+    tripsByBusDay.set(key, [...(tripsByBusDay.get(key) ?? []), trip]);
+  });
+
+  const holidaysByBus = new Map(
+    buses.map((bus) => [
+      bus.id,
+      new Set(bus.holidays.map((holiday) => toDateKey(holiday.date))),
+    ])
+  );
+
+  const now = new Date();
+  const todayKey = toDateKey(
+    new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()))
+  );
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+
+  const days = [];
+  for (let day = 1; day <= daysInMonth; day++) {
+    const dateKey = toDateKey(new Date(Date.UTC(year, monthNumber - 1, day)));
+    const isPast = dateKey < todayKey;
+    const departures: Departure[] = [];
+
+    const addDeparture = (
+      bus: (typeof buses)[number],
+      segment: ReturnType<typeof findSegment>,
+      seatsLeft: (fromIndex: number, toIndex: number) => number
+    ) => {
+      if (!segment) {
+        return;
+      }
+
+      // Today's departures that have already left can't be booked
+      const departure = parseTimeToMinutes(segment.departureTime);
+      if (
+        dateKey === todayKey &&
+        departure !== null &&
+        departure <= nowMinutes
+      ) {
+        return;
+      }
+
+      const seatsAvailable = seatsLeft(
+        segment.fromStopIndex,
+        segment.toStopIndex
+      );
+      const pricer = createFarePricer(
+        rulesFor(bus),
+        getPricingConditions({
+          tripDate: new Date(`${dateKey}T00:00:00.000Z`),
+          fromStop: segment.fromStop,
+          isReturnTrip: segment.isReturnTrip,
+          occupiedSeats: bus.totalSeats - seatsAvailable,
+          totalSeats: bus.totalSeats,
+        })
+      );
+
+      departures.push({
+        adminId: bus.adminId,
+        fare: pricer.price(segment.fare).fare,
+        seatsAvailable: seatsAvailable > 0,
+      });
+    };
+
+    for (const bus of isPast ? [] : buses) {
+      if (
+        getNonOperatingReason(
+          bus,
+          dateKey,
+          holidaysByBus.get(bus.id) ?? new Set()
+        )
+      ) {
+        continue;
+      }
+
+      const busTrips = tripsByBusDay.get(`${bus.id}|${dateKey}`) ?? [];
+
+      busTrips
+        .filter(
+          (trip) => trip.status === "SCHEDULED" || trip.status === "ONGOING"
+        )
+        .forEach((trip) =>
+          addDeparture(
+            bus,
+            findSegment(
+              trip.routeVersion.stops,
+              trip.schedule,
+              from,
+              to,
+              fareMatrix
+            ),
+            (fromIndex, toIndex) =>
+              bus.totalSeats -
+              getOccupiedSeatIds(
+                trip.bookings,
+                trip.seatHolds,
+                fromIndex,
+                toIndex,
+                trip.seatBlocks.map((block) => block.seatId)
+              ).size
+          )
+        );
+
+      // Departures whose trips haven't been created yet
+      const version = pickRouteVersionForDate(bus.routeVersions, dateKey);
+      if (!version) {
+        continue;
+      }
+
+      const pending: Array<ScheduleTiming | null> =
+        bus.schedules.length === 0
+          ? busTrips.some((trip) => trip.scheduleId === null)
+            ? []
+            : [null]
+          : bus.schedules.filter(
+              (schedule) =>
+                !busTrips.some((trip) => trip.scheduleId === schedule.id)
+            );
+
+      pending.forEach((schedule) =>
+        addDeparture(
+          bus,
+          findSegment(version.stops, schedule, from, to, fareMatrix),
+          () => bus.totalSeats
+        )
+      );
+    }
+
+    const bookable = departures.filter((d) => d.seatsAvailable);
+    // Sold-out days still show what the cheapest departure costs
+    const priced = bookable.length > 0 ? bookable : departures;
+    const bsDate = adToBS(new Date(year, monthNumber - 1, day));
+
+    days.push({
+      date: dateKey,
+      bsDate: { ...bsDate, label: formatBSDateEnglish(bsDate) },
+      isPast,
+      lowestFare:
+        priced.length > 0 ? Math.min(...priced.map((d) => d.fare)) : null,
+      operatorCount: new Set(departures.map((d) => d.adminId)).size,
+      departureCount: departures.length,
+      seatsAvailable: bookable.length > 0,
+    });
+  }
+
+  // A month in AD spans parts of two BS months
+  const bsMonths = [
+    ...new Set(days.map((day) => formatBSMonthEnglish(day.bsDate))),
+  ];
+
+  return { month, bsMonths, days };
+}
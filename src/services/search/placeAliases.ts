@@ -0,0 +1,47 @@
+/**
+ * Other spellings of places on the network, keyed by the usual English
+ * spelling. Covers Nepali (Devanagari) names, common romanizations and short
+ * forms that typo tolerance alone would not reach. A place picks up these
+ * aliases when its name matches the key or one of the aliases.
+ */
+export const PLACE_ALIASES: Record<string, string[]> = {
+  Kathmandu: ["काठमाडौं", "काठमाडौँ", "Kathmandau", "Kantipur", "KTM"],
+  Pokhara: ["पोखरा", "Pokhra"],
+  Lalitpur: ["ललितपुर", "Patan"],
+  Bhaktapur: ["भक्तपुर", "Bhadgaon"],
+  Birgunj: ["वीरगञ्ज", "बीरगंज", "Birganj"],
+  Nepalgunj: ["नेपालगञ्ज", "नेपालगंज", "Nepalganj"],
+  Biratnagar: ["विराटनगर", "Viratnagar"],
+  Butwal: ["बुटवल"],
+  Bhairahawa: ["भैरहवा", "Siddharthanagar", "सिद्धार्थनगर"],
+  Chitwan: ["चितवन"],
+  Bharatpur: ["भरतपुर"],
+  Narayangarh: ["नारायणगढ", "Narayanghat", "नारायणघाट"],
+  Hetauda: ["हेटौंडा", "हेटौडा"],
+  Janakpur: ["जनकपुर", "Janakpurdham", "जनकपुरधाम"],
+  Dharan: ["धरान"],
+  Itahari: ["इटहरी", "Itahri"],
+  Damak: ["दमक"],
+  Birtamod: ["बिर्तामोड", "Birtamode"],
+  Kakarbhitta: ["काँकडभिट्टा", "Kakarvitta", "Kakadbhitta"],
+  Dhangadhi: ["धनगढी", "Dhangadi"],
+  Mahendranagar: ["महेन्द्रनगर", "Bhimdatta", "भीमदत्त"],
+  Tansen: ["तानसेन", "Palpa", "पाल्पा"],
+  Lumbini: ["लुम्बिनी"],
+  Gorkha: ["गोरखा"],
+  Besisahar: ["बेसीशहर", "Besishahar"],
+  Baglung: ["बागलुङ", "Baglunga"],
+  Beni: ["बेनी"],
+  Dang: ["दाङ", "Ghorahi", "घोराही"],
+  Tulsipur: ["तुलसीपुर"],
+  Surkhet: ["सुर्खेत", "Birendranagar", "वीरेन्द्रनगर"],
+  Rajbiraj: ["राजविराज"],
+  Lahan: ["लहान"],
+  Gaur: ["गौर"],
+  Kalaiya: ["कलैया"],
+  Malangwa: ["मलङ्गवा"],
+  Ilam: ["इलाम"],
+  Dhulikhel: ["धुलिखेल"],
+  Banepa: ["बनेपा"],
+  Sauraha: ["सौराहा"],
+};
@@ -0,0 +1,379 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../../lib/prisma.js";
+import {
+  editDistance,
+  foldPlaceName,
+  normalizePlaceName,
+} from "../../utils/placeNameNormalizer.js";
+import { PLACE_ALIASES } from "./placeAliases.js";
+
+export type PlaceKind = "CITY" | "STOP" | "POINT";
+
+interface PlaceStopRef {
+  name: string;
+  city: string;
+}
+
+interface Place {
+  id: string;
+  kind: PlaceKind;
+  name: string;
+  city: string;
+  label: string;
+  aliases: string[];
+  // Every spelling of the stops this place stands for, as stored
+  stops: PlaceStopRef[];
+  stopKeys: Set<string>;
+  // Folded search keys of the name and its aliases
+  terms: Array<{ text: string; key: string }>;
+}
+
+export interface PlaceMatch {
+  place: Place;
+  score: number;
+  matchedTerm: string;
+}
+
+export type PlaceResolution =
+  | { status: "RESOLVED"; place: Place }
+  | { status: "AMBIGUOUS"; candidates: PlaceMatch[] }
+  | { status: "UNMATCHED" };
+
+// The index is rebuilt at most this often; stop edits invalidate it at once
+const INDEX_TTL_MS = 5 * 60 * 1000;
+// Lowest score /showbus accepts when resolving a location
+const MIN_RESOLVE_SCORE = 50;
+
+const KIND_RANK: Record<PlaceKind, number> = { CITY: 0, STOP: 1, POINT: 2 };
+
+let cachedIndex: { builtAt: number; places: Promise<Place[]> } | null = null;
+
+const stopKey = (name: string, city: string) =>
+  `${normalizePlaceName(name)}|${normalizePlaceName(city)}`;
+
+const buildAliasLookup = () => {
+  const lookup = new Map<string, string[]>();
+
+  Object.entries(PLACE_ALIASES).forEach(([name, aliases]) => {
+    const spellings = [name, ...aliases];
+    spellings.forEach((spelling) =>
+      lookup.set(foldPlaceName(spelling), spellings)
+    );
+  });
+
+  return lookup;
+};
+
+const mostCommon = (counts: Map<string, number>) =>
+  [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? "";
+
+interface PlaceDraft {
+  names: Map<string, number>;
+  city: Map<string, number>;
+  stops: Map<string, PlaceStopRef>;
+}
+
+const addToDraft = (
+  drafts: Map<string, PlaceDraft>,
+  key: string,
+  name: string,
+  stop: PlaceStopRef
+) => {
+  const draft = drafts.get(key) ?? {
+    names: new Map<string, number>(),
+    city: new Map<string, number>(),
+    stops: new Map<string, PlaceStopRef>(),
+  };
+  const displayName = name.trim();
+  const displayCity = stop.city.trim();
+
+  draft.names.set(displayName, (draft.names.get(displayName) ?? 0) + 1);
+  draft.city.set(displayCity, (draft.city.get(displayCity) ?? 0) + 1);
+  draft.stops.set(`${stop.name}|${stop.city}`, stop);
+  drafts.set(key, draft);
+};
+
+/**
+ * Build the places index from every Stop and StopPoint: one CITY place per
+ * city, one STOP place per distinctly named stop and one POINT place per
+ * boarding/dropping point, each with the aliases that apply to its name.
+ */
+async function buildPlacesIndex(): Promise<Place[]> {
+  const stops = await prisma.stop.findMany({
+    select: {
+      name: true,
+      city: true,
+      boardingPoints: { select: { name: true } },
+    },
+  });
+
+  const aliasLookup = buildAliasLookup();
+  const cities = new Map<string, PlaceDraft>();
+  const stopPlaces = new Map<string, PlaceDraft>();
+  const points = new Map<string, PlaceDraft>();
+
+  // Places are keyed by folded spelling so "Birgunj" and "Birganj" stops
+  // end up in the same place
+  stops.forEach((stop) => {
+    const ref = { name: stop.name, city: stop.city };
+    const foldedCity = foldPlaceName(stop.city);
+    const foldedName = foldPlaceName(stop.name);
+
+    addToDraft(cities, foldedCity, stop.city, ref);
+
+    // A stop named after its city is the city
+    if (foldedName !== foldedCity) {
+      addToDraft(stopPlaces, `${foldedName}|${foldedCity}`, stop.name, ref);
+    }
+
+    stop.boardingPoints.forEach((point) => {
+      const foldedPoint = foldPlaceName(point.name);
+      if (foldedPoint !== foldedCity && foldedPoint !== foldedName) {
+        addToDraft(points, `${foldedPoint}|${foldedCity}`, point.name, ref);
+      }
+    });
+  });
+
+  const toPlaces = (kind: PlaceKind, drafts: Map<string, PlaceDraft>) =>
+    [...drafts.entries()].map(([key, draft]): Place => {
+      const name = mostCommon(draft.names);
+      const city = mostCommon(draft.city);
+      const aliases = (aliasLookup.get(foldPlaceName(name)) ?? []).filter(
+        (alias) => foldPlaceName(alias) !== foldPlaceName(name)
+      );
+      const stopRefs = [...draft.stops.values()];
+      const label = kind === "CITY" ? name : `${name}, ${city}`;
+
+      // The label is searchable too, so a picked suggestion resolves exactly
+      const terms = new Map<string, string>();
+      [name, label, ...aliases].forEach((text) => {
+        const termKey = foldPlaceName(text);
+        if (termKey && !terms.has(termKey)) {
+          terms.set(termKey, text);
+        }
+      });
+
+      return {
+        id: `${kind.toLowerCase()}:${key}`,
+        kind,
+        name,
+        city,
+        label,
+        aliases,
+        stops: stopRefs,
+        stopKeys: new Set(stopRefs.map((s) => stopKey(s.name, s.city))),
+        terms: [...terms.entries()].map(([termKey, text]) => ({
+          text,
+          key: termKey,
+        })),
+      };
+    });
+
+  return [
+    ...toPlaces("CITY", cities),
+    ...toPlaces("STOP", stopPlaces),
+    ...toPlaces("POINT", points),
+  ];
+}
+
+async function getPlacesIndex() {
+  if (!cachedIndex || Date.now() - cachedIndex.builtAt > INDEX_TTL_MS) {
+    const places = buildPlacesIndex();
+    cachedIndex = { builtAt: Date.now(), places };
+    // Don't keep a failed build around
+    places.catch(() => {
+      if (cachedIndex?.places === places) {
+        cachedIndex = null;
+      }
+    });
+  }
+
+  return cachedIndex.places;
+}
+
+/**
+ * Drop the cached index so the next search sees new or renamed stops.
+ */
+export function invalidatePlacesIndex() {
+  cachedIndex = null;
+}
+
+// Typos tolerated for a query of this length
+const maxTypos = (length: number) => (length <= 3 ? 0 : length <= 6 ? 1 : 2);
+
+/**
+ * How well a folded query matches a folded term: exact, prefix, word prefix
+ * and substring matches first, then matches within the typo allowance.
+ */
+function scoreTerm(query: string, term: string) {
+  if (term === query) {
+    return 100;
+  }
+  if (term.startsWith(query)) {
+    return 90;
+  }
+
+  const words = term.split(" ");
+  if (words.some((word) => word.startsWith(query))) {
+    return 80;
+  }
+  if (term.includes(query)) {
+    return 60;
+  }
+
+  const allowed = maxTypos(query.length);
+  if (allowed === 0) {
+    return 0;
+  }
+
+  const termDistance = editDistance(query, term, allowed);
+  if (termDistance <= allowed) {
+    return 70 - termDistance * 10;
+  }
+
+  const wordDistance = Math.min(
+    ...words.map((word) => editDistance(query, word, allowed))
+  );
+  if (words.length > 1 && wordDistance <= allowed) {
+    return 65 - wordDistance * 10;
+  }
+
+  // Still typing: compare with the start of the term
+  const prefixDistance = editDistance(
+    query,
+    term.slice(0, query.length),
+    allowed
+  );
+  if (prefixDistance <= allowed) {
+    return 50 - prefixDistance * 10;
+  }
+
+  return 0;
+}
+
+/**
+ * Places matching the user's input, best first. Ties go to cities, then to
+ * places with more stops.
+ */
+export async function searchPlaces(query: string, limit = 10) {
+  const folded = foldPlaceName(query);
+  if (!folded) {
+    return [];
+  }
+
+  const places = await getPlacesIndex();
+  const matches: PlaceMatch[] = [];
+
+  places.forEach((place) => {
+    let best: PlaceMatch | null = null;
+
+    for (const term of place.terms) {
+      const score = scoreTerm(folded, term.key);
+      if (score > 0 && (!best || score > best.score)) {
+        best = { place, score, matchedTerm: term.text };
+      }
+    }
+
+    if (best) {
+      matches.push(best);
+    }
+  });
+
+  return matches
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        KIND_RANK[a.place.kind] - KIND_RANK[b.place.kind] ||
+        b.place.stops.length - a.place.stops.length ||
+        a.place.label.localeCompare(b.place.label)
+    )
+    .slice(0, limit);
+}
+
+/**
+ * Resolve free-text input to a single canonical place. Input that matches
+ * several places equally well (e.g. a word shared by two stop names) is
+ * reported as ambiguous rather than guessed.
+ */
+export async function resolvePlace(query: string): Promise<PlaceResolution> {
+  const matches = (await searchPlaces(query, 10)).filter(
+    (match) => match.score >= MIN_RESOLVE_SCORE
+  );
+  const [top] = matches;
+
+  if (!top) {
+    return { status: "UNMATCHED" };
+  }
+
+  const tied = matches.filter(
+    (match) =>
+      match.score === top.score &&
+      KIND_RANK[match.place.kind] === KIND_RANK[top.place.kind]
+  );
+
+  if (tied.length > 1) {
+    return { status: "AMBIGUOUS", candidates: tied.slice(0, 5) };
+  }
+
+  return { status: "RESOLVED", place: top.place };
+}
+
+/**
+ * Stop filters for a searched location: the stops of the resolved place, or
+ * a case-insensitive `contains` on stop name and city when nothing in the
+ * index matches.
+ */
+export async function resolveLocationFilter(input: string) {
+  const resolution = await resolvePlace(input);
+
+  if (resolution.status === "RESOLVED") {
+    const { place } = resolution;
+    const stopWhere: Prisma.StopWhereInput = {
+      OR: place.stops.map((stop) => ({
+        name: { equals: stop.name, mode: "insensitive" },
+        city: { equals: stop.city, mode: "insensitive" },
+      })),
+    };
+
+    return {
+      resolution,
+      stopWhere,
+      matchesStop: (stop: { name: string; city: string }) =>
+        place.stopKeys.has(stopKey(stop.name, stop.city)),
+    };
+  }
+
+  const needle = input.toLowerCase();
+  const stopWhere: Prisma.StopWhereInput = {
+    OR: [
+      { name: { contains: input, mode: "insensitive" } },
+      { city: { contains: input, mode: "insensitive" } },
+    ],
+  };
+
+  return {
+    resolution,
+    stopWhere,
+    matchesStop: (stop: { name: string; city: string }) =>
+      stop.name.toLowerCase().includes(needle) ||
+      stop.city.toLowerCase().includes(needle),
+  };
+}
+
+export type LocationFilter = Awaited<ReturnType<typeof resolveLocationFilter>>;
+
+export const serializePlace = (place: Place) => ({
+  id: place.id,
+  kind: place.kind,
+  name: place.name,
+  city: place.city,
+  label: place.label,
+  aliases: place.aliases,
+  stopCount: place.stops.length,
+});
+
+export const serializePlaceMatch = (match: PlaceMatch) => ({
+  ...serializePlace(match.place),
+  matchedTerm: match.matchedTerm,
+  score: match.score,
+});
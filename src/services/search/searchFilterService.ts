@@ -0,0 +1,323 @@
+import type { BusType, SeatLevel, SeatType } from "@prisma/client";
+import type z from "zod";
+import type { enhancedSearchSchema } from "../../schemas/busSearchSchema.js";
+import { foldPlaceName } from "../../utils/placeNameNormalizer.js";
+import { parseTimeToMinutes } from "../booking/tripScheduleService.js";
+
+export type SearchFilters = Omit<
+  z.infer<typeof enhancedSearchSchema>,
+  "startLocation" | "endLocation" | "date"
+>;
+
+const AMENITY_FILTERS = [
+  "hasWifi",
+  "hasAC",
+  "hasCharging",
+  "hasRestroom",
+] as const;
+
+type AmenityFilter = (typeof AMENITY_FILTERS)[number];
+
+type FilterKey =
+  | "busType"
+  | AmenityFilter
+  | "price"
+  | "departureTime"
+  | "operators"
+  | "boardingPoints"
+  | "seatType";
+
+// Departure time buckets offered as facets; each maps to a
+// departureTimeStart/departureTimeEnd filter
+const DEPARTURE_WINDOWS = [
+  { id: "EARLY_MORNING", start: "00:00", end: "05:59" },
+  { id: "MORNING", start: "06:00", end: "11:59" },
+  { id: "AFTERNOON", start: "12:00", end: "17:59" },
+  { id: "EVENING", start: "18:00", end: "23:59" },
+] as const;
+
+/**
+ * What the filters read from a /showbus result.
+ */
+export interface SearchResult {
+  busType: BusType;
+  operatorName: string;
+  amenities: Record<AmenityFilter, boolean> | null;
+  fromStop: {
+    departureTime: string | null;
+    boardingPoints: Array<{ name: string }>;
+  };
+  // Segment fare and free seats per seat level/type on the bus
+  seatFares: Array<{
+    type: SeatType;
+    level: SeatLevel;
+    fare: number;
+    availableSeats: number;
+  }>;
+  duration: number;
+  availableSeats: number;
+}
+
+/**
+ * Fares a passenger could pay on a trip: those of seat types with free seats
+ * (all seat types when sold out), only `seatType`'s when given.
+ */
+const candidateFares = (result: SearchResult, seatType?: SeatType) => {
+  const matching = result.seatFares.filter(
+    (f) => !seatType || f.type === seatType
+  );
+  const bookable = matching.filter((f) => f.availableSeats > 0);
+
+  return (bookable.length > 0 ? bookable : matching).map((f) => f.fare);
+};
+
+export const getLowestFare = (result: SearchResult, seatType?: SeatType) => {
+  const fares = candidateFares(result, seatType);
+  return fares.length > 0 ? Math.min(...fares) : null;
+};
+
+const departureMinutes = (result: SearchResult) =>
+  parseTimeToMinutes(result.fromStop.departureTime);
+
+// A window whose start is after its end runs past midnight
+const isInTimeWindow = (
+  minutes: number | null,
+  start: string | undefined,
+  end: string | undefined
+) => {
+  const from = parseTimeToMinutes(start);
+  const to = parseTimeToMinutes(end);
+
+  if (minutes === null) {
+    return false;
+  }
+  if (from !== null && to !== null && from > to) {
+    return minutes >= from || minutes <= to;
+  }
+
+  return (from === null || minutes >= from) && (to === null || minutes <= to);
+};
+
+const operatorKey = (name: string) => name.trim().toLowerCase();
+
+function buildPredicates(filters: SearchFilters) {
+  const predicates: Array<{
+    key: FilterKey;
+    test: (result: SearchResult) => boolean;
+  }> = [];
+
+  if (filters.busType) {
+    predicates.push({
+      key: "busType",
+      test: (r) => r.busType === filters.busType,
+    });
+  }
+
+  AMENITY_FILTERS.forEach((key) => {
+    const wanted = filters[key];
+    if (wanted !== undefined) {
+      // Buses without an amenities row have none
+      predicates.push({
+        key,
+        test: (r) => (r.amenities?.[key] ?? false) === wanted,
+      });
+    }
+  });
+
+  const { minPrice, maxPrice } = filters;
+  if (minPrice !== undefined || maxPrice !== undefined) {
+    predicates.push({
+      key: "price",
+      test: (r) =>
+        candidateFares(r, filters.seatType).some(
+          (fare) =>
+            (minPrice === undefined || fare >= minPrice) &&
+            (maxPrice === undefined || fare <= maxPrice)
+        ),
+    });
+  }
+
+  if (filters.departureTimeStart || filters.departureTimeEnd) {
+    predicates.push({
+      key: "departureTime",
+      test: (r) =>
+        isInTimeWindow(
+          departureMinutes(r),
+          filters.departureTimeStart,
+          filters.departureTimeEnd
+        ),
+    });
+  }
+
+  if (filters.operators) {
+    const wanted = new Set(filters.operators.map(operatorKey));
+    predicates.push({
+      key: "operators",
+      test: (r) => wanted.has(operatorKey(r.operatorName)),
+    });
+  }
+
+  if (filters.boardingPoints) {
+    const wanted = new Set(filters.boardingPoints.map(foldPlaceName));
+    predicates.push({
+      key: "boardingPoints",
+      test: (r) =>
+        r.fromStop.boardingPoints.some((point) =>
+          wanted.has(foldPlaceName(point.name))
+        ),
+    });
+  }
+
+  if (filters.seatType) {
+    predicates.push({
+      key: "seatType",
+      test: (r) =>
+        r.seatFares.some(
+          (f) => f.type === filters.seatType && f.availableSeats > 0
+        ),
+    });
+  }
+
+  return predicates;
+}
+
+/**
+ * Results passing every filter that was given.
+ */
+export function filterSearchResults<T extends SearchResult>(
+  results: T[],
+  filters: SearchFilters
+) {
+  const predicates = buildPredicates(filters);
+  return results.filter((result) => predicates.every((p) => p.test(result)));
+}
+
+const countBy = <T>(items: T[], keyOf: (item: T) => string[]) => {
+  const counts = new Map<string, number>();
+  items.forEach((item) => {
+    new Set(keyOf(item)).forEach((key) =>
+      counts.set(key, (counts.get(key) ?? 0) + 1)
+    );
+  });
+  return counts;
+};
+
+/**
+ * How many results each filter value would return. A facet's counts apply
+ * every other filter but its own, so picking a second operator or bus type
+ * widens the results the way the counts say.
+ */
+export function buildSearchFacets(
+  results: SearchResult[],
+  filters: SearchFilters
+) {
+  const predicates = buildPredicates(filters);
+  const matchingExcept = (key: FilterKey) =>
+    results.filter((result) =>
+      predicates.every((p) => p.key === key || p.test(result))
+    );
+
+  const busTypeCounts = countBy(matchingExcept("busType"), (r) => [r.busType]);
+
+  // Names are grouped loosely; the first spelling seen is shown
+  const namedCounts = (
+    items: SearchResult[],
+    namesOf: (r: SearchResult) => string[],
+    keyOf: (name: string) => string
+  ) => {
+    const labels = new Map<string, string>();
+    const counts = countBy(items, (r) =>
+      namesOf(r).map((name) => {
+        const key = keyOf(name);
+        if (!labels.has(key)) {
+          labels.set(key, name.trim());
+        }
+        return key;
+      })
+    );
+
+    return [...counts.entries()]
+      .map(([key, count]) => ({ name: labels.get(key) ?? key, count }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  };
+
+  const seatTypeResults = matchingExcept("seatType");
+  const timeResults = matchingExcept("departureTime");
+  const prices = matchingExcept("price")
+    .map((r) => getLowestFare(r, filters.seatType))
+    .filter((fare): fare is number => fare !== null);
+
+  return {
+    busTypes: {
+      SEATER: busTypeCounts.get("SEATER") ?? 0,
+      SLEEPER: busTypeCounts.get("SLEEPER") ?? 0,
+      MIXED: busTypeCounts.get("MIXED") ?? 0,
+    },
+    amenities: Object.fromEntries(
+      AMENITY_FILTERS.map((key) => [
+        key,
+        matchingExcept(key).filter((r) => r.amenities?.[key]).length,
+      ])
+    ) as Record<AmenityFilter, number>,
+    operators: namedCounts(
+      matchingExcept("operators"),
+      (r) => [r.operatorName],
+      operatorKey
+    ),
+    boardingPoints: namedCounts(
+      matchingExcept("boardingPoints"),
+      (r) => r.fromStop.boardingPoints.map((point) => point.name),
+      foldPlaceName
+    ),
+    seatTypes: {
+      SEATER: seatTypeResults.filter((r) =>
+        r.seatFares.some((f) => f.type === "SEATER" && f.availableSeats > 0)
+      ).length,
+      SLEEPER: seatTypeResults.filter((r) =>
+        r.seatFares.some((f) => f.type === "SLEEPER" && f.availableSeats > 0)
+      ).length,
+    },
+    departureTimes: DEPARTURE_WINDOWS.map((window) => ({
+      ...window,
+      count: timeResults.filter((r) =>
+        isInTimeWindow(departureMinutes(r), window.start, window.end)
+      ).length,
+    })),
+    price: {
+      min: prices.length > 0 ? Math.min(...prices) : null,
+      max: prices.length > 0 ? Math.max(...prices) : null,
+    },
+  };
+}
+
+/**
+ * Sort results by price (lowest fare, of `seatType` when filtered),
+ * duration, departure time or free seats. Ties, and results when no sort is
+ * given, go by departure time.
+ */
+export function sortSearchResults<T extends SearchResult>(
+  results: T[],
+  filters: Pick<SearchFilters, "sortBy" | "sortOrder" | "seatType">
+) {
+  const direction = filters.sortOrder === "desc" ? -1 : 1;
+  const departureOf = (r: SearchResult) =>
+    departureMinutes(r) ?? Number.MAX_SAFE_INTEGER;
+
+  const valueOf = (r: SearchResult) => {
+    switch (filters.sortBy) {
+      case "price":
+        return getLowestFare(r, filters.seatType) ?? Number.MAX_SAFE_INTEGER;
+      case "duration":
+        return r.duration;
+      case "seatsAvailable":
+        return r.availableSeats;
+      default:
+        return departureOf(r);
+    }
+  };
+
+  return [...results].sort(
+    (a, b) =>
+      direction * (valueOf(a) - valueOf(b)) || departureOf(a) - departureOf(b)
+  );
+}
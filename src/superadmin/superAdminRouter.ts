@@ -10,6 +10,7 @@ import {
   mapOfferWithUsage,
 } from "../services/offerService.js";
 import { DiscountType, OfferCreatorRole } from "@prisma/client";
+import { latestRouteStopsWhere } from "../services/booking/routeVersionService.js";
 
 const JWT_SECRET =
   process.env.superAdminSecret || "super-secret-key-change-in-production";
@@ -688,6 +689,7 @@ superAdminRouter.get(
           totalSeats: true,
           createdAt: true,
           stops: {
+            where: latestRouteStopsWhere,
             orderBy: { stopIndex: "asc" },
             select: {
               id: true,
@@ -697,6 +699,7 @@ superAdminRouter.get(
               lowerSeaterPrice: true,
               lowerSleeperPrice: true,
               upperSleeperPrice: true,
+              upperSeaterPrice: true,
             },
           },
           images: {
@@ -710,7 +713,7 @@ superAdminRouter.get(
           _count: {
             select: {
               trips: true,
-              stops: true,
+              stops: { where: latestRouteStopsWhere },
             },
           },
         },
@@ -7,18 +7,22 @@ import { prisma } from "../index.js";
 import "dotenv/config";
 import { signupSchema } from "../schemas/signupSchema.js";
 import {
-  busSearchSchema,
   bookTicketSchema,
   cancelTicketSchema,
   busInfoQuerySchema,
+  joinWaitlistSchema,
+  placeAutocompleteQuerySchema,
+  connectionSearchSchema,
+  initiateConnectionPaymentSchema,
+  fareCalendarQuerySchema,
+  groupBookingRequestSchema,
+  payGroupBookingSchema,
 } from "../schemas/busSearchSchema.js";
 import cookieParser from "cookie-parser";
 import { sendGmail, sendPasswordResetOTP } from "./sendmail.js";
 import {
   createNotification,
-  notifyBookingConfirmed,
   notifyBookingCancelled,
-  notifyOfferApplied,
   getUserNotifications,
   getUnreadCount,
   markNotificationAsRead,
@@ -31,7 +35,13 @@ import {
   verifyPaymentSchema,
   confirmBookingSchema,
 } from "../schemas/busSearchSchema.js";
-import type { Offer } from "@prisma/client";
+import type {
+  Offer,
+  PassengerCategory,
+  PricingRule,
+  SeatLevel,
+  SeatType,
+} from "@prisma/client";
 import {
   CurrencyCode,
   DiscountType,
@@ -41,14 +51,97 @@ import {
   Prisma,
   PrismaClient,
 } from "@prisma/client";
-import Razorpay from "razorpay";
-import crypto from "crypto";
-import axios from "axios";
-import { getPaymentConfig } from "../config/paymentConfig.js";
+import { calculatePaymentAmounts } from "../services/payment/currencyService.js";
+import { getPaymentProvider } from "../services/payment/providers/index.js";
+import {
+  cancelBookingGroup,
+  quoteCancellation,
+} from "../services/booking/cancellationService.js";
+import {
+  activeSeatBlockWhere,
+  activeSeatHoldWhere,
+  createSeatHolds,
+  findActiveSeatHolds,
+  findBlockedSeatIds,
+  getHeldSeatIds,
+  getOccupiedSeatIds,
+  releaseSeatHoldsForPayment,
+  SeatHoldConflictError,
+} from "../services/booking/seatHoldService.js";
+import {
+  applyScheduleToStops,
+  getJourneyTimes,
+  getLegTiming,
+  serializeSchedule,
+  timetableStopSelect,
+  tripServesDirection,
+} from "../services/booking/tripScheduleService.js";
+import {
+  issueRefund,
+  paymentForBookingGroupWhere,
+  serializeRefund,
+} from "../services/payment/refundService.js";
+import {
+  getSegmentFare,
+  getSegmentSeatFare,
+  loadFareMatrix,
+} from "../services/booking/fareService.js";
+import {
+  createFarePricer,
+  getPricingConditions,
+  loadPricingRules,
+  summarizePricingRule,
+} from "../services/booking/pricingRuleService.js";
+import type { PricedFare } from "../services/booking/pricingRuleService.js";
+import {
+  assertSeatRules,
+  findSeatOccupants,
+  getSeatRestrictions,
+} from "../services/booking/seatRuleService.js";
 import {
-  calculatePaymentAmounts,
-  convertToMinorUnits,
-} from "../services/payment/currencyService.js";
+  loadFareCategories,
+  priceLapInfant,
+  priceSeatedPassenger,
+} from "../services/booking/fareCategoryService.js";
+import {
+  confirmPaymentBooking,
+  sendBookingConfirmation,
+} from "../services/booking/bookingConfirmationService.js";
+import {
+  getUserWaitlist,
+  joinWaitlist,
+  leaveWaitlist,
+  promoteWaitlistsForPayment,
+  serializeWaitlistEntry,
+} from "../services/booking/waitlistService.js";
+import {
+  confirmGroupBookingPayment,
+  getGroupBookingPaymentDue,
+  getUserGroupBookings,
+  requestGroupBooking,
+  sendGroupBookingPaymentConfirmation,
+  serializeGroupBooking,
+  withdrawGroupBooking,
+} from "../services/booking/groupBookingService.js";
+import {
+  resolveLocationFilter,
+  searchPlaces,
+  serializePlace,
+  serializePlaceMatch,
+} from "../services/search/placeIndexService.js";
+import type { LocationFilter } from "../services/search/placeIndexService.js";
+import {
+  getConnectionTransfer,
+  searchConnections,
+} from "../services/search/connectionSearchService.js";
+import { getFareCalendar } from "../services/search/fareCalendarService.js";
+import {
+  buildSearchFacets,
+  filterSearchResults,
+  getLowestFare,
+  sortSearchResults,
+} from "../services/search/searchFilterService.js";
+import { handleServiceError, ServiceError } from "../lib/serviceError.js";
 
 const JWT_SECRET = process.env.userSecret;
 const app = express();
@@ -141,6 +234,14 @@ interface BookingPreparationResult {
   bookingPayload: BookingRequestInput;
   isReturnTrip: boolean;
   seatFares: Record<string, number>;
+  // Base fare, priced fare and applied pricing rule per seat; the priced
+  // fare includes the passenger's fare category
+  seatPricing: Record<string, PricedFare>;
+  pricingRule: PricingRule | null;
+  passengerCategories: Record<string, PassengerCategory>;
+  lapInfants: Array<
+    NonNullable<BookingRequestInput["infants"]>[number] & { fare: number }
+  >;
 }
 
 const roundToTwo = (value: number) =>
@@ -180,6 +281,7 @@ const prepareBookingDetails = async (
     toStopId,
     seatIds,
     passengers,
+    infants = [],
     couponCode,
     boardingPointId,
     droppingPointId,
@@ -188,13 +290,18 @@ const prepareBookingDetails = async (
   const trip = await client.trip.findUnique({
     where: { id: tripId },
     include: {
-      bus: {
+      schedule: true,
+      routeVersion: {
         include: {
           stops: {
             include: {
               boardingPoints: true,
             },
           },
+        },
+      },
+      bus: {
+        include: {
           seats: {
             where: { isActive: true },
           },
@@ -222,8 +329,10 @@ const prepareBookingDetails = async (
     throw new Error("Cannot book tickets for past dates");
   }
 
-  const fromStop = trip.bus.stops.find((s) => s.id === fromStopId);
-  const toStop = trip.bus.stops.find((s) => s.id === toStopId);
+  // Stop timings shifted to this trip's departure
+  const stops = applyScheduleToStops(trip.routeVersion.stops, trip.schedule);
+  const fromStop = stops.find((s) => s.id === fromStopId);
+  const toStop = stops.find((s) => s.id === toStopId);
 
   if (!fromStop || !toStop) {
     throw new Error("Stops not found");
@@ -235,6 +344,10 @@ const prepareBookingDetails = async (
 
   const isReturnTrip = fromStop.stopIndex > toStop.stopIndex;
 
+  if (!tripServesDirection(trip.schedule, isReturnTrip)) {
+    throw new Error("This departure does not run in the selected direction");
+  }
+
   if (tripDate.getTime() === today.getTime()) {
     const departureTime = isReturnTrip
       ? fromStop.returnDepartureTime || fromStop.departureTime
@@ -344,51 +457,131 @@ const prepareBookingDetails = async (
     );
   }
 
-  const getCumulativePriceForSeat = (stop: any, seat: any) => {
-    if (!stop) {
-      return 0;
-    }
-
-    const level = (seat.level || "").toUpperCase();
-    const type = (seat.type || "").toUpperCase();
+  const activeHolds = await findActiveSeatHolds(client, tripId, seatIds);
+  const heldSeatIds = getHeldSeatIds(
+    activeHolds,
+    fromStop.stopIndex,
+    toStop.stopIndex,
+    { excludeUserId: userId }
+  );
+
+  if (heldSeatIds.size > 0) {
+    const heldSeats = seats
+      .filter((s) => heldSeatIds.has(s.id))
+      .map((s) => s.seatNumber)
+      .join(", ");
 
-    if (level === "LOWER" && type === "SEATER") {
-      return stop.lowerSeaterPrice ?? stop.priceFromOrigin ?? 0;
-    }
+    throw new SeatHoldConflictError(
+      `Seat(s) ${heldSeats} are currently reserved by another passenger. Please select different seats or try again in a few minutes.`,
+      Array.from(heldSeatIds)
+    );
+  }
 
-    if (level === "LOWER" && type === "SLEEPER") {
-      return stop.lowerSleeperPrice ?? stop.priceFromOrigin ?? 0;
-    }
+  const blockedSeatIds = await findBlockedSeatIds(client, tripId);
+  const blockedSeats = seats.filter((s) => blockedSeatIds.has(s.id));
 
-    if (level === "UPPER" && type === "SLEEPER") {
-      return stop.upperSleeperPrice ?? stop.priceFromOrigin ?? 0;
-    }
+  if (blockedSeats.length > 0) {
+    const blockedNumbers = blockedSeats.map((s) => s.seatNumber).join(", ");
 
-    if (level === "UPPER" && type === "SEATER") {
-      return stop.upperSeaterPrice ?? stop.priceFromOrigin ?? 0;
-    }
+    throw new SeatHoldConflictError(
+      `Seat(s) ${blockedNumbers} are not available on this trip. Please select different seats.`,
+      blockedSeats.map((s) => s.id)
+    );
+  }
 
-    return stop.priceFromOrigin ?? 0;
-  };
+  assertSeatRules({
+    busSeats: trip.bus.seats,
+    occupants: await findSeatOccupants(
+      client,
+      tripId,
+      fromStop.stopIndex,
+      toStop.stopIndex
+    ),
+    enforceGenderAdjacency: trip.bus.enforceGenderAdjacency,
+    passengers,
+  });
 
+  // Pricing rules look at how full the segment is before this booking
+  const tripBookings = await client.booking.findMany({
+    where: { tripId, status: "CONFIRMED" },
+    select: {
+      seatId: true,
+      group: {
+        select: {
+          fromStop: { select: { stopIndex: true } },
+          toStop: { select: { stopIndex: true } },
+        },
+      },
+    },
+  });
+  const otherHolds = (await findActiveSeatHolds(client, tripId)).filter(
+    (hold) => hold.userId !== userId
+  );
+  const rulesFor = await loadPricingRules(client, [trip.bus]);
+  const pricer = createFarePricer(
+    rulesFor(trip.bus),
+    getPricingConditions({
+      tripDate: trip.tripDate,
+      fromStop,
+      isReturnTrip,
+      occupiedSeats: getOccupiedSeatIds(
+        tripBookings,
+        otherHolds,
+        fromStop.stopIndex,
+        toStop.stopIndex,
+        blockedSeatIds
+      ).size,
+      totalSeats: trip.bus.totalSeats,
+    })
+  );
+
+  const fareMatrix = await loadFareMatrix(client, [trip.routeVersionId]);
+  const fareCategories = await loadFareCategories(client, trip.bus.adminId);
+
+  // Seats are priced by their passenger's category; a lap infant's fare is
+  // added to the seat it travels on
   const seatFares: Record<string, number> = {};
+  const seatPricing: Record<string, PricedFare> = {};
+  const passengerCategories: Record<string, PassengerCategory> = {};
+  const lapInfants: BookingPreparationResult["lapInfants"] = [];
   const totalPrice = seats.reduce((sum, seat) => {
-    const fromPrice = getCumulativePriceForSeat(fromStop, seat);
-    const toPrice = getCumulativePriceForSeat(toStop, seat);
-    const seatSpecificFare = Math.abs(toPrice - fromPrice);
-
-    const fare =
-      Number.isFinite(seatSpecificFare) && seatSpecificFare > 0
-        ? seatSpecificFare
-        : Math.abs(
-            (toStop.priceFromOrigin ?? 0) - (fromStop.priceFromOrigin ?? 0)
-          );
+    const priced = pricer.price(
+      getSegmentSeatFare(fromStop, toStop, seat, fareMatrix)
+    );
+    const passenger = passengers.find((p) => p.seatId === seat.id);
+    if (!passenger) {
+      throw new Error(`Passenger details missing for seat ${seat.seatNumber}`);
+    }
+
+    const { category, fare } = priceSeatedPassenger(
+      fareCategories,
+      passenger,
+      priced.fare
+    );
+    const seatInfants = infants.filter((infant) => infant.seatId === seat.id);
+    if (seatInfants.length > 1) {
+      throw new Error(`Only one infant can travel on seat ${seat.seatNumber}`);
+    }
+
+    const seatInfantFares = seatInfants.map((infant) => {
+      const infantFare = priceLapInfant(fareCategories, infant, priced.fare);
+      lapInfants.push({ ...infant, fare: infantFare });
+      return infantFare;
+    });
 
-    const normalizedFare = Number.isFinite(fare) ? fare : 0;
-    seatFares[seat.id] = normalizedFare;
-    return sum + normalizedFare;
+    const seatTotal = roundToTwo(
+      fare + seatInfantFares.reduce((total, f) => total + f, 0)
+    );
+    passengerCategories[seat.id] = category;
+    seatPricing[seat.id] = { ...priced, fare };
+    seatFares[seat.id] = seatTotal;
+    return sum + seatTotal;
   }, 0);
 
+  if (infants.some((infant) => !seatIds.includes(infant.seatId))) {
+    throw new Error("Infants must travel on a seat in this booking");
+  }
+
   let appliedOffer: Offer | null = null;
   let discountAmount = 0;
   let offerDiscountReason: string | undefined;
@@ -450,8 +643,111 @@ const prepareBookingDetails = async (
     bookingPayload: payload,
     isReturnTrip,
     seatFares,
+    seatPricing,
+    pricingRule: pricer.rule,
+    passengerCategories,
+    lapInfants,
+  };
+};
+/**
+ * Create the gateway order and the INITIATED payment for a booking. The seats
+ * of every leg are held in the same transaction as the payment so two users
+ * can never be charged for the same seat. Returns the checkout details for
+ * the client.
+ */
+const startPayment = async (params: {
+  userId: string;
+  method: PaymentMethod;
+  mockOutcome: "SUCCESS" | "FAILURE" | "DELAYED" | undefined;
+  amount: number;
+  notes: Record<string, string>;
+  metadata: Record<string, unknown>;
+  holds: Array<{
+    tripId: string;
+    seatIds: string[];
+    fromStopIndex: number;
+    toStopIndex: number;
+  }>;
+  groupBookingRequestId?: string | undefined;
+}) => {
+  const { userId, method } = params;
+  const provider = getPaymentProvider(method);
+  const amounts = calculatePaymentAmounts(method, params.amount);
+
+  const order = await provider.createOrder({
+    amount: amounts.chargedAmount,
+    currency: amounts.chargedCurrency,
+    notes: params.notes,
+    mockOutcome: params.mockOutcome,
+  });
+  const gatewayOrderId = order.gatewayOrderId;
+  let gatewayMeta = order.gatewayMeta;
+
+  const { payment: createdPayment, holdExpiresAt } = await prisma.$transaction(
+    async (tx) => {
+      const payment = await tx.payment.create({
+        data: {
+          userId,
+          method,
+          baseAmount: amounts.baseAmount,
+          baseCurrency: amounts.baseCurrency,
+          chargedAmount: amounts.chargedAmount,
+          chargedCurrency: amounts.chargedCurrency,
+          exchangeRate: amounts.exchangeRate ?? null,
+          gatewayOrderId,
+          status: PaymentStatus.INITIATED,
+          groupBookingRequestId: params.groupBookingRequestId ?? null,
+          metadata: {
+            ...params.metadata,
+            gatewayMeta,
+          } as Prisma.InputJsonObject,
+        },
+      });
+
+      let expiresAt: Date | null = null;
+      for (const hold of params.holds) {
+        const created = await createSeatHolds(tx, {
+          ...hold,
+          userId,
+          paymentId: payment.id,
+        });
+        expiresAt = created.expiresAt;
+      }
+
+      return { payment, holdExpiresAt: expiresAt };
+    }
+  );
+
+  let paymentRecord = createdPayment;
+
+  if (provider.attachPaymentId) {
+    gatewayMeta = provider.attachPaymentId(paymentRecord.id, gatewayMeta);
+
+    paymentRecord = await prisma.payment.update({
+      where: { id: paymentRecord.id },
+      data: {
+        metadata: {
+          ...params.metadata,
+          gatewayMeta,
+        } as Prisma.InputJsonObject,
+      },
+    });
+  }
+
+  const { message, ...checkoutDetails } =
+    provider.getCheckoutDetails(gatewayMeta);
+
+  return {
+    message,
+    paymentId: paymentRecord.id,
+    method,
+    amount: amounts.chargedAmount,
+    currency: amounts.chargedCurrency,
+    holdExpiresAt,
+    ...checkoutDetails,
   };
 };
+
 userRouter.get("/", async (req, res) => {
   return res.status(402).json({ message: "welcome to the user router" });
 });
@@ -738,54 +1034,118 @@ userRouter.post("/reset-password", async (req, res): Promise<any> => {
 
 // after the signin route we need the which returns the bus with the specific router
 
+/**
+ * GET /user/places/autocomplete?q=kathm&limit=8
+ * Typo-tolerant suggestions for cities, stops and boarding points. Accepts
+ * English and Nepali spellings.
+ */
+userRouter.get("/places/autocomplete", async (req, res): Promise<any> => {
+  const validation = placeAutocompleteQuerySchema.safeParse(req.query);
+  if (!validation.success) {
+    return res.status(400).json({
+      errorMessage: "Invalid query",
+      errors: validation.error.issues,
+    });
+  }
+
+  const { q, limit } = validation.data;
+
+  try {
+    const matches = await searchPlaces(q, limit);
+
+    return res.status(200).json({
+      query: q,
+      count: matches.length,
+      places: matches.map(serializePlaceMatch),
+    });
+  } catch (e) {
+    console.error("Error searching places:", e);
+    return res.status(500).json({ errorMessage: "Failed to search places" });
+  }
+});
+
 // after the  signin route we need the which returns the bus with the specicxit router
-userRouter.post("/showbus", async (req, res): Promise<any> => {
-  const {
-    startLocation,
-    endLocation,
-    date,
-    busType,
-    hasWifi,
-    hasAC,
-    hasCharging,
-    hasRestroom,
-    minPrice,
-    maxPrice,
-    departureTimeStart,
-    departureTimeEnd,
-    sortBy,
-    sortOrder,
-  } = req.body;
+/**
+ * Error body for a search whose start or end location matches several
+ * places, with suggestions to pick from; null when both resolved.
+ */
+const getAmbiguousLocationError = (
+  fromLocation: LocationFilter,
+  toLocation: LocationFilter
+) => {
+  if (
+    fromLocation.resolution.status !== "AMBIGUOUS" &&
+    toLocation.resolution.status !== "AMBIGUOUS"
+  ) {
+    return null;
+  }
 
-  // Trim locations to avoid issues with trailing spaces
-  const trimmedStartLocation =
-    typeof startLocation === "string" ? startLocation.trim() : startLocation;
-  const trimmedEndLocation =
-    typeof endLocation === "string" ? endLocation.trim() : endLocation;
+  const suggestionsFor = (location: LocationFilter) =>
+    location.resolution.status === "AMBIGUOUS"
+      ? location.resolution.candidates.map(serializePlaceMatch)
+      : [];
 
-  // Try enhanced schema first, fall back to basic schema
-  const enhancedValidation = enhancedSearchSchema.safeParse({
-    ...req.body,
-    startLocation: trimmedStartLocation,
-    endLocation: trimmedEndLocation,
-  });
-  const basicValidation = busSearchSchema.safeParse({
+  return {
+    errorMessage:
+      "Location matches several places. Please choose one of the suggestions.",
+    suggestions: {
+      startLocation: suggestionsFor(fromLocation),
+      endLocation: suggestionsFor(toLocation),
+    },
+  };
+};
+
+const serializeResolvedPlace = (location: LocationFilter) =>
+  location.resolution.status === "RESOLVED"
+    ? serializePlace(location.resolution.place)
+    : null;
+
+/**
+ * POST /user/showbus
+ * Trips from startLocation to endLocation on a date. Optional filters: bus
+ * type, amenities, price range (segment fare of the seat types with free
+ * seats), departure window, operators, boarding points and seat type; sort by
+ * price, duration, departureTime or seatsAvailable. `facets` counts the
+ * results each filter value would give.
+ */
+userRouter.post("/showbus", async (req, res): Promise<any> => {
+  // Trim locations to avoid issues with trailing spaces
+  const validation = enhancedSearchSchema.safeParse({
     ...req.body,
-    startLocation: trimmedStartLocation,
-    endLocation: trimmedEndLocation,
+    startLocation:
+      typeof req.body?.startLocation === "string"
+        ? req.body.startLocation.trim()
+        : req.body?.startLocation,
+    endLocation:
+      typeof req.body?.endLocation === "string"
+        ? req.body.endLocation.trim()
+        : req.body?.endLocation,
   });
 
-  if (!enhancedValidation.success && !basicValidation.success) {
+  if (!validation.success) {
     return res.status(400).json({
       errorMessage: "Invalid input",
-      errors: basicValidation.error.issues,
+      errors: validation.error.issues,
     });
   }
 
+  const { startLocation, endLocation, date, ...filters } = validation.data;
+
   try {
+    // Resolve what the user typed ("Kathmadu", "काठमाडौं") to a known place
+    const [fromLocation, toLocation] = await Promise.all([
+      resolveLocationFilter(startLocation),
+      resolveLocationFilter(endLocation),
+    ]);
+
+    const ambiguous = getAmbiguousLocationError(fromLocation, toLocation);
+    if (ambiguous) {
+      return res.status(400).json(ambiguous);
+    }
+
     // ✅ FIX: Parse date string correctly to avoid timezone issues
     // When date is "2025-11-05", create date in local timezone, not UTC
-    const [year, month, day] = date.split("-").map(Number);
+    const [year = 0, month = 1, day = 1] = date.split("-").map(Number);
     const searchDate = new Date(year, month - 1, day, 0, 0, 0, 0);
 
     // Create end of day for range queries
@@ -797,61 +1157,8 @@ userRouter.post("/showbus", async (req, res): Promise<any> => {
       Date.UTC(year, month - 1, day, 0, 0, 0, 0)
     );
 
-    // ✅ AUTO-TRIP GENERATION: First, find all buses with matching stops
-    const busesWithStops = await prisma.bus.findMany({
-      where: {
-        stops: {
-          some: {
-            OR: [
-              { name: { contains: trimmedStartLocation, mode: "insensitive" } },
-              { city: { contains: trimmedStartLocation, mode: "insensitive" } },
-            ],
-          },
-        },
-      },
-      select: {
-        id: true,
-        holidays: {
-          where: {
-            date: {
-              gte: searchDate,
-              lte: searchDateEnd,
-            },
-          },
-        },
-      },
-    });
-
-    // ✅ Auto-create trips ONLY for buses that don't have holidays on this date
-    for (const bus of busesWithStops) {
-      // Skip trip creation if bus has a holiday on this date
-      if (bus.holidays.length === 0) {
-        // No holiday on this date, create trip if doesn't exist
-        try {
-          await prisma.trip.upsert({
-            where: {
-              busId_tripDate: {
-                busId: bus.id,
-                tripDate: normalizedTripDate, // ✅ Use UTC midnight for consistent storage
-              },
-            },
-            create: {
-              busId: bus.id,
-              tripDate: normalizedTripDate, // ✅ Use UTC midnight for consistent storage
-              status: "SCHEDULED",
-            },
-            update: {}, // Do nothing if already exists
-          });
-        } catch (e: any) {
-          // Handle race condition: if trip was created by another request, silently continue
-          if (e.code !== "P2002") {
-            console.error("Error creating trip:", e);
-          }
-        }
-      }
-      // If holiday exists (bus.holidays.length > 0), do NOT create trip
-    }
-
+    // Read-only: trips are generated ahead from each bus's operating
+    // calendar, not by searching
     // Build where clause for trip query
     // ✅ FIX: Query for exact normalized date to prevent finding multiple trips for same bus/date
     const tripWhere: any = {
@@ -859,31 +1166,18 @@ userRouter.post("/showbus", async (req, res): Promise<any> => {
       status: {
         in: ["SCHEDULED", "ONGOING"],
       },
-      bus: {
-        stops: {
-          some: {
-            OR: [
-              { name: { contains: trimmedStartLocation, mode: "insensitive" } },
-              { city: { contains: trimmedStartLocation, mode: "insensitive" } },
-            ],
-          },
-        },
+      // Match against the route the trip runs, not the bus's latest route
+      routeVersion: {
+        stops: { some: fromLocation.stopWhere },
       },
     };
 
-    // Add bus type filter if provided
-    if (busType) {
-      tripWhere.bus = {
-        ...tripWhere.bus,
-        type: busType,
-      };
-    }
-
     // Find all buses that have trips on this date with stops matching start and end
     const trips = await prisma.trip.findMany({
       where: tripWhere,
       include: {
-        bus: {
+        schedule: true,
+        routeVersion: {
           include: {
             stops: {
               orderBy: { stopIndex: "asc" },
@@ -894,7 +1188,16 @@ userRouter.post("/showbus", async (req, res): Promise<any> => {
                 },
               },
             },
+          },
+        },
+        bus: {
+          include: {
             amenities: true,
+            admin: { select: { busServiceName: true } },
+            seats: {
+              where: { isActive: true },
+              select: { id: true, type: true, level: true },
+            },
             images: {
               orderBy: { createdAt: "asc" },
               select: {
@@ -935,9 +1238,33 @@ userRouter.post("/showbus", async (req, res): Promise<any> => {
             },
           },
         },
+        seatHolds: {
+          where: activeSeatHoldWhere(),
+          select: {
+            seatId: true,
+            fromStopIndex: true,
+            toStopIndex: true,
+          },
+        },
+        seatBlocks: {
+          where: activeSeatBlockWhere(),
+          select: { seatId: true },
+        },
+        _count: {
+          select: { waitlist: { where: { status: "WAITING" } } },
+        },
       },
     });
 
+    const rulesFor = await loadPricingRules(
+      prisma,
+      trips.map((trip) => trip.bus)
+    );
+    const fareMatrix = await loadFareMatrix(
+      prisma,
+      trips.map((trip) => trip.routeVersionId)
+    );
+
     // Filter trips where both start and end locations exist in correct order
     let validTrips = trips
       .map((trip) => {
@@ -951,21 +1278,16 @@ userRouter.post("/showbus", async (req, res): Promise<any> => {
           return null; // Bus has a holiday, don't show it
         }
 
-        const stops = trip.bus.stops;
+        // Stop timings shifted to this trip's departure
+        const stops = applyScheduleToStops(
+          trip.routeVersion.stops,
+          trip.schedule
+        );
 
         // Find matching stops - must match user's search direction
         // User searched for "startLocation" → "endLocation"
-        const fromStop = stops.find(
-          (s) =>
-            s.name.toLowerCase().includes(trimmedStartLocation.toLowerCase()) ||
-            s.city.toLowerCase().includes(trimmedStartLocation.toLowerCase())
-        );
-
-        const toStop = stops.find(
-          (s) =>
-            s.name.toLowerCase().includes(trimmedEndLocation.toLowerCase()) ||
-            s.city.toLowerCase().includes(trimmedEndLocation.toLowerCase())
-        );
+        const fromStop = stops.find((s) => fromLocation.matchesStop(s));
+        const toStop = stops.find((s) => toLocation.matchesStop(s));
 
         // If stops not found, skip
         if (!fromStop || !toStop) {
@@ -981,6 +1303,11 @@ userRouter.post("/showbus", async (req, res): Promise<any> => {
         const isForwardTrip = fromStop.stopIndex < toStop.stopIndex;
         const isReturnTrip = fromStop.stopIndex > toStop.stopIndex;
 
+        // Scheduled departures run in a single direction
+        if (!tripServesDirection(trip.schedule, isReturnTrip)) {
+          return null;
+        }
+
         // ✅ FIX: Only show the trip that matches the user's ACTUAL search direction
         // If fromStop < toStop: It's a forward trip, use forward timings
         // If fromStop > toStop: It's a return trip, check if return timings exist
@@ -997,55 +1324,59 @@ userRouter.post("/showbus", async (req, res): Promise<any> => {
 
         // Calculate available seats (direction-aware logic)
         const totalSeats = trip.bus.totalSeats;
-        const minIndex = Math.min(fromStop.stopIndex, toStop.stopIndex);
-        const maxIndex = Math.max(fromStop.stopIndex, toStop.stopIndex);
-
-        const occupiedSeatsCount = new Set(
-          trip.bookings
-            .filter((booking) => {
-              const bookingFromIdx = booking.group.fromStop.stopIndex;
-              const bookingToIdx = booking.group.toStop.stopIndex;
-
-              // ✅ CRITICAL FIX: Check if booking is in the SAME DIRECTION
-              const bookingIsReturnTrip = bookingFromIdx > bookingToIdx;
-
-              // Skip bookings in opposite direction
-              if (bookingIsReturnTrip !== isReturnTrip) {
-                return false;
-              }
-
-              const bookingMin = Math.min(bookingFromIdx, bookingToIdx);
-              const bookingMax = Math.max(bookingFromIdx, bookingToIdx);
-
-              // Check if segments overlap (only for same direction)
-              return minIndex < bookingMax && maxIndex > bookingMin;
-            })
-            .map((b) => b.seatId)
-        ).size;
-
-        const availableSeats = totalSeats - occupiedSeatsCount;
-
-        // Calculate fare (price is same for both directions, just absolute difference)
-        const fare = Math.abs(
-          toStop.priceFromOrigin - fromStop.priceFromOrigin
+        const occupiedSeatIds = getOccupiedSeatIds(
+          trip.bookings,
+          trip.seatHolds,
+          fromStop.stopIndex,
+          toStop.stopIndex,
+          trip.seatBlocks.map((block) => block.seatId)
         );
+        const availableSeats = totalSeats - occupiedSeatIds.size;
 
-        // For seat prices, use the price from the farther stop (higher stopIndex)
-        // This ensures consistent pricing regardless of direction
-        const farStopIndex = Math.max(fromStop.stopIndex, toStop.stopIndex);
-        const farStop = stops.find((s) => s.stopIndex === farStopIndex);
-        const nearStopIndex = Math.min(fromStop.stopIndex, toStop.stopIndex);
-        const nearStop = stops.find((s) => s.stopIndex === nearStopIndex);
-
-        // Journey price = farStop price - nearStop price
-        const journeyLowerSeaterPrice =
-          (farStop?.lowerSeaterPrice || 0) - (nearStop?.lowerSeaterPrice || 0);
-        const journeyLowerSleeperPrice =
-          (farStop?.lowerSleeperPrice || 0) -
-          (nearStop?.lowerSleeperPrice || 0);
-        const journeyUpperSleeperPrice =
-          (farStop?.upperSleeperPrice || 0) -
-          (nearStop?.upperSleeperPrice || 0);
+        // Pricing rules for this departure, segment and occupancy
+        const pricer = createFarePricer(
+          rulesFor(trip.bus),
+          getPricingConditions({
+            tripDate: trip.tripDate,
+            fromStop,
+            isReturnTrip,
+            occupiedSeats: occupiedSeatIds.size,
+            totalSeats,
+          })
+        );
+        const segmentFare = (seat: { level: SeatLevel; type: SeatType }) =>
+          pricer.price(getSegmentSeatFare(fromStop, toStop, seat, fareMatrix));
+
+        // Fare before a seat is chosen, from the fare matrix or the
+        // cumulative prices
+        const baseFare = getSegmentFare(fromStop, toStop, fareMatrix);
+
+        // Segment fare and free seats for each seat level/type on the bus
+        const seatFares = new Map<
+          string,
+          {
+            type: SeatType;
+            level: SeatLevel;
+            fare: number;
+            baseFare: number;
+            availableSeats: number;
+          }
+        >();
+        trip.bus.seats.forEach((seat) => {
+          const key = `${seat.level}|${seat.type}`;
+          const priced = segmentFare(seat);
+          const entry = seatFares.get(key) ?? {
+            type: seat.type,
+            level: seat.level,
+            fare: priced.fare,
+            baseFare: priced.baseFare,
+            availableSeats: 0,
+          };
+          if (!occupiedSeatIds.has(seat.id)) {
+            entry.availableSeats += 1;
+          }
+          seatFares.set(key, entry);
+        });
 
         // Get appropriate departure and arrival times based on trip direction (isReturnTrip already defined above)
         const departureTime = isReturnTrip
@@ -1056,20 +1387,10 @@ userRouter.post("/showbus", async (req, res): Promise<any> => {
           ? toStop.returnArrivalTime || toStop.arrivalTime
           : toStop.arrivalTime;
 
-        // Calculate duration in minutes
-        let duration = 0;
-        if (arrivalTime && departureTime) {
-          const dep = new Date(`1970-01-01T${departureTime}`);
-          const arr = new Date(`1970-01-01T${arrivalTime}`);
-          let diffMs = arr.getTime() - dep.getTime();
-
-          // Handle overnight trips (arrival is next day)
-          if (diffMs < 0) {
-            diffMs += 24 * 60 * 60 * 1000; // Add 24 hours
-          }
-
-          duration = diffMs / (1000 * 60);
-        }
+        // Duration in minutes, counting arrivals on a later day
+        const duration =
+          getLegTiming(stops, fromStop.stopIndex, toStop.stopIndex)?.duration ??
+          0;
 
         return {
           tripId: trip.id,
@@ -1078,7 +1399,10 @@ userRouter.post("/showbus", async (req, res): Promise<any> => {
           busName: trip.bus.name,
           busType: trip.bus.type,
           layoutType: trip.bus.layoutType,
+          operatorName: trip.bus.admin.busServiceName,
           tripDate: trip.tripDate.toISOString().split("T")[0], // ✅ FIX: Return as "YYYY-MM-DD" string
+          scheduleId: trip.scheduleId,
+          scheduleLabel: trip.schedule?.label ?? null,
           isReturnTrip, // Flag to indicate if this is a return trip
           fromStop: {
             id: fromStop.id,
@@ -1112,11 +1436,22 @@ userRouter.post("/showbus", async (req, res): Promise<any> => {
           },
           availableSeats,
           totalSeats,
-          fare,
+          // Sold out: users can join the waitlist (POST /trip/:tripId/waitlist)
+          canJoinWaitlist: availableSeats <= 0,
+          waitlistCount: trip._count.waitlist,
+          fare: pricer.price(baseFare).fare,
+          baseFare,
           // Add seat-specific pricing for the journey (same regardless of direction)
-          lowerSeaterPrice: journeyLowerSeaterPrice,
-          lowerSleeperPrice: journeyLowerSleeperPrice,
-          upperSleeperPrice: journeyUpperSleeperPrice,
+          lowerSeaterPrice: segmentFare({ level: "LOWER", type: "SEATER" })
+            .fare,
+          lowerSleeperPrice: segmentFare({ level: "LOWER", type: "SLEEPER" })
+            .fare,
+          upperSleeperPrice: segmentFare({ level: "UPPER", type: "SLEEPER" })
+            .fare,
+          upperSeaterPrice: segmentFare({ level: "UPPER", type: "SEATER" })
+            .fare,
+          seatFares: [...seatFares.values()],
+          pricingRule: summarizePricingRule(pricer.rule),
           duration,
           amenities: trip.bus.amenities
             ? {
@@ -1164,98 +1499,42 @@ userRouter.post("/showbus", async (req, res): Promise<any> => {
       });
     }
 
-    // Apply amenity filters
-    if (hasWifi !== undefined) {
-      validTrips = validTrips.filter(
-        (trip) => trip.amenities?.hasWifi === hasWifi
-      );
-    }
-    if (hasAC !== undefined) {
-      validTrips = validTrips.filter((trip) => trip.amenities?.hasAC === hasAC);
-    }
-    if (hasCharging !== undefined) {
-      validTrips = validTrips.filter(
-        (trip) => trip.amenities?.hasCharging === hasCharging
-      );
-    }
-    if (hasRestroom !== undefined) {
-      validTrips = validTrips.filter(
-        (trip) => trip.amenities?.hasRestroom === hasRestroom
-      );
-    }
-
-    // Apply price filters
-    if (minPrice !== undefined) {
-      validTrips = validTrips.filter((trip) => trip.fare >= minPrice);
-    }
-    if (maxPrice !== undefined) {
-      validTrips = validTrips.filter((trip) => trip.fare <= maxPrice);
-    }
-
-    // Apply departure time filters
-    if (departureTimeStart) {
-      validTrips = validTrips.filter(
-        (trip) =>
-          trip.fromStop.departureTime &&
-          trip.fromStop.departureTime >= departureTimeStart
-      );
-    }
-    if (departureTimeEnd) {
-      validTrips = validTrips.filter(
-        (trip) =>
-          trip.fromStop.departureTime &&
-          trip.fromStop.departureTime <= departureTimeEnd
-      );
-    }
-
-    // Apply sorting
-    if (sortBy) {
-      validTrips.sort((a, b) => {
-        let compareValue = 0;
-
-        switch (sortBy) {
-          case "price":
-            compareValue = a.fare - b.fare;
-            break;
-          case "duration":
-            compareValue = a.duration - b.duration;
-            break;
-          case "departureTime":
-            if (a.fromStop.departureTime && b.fromStop.departureTime) {
-              compareValue = a.fromStop.departureTime.localeCompare(
-                b.fromStop.departureTime
-              );
-            }
-            break;
-          case "seatsAvailable":
-            compareValue = a.availableSeats - b.availableSeats;
-            break;
-          default:
-            compareValue = 0;
-        }
-
-        return sortOrder === "desc" ? -compareValue : compareValue;
-      });
-    }
+    const results = sortSearchResults(
+      filterSearchResults(validTrips, filters),
+      filters
+    ).map((trip) => ({
+      ...trip,
+      lowestFare: getLowestFare(trip, filters.seatType) ?? trip.fare,
+    }));
 
     return res.status(200).json({
       message: "Buses fetched successfully",
-      count: validTrips.length,
-      trips: validTrips,
+      count: results.length,
+      trips: results,
+      resolvedLocations: {
+        startLocation: serializeResolvedPlace(fromLocation),
+        endLocation: serializeResolvedPlace(toLocation),
+      },
       filters: {
-        busType: busType || null,
+        busType: filters.busType || null,
         amenities: {
-          wifi: hasWifi,
-          ac: hasAC,
-          charging: hasCharging,
-          restroom: hasRestroom,
+          wifi: filters.hasWifi,
+          ac: filters.hasAC,
+          charging: filters.hasCharging,
+          restroom: filters.hasRestroom,
         },
-        priceRange: { min: minPrice, max: maxPrice },
+        priceRange: { min: filters.minPrice, max: filters.maxPrice },
         departureTimeRange: {
-          start: departureTimeStart,
-          end: departureTimeEnd,
+          start: filters.departureTimeStart,
+          end: filters.departureTimeEnd,
         },
+        operators: filters.operators ?? [],
+        boardingPoints: filters.boardingPoints ?? [],
+        seatType: filters.seatType ?? null,
+        sortBy: filters.sortBy ?? "departureTime",
+        sortOrder: filters.sortOrder ?? "asc",
       },
+      facets: buildSearchFacets(validTrips, filters),
     });
   } catch (e) {
     console.error("Error fetching buses:", e);
@@ -1263,37 +1542,153 @@ userRouter.post("/showbus", async (req, res): Promise<any> => {
   }
 });
 
-userRouter.get("/showbusinfo/:tripId", async (req, res): Promise<any> => {
-  const { tripId } = req.params;
-  const { fromStopId, toStopId } = req.query;
+/**
+ * POST /user/showconnections
+ * Itineraries with one change of bus, for routes no single bus covers. Each
+ * has both legs, the transfer city and layover, and the combined fare and
+ * duration. Book one with POST /user/payments/initiate-connection.
+ * Body: { startLocation, endLocation, date, seatCount? }
+ */
+userRouter.post("/showconnections", async (req, res): Promise<any> => {
+  const validation = connectionSearchSchema.safeParse({
+    ...req.body,
+    startLocation:
+      typeof req.body?.startLocation === "string"
+        ? req.body.startLocation.trim()
+        : req.body?.startLocation,
+    endLocation:
+      typeof req.body?.endLocation === "string"
+        ? req.body.endLocation.trim()
+        : req.body?.endLocation,
+  });
 
-  // Validate query params
-  const validation = busInfoQuerySchema.safeParse({ fromStopId, toStopId });
   if (!validation.success) {
     return res.status(400).json({
-      errorMessage: "Invalid stop IDs",
+      errorMessage: "Invalid input",
       errors: validation.error.issues,
     });
   }
 
+  const { startLocation, endLocation, date, seatCount } = validation.data;
+
   try {
-    // Fetch trip with bus details
-    const trip = await prisma.trip.findUnique({
-      where: { id: tripId },
-      include: {
-        bus: {
-          include: {
-            stops: {
-              orderBy: { stopIndex: "asc" },
-              include: {
-                boardingPoints: {
-                  orderBy: { pointOrder: "asc" },
-                },
-              },
-            },
-            seats: {
-              where: { isActive: true },
-              orderBy: [{ level: "asc" }, { row: "asc" }, { column: "asc" }],
+    const [fromLocation, toLocation] = await Promise.all([
+      resolveLocationFilter(startLocation),
+      resolveLocationFilter(endLocation),
+    ]);
+
+    const ambiguous = getAmbiguousLocationError(fromLocation, toLocation);
+    if (ambiguous) {
+      return res.status(400).json(ambiguous);
+    }
+
+    const connections = await searchConnections({
+      from: fromLocation,
+      to: toLocation,
+      date,
+      seatCount,
+    });
+
+    return res.status(200).json({
+      message: "Connections fetched successfully",
+      count: connections.length,
+      connections,
+      resolvedLocations: {
+        startLocation: serializeResolvedPlace(fromLocation),
+        endLocation: serializeResolvedPlace(toLocation),
+      },
+    });
+  } catch (error) {
+    return handleServiceError(error, res, "Failed to fetch connections");
+  }
+});
+
+/**
+ * GET /user/fare-calendar?startLocation=&endLocation=&month=YYYY-MM
+ * Cheapest fare, number of operators and seat availability for every day of
+ * a month, with each day also given in BS. Does not create trips.
+ */
+userRouter.get("/fare-calendar", async (req, res): Promise<any> => {
+  const validation = fareCalendarQuerySchema.safeParse(req.query);
+
+  if (!validation.success) {
+    return res.status(400).json({
+      errorMessage: "Invalid input",
+      errors: validation.error.issues,
+    });
+  }
+
+  const { startLocation, endLocation, month } = validation.data;
+
+  try {
+    const [fromLocation, toLocation] = await Promise.all([
+      resolveLocationFilter(startLocation),
+      resolveLocationFilter(endLocation),
+    ]);
+
+    const ambiguous = getAmbiguousLocationError(fromLocation, toLocation);
+    if (ambiguous) {
+      return res.status(400).json(ambiguous);
+    }
+
+    const calendar = await getFareCalendar({
+      from: fromLocation,
+      to: toLocation,
+      month,
+    });
+
+    return res.status(200).json({
+      message: "Fare calendar fetched successfully",
+      ...calendar,
+      resolvedLocations: {
+        startLocation: serializeResolvedPlace(fromLocation),
+        endLocation: serializeResolvedPlace(toLocation),
+      },
+    });
+  } catch (e) {
+    console.error("Error fetching fare calendar:", e);
+    return res
+      .status(500)
+      .json({ errorMessage: "Failed to fetch fare calendar" });
+  }
+});
+
+userRouter.get("/showbusinfo/:tripId", async (req, res): Promise<any> => {
+  const { tripId } = req.params;
+  const { fromStopId, toStopId } = req.query;
+
+  // Validate query params
+  const validation = busInfoQuerySchema.safeParse({ fromStopId, toStopId });
+  if (!validation.success) {
+    return res.status(400).json({
+      errorMessage: "Invalid stop IDs",
+      errors: validation.error.issues,
+    });
+  }
+
+  try {
+    // Fetch trip with bus details
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
+      include: {
+        schedule: true,
+        routeVersion: {
+          include: {
+            stops: {
+              orderBy: { stopIndex: "asc" },
+              include: {
+                boardingPoints: {
+                  orderBy: { pointOrder: "asc" },
+                },
+              },
+            },
+          },
+        },
+        bus: {
+          include: {
+            seats: {
+              where: { isActive: true },
+              orderBy: [{ level: "asc" }, { row: "asc" }, { column: "asc" }],
             },
             images: {
               orderBy: { createdAt: "asc" },
@@ -1311,6 +1706,7 @@ userRouter.get("/showbusinfo/:tripId", async (req, res): Promise<any> => {
           },
           include: {
             seat: true,
+            passenger: { select: { gender: true } },
             group: {
               select: {
                 fromStop: {
@@ -1329,6 +1725,18 @@ userRouter.get("/showbusinfo/:tripId", async (req, res): Promise<any> => {
             },
           },
         },
+        seatHolds: {
+          where: activeSeatHoldWhere(),
+          select: {
+            seatId: true,
+            fromStopIndex: true,
+            toStopIndex: true,
+          },
+        },
+        seatBlocks: {
+          where: activeSeatBlockWhere(),
+          select: { seatId: true },
+        },
       },
     });
 
@@ -1336,9 +1744,12 @@ userRouter.get("/showbusinfo/:tripId", async (req, res): Promise<any> => {
       return res.status(404).json({ errorMessage: "Trip not found" });
     }
 
+    // Stop timings shifted to this trip's departure
+    const stops = applyScheduleToStops(trip.routeVersion.stops, trip.schedule);
+
     // Find the from and to stops
-    const fromStop = trip.bus.stops.find((s) => s.id === fromStopId);
-    const toStop = trip.bus.stops.find((s) => s.id === toStopId);
+    const fromStop = stops.find((s) => s.id === fromStopId);
+    const toStop = stops.find((s) => s.id === toStopId);
 
     if (!fromStop || !toStop) {
       return res.status(404).json({ errorMessage: "Stops not found" });
@@ -1354,6 +1765,12 @@ userRouter.get("/showbusinfo/:tripId", async (req, res): Promise<any> => {
     // Determine if this is a return trip
     const isReturnTrip = fromStop.stopIndex > toStop.stopIndex;
 
+    if (!tripServesDirection(trip.schedule, isReturnTrip)) {
+      return res.status(400).json({
+        errorMessage: "This departure does not run in the selected direction",
+      });
+    }
+
     // Determine which seats are occupied for this route segment
     // Use min/max logic to handle both forward and return trips correctly
     const minIndex = Math.min(fromStop.stopIndex, toStop.stopIndex);
@@ -1417,27 +1834,83 @@ userRouter.get("/showbusinfo/:tripId", async (req, res): Promise<any> => {
       } direction: ${occupiedSeatIds.size}`
     );
 
+    // Seats reserved by in-progress payments are unavailable too
+    const heldSeatIds = getHeldSeatIds(
+      trip.seatHolds,
+      fromStop.stopIndex,
+      toStop.stopIndex
+    );
+
+    // Seats the operator keeps back on this trip aren't for sale
+    const blockedSeatIds = new Set(
+      trip.seatBlocks.map((block) => block.seatId)
+    );
+
+    // Pricing rules see the same occupancy as booking does
+    const rulesFor = await loadPricingRules(prisma, [trip.bus]);
+    const pricer = createFarePricer(
+      rulesFor(trip.bus),
+      getPricingConditions({
+        tripDate: trip.tripDate,
+        fromStop,
+        isReturnTrip,
+        occupiedSeats: new Set([
+          ...occupiedSeatIds,
+          ...heldSeatIds,
+          ...blockedSeatIds,
+        ]).size,
+        totalSeats: trip.bus.totalSeats,
+      })
+    );
+    const fareMatrix = await loadFareMatrix(prisma, [trip.routeVersionId]);
+
+    // Which seats a male passenger can't take on this segment
+    const { adjacent, restrictions } = getSeatRestrictions(
+      trip.bus.seats,
+      trip.bookings
+        .filter((booking) => occupiedSeatIds.has(booking.seatId))
+        .map((booking) => ({
+          seatId: booking.seatId,
+          gender: booking.passenger?.gender ?? null,
+        })),
+      trip.bus.enforceGenderAdjacency
+    );
+
     // Organize seats by level and create layout
-    const seats = trip.bus.seats.map((seat) => ({
-      id: seat.id,
-      seatNumber: seat.seatNumber,
-      row: seat.row,
-      column: seat.column,
-      rowSpan: seat.rowSpan,
-      columnSpan: seat.columnSpan,
-      type: seat.type,
-      level: seat.level,
-      isAvailable: !occupiedSeatIds.has(seat.id),
-    }));
+    const seats = trip.bus.seats.map((seat) => {
+      const { baseFare, fare } = pricer.price(
+        getSegmentSeatFare(fromStop, toStop, seat, fareMatrix)
+      );
+
+      return {
+        id: seat.id,
+        seatNumber: seat.seatNumber,
+        row: seat.row,
+        column: seat.column,
+        rowSpan: seat.rowSpan,
+        columnSpan: seat.columnSpan,
+        type: seat.type,
+        level: seat.level,
+        isAvailable:
+          !occupiedSeatIds.has(seat.id) &&
+          !heldSeatIds.has(seat.id) &&
+          !blockedSeatIds.has(seat.id),
+        isHeld: !occupiedSeatIds.has(seat.id) && heldSeatIds.has(seat.id),
+        isBlocked: !occupiedSeatIds.has(seat.id) && blockedSeatIds.has(seat.id),
+        isLadiesOnly: seat.isLadiesOnly,
+        restriction: restrictions.get(seat.id) ?? null,
+        adjacentSeatIds: adjacent.get(seat.id) ?? [],
+        baseFare,
+        fare,
+      };
+    });
 
     const lowerDeckSeats = seats.filter((s) => s.level === "LOWER");
     const upperDeckSeats = seats.filter((s) => s.level === "UPPER");
 
-    const fare = Math.abs(toStop.priceFromOrigin - fromStop.priceFromOrigin);
+    const baseFare = getSegmentFare(fromStop, toStop, fareMatrix);
 
-    const orderedStops = [...trip.bus.stops].sort(
-      (a, b) => a.stopIndex - b.stopIndex
-    );
+    const orderedStops = [...stops].sort((a, b) => a.stopIndex - b.stopIndex);
     const routeStops = (
       isReturnTrip ? [...orderedStops].reverse() : orderedStops
     ).map((stop) => ({
@@ -1493,6 +1966,7 @@ userRouter.get("/showbusinfo/:tripId", async (req, res): Promise<any> => {
         id: trip.id,
         tripDate: trip.tripDate,
         status: trip.status,
+        schedule: trip.schedule ? serializeSchedule(trip.schedule) : null,
       },
       bus: {
         id: trip.bus.id,
@@ -1503,6 +1977,7 @@ userRouter.get("/showbusinfo/:tripId", async (req, res): Promise<any> => {
         totalSeats: trip.bus.totalSeats,
         gridRows: trip.bus.gridRows,
         gridColumns: trip.bus.gridColumns,
+        enforceGenderAdjacency: trip.bus.enforceGenderAdjacency,
         images: trip.bus.images,
       },
       route: {
@@ -1514,6 +1989,7 @@ userRouter.get("/showbusinfo/:tripId", async (req, res): Promise<any> => {
           lowerSeaterPrice: fromStop.lowerSeaterPrice,
           lowerSleeperPrice: fromStop.lowerSleeperPrice,
           upperSleeperPrice: fromStop.upperSleeperPrice,
+          upperSeaterPrice: fromStop.upperSeaterPrice,
           boardingPoints: availableBoardingPoints.map(mapPoint),
         },
         toStop: {
@@ -1524,9 +2000,12 @@ userRouter.get("/showbusinfo/:tripId", async (req, res): Promise<any> => {
           lowerSeaterPrice: toStop.lowerSeaterPrice,
           lowerSleeperPrice: toStop.lowerSleeperPrice,
           upperSleeperPrice: toStop.upperSleeperPrice,
+          upperSeaterPrice: toStop.upperSeaterPrice,
           boardingPoints: (toStop.boardingPoints || []).map(mapPoint),
         },
-        fare,
+        fare: pricer.price(baseFare).fare,
+        baseFare,
+        pricingRule: summarizePricingRule(pricer.rule),
         isReturnTrip,
         path: routeStops,
         boardingPoints: availableBoardingPoints.map(mapPoint),
@@ -1535,7 +2014,7 @@ userRouter.get("/showbusinfo/:tripId", async (req, res): Promise<any> => {
       seats: {
         lowerDeck: lowerDeckSeats,
         upperDeck: upperDeckSeats,
-        availableCount: seats.length - occupiedSeatIds.size,
+        availableCount: seats.filter((s) => s.isAvailable).length,
       },
     });
   } catch (e) {
@@ -1585,6 +2064,7 @@ userRouter.post(
           toStopId: payload.toStopId,
           seatIds: payload.seatIds,
           passengers: payload.passengers,
+          infants: payload.infants,
           couponCode: payload.couponCode,
           boardingPointId: payload.boardingPointId,
           droppingPointId: payload.droppingPointId,
@@ -1592,18 +2072,13 @@ userRouter.post(
         userId
       );
 
-      const config = getPaymentConfig();
-      const amounts = calculatePaymentAmounts(
-        method,
-        bookingDetails.finalPrice
-      );
-
-      let gatewayOrderId: string | undefined;
-      let gatewayMeta: any = {};
-
       const bookingMetadata = {
         ...bookingDetails.bookingPayload,
         seatFares: bookingDetails.seatFares,
+        seatPricing: bookingDetails.seatPricing,
+        pricingRule: summarizePricingRule(bookingDetails.pricingRule),
+        passengerCategories: bookingDetails.passengerCategories,
+        lapInfants: bookingDetails.lapInfants,
         totalPrice: bookingDetails.totalPrice,
         discountAmount: bookingDetails.discountAmount,
         finalPrice: bookingDetails.finalPrice,
@@ -1611,136 +2086,136 @@ userRouter.post(
         offerDiscountReason: bookingDetails.offerDiscountReason || null,
       };
 
-      if (method === PaymentMethod.RAZORPAY) {
-        const razorpay = new Razorpay({
-          key_id: config.razorpay.keyId,
-          key_secret: config.razorpay.keySecret,
-        });
-
-        const order = await razorpay.orders.create({
-          amount: convertToMinorUnits(
-            amounts.chargedAmount,
-            amounts.chargedCurrency
-          ),
-          currency: config.razorpay.currency,
-          receipt: `rb-${Date.now()}`,
-          notes: {
-            userId,
+      const checkout = await startPayment({
+        userId,
+        method,
+        mockOutcome: payload.mockOutcome,
+        amount: bookingDetails.finalPrice,
+        notes: {
+          userId,
+          tripId: payload.tripId,
+          fromStopId: payload.fromStopId,
+          toStopId: payload.toStopId,
+        },
+        metadata: { booking: bookingMetadata },
+        holds: [
+          {
             tripId: payload.tripId,
-            fromStopId: payload.fromStopId,
-            toStopId: payload.toStopId,
+            seatIds: payload.seatIds,
+            fromStopIndex: bookingDetails.fromStop.stopIndex,
+            toStopIndex: bookingDetails.toStop.stopIndex,
           },
-        });
+        ],
+      });
 
-        gatewayOrderId = order.id;
-        gatewayMeta = {
-          orderId: order.id,
-          currency: order.currency,
-          amount: order.amount,
-          razorpayKeyId: config.razorpay.keyId,
-        };
-      } else {
-        const transactionUuid = `rb-${Date.now()}-${Math.random()
-          .toString(36)
-          .slice(2, 10)}`;
-
-        const totalAmount = roundToTwo(amounts.chargedAmount);
-        const totalAmountStr = totalAmount.toFixed(2);
-
-        // eSewa v2 signature: concatenate values in the exact order of signed_field_names
-        // Format: "total_amount={value},transaction_uuid={value},product_code={value}"
-        const signaturePayload = `total_amount=${totalAmountStr},transaction_uuid=${transactionUuid},product_code=${config.esewa.productCode}`;
-        const signature = crypto
-          .createHmac("sha256", config.esewa.secretKey)
-          .update(signaturePayload)
-          .digest("base64");
-
-        gatewayOrderId = transactionUuid;
-        gatewayMeta = {
-          formUrl: config.esewa.endpoint,
-          params: {
-            amount: totalAmountStr,
-            tax_amount: "0",
-            total_amount: totalAmountStr,
-            transaction_uuid: transactionUuid,
-            product_code: config.esewa.productCode,
-            product_service_charge: "0",
-            product_delivery_charge: "0",
-            success_url: config.esewa.successUrl,
-            failure_url: config.esewa.failureUrl,
-            signed_field_names: "total_amount,transaction_uuid,product_code",
-            signature,
-          },
-        };
+      return res.status(200).json(checkout);
+    } catch (error: any) {
+      if (error instanceof ServiceError) {
+        return handleServiceError(error, res);
       }
 
-      let paymentRecord = await prisma.payment.create({
-        data: {
-          userId,
-          method,
-          baseAmount: amounts.baseAmount,
-          baseCurrency: amounts.baseCurrency,
-          chargedAmount: amounts.chargedAmount,
-          chargedCurrency: amounts.chargedCurrency,
-          exchangeRate: amounts.exchangeRate ?? null,
-          gatewayOrderId,
-          status: PaymentStatus.INITIATED,
-          metadata: {
-            booking: bookingMetadata,
-            gatewayMeta,
-          },
-        },
+      console.error("Error initiating payment:", error);
+      return res.status(500).json({
+        errorMessage: error.message || "Failed to initiate payment",
       });
+    }
+  }
+);
 
-      if (method === PaymentMethod.ESEWA) {
-        const updatedGatewayMeta = {
-          ...gatewayMeta,
-          params: {
-            ...gatewayMeta.params,
-            // Use path parameters instead of query parameters to avoid issues with eSewa appending ?data=...
-            success_url: `${config.esewa.successUrl}/${paymentRecord.id}`,
-            failure_url: `${config.esewa.failureUrl}/${paymentRecord.id}`,
-            payment_id: paymentRecord.id,
-          },
-        };
+/**
+ * POST /user/payments/initiate-connection
+ * Start a single payment for both legs of a connecting journey. Seats on both
+ * legs are held until the payment settles; if either leg can no longer be
+ * booked then, neither is and the whole payment is refunded.
+ * Body: { legs: [first, second], paymentMethod, mockOutcome? } where each leg
+ * is a /payments/initiate booking without a coupon
+ */
+userRouter.post(
+  "/payments/initiate-connection",
+  authenticateUser,
+  async (req: AuthRequest, res): Promise<any> => {
+    const userId = req.userId;
 
-        paymentRecord = await prisma.payment.update({
-          where: { id: paymentRecord.id },
-          data: {
-            metadata: {
-              booking: bookingMetadata,
-              gatewayMeta: updatedGatewayMeta,
-            },
-          },
-        });
+    if (!userId) {
+      return res.status(401).json({ errorMessage: "User not authenticated" });
+    }
 
-        return res.status(200).json({
-          message: "Payment initiation data for eSewa",
-          paymentId: paymentRecord.id,
-          method,
-          amount: amounts.chargedAmount,
-          currency: amounts.chargedCurrency,
-          form: updatedGatewayMeta,
-        });
+    const validation = initiateConnectionPaymentSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        errorMessage: "Invalid payment initiation data",
+        errors: validation.error.issues,
+      });
+    }
+
+    const { legs, paymentMethod, mockOutcome } = validation.data;
+    const method = paymentMethod as PaymentMethod;
+
+    try {
+      const prepared: BookingPreparationResult[] = [];
+      for (const leg of legs) {
+        prepared.push(await prepareBookingDetails(prisma, leg, userId));
       }
 
-      if (method === PaymentMethod.RAZORPAY) {
-        return res.status(200).json({
-          message: "Payment initiated via Razorpay",
-          paymentId: paymentRecord.id,
-          method,
-          amount: amounts.chargedAmount,
-          currency: amounts.chargedCurrency,
-          orderId: gatewayMeta.orderId,
-          razorpayKeyId: gatewayMeta.razorpayKeyId,
+      const [firstLeg, secondLeg] = prepared;
+      if (!firstLeg || !secondLeg) {
+        return res
+          .status(400)
+          .json({ errorMessage: "A connection has exactly two legs" });
+      }
+
+      if (firstLeg.seats.length !== secondLeg.seats.length) {
+        return res.status(400).json({
+          errorMessage: "Select the same number of seats on both legs",
         });
       }
 
-      return res.status(500).json({
-        errorMessage: "Unsupported payment method",
+      const transfer = getConnectionTransfer(firstLeg, secondLeg);
+      const totalFare = roundToTwo(firstLeg.finalPrice + secondLeg.finalPrice);
+
+      const checkout = await startPayment({
+        userId,
+        method,
+        mockOutcome,
+        amount: totalFare,
+        notes: {
+          userId,
+          tripId: firstLeg.trip.id,
+          connectingTripId: secondLeg.trip.id,
+        },
+        metadata: {
+          connection: transfer,
+          legs: prepared.map((details) => ({
+            ...details.bookingPayload,
+            seatFares: details.seatFares,
+            seatPricing: details.seatPricing,
+            pricingRule: summarizePricingRule(details.pricingRule),
+            passengerCategories: details.passengerCategories,
+            lapInfants: details.lapInfants,
+            totalPrice: details.totalPrice,
+            discountAmount: details.discountAmount,
+            finalPrice: details.finalPrice,
+            offerId: null,
+          })),
+        },
+        holds: prepared.map((details) => ({
+          tripId: details.bookingPayload.tripId,
+          seatIds: details.bookingPayload.seatIds,
+          fromStopIndex: details.fromStop.stopIndex,
+          toStopIndex: details.toStop.stopIndex,
+        })),
+      });
+
+      return res.status(200).json({
+        ...checkout,
+        connection: { ...transfer, totalFare },
       });
     } catch (error: any) {
-      console.error("Error initiating payment:", error);
+      if (error instanceof ServiceError) {
+        return handleServiceError(error, res);
+      }
+
+      console.error("Error initiating connection payment:", error);
       return res.status(500).json({
         errorMessage: error.message || "Failed to initiate payment",
       });
@@ -1789,132 +2264,58 @@ userRouter.post(
         });
       }
 
-      const config = getPaymentConfig();
-
-      if (payment.method === PaymentMethod.RAZORPAY) {
-        if (!razorpayOrderId || !razorpayPaymentId || !razorpaySignature) {
-          return res.status(400).json({
-            errorMessage: "Missing Razorpay verification fields",
-          });
-        }
-
-        if (payment.gatewayOrderId !== razorpayOrderId) {
-          return res.status(400).json({
-            errorMessage: "Razorpay order ID mismatch",
-          });
-        }
-
-        const expectedSignature = crypto
-          .createHmac("sha256", config.razorpay.keySecret)
-          .update(`${razorpayOrderId}|${razorpayPaymentId}`)
-          .digest("hex");
-
-        if (expectedSignature !== razorpaySignature) {
-          await prisma.payment.update({
-            where: { id: paymentId },
-            data: {
-              gatewayPaymentId: razorpayPaymentId,
-              gatewaySignature: razorpaySignature,
-              status: PaymentStatus.FAILED,
-            },
-          });
-
-          return res.status(400).json({
-            errorMessage: "Invalid Razorpay signature",
-          });
-        }
-
-        const updatedPayment = await prisma.payment.update({
-          where: { id: paymentId },
-          data: {
-            gatewayPaymentId: razorpayPaymentId,
-            gatewaySignature: razorpaySignature,
-            status: PaymentStatus.SUCCESS,
-          },
-        });
-
-        return res.status(200).json({
-          message: "Payment verified successfully",
-          paymentId: updatedPayment.id,
-          method: updatedPayment.method,
-          status: updatedPayment.status,
-        });
-      }
+      const result = await getPaymentProvider(payment.method).verify(payment, {
+        razorpayOrderId,
+        razorpayPaymentId,
+        razorpaySignature,
+        esewaRefId,
+      });
 
-      if (!esewaRefId) {
-        return res.status(400).json({
-          errorMessage: "Missing eSewa reference ID",
-        });
+      if (result.status === "INVALID") {
+        return res.status(400).json({ errorMessage: result.reason });
       }
 
-      const verificationPayload = {
-        product_code: config.esewa.productCode,
-        total_amount: payment.chargedAmount.toFixed(2),
-        transaction_uuid: payment.gatewayOrderId,
-      };
-
-      let verificationStatus = "FAILED";
-
-      try {
-        const response = await axios.get(config.esewa.verificationEndpoint, {
-          params: verificationPayload,
-          headers: {
-            Accept: "application/json",
-          },
+      // Gateway hasn't settled yet; the client should retry later
+      if (result.status === "PENDING") {
+        return res.status(202).json({
+          message: result.reason,
+          paymentId: payment.id,
+          method: payment.method,
+          status: payment.status,
         });
-
-        const statusValue =
-          response?.data?.status ||
-          response?.data?.state ||
-          response?.data?.result;
-
-        if (typeof statusValue === "string") {
-          const normalized = statusValue.toUpperCase();
-          if (["SUCCESS", "COMPLETED", "COMPLETE", "OK"].includes(normalized)) {
-            verificationStatus = "SUCCESS";
-          }
-        }
-      } catch (verificationError) {
-        console.error("eSewa verification error:", verificationError);
-        verificationStatus = "FAILED";
       }
 
-      if (verificationStatus !== "SUCCESS") {
-        await prisma.payment.update({
-          where: { id: paymentId },
-          data: {
-            gatewayPaymentId: esewaRefId,
-            status: PaymentStatus.FAILED,
-            metadata: {
-              ...(payment.metadata as any),
-              verification: {
-                status: "FAILED",
-                payload: verificationPayload,
-              },
-            },
-          },
-        });
-
-        return res.status(400).json({
-          errorMessage: "eSewa payment verification failed",
-        });
-      }
+      const verifiedStatus =
+        result.status === "SUCCESS"
+          ? PaymentStatus.SUCCESS
+          : PaymentStatus.FAILED;
 
       const updatedPayment = await prisma.payment.update({
         where: { id: paymentId },
         data: {
-          gatewayPaymentId: esewaRefId,
-          status: PaymentStatus.SUCCESS,
-          metadata: {
-            ...(payment.metadata as any),
-            verification: {
-              status: "SUCCESS",
-              payload: verificationPayload,
-            },
-          },
+          status: verifiedStatus,
+          gatewayPaymentId: result.gatewayPaymentId ?? payment.gatewayPaymentId,
+          gatewaySignature: result.gatewaySignature ?? payment.gatewaySignature,
+          ...(result.verification
+            ? {
+                metadata: {
+                  ...(payment.metadata as any),
+                  verification: result.verification,
+                },
+              }
+            : {}),
         },
       });
 
+      if (verifiedStatus === PaymentStatus.FAILED) {
+        await releaseSeatHoldsForPayment(prisma, paymentId, "PAYMENT_FAILED");
+        await promoteWaitlistsForPayment(paymentId);
+
+        return res.status(400).json({
+          errorMessage: result.reason || "Payment verification failed",
+        });
+      }
+
       return res.status(200).json({
         message: "Payment verified successfully",
         paymentId: updatedPayment.id,
@@ -1922,6 +2323,10 @@ userRouter.post(
         status: updatedPayment.status,
       });
     } catch (error: any) {
+      if (error instanceof ServiceError) {
+        return handleServiceError(error, res);
+      }
+
       console.error("Error verifying payment:", error);
       return res.status(500).json({
         errorMessage: error.message || "Failed to verify payment",
@@ -1959,621 +2364,472 @@ userRouter.post(
         return res.status(404).json({ errorMessage: "Payment not found" });
       }
 
-      if (payment.status !== PaymentStatus.SUCCESS) {
-        return res.status(400).json({
-          errorMessage: "Payment has not been verified successfully",
+      // A group booking deposit or balance books through its request
+      if (payment.groupBookingRequestId) {
+        const groupResult = await confirmGroupBookingPayment(paymentId);
+
+        if (!groupResult.alreadyConfirmed) {
+          await sendGroupBookingPaymentConfirmation(groupResult);
+        }
+
+        return res.status(200).json({
+          message: groupResult.alreadyConfirmed
+            ? "Group booking payment already applied"
+            : "Group booking payment received",
+          groupBooking: serializeGroupBooking(groupResult.request),
         });
       }
 
-      const bookingPayload = (payment.metadata as any)?.booking;
+      const result = await confirmPaymentBooking(paymentId);
 
-      if (!bookingPayload) {
-        return res.status(400).json({
-          errorMessage: "Payment metadata missing booking information",
+      // The webhook (or an earlier request) may already have created it
+      if (result.alreadyConfirmed) {
+        return res.status(200).json({
+          message: "Booking already confirmed",
+          bookingGroupId: result.bookingGroup.id,
+          itineraryId: result.bookingGroup.itineraryId,
+          totalPrice: result.bookingGroup.totalPrice,
+          discountAmount: result.bookingGroup.discountAmount,
+          finalPrice: result.bookingGroup.finalPrice,
+          couponApplied: !!result.bookingGroup.offerId,
         });
       }
 
-      if (payment.bookingGroupId) {
-        const existingGroup = await prisma.bookingGroup.findUnique({
-          where: { id: payment.bookingGroupId },
-        });
+      await sendBookingConfirmation(userId, result);
 
-        if (existingGroup) {
-          return res.status(200).json({
-            message: "Booking already confirmed",
-            bookingGroupId: existingGroup.id,
-            totalPrice: existingGroup.totalPrice,
-            discountAmount: existingGroup.discountAmount,
-            finalPrice: existingGroup.finalPrice,
-            couponApplied: !!existingGroup.offerId,
-          });
-        }
-      }
+      return res.status(200).json({
+        message: "Booking confirmed successfully",
+        bookingGroupId: result.bookingGroup.id,
+        itineraryId: result.itinerary?.id ?? null,
+        // Both legs of a connecting journey; the fields below describe the
+        // first leg and the prices cover the whole journey
+        legs: result.itinerary
+          ? result.legs.map((leg) => ({
+              bookingGroupId: leg.bookingGroup.id,
+              tripId: leg.bookingGroup.tripId,
+              route: { from: leg.fromStop.name, to: leg.toStop.name },
+              seatNumbers: leg.seats.map((s) => s.seatNumber),
+              finalPrice: leg.finalPrice,
+            }))
+          : null,
+        totalPrice: result.totalPrice,
+        discountAmount: result.discountAmount,
+        finalPrice: result.finalPrice,
+        couponApplied: !!result.couponCode,
+        seatCount: result.seats.length,
+        seatNumbers: result.seats.map((s) => s.seatNumber),
+        route: {
+          from: result.fromStop.name,
+          to: result.toStop.name,
+        },
+        boardingPoint: result.boardingPoint
+          ? {
+              id: result.boardingPoint.id,
+              name: result.boardingPoint.name,
+              time: result.boardingPoint.time,
+              type: result.boardingPoint.type,
+            }
+          : null,
+        droppingPoint: result.droppingPoint
+          ? {
+              id: result.droppingPoint.id,
+              name: result.droppingPoint.name,
+              time: result.droppingPoint.time,
+              type: result.droppingPoint.type,
+            }
+          : null,
+        passengers: result.passengers.map((p) => ({
+          name: p.name,
+          age: p.age,
+          gender: p.gender,
+          category: p.category,
+        })),
+        infants: result.lapInfants.map((infant) => ({
+          name: infant.name,
+          age: infant.age,
+          gender: infant.gender,
+          fare: infant.fare,
+        })),
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to confirm booking");
+    }
+  }
+);
 
-      const bookingValidation = bookTicketSchema.safeParse(bookingPayload);
-      if (!bookingValidation.success) {
-        return res.status(400).json({
-          errorMessage: "Stored booking data is invalid",
-          errors: bookingValidation.error.issues,
-        });
-      }
+/**
+ * POST /user/cancelticket/quote
+ * Preview the refund for cancelling a booking (or some of its seats)
+ */
+userRouter.post(
+  "/cancelticket/quote",
+  authenticateUser,
+  async (req: AuthRequest, res): Promise<any> => {
+    const userId = req.userId;
 
-      const {
-        tripId,
-        fromStopId,
-        toStopId,
-        seatIds,
-        passengers,
-        couponCode,
-        boardingPointId,
-        droppingPointId,
-        seatFares,
-        totalPrice,
-        discountAmount,
-        finalPrice,
-        offerId,
-      } = bookingPayload;
+    if (!userId) {
+      return res.status(401).json({ errorMessage: "User not authenticated" });
+    }
 
-      if (!Array.isArray(seatIds) || seatIds.length === 0) {
-        return res.status(400).json({
-          errorMessage: "Booking metadata missing seats",
-        });
-      }
+    const validation = cancelTicketSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        errorMessage: "Invalid cancellation request",
+        errors: validation.error.issues,
+      });
+    }
 
-      const result = await prisma.$transaction(
-        async (tx) => {
-          const trip = await tx.trip.findUnique({
-            where: { id: tripId },
-            include: {
-              bus: {
-                include: {
-                  stops: true,
-                  seats: true,
-                },
-              },
-            },
-          });
+    try {
+      const quote = await quoteCancellation({
+        userId,
+        bookingGroupId: validation.data.bookingGroupId,
+        bookingIds: validation.data.bookingIds,
+      });
 
-          if (!trip) {
-            throw new Error("Trip not found");
-          }
+      return res.status(200).json({
+        message: "Cancellation quote calculated successfully",
+        quote,
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to cancel ticket");
+    }
+  }
+);
 
-          if (trip.status === "CANCELLED" || trip.status === "COMPLETED") {
-            throw new Error("Trip is not available for booking");
-          }
+/**
+ * POST /user/cancelticket
+ * Cancel a whole booking group or a subset of its seats.
+ * Refund is calculated from the operator's cancellation slabs.
+ */
+userRouter.post(
+  "/cancelticket",
+  authenticateUser,
+  async (req: AuthRequest, res): Promise<any> => {
+    const userId = req.userId;
 
-          const now = new Date();
-          const tripDate = new Date(trip.tripDate);
-          tripDate.setHours(0, 0, 0, 0);
+    if (!userId) {
+      return res.status(401).json({ errorMessage: "User not authenticated" });
+    }
 
-          const today = new Date();
-          today.setHours(0, 0, 0, 0);
+    const validation = cancelTicketSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        errorMessage: "Invalid cancellation request",
+        errors: validation.error.issues,
+      });
+    }
 
-          if (tripDate < today) {
-            throw new Error("Cannot book tickets for past dates");
-          }
+    const { bookingGroupId, bookingIds } = validation.data;
 
-          const fromStop = trip.bus.stops.find((s) => s.id === fromStopId);
-          const toStop = trip.bus.stops.find((s) => s.id === toStopId);
+    try {
+      const result = await cancelBookingGroup({
+        userId,
+        bookingGroupId,
+        bookingIds,
+      });
 
-          if (!fromStop || !toStop) {
-            throw new Error("Stops not found");
-          }
+      // The cancellation stands even if the gateway refund fails; the refund
+      // row records the failure so it can be retried
+      let refund = null;
+      try {
+        const payment = await prisma.payment.findFirst({
+          where: paymentForBookingGroupWhere(bookingGroupId),
+          select: { id: true },
+        });
 
-          if (fromStop.stopIndex === toStop.stopIndex) {
-            throw new Error("From and to stops cannot be the same");
-          }
+        if (payment && result.refundAmount > 0) {
+          refund = await issueRefund({
+            paymentId: payment.id,
+            baseAmount: result.refundAmount,
+            bookingIds: result.seats.map((s) => s.bookingId),
+            reason: "Cancelled by passenger",
+          });
+        }
+      } catch (refundError) {
+        console.error("Error issuing cancellation refund:", refundError);
+      }
+
+      try {
+        await notifyBookingCancelled(
+          userId,
+          bookingGroupId,
+          result.refundAmount,
+          result.seats.map((s) => s.seatNumber)
+        );
+      } catch (notificationError) {
+        console.error(
+          "Error sending cancellation notification:",
+          notificationError
+        );
+      }
+
+      return res.status(200).json({
+        message: result.cancelsWholeGroup
+          ? "Booking cancelled successfully"
+          : "Selected seats cancelled successfully",
+        bookingGroupId,
+        refundPercentage: result.refundPercentage,
+        refundAmount: result.refundAmount,
+        cancellationCharge: result.cancellationCharge,
+        seatCount: result.seats.length,
+        seats: result.seats,
+        groupStatus: result.cancelsWholeGroup ? "CANCELLED" : "CONFIRMED",
+        refund: refund ? serializeRefund(refund) : null,
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to cancel ticket");
+    }
+  }
+);
+
+/**
+ * POST /user/trip/:tripId/waitlist
+ * Join the waitlist of a sold-out segment. When seats free up the user is
+ * notified and the seats are held for them for a limited time. Ladies-only
+ * seats are only offered to the `femaleSeatCount` women in the party.
+ * Body: { fromStopId, toStopId, seatCount, femaleSeatCount? }
+ */
+userRouter.post(
+  "/trip/:tripId/waitlist",
+  authenticateUser,
+  async (req: AuthRequest, res): Promise<any> => {
+    const userId = req.userId;
+    const { tripId } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({ errorMessage: "User not authenticated" });
+    }
+
+    const validation = joinWaitlistSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        errorMessage: "Invalid waitlist request",
+        errors: validation.error.issues,
+      });
+    }
 
-          const boardingPoint = await tx.stopPoint.findUnique({
-            where: { id: boardingPointId },
-          });
+    try {
+      const { entry, position } = await joinWaitlist({
+        userId,
+        tripId: tripId as string,
+        ...validation.data,
+      });
 
-          if (!boardingPoint || boardingPoint.stopId !== fromStopId) {
-            throw new Error("Invalid boarding point selected");
-          }
+      return res.status(201).json({
+        message: "Added to the waitlist",
+        waitlistEntry: { ...serializeWaitlistEntry(entry), position },
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to join waitlist");
+    }
+  }
+);
 
-          if (boardingPoint.type !== "BOARDING") {
-            throw new Error(
-              "Selected boarding point is not valid for boarding"
-            );
-          }
+/**
+ * GET /user/waitlist
+ * The user's waitlist entries with queue position and any seats held for them
+ */
+userRouter.get(
+  "/waitlist",
+  authenticateUser,
+  async (req: AuthRequest, res): Promise<any> => {
+    const userId = req.userId;
 
-          const droppingPoint = await tx.stopPoint.findUnique({
-            where: { id: droppingPointId },
-          });
+    if (!userId) {
+      return res.status(401).json({ errorMessage: "User not authenticated" });
+    }
 
-          if (!droppingPoint || droppingPoint.stopId !== toStopId) {
-            throw new Error("Invalid dropping point selected");
-          }
+    try {
+      const waitlist = await getUserWaitlist(userId);
 
-          const seats = await tx.seat.findMany({
-            where: {
-              id: { in: seatIds },
-              busId: trip.busId,
-              isActive: true,
-            },
-          });
+      return res.status(200).json({
+        count: waitlist.length,
+        waitlist,
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to fetch waitlist");
+    }
+  }
+);
 
-          if (seats.length !== seatIds.length) {
-            throw new Error("One or more seats are invalid or inactive");
-          }
+/**
+ * DELETE /user/waitlist/:entryId
+ * Leave a waitlist. Seats held for an open offer go to the next user in line.
+ */
+userRouter.delete(
+  "/waitlist/:entryId",
+  authenticateUser,
+  async (req: AuthRequest, res): Promise<any> => {
+    const userId = req.userId;
+    const { entryId } = req.params;
 
-          const existingBookings = await tx.booking.findMany({
-            where: {
-              tripId,
-              seatId: { in: seatIds },
-              status: "CONFIRMED",
-            },
-            include: {
-              group: {
-                select: {
-                  fromStop: { select: { stopIndex: true } },
-                  toStop: { select: { stopIndex: true } },
-                },
-              },
-            },
-          });
+    if (!userId) {
+      return res.status(401).json({ errorMessage: "User not authenticated" });
+    }
 
-          const minIndex = Math.min(fromStop.stopIndex, toStop.stopIndex);
-          const maxIndex = Math.max(fromStop.stopIndex, toStop.stopIndex);
-          const isReturnTrip = fromStop.stopIndex > toStop.stopIndex;
+    try {
+      const entry = await leaveWaitlist(userId, entryId as string);
 
-          const conflictingBookings = existingBookings.filter((booking) => {
-            const bookingFromIdx = booking.group.fromStop.stopIndex;
-            const bookingToIdx = booking.group.toStop.stopIndex;
+      return res.status(200).json({
+        message: "Removed from the waitlist",
+        waitlistEntry: serializeWaitlistEntry(entry),
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to leave waitlist");
+    }
+  }
+);
 
-            // Check if booking is in the same direction
-            const bookingIsReturnTrip = bookingFromIdx > bookingToIdx;
-            if (bookingIsReturnTrip !== isReturnTrip) {
-              return false;
-            }
+/**
+ * POST /user/trip/:tripId/group-booking
+ * Ask the operator for more than 6 seats, or to charter the whole bus, on a
+ * trip. The operator quotes a price and holds the seats; see
+ * POST /group-bookings/:requestId/pay.
+ * Body: { fromStopId, toStopId, seatCount?, charter?, organizationName,
+ *         contactPhone, notes? }
+ */
+userRouter.post(
+  "/trip/:tripId/group-booking",
+  authenticateUser,
+  async (req: AuthRequest, res): Promise<any> => {
+    const userId = req.userId;
+    const { tripId } = req.params;
 
-            const bookingMin = Math.min(bookingFromIdx, bookingToIdx);
-            const bookingMax = Math.max(bookingFromIdx, bookingToIdx);
+    if (!userId) {
+      return res.status(401).json({ errorMessage: "User not authenticated" });
+    }
 
-            return minIndex < bookingMax && maxIndex > bookingMin;
-          });
+    const validation = groupBookingRequestSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        errorMessage: "Invalid group booking request",
+        errors: validation.error.issues,
+      });
+    }
 
-          if (conflictingBookings.length > 0) {
-            const conflictedSeats = conflictingBookings
-              .map((b) => {
-                const seat = seats.find((s) => s.id === b.seatId);
-                return seat?.seatNumber || b.seatId;
-              })
-              .join(", ");
+    try {
+      const request = await requestGroupBooking({
+        userId,
+        tripId: tripId as string,
+        ...validation.data,
+      });
 
-            throw new Error(
-              `Seat(s) ${conflictedSeats} are already booked for this route segment. Please select different seats.`
-            );
-          }
+      return res.status(201).json({
+        message: "Group booking requested. The operator will send a quote.",
+        groupBooking: serializeGroupBooking(request),
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to request group booking");
+    }
+  }
+);
 
-          const computedTotal =
-            typeof totalPrice === "number"
-              ? totalPrice
-              : seats.reduce((sum, seat) => {
-                  const seatFare = seatFares?.[seat.id] ?? 0;
-                  return sum + seatFare;
-                }, 0);
-
-          const computedFinal =
-            typeof finalPrice === "number"
-              ? finalPrice
-              : computedTotal - (discountAmount ?? 0);
-
-          const bookingGroup = await tx.bookingGroup.create({
-            data: {
-              userId,
-              tripId,
-              fromStopId,
-              toStopId,
-              totalPrice: roundToTwo(computedTotal),
-              offerId: offerId ?? null,
-              discountAmount: roundToTwo(discountAmount ?? 0),
-              finalPrice: roundToTwo(computedFinal),
-              boardingPointId: boardingPoint.id,
-              droppingPointId: droppingPoint.id,
-              status: "CONFIRMED",
-            },
-          });
+/**
+ * GET /user/group-bookings
+ * The user's group booking requests with their quotes, seats and balance
+ */
+userRouter.get(
+  "/group-bookings",
+  authenticateUser,
+  async (req: AuthRequest, res): Promise<any> => {
+    const userId = req.userId;
 
-          const bookings = await Promise.all(
-            seatIds.map((seatId: string) =>
-              tx.booking.create({
-                data: {
-                  groupId: bookingGroup.id,
-                  tripId,
-                  seatId,
-                  status: "CONFIRMED",
-                },
-              })
-            )
-          );
+    if (!userId) {
+      return res.status(401).json({ errorMessage: "User not authenticated" });
+    }
 
-          const passengerRecords = await Promise.all(
-            bookings.map((booking) => {
-              const passengerData = passengers.find(
-                (p: any) => p.seatId === booking.seatId
-              );
-              if (!passengerData) {
-                throw new Error("Passenger data missing for seat");
-              }
-              return tx.passenger.create({
-                data: {
-                  bookingId: booking.id,
-                  name: passengerData.name,
-                  age: passengerData.age,
-                  gender: passengerData.gender,
-                  phone: passengerData.phone || "",
-                  email: passengerData.email,
-                },
-              });
-            })
-          );
+    try {
+      const groupBookings = await getUserGroupBookings(userId);
 
-          await tx.payment.update({
-            where: { id: paymentId },
-            data: {
-              bookingGroupId: bookingGroup.id,
-              status: PaymentStatus.SUCCESS,
-            },
-          });
+      return res.status(200).json({
+        count: groupBookings.length,
+        groupBookings,
+      });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to fetch group bookings");
+    }
+  }
+);
 
-          if (offerId) {
-            await tx.offer.update({
-              where: { id: offerId },
-              data: { usageCount: { increment: 1 } },
-            });
-          }
+/**
+ * POST /user/group-bookings/:requestId/pay
+ * Pay the deposit of a quoted group booking, or its balance once the deposit
+ * is paid. Confirm with POST /payments/verify and /payments/confirm as for
+ * any booking.
+ * Body: { paymentMethod, mockOutcome? }
+ */
+userRouter.post(
+  "/group-bookings/:requestId/pay",
+  authenticateUser,
+  async (req: AuthRequest, res): Promise<any> => {
+    const userId = req.userId;
+    const { requestId } = req.params;
 
-          return {
-            bookingGroup,
-            bookings,
-            passengers: passengerRecords,
-            seats,
-            fromStop,
-            toStop,
-            boardingPoint,
-            droppingPoint,
-            totalPrice: roundToTwo(computedTotal),
-            discountAmount: roundToTwo(discountAmount ?? 0),
-            finalPrice: roundToTwo(computedFinal),
-            couponCode,
-          };
-        },
-        {
-          maxWait: 15000,
-          timeout: 30000,
-        }
-      );
+    if (!userId) {
+      return res.status(401).json({ errorMessage: "User not authenticated" });
+    }
 
-      const tripWithBus = await prisma.trip.findUnique({
-        where: { id: result.bookingGroup.tripId },
-        include: {
-          bus: {
-            select: {
-              name: true,
-              busNumber: true,
-              type: true,
-            },
-          },
-        },
+    const validation = payGroupBookingSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        errorMessage: "Invalid payment initiation data",
+        errors: validation.error.issues,
       });
+    }
 
-      // Get user details for email
-      const userDetails = await prisma.user.findUnique({
-        where: { id: userId },
-        select: { name: true, email: true },
-      });
+    try {
+      const { request, stage, amount } = await getGroupBookingPaymentDue(
+        userId,
+        requestId as string
+      );
 
-      await notifyBookingConfirmed(userId, result.bookingGroup.id, {
-        busName: tripWithBus?.bus.name || "Bus",
-        busNumber: tripWithBus?.bus.busNumber || "",
-        date: tripWithBus?.tripDate.toISOString() || new Date().toISOString(),
-        from: result.fromStop.name,
-        to: result.toStop.name,
-        seatNumbers: result.seats.map((s) => s.seatNumber),
-        totalPrice: result.finalPrice,
+      const checkout = await startPayment({
+        userId,
+        method: validation.data.paymentMethod as PaymentMethod,
+        mockOutcome: validation.data.mockOutcome,
+        amount,
+        notes: { userId, groupBookingRequestId: request.id, stage },
+        metadata: { groupBooking: { requestId: request.id, stage, amount } },
+        // The quote's own hold keeps the seats while the deposit is paid
+        holds: [],
+        groupBookingRequestId: request.id,
       });
 
-      if (result.couponCode) {
-        await notifyOfferApplied(
-          userId,
-          result.couponCode,
-          result.discountAmount
-        );
-      }
-
-      // Generate PDF ticket and send email
-      try {
-        const { generateTicketPDF } = await import("../services/pdfService.js");
-        const { sendBookingConfirmationEmail } = await import(
-          "../services/brevoEmailService.js"
-        );
-
-        // Fetch payment details
-        const payment = await prisma.payment.findUnique({
-          where: { bookingGroupId: result.bookingGroup.id },
-        });
+      return res.status(200).json({ ...checkout, stage });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to initiate payment");
+    }
+  }
+);
 
-        // Prepare ticket data
-        const ticketData = {
-          bookingGroupId: result.bookingGroup.id,
-          bookedAt: result.bookingGroup.createdAt.toISOString(),
-          user: {
-            name: userDetails?.name || "Passenger",
-            email: userDetails?.email || "",
-          },
-          trip: {
-            tripDate:
-              tripWithBus?.tripDate.toISOString() || new Date().toISOString(),
-            tripStatus: tripWithBus?.status || "ACTIVE",
-          },
-          bus: {
-            busNumber: tripWithBus?.bus.busNumber || "",
-            name: tripWithBus?.bus.name || "",
-            type: tripWithBus?.bus.type || "SEATER",
-          },
-          route: {
-            from: {
-              name: result.fromStop.name,
-              city: result.fromStop.city,
-              departureTime: result.fromStop.departureTime,
-            },
-            to: {
-              name: result.toStop.name,
-              city: result.toStop.city,
-              arrivalTime: result.toStop.arrivalTime,
-            },
-          },
-          boardingPoint: result.boardingPoint
-            ? {
-                name: result.boardingPoint.name,
-                landmark: result.boardingPoint.landmark,
-                time: result.boardingPoint.time,
-              }
-            : null,
-          droppingPoint: result.droppingPoint
-            ? {
-                name: result.droppingPoint.name,
-                landmark: result.droppingPoint.landmark,
-                time: result.droppingPoint.time,
-              }
-            : null,
-          seats: result.passengers.map((p, idx) => {
-            const seat = result.seats[idx];
-            return {
-              seatNumber: seat?.seatNumber || "",
-              seatLevel: seat?.level || "LOWER",
-              seatType: seat?.type || "SEATER",
-              fare: (seatFares as any)?.[seat?.id || ""] || 0,
-              passenger: {
-                name: p.name,
-                age: p.age,
-                gender: p.gender,
-              },
-            };
-          }),
-          pricing: {
-            totalPrice: result.totalPrice,
-            discountAmount: result.discountAmount,
-            finalPrice: result.finalPrice,
-            couponCode: result.couponCode || undefined,
-          },
-          payment: payment
-            ? {
-                method: payment.method as string,
-                amountPaid: payment.chargedAmount,
-                currency: payment.chargedCurrency as string,
-              }
-            : undefined,
-          status: "CONFIRMED" as const,
-        };
+/**
+ * DELETE /user/group-bookings/:requestId
+ * Withdraw a group booking request before paying for it
+ */
+userRouter.delete(
+  "/group-bookings/:requestId",
+  authenticateUser,
+  async (req: AuthRequest, res): Promise<any> => {
+    const userId = req.userId;
+    const { requestId } = req.params;
 
-        // Generate PDF
-        const pdfBuffer = await generateTicketPDF(ticketData);
+    if (!userId) {
+      return res.status(401).json({ errorMessage: "User not authenticated" });
+    }
 
-        // Send email with PDF attachment
-        if (userDetails?.email) {
-          await sendBookingConfirmationEmail(
-            userDetails.email,
-            userDetails.name,
-            {
-              bookingGroupId: result.bookingGroup.id,
-              busName: tripWithBus?.bus.name || "",
-              busNumber: tripWithBus?.bus.busNumber || "",
-              tripDate: new Date(
-                tripWithBus?.tripDate || new Date()
-              ).toLocaleDateString("en-IN"),
-              fromStop: result.fromStop.name,
-              toStop: result.toStop.name,
-              boardingPoint: result.boardingPoint?.name || "",
-              boardingTime: result.boardingPoint?.time || "",
-              droppingPoint: result.droppingPoint?.name || "",
-              seats: ticketData.seats.map((s) => ({
-                seatNumber: s.seatNumber,
-                passengerName: s.passenger.name,
-                age: s.passenger.age,
-                gender: s.passenger.gender,
-                level: s.seatLevel,
-                type: s.seatType,
-              })),
-              totalPrice: result.totalPrice,
-              discountAmount: result.discountAmount,
-              finalPrice: result.finalPrice,
-              couponCode: result.couponCode,
-              bookedAt: result.bookingGroup.createdAt.toLocaleString("en-IN"),
-            },
-            pdfBuffer
-          );
-          console.log(
-            "✅ Booking confirmation email with PDF sent successfully"
-          );
-        }
-      } catch (pdfError) {
-        console.error("Error generating PDF or sending email:", pdfError);
-        // Don't fail the booking if PDF/email fails
-      }
+    try {
+      const request = await withdrawGroupBooking(userId, requestId as string);
 
       return res.status(200).json({
-        message: "Booking confirmed successfully",
-        bookingGroupId: result.bookingGroup.id,
-        totalPrice: result.totalPrice,
-        discountAmount: result.discountAmount,
-        finalPrice: result.finalPrice,
-        couponApplied: !!result.couponCode,
-        seatCount: result.seats.length,
-        seatNumbers: result.seats.map((s) => s.seatNumber),
-        route: {
-          from: result.fromStop.name,
-          to: result.toStop.name,
-        },
-        boardingPoint: result.boardingPoint
-          ? {
-              id: result.boardingPoint.id,
-              name: result.boardingPoint.name,
-              time: result.boardingPoint.time,
-              type: result.boardingPoint.type,
-            }
-          : null,
-        droppingPoint: result.droppingPoint
-          ? {
-              id: result.droppingPoint.id,
-              name: result.droppingPoint.name,
-              time: result.droppingPoint.time,
-              type: result.droppingPoint.type,
-            }
-          : null,
-        passengers: result.passengers.map((p) => ({
-          name: p.name,
-          age: p.age,
-          gender: p.gender,
-        })),
-      });
-    } catch (error: any) {
-      console.error("Error confirming payment booking:", error);
-      return res.status(500).json({
-        errorMessage: error.message || "Failed to confirm booking",
+        message: "Group booking request withdrawn",
+        groupBooking: serializeGroupBooking(request),
       });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to withdraw group booking");
     }
   }
 );
 
-// CANCEL TICKET FEATURE DISABLED
-// userRouter.post(
-//   "/cancelticket",
-//   authenticateUser,
-//   async (req: AuthRequest, res): Promise<any> => {
-//     const { bookingGroupId } = req.body;
-//     const userId = req.userId;
-//
-//     if (!userId) {
-//       return res.status(401).json({ errorMessage: "User not authenticated" });
-//     }
-//
-//     // Validate input
-//     const validation = cancelTicketSchema.safeParse(req.body);
-//     if (!validation.success) {
-//       return res.status(400).json({
-//         errorMessage: "Invalid booking group ID",
-//         errors: validation.error.issues,
-//       });
-//     }
-//
-//     try {
-//       // Start transaction
-//       const result = await prisma.$transaction(async (tx) => {
-//         // 1. Find booking group
-//         const bookingGroup = await tx.bookingGroup.findUnique({
-//           where: { id: bookingGroupId },
-//           include: {
-//             bookings: true,
-//             trip: true,
-//           },
-//         });
-//
-//         if (!bookingGroup) {
-//           throw new Error("Booking not found");
-//         }
-//
-//         // 2. Verify ownership
-//         if (bookingGroup.userId !== userId) {
-//           throw new Error("Unauthorized: This booking doesn't belong to you");
-//         }
-//
-//         // 3. Check if already cancelled
-//         if (bookingGroup.status === "CANCELLED") {
-//           throw new Error("Booking is already cancelled");
-//         }
-//
-//         // 4. Check if trip has already completed
-//         if (bookingGroup.trip.status === "COMPLETED") {
-//           throw new Error("Cannot cancel completed trip");
-//         }
-//
-//         // 5. Check cancellation policy (optional - you can add time-based restrictions)
-//         const tripDate = bookingGroup.trip.tripDate;
-//         const now = new Date();
-//         const hoursUntilTrip =
-//           (tripDate.getTime() - now.getTime()) / (1000 * 60 * 60);
-//
-//         if (hoursUntilTrip < 2) {
-//           throw new Error(
-//             "Cannot cancel bookings less than 2 hours before departure"
-//           );
-//         }
-//
-//         // 6. Update booking group status
-//         await tx.bookingGroup.update({
-//           where: { id: bookingGroupId },
-//           data: { status: "CANCELLED" },
-//         });
-//
-//         // 7. Update all bookings in the group
-//         await tx.booking.updateMany({
-//           where: { groupId: bookingGroupId },
-//           data: {
-//             status: "CANCELLED",
-//             cancelledAt: new Date(),
-//           },
-//         });
-//
-//         return {
-//           bookingGroup,
-//           seatCount: bookingGroup.bookings.length,
-//         };
-//       });
-//
-//       // Get user details for notification
-//       const user = await prisma.user.findUnique({
-//         where: { id: userId },
-//         select: { email: true },
-//       });
-//
-//       // Send cancellation notification
-//       if (user) {
-//         await notifyBookingCancelled(
-//           userId,
-//           bookingGroupId,
-//           result.bookingGroup.finalPrice || result.bookingGroup.totalPrice
-//         );
-//       }
-//
-//       return res.status(200).json({
-//         message: "Booking cancelled successfully",
-//         bookingGroupId,
-//         refundAmount:
-//           result.bookingGroup.finalPrice || result.bookingGroup.totalPrice,
-//         seatCount: result.seatCount,
-//       });
-//     } catch (e: any) {
-//       console.error("Error cancelling ticket:", e);
-//       return res.status(500).json({
-//         errorMessage: e.message || "Failed to cancel ticket",
-//       });
-//     }
-//   }
-// );
-
 userRouter.get(
   "/mybookings",
   authenticateUser,
@@ -2610,6 +2866,10 @@ userRouter.get(
         include: {
           trip: {
             include: {
+              schedule: true,
+              routeVersion: {
+                select: { stops: { select: timetableStopSelect } },
+              },
               bus: {
                 select: {
                   busNumber: true,
@@ -2623,14 +2883,14 @@ userRouter.get(
             select: {
               name: true,
               city: true,
-              departureTime: true,
+              stopIndex: true,
             },
           },
           toStop: {
             select: {
               name: true,
               city: true,
-              arrivalTime: true,
+              stopIndex: true,
             },
           },
           boardingPoint: {
@@ -2681,7 +2941,7 @@ userRouter.get(
 
       const totalCount = await prisma.bookingGroup.count({ where });
 
-      const formattedBookings = bookingGroups.map((group: any) => ({
+      const formattedBookings = bookingGroups.map((group) => ({
         bookingGroupId: group.id,
         status: group.status,
         totalPrice: group.totalPrice,
@@ -2715,12 +2975,22 @@ userRouter.get(
           from: {
             name: group.fromStop.name,
             city: group.fromStop.city,
-            departureTime: group.fromStop.departureTime,
+            departureTime: getJourneyTimes(
+              group.trip.routeVersion.stops,
+              group.trip.schedule,
+              group.fromStop.stopIndex,
+              group.toStop.stopIndex
+            ).departureTime,
           },
           to: {
             name: group.toStop.name,
             city: group.toStop.city,
-            arrivalTime: group.toStop.arrivalTime,
+            arrivalTime: getJourneyTimes(
+              group.trip.routeVersion.stops,
+              group.trip.schedule,
+              group.fromStop.stopIndex,
+              group.toStop.stopIndex
+            ).arrivalTime,
           },
         },
         boardingPoint: group.boardingPoint
@@ -2738,9 +3008,12 @@ userRouter.get(
             }
           : null,
         seats: group.bookings.map((b: any) => ({
+          bookingId: b.id,
           seatNumber: b.seat.seatNumber,
           type: b.seat.type,
           level: b.seat.level,
+          status: b.status,
+          refundAmount: b.refundAmount,
         })),
         seatCount: group.bookings.length,
       }));
@@ -2789,6 +3062,10 @@ userRouter.get(
           },
           trip: {
             include: {
+              schedule: true,
+              routeVersion: {
+                select: { stops: { select: timetableStopSelect } },
+              },
               bus: {
                 select: {
                   busNumber: true,
@@ -2806,6 +3083,11 @@ userRouter.get(
               seat: true,
             },
           },
+          payment: {
+            include: {
+              refunds: { orderBy: { createdAt: "desc" } },
+            },
+          },
         },
       });
 
@@ -2820,6 +3102,14 @@ userRouter.get(
         });
       }
 
+      // Timings of the departure that was booked
+      const journeyTimes = getJourneyTimes(
+        bookingGroup.trip.routeVersion.stops,
+        bookingGroup.trip.schedule,
+        bookingGroup.fromStop.stopIndex,
+        bookingGroup.toStop.stopIndex
+      );
+
       const response = {
         bookingGroupId: bookingGroup.id,
         status: bookingGroup.status,
@@ -2846,14 +3136,14 @@ userRouter.get(
             id: bookingGroup.fromStop.id,
             name: bookingGroup.fromStop.name,
             city: bookingGroup.fromStop.city,
-            departureTime: bookingGroup.fromStop.departureTime,
+            departureTime: journeyTimes.departureTime,
             stopIndex: bookingGroup.fromStop.stopIndex,
           },
           to: {
             id: bookingGroup.toStop.id,
             name: bookingGroup.toStop.name,
             city: bookingGroup.toStop.city,
-            arrivalTime: bookingGroup.toStop.arrivalTime,
+            arrivalTime: journeyTimes.arrivalTime,
             stopIndex: bookingGroup.toStop.stopIndex,
           },
         },
@@ -2866,7 +3156,20 @@ userRouter.get(
           column: booking.seat.column,
           status: booking.status,
           cancelledAt: booking.cancelledAt,
+          refundAmount: booking.refundAmount,
         })),
+        payment: bookingGroup.payment
+          ? {
+              paymentId: bookingGroup.payment.id,
+              method: bookingGroup.payment.method,
+              status: bookingGroup.payment.status,
+              chargedAmount: bookingGroup.payment.chargedAmount,
+              chargedCurrency: bookingGroup.payment.chargedCurrency,
+            }
+          : null,
+        refunds: bookingGroup.payment
+          ? bookingGroup.payment.refunds.map(serializeRefund)
+          : [],
       };
 
       return res.status(200).json({
@@ -2914,6 +3217,10 @@ userRouter.get(
           },
           trip: {
             include: {
+              schedule: true,
+              routeVersion: {
+                select: { stops: { select: timetableStopSelect } },
+              },
               bus: {
                 select: {
                   busNumber: true,
@@ -2936,6 +3243,7 @@ userRouter.get(
             include: {
               seat: true,
               passenger: true,
+              lapInfants: true,
             },
           },
         },
@@ -2952,6 +3260,14 @@ userRouter.get(
         });
       }
 
+      // Timings of the departure that was booked
+      const journeyTimes = getJourneyTimes(
+        bookingGroup.trip.routeVersion.stops,
+        bookingGroup.trip.schedule,
+        bookingGroup.fromStop.stopIndex,
+        bookingGroup.toStop.stopIndex
+      );
+
       const { generateTicketPDF } = await import("../services/pdfService.js");
 
       // Fetch payment details
@@ -2980,12 +3296,12 @@ userRouter.get(
           from: {
             name: bookingGroup.fromStop.name,
             city: bookingGroup.fromStop.city,
-            departureTime: bookingGroup.fromStop.departureTime,
+            departureTime: journeyTimes.departureTime,
           },
           to: {
             name: bookingGroup.toStop.name,
             city: bookingGroup.toStop.city,
-            arrivalTime: bookingGroup.toStop.arrivalTime,
+            arrivalTime: journeyTimes.arrivalTime,
           },
         },
         boardingPoint: bookingGroup.boardingPoint
@@ -3006,13 +3322,30 @@ userRouter.get(
           seatNumber: booking.seat.seatNumber,
           seatLevel: booking.seat.level,
           seatType: booking.seat.type,
-          fare: 0, // Calculate if needed from stop prices
+          // Fare recorded at booking; older bookings are priced from the stops
+          fare:
+            booking.fare ??
+            getSegmentSeatFare(
+              bookingGroup.fromStop,
+              bookingGroup.toStop,
+              booking.seat
+            ),
           passenger: {
             name: booking.passenger?.name || "Passenger",
             age: booking.passenger?.age || 0,
             gender: booking.passenger?.gender || "MALE",
+            category: booking.passenger?.category || "ADULT",
           },
         })),
+        infants: bookingGroup.bookings.flatMap((booking) =>
+          booking.lapInfants.map((infant) => ({
+            seatNumber: booking.seat.seatNumber,
+            name: infant.name,
+            age: infant.age,
+            gender: infant.gender,
+            fare: infant.fare,
+          }))
+        ),
         pricing: {
           totalPrice: bookingGroup.totalPrice,
           discountAmount: bookingGroup.discountAmount || 0,
@@ -3588,12 +3921,28 @@ userRouter.get("/trip/:tripId/seats", async (req, res): Promise<any> => {
         bus: {
           include: {
             seats: {
+              where: { retiredAt: null },
               include: {
                 bookings: {
                   where: {
                     tripId: tripId,
                     status: "CONFIRMED",
                   },
+                  include: { passenger: { select: { gender: true } } },
+                },
+                seatHolds: {
+                  where: {
+                    tripId: tripId,
+                    ...activeSeatHoldWhere(),
+                  },
+                  select: { id: true },
+                },
+                seatBlocks: {
+                  where: {
+                    tripId: tripId,
+                    ...activeSeatBlockWhere(),
+                  },
+                  select: { id: true },
                 },
               },
             },
@@ -3606,6 +3955,18 @@ userRouter.get("/trip/:tripId/seats", async (req, res): Promise<any> => {
       return res.status(404).json({ errorMessage: "Trip not found" });
     }
 
+    // Any booking on the trip counts here, as for isBooked
+    const { adjacent, restrictions } = getSeatRestrictions(
+      trip.bus.seats,
+      trip.bus.seats.flatMap((seat) =>
+        seat.bookings.map((booking) => ({
+          seatId: seat.id,
+          gender: booking.passenger?.gender ?? null,
+        }))
+      ),
+      trip.bus.enforceGenderAdjacency
+    );
+
     const seatsWithStatus = trip.bus.seats.map((seat: any) => ({
       id: seat.id,
       seatNumber: seat.seatNumber,
@@ -3616,7 +3977,12 @@ userRouter.get("/trip/:tripId/seats", async (req, res): Promise<any> => {
       rowSpan: seat.rowSpan,
       columnSpan: seat.columnSpan,
       isBooked: seat.bookings.length > 0,
+      isHeld: seat.seatHolds.length > 0,
+      isBlocked: seat.seatBlocks.length > 0,
       isActive: seat.isActive,
+      isLadiesOnly: seat.isLadiesOnly,
+      restriction: restrictions.get(seat.id) ?? null,
+      adjacentSeatIds: adjacent.get(seat.id) ?? [],
     }));
 
     return res.status(200).json({
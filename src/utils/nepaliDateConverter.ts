@@ -198,6 +198,13 @@ export function formatBSDateEnglish(bsDate: BSDate): string {
   }`;
 }
 
+/**
+ * Format a BS month in English (e.g. "Kartik 2082")
+ */
+export function formatBSMonthEnglish(bsDate: Pick<BSDate, "year" | "month">) {
+  return `${NEPALI_MONTHS_ENGLISH[bsDate.month - 1]} ${bsDate.year}`;
+}
+
 /**
  * Format AD date for display
  */
@@ -0,0 +1,204 @@
+/**
+ * Place Name Normalizer Utility
+ * Reduces English and Nepali (Devanagari) spellings of a place to a common
+ * Latin search key, and measures how far apart two keys are for typo-tolerant
+ * matching.
+ */
+
+const DEVANAGARI_CONSONANTS: Record<string, string> = {
+  क: "k",
+  ख: "kh",
+  ग: "g",
+  घ: "gh",
+  ङ: "ng",
+  च: "ch",
+  छ: "chh",
+  ज: "j",
+  झ: "jh",
+  ञ: "n",
+  ट: "t",
+  ठ: "th",
+  ड: "d",
+  ढ: "dh",
+  ण: "n",
+  त: "t",
+  थ: "th",
+  द: "d",
+  ध: "dh",
+  न: "n",
+  प: "p",
+  फ: "ph",
+  ब: "b",
+  भ: "bh",
+  म: "m",
+  य: "y",
+  र: "r",
+  ल: "l",
+  व: "w",
+  श: "sh",
+  ष: "sh",
+  स: "s",
+  ह: "h",
+};
+
+const DEVANAGARI_VOWELS: Record<string, string> = {
+  अ: "a",
+  आ: "aa",
+  इ: "i",
+  ई: "i",
+  उ: "u",
+  ऊ: "u",
+  ऋ: "ri",
+  ए: "e",
+  ऐ: "ai",
+  ओ: "o",
+  औ: "au",
+};
+
+// Vowel signs replace a consonant's inherent "a"
+const DEVANAGARI_VOWEL_SIGNS: Record<string, string> = {
+  "ा": "aa",
+  "ि": "i",
+  "ी": "i",
+  "ु": "u",
+  "ू": "u",
+  "ृ": "ri",
+  "े": "e",
+  "ै": "ai",
+  "ो": "o",
+  "ौ": "au",
+};
+
+const DEVANAGARI_SIGNS: Record<string, string> = {
+  "ं": "n", // anusvara
+  "ँ": "n", // chandrabindu
+  "ः": "h", // visarga
+  "़": "", // nukta
+  "०": "0",
+  "१": "1",
+  "२": "2",
+  "३": "3",
+  "४": "4",
+  "५": "5",
+  "६": "6",
+  "७": "7",
+  "८": "8",
+  "९": "9",
+};
+
+const VIRAMA = "्";
+
+/**
+ * Romanize Devanagari text the way Nepali place names are usually written in
+ * English: consonants carry an inherent "a" unless followed by a vowel sign or
+ * virama, and the inherent "a" at the end of a word is not pronounced
+ * (पोखरा → pokharaa, वीरगञ्ज → wiraganj). Other characters pass through.
+ */
+export function transliterateDevanagari(text: string) {
+  const chars = Array.from(text);
+  let result = "";
+
+  chars.forEach((char, index) => {
+    const consonant = DEVANAGARI_CONSONANTS[char];
+    if (consonant === undefined) {
+      result +=
+        DEVANAGARI_VOWELS[char] ??
+        DEVANAGARI_VOWEL_SIGNS[char] ??
+        (char === VIRAMA ? "" : DEVANAGARI_SIGNS[char] ?? char);
+      return;
+    }
+
+    result += consonant;
+
+    const next = chars[index + 1];
+    const nextIsModifier =
+      next !== undefined &&
+      (next === VIRAMA || next === "़" || DEVANAGARI_VOWEL_SIGNS[next]);
+    const endsWord =
+      next === undefined ||
+      (DEVANAGARI_CONSONANTS[next] === undefined &&
+        DEVANAGARI_VOWELS[next] === undefined &&
+        DEVANAGARI_SIGNS[next] === undefined);
+
+    if (!nextIsModifier && !endsWord) {
+      result += "a";
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Lowercase Latin form of a place name: Devanagari romanized, accents and
+ * punctuation removed, whitespace collapsed ("Bīrgunj ", "BIRGUNJ" →
+ * "birgunj").
+ */
+export function normalizePlaceName(text: string) {
+  return transliterateDevanagari(text)
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Search key for a place name. On top of normalizePlaceName it folds the
+ * spelling differences common in romanized Nepali so they compare equal:
+ * aspirated consonants (th/t, dh/d, kh/k), v/w/b, doubled letters
+ * (aa/a, ee/i, oo/u) and the gunj/ganj suffix.
+ */
+export function foldPlaceName(text: string) {
+  return normalizePlaceName(text)
+    .replace(/ee/g, "i")
+    .replace(/oo/g, "u")
+    .replace(/([a-z])\1+/g, "$1")
+    .replace(/([bcdgjkpst])h/g, "$1")
+    .replace(/[vw]/g, "b")
+    .replace(/([a-z])\1+/g, "$1")
+    .replace(/g[au]nj\b/g, "ganj");
+}
+
+/**
+ * Damerau-Levenshtein (optimal string alignment) distance between two
+ * strings. Stops early and returns `maxDistance + 1` once the distance is
+ * known to exceed `maxDistance`.
+ */
+export function editDistance(a: string, b: string, maxDistance = Infinity) {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      );
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, (previousPrevious[j - 2] ?? 0) + 1);
+      }
+
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length] ?? 0;
+}
@@ -0,0 +1,67 @@
+import express from "express";
+import {
+  handleEsewaCallback,
+  handleRazorpayWebhook,
+} from "../services/payment/webhookService.js";
+import { handleServiceError } from "../lib/serviceError.js";
+
+// Mounted before the global JSON parser so Razorpay's raw body is available
+// for signature verification
+export const webhookRouter = express.Router();
+
+/**
+ * POST /webhooks/razorpay
+ * Razorpay server-to-server events (payment.captured, order.paid,
+ * payment.failed, refund.processed, refund.failed)
+ */
+webhookRouter.post(
+  "/razorpay",
+  express.raw({ type: "*/*" }),
+  async (req, res): Promise<any> => {
+    try {
+      const rawBody = Buffer.isBuffer(req.body)
+        ? req.body
+        : Buffer.from(JSON.stringify(req.body ?? {}));
+
+      const result = await handleRazorpayWebhook(
+        rawBody,
+        req.header("x-razorpay-signature")
+      );
+
+      return res.status(200).json({ message: "Webhook processed", result });
+    } catch (error) {
+      return handleServiceError(error, res, "Failed to process webhook");
+    }
+  }
+);
+
+/**
+ * GET|POST /webhooks/esewa?data=<base64>
+ * eSewa payment callback. eSewa redirects to the success/failure URL with the
+ * signed `data` payload; point ESEWA_SUCCESS_URL here or forward it from the
+ * frontend.
+ */
+const esewaCallback = async (
+  req: express.Request,
+  res: express.Response
+): Promise<any> => {
+  try {
+    const encodedData =
+      (typeof req.query.data === "string" ? req.query.data : undefined) ??
+      req.body?.data;
+
+    const result = await handleEsewaCallback(encodedData);
+
+    return res.status(200).json({ message: "Callback processed", result });
+  } catch (error) {
+    return handleServiceError(error, res, "Failed to process webhook");
+  }
+};
+
+webhookRouter.get("/esewa", esewaCallback);
+webhookRouter.post(
+  "/esewa",
+  express.json(),
+  express.urlencoded({ extended: false }),
+  esewaCallback
+);